@@ -12,16 +12,33 @@ import Footer from './components/Footer';
 import WaitlistModal from './components/WaitlistModal';
 import HipaaModal from './components/HipaaModal';
 import RefillRequestModal from './components/RefillRequestModal';
+import RefillStatusModal from './components/RefillStatusModal';
+import MedSyncModal from './components/MedSyncModal';
 import TransferRequestModal from './components/TransferRequestModal'; // Import the new modal
 import SplashModal from './components/SplashModal'; // Import the new SplashModal
+import AccountPage from './components/account/AccountPage';
+import { usePatientProfile, usePatientSession } from './lib/hooks';
+import type { PatientRefillRequest } from './lib/patientAccount';
 
-const App: React.FC = () => {
+type Page = 'home' | 'about' | 'account';
+
+interface AppProps {
+  /** The account page is opened directly by sign-in links (/account) */
+  initialPage?: Page;
+}
+
+const App: React.FC<AppProps> = ({ initialPage = 'home' }) => {
   const [isWaitlistModalOpen, setIsWaitlistModalOpen] = useState(false);
   const [isHipaaModalOpen, setIsHipaaModalOpen] = useState(false);
   const [isRefillModalOpen, setIsRefillModalOpen] = useState(false);
+  const [isRefillStatusModalOpen, setIsRefillStatusModalOpen] = useState(false);
+  const [isMedSyncModalOpen, setIsMedSyncModalOpen] = useState(false);
   const [isSplashModalOpen, setIsSplashModalOpen] = useState(false); // State for Splash modal
   const [isTransferModalOpen, setIsTransferModalOpen] = useState(false); // New state for Transfer modal
-  const [page, setPage] = useState<'home' | 'about'>('home');
+  const [page, setPage] = useState<Page>(initialPage);
+  const [refillToRepeat, setRefillToRepeat] = useState<PatientRefillRequest | null>(null);
+  const patientSession = usePatientSession();
+  const patientProfile = usePatientProfile(patientSession.session?.user.id ?? null);
   const [scrollToAnchor, setScrollToAnchor] = useState<string | null>(null);
   
   useEffect(() => {
@@ -52,7 +69,7 @@ const App: React.FC = () => {
     }
   }, [page, scrollToAnchor]);
 
-  const navigateTo = (targetPage: 'home' | 'about', anchor?: string) => {
+  const navigateTo = (targetPage: Page, anchor?: string) => {
     if (page !== targetPage) {
       setPage(targetPage);
     }
@@ -75,7 +92,21 @@ const App: React.FC = () => {
   const handleCloseHipaaModal = () => setIsHipaaModalOpen(false);
 
   const handleOpenRefillModal = () => setIsRefillModalOpen(true);
-  const handleCloseRefillModal = () => setIsRefillModalOpen(false);
+  const handleCloseRefillModal = () => {
+    setIsRefillModalOpen(false);
+    setRefillToRepeat(null);
+  };
+
+  const handleOpenRefillStatusModal = () => setIsRefillStatusModalOpen(true);
+  const handleCloseRefillStatusModal = () => setIsRefillStatusModalOpen(false);
+
+  const handleOpenMedSyncModal = () => setIsMedSyncModalOpen(true);
+  const handleCloseMedSyncModal = () => setIsMedSyncModalOpen(false);
+
+  const handleRequestRefillAgain = (request: PatientRefillRequest) => {
+    setRefillToRepeat(request);
+    setIsRefillModalOpen(true);
+  };
 
   // New handlers for Transfer modal
   const handleOpenTransferModal = () => setIsTransferModalOpen(true);
@@ -92,24 +123,42 @@ const App: React.FC = () => {
       <Header navigateTo={navigateTo} onOpenRefillModal={handleOpenRefillModal} />
         {page === 'home' ? (
           <main>
-            <Hero onOpenRefillModal={handleOpenRefillModal} onOpenTransferModal={handleOpenTransferModal} />
-            <Pillars />
+            <Hero
+              onOpenRefillModal={handleOpenRefillModal}
+              onOpenTransferModal={handleOpenTransferModal}
+              onOpenRefillStatusModal={handleOpenRefillStatusModal}
+            />
+            <Pillars onOpenMedSyncModal={handleOpenMedSyncModal} />
             <RPMBanner onJoinWaitlistClick={handleOpenWaitlistModal} />
             <Insurance />
             <Testimonials />
             <Location />
             <Contact />
           </main>
+        ) : page === 'account' ? (
+          <AccountPage
+            session={patientSession.session}
+            status={patientSession.status}
+            profile={patientProfile.profile}
+            onSendMagicLink={patientSession.sendMagicLink}
+            onSendSmsCode={patientSession.sendSmsCode}
+            onVerifySmsCode={patientSession.verifySmsCode}
+            onSignOut={patientSession.signOut}
+            onSaveProfile={patientProfile.save}
+            onRequestAgain={handleRequestRefillAgain}
+          />
         ) : (
           <AboutPage />
         )}
       <Footer navigateTo={navigateTo} onOpenHipaaModal={handleOpenHipaaModal} />
       <WaitlistModal isOpen={isWaitlistModalOpen} onClose={handleCloseWaitlistModal} />
       <HipaaModal isOpen={isHipaaModalOpen} onClose={handleCloseHipaaModal} />
-      <RefillRequestModal isOpen={isRefillModalOpen} onClose={handleCloseRefillModal} />
+      <RefillRequestModal isOpen={isRefillModalOpen} onClose={handleCloseRefillModal} profile={patientProfile.profile} requestAgain={refillToRepeat} />
+      <RefillStatusModal isOpen={isRefillStatusModalOpen} onClose={handleCloseRefillStatusModal} />
+      <MedSyncModal isOpen={isMedSyncModalOpen} onClose={handleCloseMedSyncModal} profile={patientProfile.profile} />
       <SplashModal isOpen={isSplashModalOpen} onClose={handleCloseSplashModal} />
       {/* Render the new TransferRequestModal */}
-      <TransferRequestModal isOpen={isTransferModalOpen} onClose={handleCloseTransferModal} />
+      <TransferRequestModal isOpen={isTransferModalOpen} onClose={handleCloseTransferModal} profile={patientProfile.profile} />
     </div>
   );
 };
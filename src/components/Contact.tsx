@@ -1,81 +1,24 @@
 
 
-import React, { useState } from 'react';
+import React from 'react';
+import { FormProvider } from 'react-hook-form';
 import { ContactFormDataSchema } from '@/lib/schemas';
-import type { ContactFormData } from '@/lib/schemas';
 import { useContactFormSubmission } from '@/lib/hooks';
-import { ZodError } from 'zod';
-
-type FormErrors = Partial<Record<keyof ContactFormData, string>>;
+import { useAbuseGuard } from '@/lib/antiAbuse';
+import { useSchemaForm } from '@/lib/forms';
+import { CheckboxField, HoneypotField, SelectField, TextAreaField, TextField } from './form';
 
 const Contact: React.FC = () => {
-  const [formData, setFormData] = useState<ContactFormData>({
-    name: '',
-    phone: '',
-    email: '',
-    reason: 'general',
-    message: '',
-    consent: false,
-  });
-  const [errors, setErrors] = useState<FormErrors>({});
-  const [status, setStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const abuseGuard = useAbuseGuard('contact');
   const { submit } = useContactFormSubmission();
-
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-    const { name, value, type } = e.target;
-    const checked = (e.target as HTMLInputElement).checked;
-    setFormData(prev => ({
-      ...prev,
-      [name]: type === 'checkbox' ? checked : value,
-    }));
-    // Clear error on change
-    if (errors[name as keyof ContactFormData]) {
-      setErrors(prev => ({ ...prev, [name]: undefined }));
-    }
-  };
-
-  const validate = (): FormErrors => {
-    try {
-      ContactFormDataSchema.parse(formData);
-      return {};
-    } catch (error) {
-      if (error instanceof ZodError) {
-        const newErrors: FormErrors = {};
-        error.errors.forEach(err => {
-          const path = err.path[0] as keyof ContactFormData;
-          newErrors[path] = err.message;
-        });
-        return newErrors;
-      }
-      return {};
-    }
-  };
-
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const validationErrors = validate();
-    if (Object.keys(validationErrors).length > 0) {
-      setErrors(validationErrors);
-      return;
-    }
-
-    setStatus('submitting');
-    setErrorMessage(null);
-    try {
-      await submit(formData);
-      setStatus('success');
-      setErrors({});
-      setErrorMessage(null);
-      setFormData({ name: '', phone: '', email: '', reason: 'general', message: '', consent: false });
-    } catch (error) {
-      setStatus('error');
-      setErrorMessage(error instanceof Error ? error.message : 'Failed to submit form');
-    }
-  };
-
-  const getInputClassName = (fieldName: keyof FormErrors) => 
-    `mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${errors[fieldName] ? 'border-red-500' : 'border-slate-300'}`;
+  const { form, status, errorMessage, handleSubmit } = useSchemaForm({
+    schema: ContactFormDataSchema,
+    defaultValues: { name: '', phone: '', email: '', reason: 'general', message: '', consent: false },
+    onSubmit: async data => {
+      await submit(data, { abuseSignals: await abuseGuard.collect() });
+    },
+    resetOnSuccess: true,
+  });
 
   return (
     <section id="contact" className="bg-cream py-16 md:py-24">
@@ -93,116 +36,50 @@ const Contact: React.FC = () => {
             </p>
           </div>
 
-          <form onSubmit={handleSubmit} className="mt-10 bg-white p-8 rounded-2xl shadow-lg space-y-6">
-            <div className="grid sm:grid-cols-2 gap-6">
-              <div>
-                <label htmlFor="name" className="block text-sm font-medium text-slate-700">Full Name</label>
-                <input 
-          type="text" 
-          name="name" 
-          id="name" 
-          autoComplete="name"
-          value={formData.name} 
-          onChange={handleChange} 
-          required 
-          className={getInputClassName('name')}
-        aria-invalid={errors.name ? "true" : "false"}
-          aria-describedby={errors.name ? 'name-error' : undefined}
-                />
-                {errors.name && <p id="name-error" className="mt-1 text-sm text-error">{errors.name}</p>}
-              </div>
-              <div>
-                <label htmlFor="phone" className="block text-sm font-medium text-slate-700">Phone</label>
-                <input 
-          type="tel" 
-          name="phone" 
-          id="phone" 
-          autoComplete="tel"
-          value={formData.phone} 
-          onChange={handleChange} 
-          required 
-          className={getInputClassName('phone')}
-        aria-invalid={errors.phone ? "true" : "false"}
-          aria-describedby={errors.phone ? 'phone-error' : undefined}
-                />
-                {errors.phone && <p id="phone-error" className="mt-1 text-sm text-error">{errors.phone}</p>}
+          <FormProvider {...form}>
+            <form onSubmit={handleSubmit} className="mt-10 bg-white p-8 rounded-2xl shadow-lg space-y-6">
+              <div className="grid sm:grid-cols-2 gap-6">
+                <TextField name="name" id="name" label="Full Name" autoComplete="name" required />
+                <TextField name="phone" id="phone" label="Phone" type="tel" autoComplete="tel" required />
               </div>
-            </div>
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-slate-700">Email Address</label>
-              <input 
-           type="email" 
-           name="email" 
-           id="email" 
-           autoComplete="email"
-           value={formData.email} 
-           onChange={handleChange} 
-           required 
-           className={getInputClassName('email')}
-         aria-invalid={errors.email ? "true" : "false"}
-           aria-describedby={errors.email ? 'email-error' : undefined}
-              />
-              {errors.email && <p id="email-error" className="mt-1 text-sm text-error">{errors.email}</p>}
-            </div>
-            <div>
-              <label htmlFor="reason" className="block text-sm font-medium text-slate-700">Reason for Contact</label>
-              <select 
-                id="reason" 
-                name="reason" 
-                value={formData.reason} 
-                onChange={handleChange} 
-                className="mt-1 block w-full pl-3 pr-10 py-2 text-base bg-white border border-slate-300 shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy sm:text-sm rounded-md"
+              <TextField name="email" id="email" label="Email Address" type="email" autoComplete="email" required />
+              <SelectField
+                name="reason"
+                id="reason"
+                label="Reason for Contact"
+                selectClassName="mt-1 block w-full pl-3 pr-10 py-2 text-base bg-white border border-slate-300 shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy sm:text-sm rounded-md"
               >
                 <option value="general">General Inquiry</option>
                 <option value="new">New Prescription</option>
                 <option value="transfer">Transfer Prescription</option>
                 <option value="refill">Refill Question</option>
                 <option value="rpm">RPM Waitlist</option>
-              </select>
-            </div>
-            <div>
-              <label htmlFor="message" className="block text-sm font-medium text-slate-700">Message</label>
-              <textarea 
-                id="message" 
-                name="message" 
-                rows={4} 
-                value={formData.message} 
-                onChange={handleChange} 
-                placeholder="Do not include health information..." 
-                className={getInputClassName('message')}
-                aria-invalid={errors.message ? "true" : "false"}
-                aria-describedby={`${errors.message ? 'message-error' : ''} phi-warning`.trim()}
-              ></textarea>
-              {errors.message && <p id="message-error" className="mt-1 text-sm text-error">{errors.message}</p>}
-            </div>
-            <div className="relative flex items-start">
-              <div className="flex items-center h-5">
-                <input 
-                  id="consent" 
-                  name="consent" 
-                  type="checkbox" 
-                  checked={formData.consent} 
-                  onChange={handleChange} 
-                  required 
-                  className={`focus:ring-burgundy h-4 w-4 text-burgundy rounded ${errors.consent ? 'border-red-500' : 'border-slate-300'}`}
-              aria-invalid={errors.consent ? "true" : "false"}
-                  aria-describedby="consent-description"
-                />
-              </div>
-              <div className="ml-3 text-sm">
-                <label htmlFor="consent" className="font-medium text-slate-700">I understand this form is not for PHI or medical emergencies.</label>
-                <p id="consent-description" className="text-slate-500">For emergencies, please call 911.</p>
+              </SelectField>
+              <TextAreaField
+                name="message"
+                id="message"
+                label="Message"
+                rows={4}
+                placeholder="Do not include health information..."
+                describedBy="phi-warning"
+              />
+              <CheckboxField
+                name="consent"
+                id="consent"
+                label="I understand this form is not for PHI or medical emergencies."
+                description="For emergencies, please call 911."
+                required
+              />
+              <div>
+                <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-burgundy disabled:bg-slate-400">
+                  {status === 'submitting' ? 'Sending...' : 'Send Message'}
+                </button>
               </div>
-            </div>
-            {errors.consent && <p id="consent-error" className="-mt-4 text-sm text-error">{errors.consent}</p>}
-            <div>
-              <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-burgundy disabled:bg-slate-400">
-                {status === 'submitting' ? 'Sending...' : 'Send Message'}
-              </button>
-            </div>
-            {status === 'success' && <p className="text-center text-success" aria-live="polite">Thank you! Your message has been sent.</p>}
-            {status === 'error' && <p className="text-center text-error" aria-live="polite">{errorMessage || 'Something went wrong. Please try again.'}</p>}
-          </form>
+              {status === 'success' && <p className="text-center text-success" aria-live="polite">Thank you! Your message has been sent.</p>}
+              {status === 'error' && <p className="text-center text-error" aria-live="polite">{errorMessage || 'Something went wrong. Please try again.'}</p>}
+              <HoneypotField id="contact-website" inputRef={abuseGuard.honeypotRef} />
+            </form>
+          </FormProvider>
         </div>
       </div>
     </section>
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { MenuIcon, XIcon } from './icons';
 
 interface HeaderProps {
-  navigateTo: (page: 'home' | 'about', anchor?: string) => void;
+  navigateTo: (page: 'home' | 'about' | 'account', anchor?: string) => void;
   onOpenRefillModal: () => void; // New prop for opening refill modal
 }
 
@@ -15,6 +15,7 @@ const Header: React.FC<HeaderProps> = ({ navigateTo, onOpenRefillModal }) => {
     { name: 'RPM', href: '#rpm' },
     { name: 'Location', href: '#location' },
     { name: 'Contact', href: '#contact' },
+    { name: 'My Prescriptions', href: 'account' },
   ];
 
   const toggleMobileMenu = () => {
@@ -28,7 +29,7 @@ const Header: React.FC<HeaderProps> = ({ navigateTo, onOpenRefillModal }) => {
       const anchor = href.substring(1);
       navigateTo('home', anchor);
     } else {
-      navigateTo('about');
+      navigateTo(href === 'account' ? 'account' : 'about');
     }
     
     if (isMobileMenuOpen) {
@@ -3,9 +3,10 @@ import React from 'react';
 interface HeroProps {
   onOpenRefillModal: () => void;
   onOpenTransferModal: () => void; // New prop for opening transfer modal
+  onOpenRefillStatusModal: () => void;
 }
 
-const Hero: React.FC<HeroProps> = ({ onOpenRefillModal, onOpenTransferModal }) => {
+const Hero: React.FC<HeroProps> = ({ onOpenRefillModal, onOpenTransferModal, onOpenRefillStatusModal }) => {
   return (
     <section className="relative hero-bg bg-center bg-cover min-h-[60vh] md:min-h-[70vh] lg:min-h-screen flex items-center overflow-hidden">
       <div
@@ -38,6 +39,15 @@ const Hero: React.FC<HeroProps> = ({ onOpenRefillModal, onOpenTransferModal }) =
               Transfer Prescription
             </button>
           </div>
+          <p className="mt-6 text-gray-300">
+            Already requested a refill?{' '}
+            <button
+              onClick={onOpenRefillStatusModal}
+              className="font-semibold text-white underline underline-offset-4 hover:text-(--color-brand-green) transition-colors"
+            >
+              Check Refill Status
+            </button>
+          </p>
         </div>
       </div>
     </section>
@@ -0,0 +1,207 @@
+import React from 'react';
+import { FormProvider, useFieldArray } from 'react-hook-form';
+import { InboundTransferFormDataSchema, NameSuffixSchema } from '@/lib/schemas';
+import type { InboundPrescriptionItem, PharmacyDirectoryEntry } from '@/lib/schemas';
+import type { PatientFormValues } from '@/lib/patientAccount';
+import { useInboundTransferFormSubmission } from '@/lib/hooks';
+import { useSchemaForm } from '@/lib/forms';
+import { XIcon } from './icons';
+import PharmacySearch from './PharmacySearch';
+import { ArrayFieldError, CheckboxField, RadioGroupField, ROW_LABEL_CLASS_NAME, SelectField, TextAreaField, TextField } from './form';
+
+interface InboundTransferFormProps {
+  onClose: () => void;
+  onBack: () => void;
+  /** A signed-in patient's details, filled in for them */
+  prefill?: PatientFormValues | null;
+}
+
+const NEW_PRESCRIPTION: InboundPrescriptionItem = { medicationName: '', rxNumber: '' };
+
+const InboundTransferForm: React.FC<InboundTransferFormProps> = ({ onClose, onBack, prefill }) => {
+  const { submit } = useInboundTransferFormSubmission();
+  const { form, status, errorMessage, handleSubmit } = useSchemaForm({
+    schema: InboundTransferFormDataSchema,
+    defaultValues: {
+      firstName: '',
+      middleName: '',
+      lastName: '',
+      suffix: '',
+      dob: '',
+      phone: '',
+      email: '',
+      currentPharmacyName: '',
+      currentPharmacyPhone: '',
+      currentPharmacyCity: '',
+      currentPharmacyState: '',
+      currentPharmacyNCPDP: '',
+      prescriptions: [NEW_PRESCRIPTION],
+      prescriberName: '',
+      prescriberPhone: '',
+      preferredService: 'pickup',
+      notes: '',
+      consent: false,
+    },
+    onSubmit: async data => {
+      await submit(data);
+    },
+    prefill,
+  });
+  const { fields: prescriptionFields, append, remove } = useFieldArray({ control: form.control, name: 'prescriptions' });
+
+  const addPrescription = () => {
+    append(NEW_PRESCRIPTION, { shouldFocus: false });
+    form.clearErrors('prescriptions');
+  };
+
+  const removePrescription = (index: number) => {
+    remove(index);
+    // Row indexes shift, so drop any row-level errors
+    form.clearErrors('prescriptions');
+  };
+
+  // Fill the current pharmacy from a directory search result
+  const handlePharmacySelect = (pharmacy: PharmacyDirectoryEntry) => {
+    form.setValue('currentPharmacyName', pharmacy.name);
+    form.setValue('currentPharmacyPhone', pharmacy.phone);
+    form.setValue('currentPharmacyCity', pharmacy.city);
+    form.setValue('currentPharmacyState', pharmacy.state);
+    form.setValue('currentPharmacyNCPDP', pharmacy.ncpdpId);
+    form.clearErrors(['currentPharmacyName', 'currentPharmacyPhone', 'currentPharmacyNCPDP']);
+  };
+
+  if (status === 'success') {
+    return (
+      <div className="grow text-center py-8" aria-live="polite">
+        <h3 className="text-2xl font-semibold text-success">Transfer Request Received!</h3>
+        <p className="mt-2 text-slate-600">Welcome to Elevated WellnessRX. Our team will contact your current pharmacy and prescriber to move your prescriptions, and we will call you when they are ready.</p>
+        <button onClick={onClose} className="mt-6 w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark">Close</button>
+      </div>
+    );
+  }
+
+  return (
+    <FormProvider {...form}>
+      <form onSubmit={handleSubmit} className="grow space-y-4 overflow-y-auto pr-2 hide-scrollbar">
+        <fieldset>
+          <legend className="text-lg font-semibold text-slate-800">Patient Information</legend>
+          <div className="mt-2 space-y-4">
+            <div className="grid sm:grid-cols-2 gap-4">
+              <TextField name="firstName" id="inbound-firstName" label="First Name" autoComplete="given-name" required />
+              <TextField name="middleName" id="inbound-middleName" label="Middle Name (Optional)" autoComplete="additional-name" />
+            </div>
+            <div className="grid sm:grid-cols-3 gap-4">
+              <TextField name="lastName" id="inbound-lastName" label="Last Name" autoComplete="family-name" required className="sm:col-span-2" />
+              <SelectField name="suffix" id="inbound-suffix" label="Suffix">
+                <option value="">None</option>
+                {NameSuffixSchema.options.map(suffix => (
+                  <option key={suffix} value={suffix}>{suffix}</option>
+                ))}
+              </SelectField>
+            </div>
+            <div className="grid sm:grid-cols-3 gap-4">
+              <TextField name="dob" id="inbound-dob" label="Date of Birth" type="date" required />
+              <TextField name="phone" id="inbound-phone" label="Phone" type="tel" autoComplete="tel" required />
+              <TextField name="email" id="inbound-email" label="Email (Optional)" type="email" autoComplete="email" />
+            </div>
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="text-lg font-semibold text-slate-800">Current Pharmacy</legend>
+          <div className="mt-2 space-y-4">
+            <PharmacySearch id="inbound-pharmacySearch" onSelect={handlePharmacySelect} />
+            <div className="grid sm:grid-cols-2 gap-4">
+              <TextField name="currentPharmacyName" id="inbound-currentPharmacyName" label="Pharmacy Name" required />
+              <TextField name="currentPharmacyPhone" id="inbound-currentPharmacyPhone" label="Pharmacy Phone" type="tel" required />
+            </div>
+            <div className="grid sm:grid-cols-3 gap-4">
+              <TextField name="currentPharmacyCity" id="inbound-currentPharmacyCity" label="City (Optional)" />
+              <TextField name="currentPharmacyState" id="inbound-currentPharmacyState" label="State (Optional)" placeholder="OH" maxLength={2} />
+              <TextField name="currentPharmacyNCPDP" id="inbound-currentPharmacyNCPDP" label="NCPDP (Optional)" inputMode="numeric" maxLength={7} />
+            </div>
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="text-lg font-semibold text-slate-800">Prescriptions to Transfer</legend>
+          <div className="mt-2 space-y-3">
+            {prescriptionFields.map((field, index) => (
+              <div key={field.id} className="flex items-start gap-3">
+                <TextField
+                  name={`prescriptions.${index}.medicationName`}
+                  id={`inbound-medicationName-${index}`}
+                  label="Medication"
+                  labelClassName={ROW_LABEL_CLASS_NAME}
+                  className="flex-1"
+                  required
+                />
+                <TextField
+                  name={`prescriptions.${index}.rxNumber`}
+                  id={`inbound-rxNumber-${index}`}
+                  label="Rx Number (Optional)"
+                  labelClassName={ROW_LABEL_CLASS_NAME}
+                  className="flex-1"
+                />
+                <button
+                  type="button"
+                  onClick={() => removePrescription(index)}
+                  disabled={prescriptionFields.length === 1}
+                  aria-label={`Remove prescription ${index + 1}`}
+                  className="mt-6 p-2 rounded-full text-slate-500 hover:bg-rose-mist hover:text-slate-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                  <XIcon className="h-4 w-4" aria-hidden="true" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button type="button" onClick={addPrescription} className="mt-3 text-sm font-semibold text-burgundy hover:text-burgundy-dark">
+            + Add another prescription
+          </button>
+          <ArrayFieldError id="inbound-prescriptions-error" name="prescriptions" />
+        </fieldset>
+
+        <fieldset>
+          <legend className="text-lg font-semibold text-slate-800">Prescriber</legend>
+          <div className="grid sm:grid-cols-2 gap-4 mt-2">
+            <TextField name="prescriberName" id="inbound-prescriberName" label="Prescriber Name" required placeholder="e.g., Dr. Jane Smith" />
+            <TextField name="prescriberPhone" id="inbound-prescriberPhone" label="Prescriber Phone (Optional)" type="tel" />
+          </div>
+        </fieldset>
+
+        <RadioGroupField
+          name="preferredService"
+          legend="Preferred Service"
+          optionsClassName="mt-2 flex gap-6"
+          options={[
+            { id: 'inbound-service-pickup', value: 'pickup', label: 'Pickup at Pharmacy' },
+            { id: 'inbound-service-delivery', value: 'delivery', label: 'Local Delivery' },
+          ]}
+        />
+
+        <TextAreaField name="notes" id="inbound-notes" label="Additional Notes (Optional)" rows={2} />
+
+        <CheckboxField
+          name="consent"
+          id="inbound-consent"
+          label="I authorize Elevated WellnessRX to request these prescriptions from my current pharmacy and prescriber."
+          required
+          className="pt-2"
+          errorClassName="-mt-3"
+        />
+
+        <div className="pt-4 flex flex-col sm:flex-row gap-3">
+          <button type="button" onClick={onBack} disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-slate-300 rounded-2xl shadow-sm text-base font-medium text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-50">
+            Back
+          </button>
+          <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+            {status === 'submitting' ? 'Submitting Request...' : 'Submit Transfer Request'}
+          </button>
+        </div>
+        {status === 'error' && <p className="text-center text-sm text-error" aria-live="polite">{errorMessage}</p>}
+      </form>
+    </FormProvider>
+  );
+};
+
+export default InboundTransferForm;
@@ -0,0 +1,261 @@
+import React, { useMemo } from 'react';
+import { FormProvider, useFieldArray } from 'react-hook-form';
+import { MedSyncEnrollmentFormDataSchema, NameSuffixSchema } from '@/lib/schemas';
+import type { PatientProfile } from '@/lib/schemas';
+import { useMedSyncEnrollmentSubmission } from '@/lib/hooks';
+import { useAbuseGuard } from '@/lib/antiAbuse';
+import { useSchemaForm } from '@/lib/forms';
+import { toPatientFormValues } from '@/lib/patientAccount';
+import { XIcon } from './icons';
+import {
+  ArrayFieldError,
+  CheckboxField,
+  HoneypotField,
+  RadioGroupField,
+  ROW_LABEL_CLASS_NAME,
+  SelectField,
+  TextAreaField,
+  TextField,
+} from './form';
+
+interface MedSyncModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** A signed-in patient's details, filled in for them */
+  profile?: PatientProfile | null;
+}
+
+const NEW_MEDICATION = { rxNumber: '', medicationName: '', quantity: '', daysSupply: '30', daysOnHand: '' };
+
+const SYNC_DAYS = Array.from({ length: 28 }, (_, index) => index + 1);
+
+const MedSyncModal: React.FC<MedSyncModalProps> = ({ isOpen, onClose, profile }) => {
+  const prefill = useMemo(() => (profile ? toPatientFormValues(profile) : null), [profile]);
+  const abuseGuard = useAbuseGuard('med_sync', isOpen);
+  const { submit } = useMedSyncEnrollmentSubmission();
+  const { form, status, errorMessage, handleSubmit } = useSchemaForm({
+    schema: MedSyncEnrollmentFormDataSchema,
+    defaultValues: {
+      firstName: '',
+      middleName: '',
+      lastName: '',
+      suffix: '',
+      dob: '',
+      phone: '',
+      email: '',
+      medications: [NEW_MEDICATION],
+      syncDay: '',
+      preferredService: 'pickup',
+      notes: '',
+      consent: false,
+    },
+    onSubmit: async data => {
+      await submit(data, { abuseSignals: await abuseGuard.collect() });
+    },
+    isOpen,
+    prefill,
+  });
+  const { fields: medicationFields, append, remove } = useFieldArray({ control: form.control, name: 'medications' });
+
+  const addMedication = () => {
+    append(NEW_MEDICATION, { shouldFocus: false });
+    form.clearErrors('medications');
+  };
+
+  const removeMedication = (index: number) => {
+    remove(index);
+    // Row indexes shift, so drop any row-level errors
+    form.clearErrors('medications');
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="med-sync-modal-title"
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+    >
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-slate-900/70 backdrop-blur-sm transition-opacity" onClick={onClose} aria-hidden="true"></div>
+
+      {/* Modal Panel */}
+      <div className="relative bg-white w-full max-w-lg p-8 rounded-2xl shadow-xl transform transition-all flex flex-col max-h-[90vh]">
+        <div className="flex items-start justify-between border-b border-slate-200 pb-4 mb-4">
+          <div>
+            <h2 id="med-sync-modal-title" className="text-2xl font-bold text-slate-900">
+              Enroll in Med Sync
+            </h2>
+            <p className="mt-2 text-slate-600">
+              Pick up all your prescriptions on the same day each month.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close Med Sync enrollment form"
+            className="p-2 -mr-2 -mt-2 rounded-full text-slate-500 hover:bg-rose-mist hover:text-slate-800 transition-colors"
+          >
+            <XIcon className="h-6 w-6" aria-hidden="true" />
+          </button>
+        </div>
+
+        {status === 'success' ? (
+          <div className="grow text-center py-8 overflow-y-auto" aria-live="polite">
+            <h3 className="text-2xl font-semibold text-success">Enrollment Received!</h3>
+            <p className="mt-2 text-slate-600">
+              Thank you. Our pharmacist will review your medications and call you to confirm your sync day. Some prescriptions may
+              need a one-time short fill to line them up.
+            </p>
+            <button
+              onClick={onClose}
+              className="mt-6 w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark"
+            >
+              Close
+            </button>
+          </div>
+        ) : (
+          <FormProvider {...form}>
+            <form onSubmit={handleSubmit} className="grow space-y-6 overflow-y-auto pr-2 hide-scrollbar">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <TextField name="firstName" id="med-sync-firstName" label="First Name" autoComplete="given-name" required />
+                <TextField name="middleName" id="med-sync-middleName" label="Middle Name (Optional)" autoComplete="additional-name" />
+              </div>
+              <div className="grid sm:grid-cols-3 gap-4">
+                <TextField name="lastName" id="med-sync-lastName" label="Last Name" autoComplete="family-name" required className="sm:col-span-2" />
+                <SelectField name="suffix" id="med-sync-suffix" label="Suffix">
+                  <option value="">None</option>
+                  {NameSuffixSchema.options.map(suffix => (
+                    <option key={suffix} value={suffix}>{suffix}</option>
+                  ))}
+                </SelectField>
+              </div>
+              <TextField name="dob" id="med-sync-dob" label="Date of Birth" type="date" required />
+              <TextField name="phone" id="med-sync-phone" label="Phone Number" type="tel" required />
+              <TextField name="email" id="med-sync-email" label="Email Address (Optional)" type="email" />
+              <fieldset>
+                <legend className="text-sm font-medium text-slate-700">Medications <span className="text-red-500">*</span></legend>
+                <p className="mt-1 text-xs text-slate-500">Days on hand is how many days your current supply will last from today.</p>
+                <div className="mt-2 space-y-3">
+                  {medicationFields.map((field, index) => (
+                    <div key={field.id} className="p-3 rounded-2xl border border-slate-200 space-y-3">
+                      <div className="flex items-start gap-3">
+                        <TextField
+                          name={`medications.${index}.rxNumber`}
+                          id={`med-sync-rxNumber-${index}`}
+                          label="Rx Number"
+                          labelClassName={ROW_LABEL_CLASS_NAME}
+                          className="flex-1"
+                          required
+                        />
+                        <TextField
+                          name={`medications.${index}.medicationName`}
+                          id={`med-sync-medicationName-${index}`}
+                          label="Medication (Optional)"
+                          labelClassName={ROW_LABEL_CLASS_NAME}
+                          className="flex-1"
+                          placeholder="e.g., Lisinopril"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeMedication(index)}
+                          disabled={medicationFields.length === 1}
+                          aria-label={`Remove medication ${index + 1}`}
+                          className="mt-6 p-2 rounded-full text-slate-500 hover:bg-rose-mist hover:text-slate-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                        >
+                          <XIcon className="h-4 w-4" aria-hidden="true" />
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-3 gap-3">
+                        <TextField
+                          name={`medications.${index}.quantity`}
+                          id={`med-sync-quantity-${index}`}
+                          label="Quantity"
+                          labelClassName={ROW_LABEL_CLASS_NAME}
+                          type="number"
+                          min={1}
+                          required
+                        />
+                        <TextField
+                          name={`medications.${index}.daysSupply`}
+                          id={`med-sync-daysSupply-${index}`}
+                          label="Days Supply"
+                          labelClassName={ROW_LABEL_CLASS_NAME}
+                          type="number"
+                          min={1}
+                          required
+                        />
+                        <TextField
+                          name={`medications.${index}.daysOnHand`}
+                          id={`med-sync-daysOnHand-${index}`}
+                          label="Days on Hand"
+                          labelClassName={ROW_LABEL_CLASS_NAME}
+                          type="number"
+                          min={0}
+                          required
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={addMedication}
+                  className="mt-3 text-sm font-semibold text-burgundy hover:text-burgundy-dark"
+                >
+                  + Add another medication
+                </button>
+                <ArrayFieldError id="med-sync-medications-error" name="medications" />
+              </fieldset>
+
+              <SelectField name="syncDay" id="med-sync-syncDay" label="Preferred Sync Day">
+                <option value="">Select a day of the month</option>
+                {SYNC_DAYS.map(day => (
+                  <option key={day} value={String(day)}>{day}</option>
+                ))}
+              </SelectField>
+
+              <RadioGroupField
+                name="preferredService"
+                legend="Preferred Service"
+                options={[
+                  { id: 'med-sync-service-pickup', value: 'pickup', label: 'Pickup at Pharmacy' },
+                  { id: 'med-sync-service-delivery', value: 'delivery', label: 'Local Delivery' },
+                ]}
+              />
+
+              <TextAreaField
+                name="notes"
+                id="med-sync-notes"
+                label="Additional Notes (Optional)"
+                rows={2}
+                placeholder="Anything we should know about your medications?"
+              />
+
+              <CheckboxField
+                name="consent"
+                id="med-sync-consent"
+                label="I authorize the pharmacy to refill these prescriptions together each month on my sync day."
+                description="You can cancel Med Sync at any time by calling us."
+                required
+                className="pt-2"
+              />
+
+              <div className="pt-4">
+                <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-burgundy disabled:bg-slate-400">
+                  {status === 'submitting' ? 'Enrolling...' : 'Enroll in Med Sync'}
+                </button>
+              </div>
+              {status === 'error' && <p className="text-center text-sm text-error" aria-live="polite">{errorMessage}</p>}
+              <HoneypotField id="med-sync-website" inputRef={abuseGuard.honeypotRef} />
+            </form>
+          </FormProvider>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MedSyncModal;
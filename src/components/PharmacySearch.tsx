@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { PharmacyDirectoryEntry } from '@/lib/schemas';
+import { usePharmacySearch } from '@/lib/hooks';
+
+interface PharmacySearchProps {
+  id: string;
+  onSelect: (pharmacy: PharmacyDirectoryEntry) => void;
+}
+
+const PharmacySearch: React.FC<PharmacySearchProps> = ({ id, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const { results, status } = usePharmacySearch(query);
+  const listboxId = `${id}-results`;
+  const showResults = isOpen && query.trim().length >= 2;
+
+  const handleSelect = (pharmacy: PharmacyDirectoryEntry) => {
+    onSelect(pharmacy);
+    setQuery(pharmacy.name);
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showResults || results.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev + 1) % results.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev <= 0 ? results.length - 1 : prev - 1));
+    } else if (e.key === 'Enter' && activeIndex >= 0) {
+      e.preventDefault();
+      handleSelect(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <label htmlFor={id} className="block text-sm font-medium text-slate-700">Find Pharmacy (Optional)</label>
+      <input
+        type="text"
+        id={id}
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+        value={query}
+        onChange={e => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search by name, city, ZIP, or NCPDP ID"
+        autoComplete="off"
+        className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy"
+      />
+      {showResults && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full max-h-60 overflow-y-auto bg-white border border-slate-200 rounded-md shadow-lg"
+        >
+          {status === 'searching' && results.length === 0 && (
+            <li className="px-3 py-2 text-sm text-slate-500">Searching...</li>
+          )}
+          {status === 'idle' && results.length === 0 && (
+            <li className="px-3 py-2 text-sm text-slate-500">No pharmacies found. You can enter the details below.</li>
+          )}
+          {status === 'error' && (
+            <li className="px-3 py-2 text-sm text-error">Search is unavailable. Please enter the details below.</li>
+          )}
+          {results.map((pharmacy, index) => (
+            <li
+              key={pharmacy.ncpdpId}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => handleSelect(pharmacy)}
+              className={`px-3 py-2 text-sm cursor-pointer ${index === activeIndex ? 'bg-rose-mist' : 'hover:bg-slate-50'}`}
+            >
+              <span className="font-medium text-slate-800">{pharmacy.name}</span>
+              <span className="block text-slate-500">
+                {pharmacy.address1}, {pharmacy.city}, {pharmacy.state} {pharmacy.zip} &middot; NCPDP {pharmacy.ncpdpId}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PharmacySearch;
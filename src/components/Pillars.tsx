@@ -11,6 +11,7 @@ const pillars = [
     imageUrl: 'https://images.unsplash.com/photo-1587854692152-cbe660dbde88?auto=format&fit=crop&w=800&q=80',
     title: 'Med Sync',
     description: 'Align all your prescriptions to be refilled on the same day each month.',
+    action: 'medSync',
   },
   {
     imageUrl: 'https://iili.io/KthU4R4.png',
@@ -34,7 +35,11 @@ const pillars = [
   },
 ];
 
-const Pillars: React.FC = () => {
+interface PillarsProps {
+  onOpenMedSyncModal: () => void;
+}
+
+const Pillars: React.FC<PillarsProps> = ({ onOpenMedSyncModal }) => {
   return (
     <section id="services" className="py-16 md:py-24 bg-pearl">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
@@ -55,6 +60,15 @@ const Pillars: React.FC = () => {
                 </div>
                 <h3 className="mt-2 text-xl font-semibold text-slate-900">{pillar.title}</h3>
                 <p className="mt-2 text-base text-slate-600">{pillar.description}</p>
+                {pillar.action === 'medSync' && (
+                  <button
+                    type="button"
+                    onClick={onOpenMedSyncModal}
+                    className="mt-4 text-sm font-semibold text-burgundy hover:text-burgundy-dark"
+                  >
+                    Enroll in Med Sync &rarr;
+                  </button>
+                )}
               </div>
             );
           })}
@@ -1,116 +1,131 @@
-import React, { useState, useEffect } from 'react';
-import { RefillFormDataSchema } from '@/lib/schemas';
-import type { RefillFormData } from '@/lib/schemas';
-import { useRefillFormSubmission } from '@/lib/hooks';
-import { ZodError } from 'zod';
+import React, { useMemo, useState } from 'react';
+import { FormProvider, useFieldArray } from 'react-hook-form';
+import { RefillFormDataSchema, NameSuffixSchema } from '@/lib/schemas';
+import type { PatientProfile, PrescriptionItem, RefillFormData } from '@/lib/schemas';
+import { useIdempotencyKey, useRefillFormSubmission } from '@/lib/hooks';
+import { BestRXRejectionError } from '@/lib/bestrxClient';
+import type { RefillRxResult } from '@/lib/bestrx';
+import type { RefillRequestOutcome } from '@/lib/hooks';
+import { useSchemaForm } from '@/lib/forms';
+import { toPatientFormValues, toRefillAgainValues } from '@/lib/patientAccount';
+import type { PatientRefillRequest } from '@/lib/patientAccount';
+import { formatConfirmationCode } from '@/lib/confirmationCode';
 import { XIcon } from './icons';
+import { ArrayFieldError, CheckboxField, RadioGroupField, ROW_LABEL_CLASS_NAME, SelectField, TextAreaField, TextField } from './form';
 
 interface RefillRequestModalProps {
   isOpen: boolean;
   onClose: () => void;
+  /** A signed-in patient's details, filled in for them */
+  profile?: PatientProfile | null;
+  /** An earlier request of the patient's to repeat */
+  requestAgain?: PatientRefillRequest | null;
 }
 
-type FormErrors = Partial<Record<keyof RefillFormData, string>>;
+const NEW_PRESCRIPTION: PrescriptionItem = { rxNumber: '', medicationName: '' };
 
-const RefillRequestModal: React.FC<RefillRequestModalProps> = ({ isOpen, onClose }) => {
-  const [formData, setFormData] = useState<RefillFormData>({
-    patientName: '',
-    dob: '',
-    phone: '',
-    email: '',
-    prescriptionNumbers: '',
-    medicationNames: '',
-    preferredService: 'pickup',
-    notes: '',
-    consent: false,
-  });
-  const [errors, setErrors] = useState<FormErrors>({});
-  const [status, setStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const { submit } = useRefillFormSubmission();
+interface ConfirmationCodeNoticeProps {
+  code: string;
+  /** What happens to the confirmation email, when the patient gave an email address */
+  emailNote: string | null;
+}
 
-  // Reset form when modal is closed
-  useEffect(() => {
-    if (!isOpen) {
-      setTimeout(() => {
-        setFormData({
-          patientName: '',
-          dob: '',
-          phone: '',
-          email: '',
-          prescriptionNumbers: '',
-          medicationNames: '',
-          preferredService: 'pickup',
-          notes: '',
-          consent: false,
-        });
-        setStatus('idle');
-        setErrors({});
-        setErrorMessage(null);
-      }, 300); // match transition duration
-    }
-  }, [isOpen]);
+const ConfirmationCodeNotice: React.FC<ConfirmationCodeNoticeProps> = ({ code, emailNote }) => (
+  <div className="mt-6 p-4 rounded-2xl bg-rose-mist">
+    <p className="text-sm font-medium text-slate-700">Your confirmation code</p>
+    <p className="mt-1 text-2xl font-bold tracking-widest text-burgundy">{formatConfirmationCode(code)}</p>
+    <p className="mt-2 text-sm text-slate-600">
+      Use it with your date of birth under Check Refill Status to see when your refill is ready.
+      {emailNote && ` ${emailNote}`}
+    </p>
+  </div>
+);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-    const { name, value, type } = e.target;
-    const checked = (e.target as HTMLInputElement).checked;
-    setFormData(prev => ({
-      ...prev,
-      [name]: type === 'checkbox' ? checked : value,
-    }));
-    // Clear error on change
-    if (errors[name as keyof RefillFormData]) {
-      setErrors(prev => ({ ...prev, [name]: undefined }));
-    }
-  };
+const RejectedPrescriptionList: React.FC<{ results: RefillRxResult[] }> = ({ results }) => (
+  <div className="mt-6 text-left">
+    <h4 className="text-sm font-semibold text-slate-800">Needs Follow-up</h4>
+    <ul className="mt-2 space-y-2">
+      {results.map((rx, index) => (
+        <li key={`${rx.rxNumber}-${index}`} className="p-3 rounded-md bg-red-50 border border-red-200 text-sm text-slate-700">
+          <span className="font-medium">Rx #{rx.rxNumber}</span>
+          {rx.medicationName && <span> &middot; {rx.medicationName}</span>}
+          <p className="mt-1 text-error">{rx.message}</p>
+        </li>
+      ))}
+    </ul>
+    <p className="mt-3 text-sm text-slate-600">Please call us at (614) 349-5140 so we can help with these prescriptions.</p>
+  </div>
+);
 
-  const validate = (): FormErrors => {
-    try {
-      RefillFormDataSchema.parse(formData);
-      return {};
-    } catch (error) {
-      if (error instanceof ZodError) {
-        const newErrors: FormErrors = {};
-        error.errors.forEach(err => {
-          const path = err.path[0] as keyof RefillFormData;
-          newErrors[path] = err.message;
-        });
-        return newErrors;
+const RefillRequestModal: React.FC<RefillRequestModalProps> = ({ isOpen, onClose, profile, requestAgain }) => {
+  const [result, setResult] = useState<RefillRequestOutcome | null>(null);
+  // Each prescription's reason when BestRX turned the whole request down
+  const [rejectedResults, setRejectedResults] = useState<RefillRxResult[]>([]);
+  const prefill = useMemo(
+    () =>
+      profile || requestAgain
+        ? { ...(requestAgain && toRefillAgainValues(requestAgain)), ...(profile && toPatientFormValues(profile)) }
+        : null,
+    [profile, requestAgain]
+  );
+  // Also names the request in the offline outbox, so a resubmitted request is queued once
+  const idempotencyKey = useIdempotencyKey<RefillFormData>();
+  const { submit } = useRefillFormSubmission();
+  const { form, status, errorMessage, handleSubmit } = useSchemaForm({
+    schema: RefillFormDataSchema,
+    defaultValues: {
+      firstName: '',
+      middleName: '',
+      lastName: '',
+      suffix: '',
+      dob: '',
+      phone: '',
+      email: '',
+      prescriptions: [NEW_PRESCRIPTION],
+      preferredService: 'pickup',
+      notes: '',
+      consent: false,
+    },
+    onSubmit: async data => {
+      setRejectedResults([]);
+      try {
+        setResult(await submit(data, { requestId: idempotencyKey.keyFor(data) }));
+      } catch (error) {
+        if (error instanceof BestRXRejectionError) {
+          setRejectedResults(error.results.filter(rx => rx.status === 'rejected'));
+        }
+        throw error;
       }
-      return {};
-    }
-  };
+    },
+    isOpen,
+    prefill,
+    onReset: () => {
+      setResult(null);
+      setRejectedResults([]);
+      idempotencyKey.reset();
+    },
+  });
+  const { fields: prescriptionFields, append, remove } = useFieldArray({ control: form.control, name: 'prescriptions' });
 
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    setErrorMessage(null);
-    const validationErrors = validate();
-    if (Object.keys(validationErrors).length > 0) {
-      setErrors(validationErrors);
-      return;
-    }
+  const addPrescription = () => {
+    append(NEW_PRESCRIPTION, { shouldFocus: false });
+    form.clearErrors('prescriptions');
+  };
 
-    setStatus('submitting');
-    try {
-      await submit(formData);
-      setStatus('success');
-      setErrors({});
-      setErrorMessage(null);
-    } catch (error) {
-      setStatus('error');
-      setErrorMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
-    }
+  const removePrescription = (index: number) => {
+    remove(index);
+    // Row indexes shift, so drop any row-level errors
+    form.clearErrors('prescriptions');
   };
 
   if (!isOpen) {
     return null;
   }
   
-  const getInputClassName = (fieldName: keyof FormErrors) => 
-    `mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${errors[fieldName] ? 'border-red-500' : 'border-slate-300'}`;
-  
-  const getTextAreaClassName = (fieldName: keyof FormErrors) =>
-    `mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${errors[fieldName] ? 'border-red-500' : 'border-slate-300'}`;
+  const rxResults = result?.status === 'sent' ? result.results : [];
+  const acceptedResults = rxResults.filter(rx => rx.status === 'accepted');
+  const partiallyRejectedResults = rxResults.filter(rx => rx.status === 'rejected');
+  const hasEmail = !!form.getValues('email');
 
   return (
     <div
@@ -142,10 +157,40 @@ const RefillRequestModal: React.FC<RefillRequestModalProps> = ({ isOpen, onClose
           </button>
         </div>
 
-        {status === 'success' ? (
+        {status === 'success' && result?.status === 'queued' ? (
+          <div className="grow text-center py-8 overflow-y-auto" aria-live="polite">
+            <h3 className="text-2xl font-semibold text-slate-900">Refill Request Queued</h3>
+            <p className="mt-2 text-slate-600">You appear to be offline. Your request is queued — we'll send it when you're back online. You can close this window; keep this site open or come back to it once you're connected.</p>
+            <ConfirmationCodeNotice
+              code={result.confirmationCode}
+              emailNote={hasEmail ? "We'll also email it to you once your request is sent." : null}
+            />
+            <button
+              onClick={onClose}
+              className="mt-6 w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark"
+            >
+              Close
+            </button>
+          </div>
+        ) : status === 'success' && result ? (
           <div className="grow text-center py-8 overflow-y-auto" aria-live="polite">
             <h3 className="text-2xl font-semibold text-success">Refill Request Sent!</h3>
             <p className="mt-2 text-slate-600">Thank you. We have received your refill request and will process it shortly. We will contact you if there are any issues.</p>
+            <ConfirmationCodeNotice code={result.confirmationCode} emailNote={hasEmail ? "We've also emailed it to you." : null} />
+            {acceptedResults.length > 0 && (
+              <div className="mt-6 text-left">
+                <h4 className="text-sm font-semibold text-slate-800">Accepted</h4>
+                <ul className="mt-2 space-y-2">
+                  {acceptedResults.map((rx, index) => (
+                    <li key={`${rx.rxNumber}-${index}`} className="p-3 rounded-md bg-green-50 border border-green-200 text-sm text-slate-700">
+                      <span className="font-medium">Rx #{rx.rxNumber}</span>
+                      {rx.medicationName && <span> &middot; {rx.medicationName}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {partiallyRejectedResults.length > 0 && <RejectedPrescriptionList results={partiallyRejectedResults} />}
             <button
               onClick={onClose}
               className="mt-6 w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark"
@@ -154,176 +199,106 @@ const RefillRequestModal: React.FC<RefillRequestModalProps> = ({ isOpen, onClose
             </button>
           </div>
         ) : (
-          <form onSubmit={handleSubmit} className="grow space-y-6 overflow-y-auto pr-2 hide-scrollbar">
-            <div>
-              <label htmlFor="refill-patientName" className="block text-sm font-medium text-slate-700">Patient Full Name</label>
-              <input 
-                type="text" 
-                name="patientName" 
-                id="refill-patientName" 
-                value={formData.patientName} 
-                onChange={handleChange} 
-                required 
-                className={getInputClassName('patientName')}
-                aria-invalid={errors.patientName ? "true" : "false"}
-                aria-describedby={errors.patientName ? 'refill-patientName-error' : undefined}
-              />
-              {errors.patientName && <p id="refill-patientName-error" className="mt-1 text-sm text-error">{errors.patientName}</p>}
-            </div>
-            <div>
-              <label htmlFor="refill-dob" className="block text-sm font-medium text-slate-700">Date of Birth</label>
-              <input 
-                type="date" 
-                name="dob" 
-                id="refill-dob" 
-                value={formData.dob} 
-                onChange={handleChange} 
-                required 
-                className={getInputClassName('dob')}
-                aria-invalid={errors.dob ? "true" : "false"}
-                aria-describedby={errors.dob ? 'refill-dob-error' : undefined}
-              />
-              {errors.dob && <p id="refill-dob-error" className="mt-1 text-sm text-error">{errors.dob}</p>}
-            </div>
-            <div>
-              <label htmlFor="refill-phone" className="block text-sm font-medium text-slate-700">Phone Number</label>
-              <input 
-                type="tel" 
-                name="phone" 
-                id="refill-phone" 
-                value={formData.phone} 
-                onChange={handleChange} 
-                required 
-                className={getInputClassName('phone')}
-                aria-invalid={errors.phone ? "true" : "false"}
-                aria-describedby={errors.phone ? 'refill-phone-error' : undefined}
-              />
-              {errors.phone && <p id="refill-phone-error" className="mt-1 text-sm text-error">{errors.phone}</p>}
-            </div>
-            <div>
-              <label htmlFor="refill-email" className="block text-sm font-medium text-slate-700">Email Address (Optional)</label>
-              <input 
-                type="email" 
-                name="email" 
-                id="refill-email" 
-                value={formData.email} 
-                onChange={handleChange} 
-                className={getInputClassName('email')}
-                aria-invalid={errors.email ? "true" : "false"}
-                aria-describedby={errors.email ? 'refill-email-error' : undefined}
+          <FormProvider {...form}>
+            <form onSubmit={handleSubmit} className="grow space-y-6 overflow-y-auto pr-2 hide-scrollbar">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <TextField name="firstName" id="refill-firstName" label="First Name" autoComplete="given-name" required />
+                <TextField name="middleName" id="refill-middleName" label="Middle Name (Optional)" autoComplete="additional-name" />
+              </div>
+              <div className="grid sm:grid-cols-3 gap-4">
+                <TextField name="lastName" id="refill-lastName" label="Last Name" autoComplete="family-name" required className="sm:col-span-2" />
+                <SelectField name="suffix" id="refill-suffix" label="Suffix">
+                  <option value="">None</option>
+                  {NameSuffixSchema.options.map(suffix => (
+                    <option key={suffix} value={suffix}>{suffix}</option>
+                  ))}
+                </SelectField>
+              </div>
+              <TextField name="dob" id="refill-dob" label="Date of Birth" type="date" required />
+              <TextField name="phone" id="refill-phone" label="Phone Number" type="tel" required />
+              <TextField name="email" id="refill-email" label="Email Address (Optional)" type="email" />
+              <fieldset>
+                <legend className="text-sm font-medium text-slate-700">Prescriptions <span className="text-red-500">*</span></legend>
+                <div className="mt-2 space-y-3">
+                  {prescriptionFields.map((field, index) => (
+                    <div key={field.id} className="flex items-start gap-3">
+                      <TextField
+                        name={`prescriptions.${index}.rxNumber`}
+                        id={`refill-rxNumber-${index}`}
+                        label="Rx Number"
+                        labelClassName={ROW_LABEL_CLASS_NAME}
+                        className="flex-1"
+                        required
+                      />
+                      <TextField
+                        name={`prescriptions.${index}.medicationName`}
+                        id={`refill-medicationName-${index}`}
+                        label="Medication (Optional)"
+                        labelClassName={ROW_LABEL_CLASS_NAME}
+                        className="flex-1"
+                        placeholder="e.g., Metformin"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removePrescription(index)}
+                        disabled={prescriptionFields.length === 1}
+                        aria-label={`Remove prescription ${index + 1}`}
+                        className="mt-6 p-2 rounded-full text-slate-500 hover:bg-rose-mist hover:text-slate-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                      >
+                        <XIcon className="h-4 w-4" aria-hidden="true" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={addPrescription}
+                  className="mt-3 text-sm font-semibold text-burgundy hover:text-burgundy-dark"
+                >
+                  + Add another prescription
+                </button>
+                <ArrayFieldError id="refill-prescriptions-error" name="prescriptions" />
+              </fieldset>
+
+              <RadioGroupField
+                name="preferredService"
+                legend="Preferred Service"
+                options={[
+                  { id: 'service-pickup', value: 'pickup', label: 'Pickup at Pharmacy' },
+                  { id: 'service-delivery', value: 'delivery', label: 'Local Delivery' },
+                ]}
               />
-              {errors.email && <p id="refill-email-error" className="mt-1 text-sm text-error">{errors.email}</p>}
-            </div>
-            <div>
-              <label htmlFor="refill-prescriptionNumbers" className="block text-sm font-medium text-slate-700">Prescription Number(s) <span className="text-red-500">*</span></label>
-              <textarea 
-                id="refill-prescriptionNumbers" 
-                name="prescriptionNumbers" 
-                rows={3} 
-                value={formData.prescriptionNumbers} 
-                onChange={handleChange} 
-                placeholder="Enter one or more prescription numbers, separated by commas or new lines." 
-                required
-                className={getTextAreaClassName('prescriptionNumbers')}
-                aria-invalid={errors.prescriptionNumbers ? "true" : "false"}
-                aria-describedby={errors.prescriptionNumbers ? 'refill-prescriptionNumbers-error' : undefined}
-              ></textarea>
-              {errors.prescriptionNumbers && <p id="refill-prescriptionNumbers-error" className="mt-1 text-sm text-error">{errors.prescriptionNumbers}</p>}
-            </div>
-            <div>
-              <label htmlFor="refill-medicationNames" className="block text-sm font-medium text-slate-700">Medication Name(s) (Optional)</label>
-              <textarea 
-                id="refill-medicationNames" 
-                name="medicationNames" 
-                rows={2} 
-                value={formData.medicationNames} 
-                onChange={handleChange} 
-                placeholder="e.g., Metformin, Lisinopril" 
-                className={getTextAreaClassName('medicationNames')}
-                aria-invalid={errors.medicationNames ? "true" : "false"}
-                aria-describedby={errors.medicationNames ? 'refill-medicationNames-error' : undefined}
-              ></textarea>
-              {errors.medicationNames && <p id="refill-medicationNames-error" className="mt-1 text-sm text-error">{errors.medicationNames}</p>}
-            </div>
 
-            <fieldset>
-              <legend className="text-sm font-medium text-slate-700">Preferred Service</legend>
-              <div className="mt-2 space-y-2">
-                <div className="flex items-center">
-                  <input
-                    id="service-pickup"
-                    name="preferredService"
-                    type="radio"
-                    value="pickup"
-                    checked={formData.preferredService === 'pickup'}
-                    onChange={handleChange}
-                    className="focus:ring-burgundy h-4 w-4 text-burgundy border-slate-300"
-                  />
-                  <label htmlFor="service-pickup" className="ml-3 block text-sm font-medium text-slate-700">
-                    Pickup at Pharmacy
-                  </label>
-                </div>
-                <div className="flex items-center">
-                  <input
-                    id="service-delivery"
-                    name="preferredService"
-                    type="radio"
-                    value="delivery"
-                    checked={formData.preferredService === 'delivery'}
-                    onChange={handleChange}
-                    className="focus:ring-burgundy h-4 w-4 text-burgundy border-slate-300"
-                  />
-                  <label htmlFor="service-delivery" className="ml-3 block text-sm font-medium text-slate-700">
-                    Local Delivery
-                  </label>
-                </div>
-              </div>
-            </fieldset>
+              <TextAreaField
+                name="notes"
+                id="refill-notes"
+                label="Additional Notes (Optional)"
+                rows={2}
+                placeholder="Any special instructions or questions about this refill?"
+              />
 
-            <div>
-              <label htmlFor="refill-notes" className="block text-sm font-medium text-slate-700">Additional Notes (Optional)</label>
-              <textarea 
-                id="refill-notes" 
-                name="notes" 
-                rows={2} 
-                value={formData.notes} 
-                onChange={handleChange} 
-                placeholder="Any special instructions or questions about this refill?" 
-                className={getTextAreaClassName('notes')}
-                aria-invalid={errors.notes ? "true" : "false"}
-                aria-describedby={errors.notes ? 'refill-notes-error' : undefined}
-              ></textarea>
-              {errors.notes && <p id="refill-notes-error" className="mt-1 text-sm text-error">{errors.notes}</p>}
-            </div>
+              <CheckboxField
+                name="consent"
+                id="refill-consent"
+                label="I acknowledge that this information will be used to process my refill request."
+                description="For medical emergencies, please call 911."
+                required
+                className="pt-2"
+              />
 
-            <div className="relative flex items-start pt-2">
-              <div className="flex items-center h-5">
-                <input 
-                  id="refill-consent" 
-                  name="consent" 
-                  type="checkbox" 
-                  checked={formData.consent} 
-                  onChange={handleChange} 
-                  required 
-                  className={`focus:ring-burgundy h-4 w-4 text-burgundy rounded ${errors.consent ? 'border-red-500' : 'border-slate-300'}`}
-                  aria-invalid={errors.consent ? "true" : "false"}
-                  aria-describedby="refill-consent-description"
-                />
+              <div className="pt-4">
+                <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-burgundy disabled:bg-slate-400">
+                  {status === 'submitting' ? 'Submitting Request...' : 'Submit Refill Request'}
+                </button>
               </div>
-              <div className="ml-3 text-sm">
-                <label htmlFor="refill-consent" className="font-medium text-slate-700">I acknowledge that this information will be used to process my refill request.</label>
-                <p id="refill-consent-description" className="text-slate-500">For medical emergencies, please call 911.</p>
-              </div>
-            </div>
-            {errors.consent && <p id="refill-consent-error" className="-mt-4 text-sm text-error">{errors.consent}</p>}
-            
-            <div className="pt-4">
-              <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-burgundy disabled:bg-slate-400">
-                {status === 'submitting' ? 'Submitting Request...' : 'Submit Refill Request'}
-              </button>
-            </div>
-            {status === 'error' && <p className="text-center text-sm text-error" aria-live="polite">{errorMessage}</p>}
-          </form>
+              {status === 'error' && (
+                <div aria-live="polite">
+                  <p className="text-center text-sm text-error">{errorMessage}</p>
+                  {rejectedResults.length > 0 && <RejectedPrescriptionList results={rejectedResults} />}
+                </div>
+              )}
+            </form>
+          </FormProvider>
         )}
       </div>
     </div>
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { FormProvider } from 'react-hook-form';
+import { RefillStatusLookupSchema } from '@/lib/schemas';
+import { lookupRefillStatus } from '@/lib/hooks';
+import type { RefillStatusResult } from '@/lib/hooks';
+import { useSchemaForm } from '@/lib/forms';
+import { describeRequestStatusForPatient, REQUEST_STATUS_LABELS } from '@/lib/requestStatus';
+import { formatAdminValue } from '@/lib/adminTables';
+import { XIcon } from './icons';
+import { TextField } from './form';
+
+interface RefillStatusModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// The same message whether the code is unknown or the date of birth is wrong
+const NOT_FOUND_MESSAGE =
+  "We couldn't find a refill request with that confirmation code and date of birth. Check the code in your confirmation email, or call us at (614) 349-5140.";
+
+const RefillStatusModal: React.FC<RefillStatusModalProps> = ({ isOpen, onClose }) => {
+  const [result, setResult] = useState<RefillStatusResult | null>(null);
+  const { form, status, errorMessage, handleSubmit, reset } = useSchemaForm({
+    schema: RefillStatusLookupSchema,
+    defaultValues: { confirmationCode: '', dob: '' },
+    onSubmit: async data => {
+      const found = await lookupRefillStatus(data);
+      if (!found) {
+        throw new Error(NOT_FOUND_MESSAGE);
+      }
+      setResult(found);
+    },
+    isOpen,
+    onReset: () => setResult(null),
+  });
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="refill-status-modal-title"
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+    >
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-slate-900/70 backdrop-blur-sm transition-opacity" onClick={onClose} aria-hidden="true"></div>
+
+      {/* Modal Panel */}
+      <div className="relative bg-white w-full max-w-lg p-8 rounded-2xl shadow-xl transform transition-all">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 id="refill-status-modal-title" className="text-2xl font-bold text-slate-900">
+              Check Refill Status
+            </h2>
+            <p className="mt-2 text-slate-600">
+              Enter the confirmation code you received when you requested your refill.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close refill status check"
+            className="p-2 -mr-2 -mt-2 rounded-full text-slate-500 hover:bg-rose-mist hover:text-slate-800 transition-colors"
+          >
+            <XIcon className="h-6 w-6" aria-hidden="true" />
+          </button>
+        </div>
+
+        {status === 'success' && result ? (
+          <div className="mt-6 py-4" aria-live="polite">
+            <span className="inline-block px-3 py-1 rounded-full bg-rose-mist text-sm font-semibold text-burgundy">
+              {REQUEST_STATUS_LABELS[result.request_status]}
+            </span>
+            <p className="mt-4 text-slate-700">
+              {describeRequestStatusForPatient('refill', result.request_status, result.rejection_reason) ??
+                'We have received your refill request and will start on it soon.'}
+            </p>
+            <dl className="mt-4 space-y-1 text-sm text-slate-600">
+              <div>
+                <dt className="inline font-medium">Requested: </dt>
+                <dd className="inline">{formatAdminValue(result.submitted_at, 'datetime')}</dd>
+              </div>
+              <div>
+                <dt className="inline font-medium">Last updated: </dt>
+                <dd className="inline">{formatAdminValue(result.status_changed_at, 'datetime')}</dd>
+              </div>
+            </dl>
+            <div className="mt-6 flex flex-col gap-3">
+              <button
+                onClick={onClose}
+                className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark"
+              >
+                Close
+              </button>
+              <button type="button" onClick={reset} className="text-sm font-semibold text-burgundy hover:text-burgundy-dark">
+                Check another refill
+              </button>
+            </div>
+          </div>
+        ) : (
+          <FormProvider {...form}>
+            <form onSubmit={handleSubmit} className="mt-6 space-y-6">
+              <TextField
+                name="confirmationCode"
+                id="refill-status-code"
+                label="Confirmation Code"
+                placeholder="e.g., Q8BA-XY8C"
+                autoComplete="off"
+                required
+              />
+              <TextField name="dob" id="refill-status-dob" label="Date of Birth" type="date" required />
+              <div>
+                <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-burgundy disabled:bg-slate-400">
+                  {status === 'submitting' ? 'Checking...' : 'Check Status'}
+                </button>
+              </div>
+              {status === 'error' && <p className="text-center text-sm text-error" aria-live="polite">{errorMessage}</p>}
+            </form>
+          </FormProvider>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RefillStatusModal;
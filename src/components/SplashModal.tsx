@@ -1,82 +1,50 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React from 'react';
+import { FormProvider } from 'react-hook-form';
 import { SplashModalFormDataSchema } from '@/lib/schemas';
 import type { SplashModalFormData } from '@/lib/schemas';
 import { useSplashModalFormSubmission } from '@/lib/hooks';
-import { ZodError } from 'zod';
+import { useAbuseGuard } from '@/lib/antiAbuse';
+import { useSchemaForm, useSchemaField } from '@/lib/forms';
 import { XIcon } from './icons';
+import { HoneypotField } from './form';
 
 interface SplashModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type FormErrors = Partial<Record<keyof SplashModalFormData, string>>;
+// The single email input, labelled for screen readers only
+const SplashEmailField: React.FC = () => {
+  const { registration, error } = useSchemaField<SplashModalFormData>('email');
+  return (
+    <div>
+      <label htmlFor="splash-email" className="sr-only">Email Address</label>
+      <input
+        {...registration}
+        type="email"
+        id="splash-email"
+        required
+        placeholder="Enter your email"
+        className={`block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${error ? 'border-red-500' : 'border-slate-300'}`}
+        aria-invalid={!!error}
+        aria-describedby={error ? 'splash-email-error' : undefined}
+      />
+      {error && <p id="splash-email-error" className="mt-1 text-sm text-error">{error}</p>}
+    </div>
+  );
+};
 
 const SplashModal: React.FC<SplashModalProps> = ({ isOpen, onClose }) => {
-  const [formData, setFormData] = useState<SplashModalFormData>({ email: '' });
-  const [errors, setErrors] = useState<FormErrors>({});
-  const [status, setStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const emailInputRef = useRef<HTMLInputElement>(null);
+  const abuseGuard = useAbuseGuard('splash', isOpen);
   const { submit } = useSplashModalFormSubmission();
-
-  useEffect(() => {
-    if (!isOpen) {
-      setTimeout(() => {
-        setFormData({ email: '' });
-        setStatus('idle');
-        setErrors({});
-        setErrorMessage(null);
-      }, 300); // match transition duration
-    }
-  }, [isOpen]);
-
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
-    if (errors.email) {
-      setErrors({});
-    }
-  };
-
-  const validate = (): FormErrors => {
-    try {
-      SplashModalFormDataSchema.parse(formData);
-      return {};
-    } catch (error) {
-      if (error instanceof ZodError) {
-        const newErrors: FormErrors = {};
-        error.errors.forEach(err => {
-          const path = err.path[0] as keyof SplashModalFormData;
-          newErrors[path] = err.message;
-        });
-        return newErrors;
-      }
-      return {};
-    }
-  };
-
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    setErrorMessage(null);
-    const validationErrors = validate();
-    if (Object.keys(validationErrors).length > 0) {
-      setErrors(validationErrors);
-      emailInputRef.current?.focus();
-      return;
-    }
-    
-    setStatus('submitting');
-    try {
-      await submit(formData);
-      setStatus('success');
-      setErrors({});
-      setErrorMessage(null);
-    } catch (error) {
-      setStatus('error');
-      setErrorMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
-    }
-  };
+  const { form, status, errorMessage, handleSubmit } = useSchemaForm({
+    schema: SplashModalFormDataSchema,
+    defaultValues: { email: '' },
+    onSubmit: async data => {
+      await submit(data, { abuseSignals: await abuseGuard.collect() });
+    },
+    isOpen,
+  });
 
   if (!isOpen) {
     return null;
@@ -131,36 +99,23 @@ const SplashModal: React.FC<SplashModalProps> = ({ isOpen, onClose }) => {
                 </button>
               </div>
             ) : (
-              <form onSubmit={handleSubmit} className="mt-6 space-y-4">
-                <div>
-                  <label htmlFor="splash-email" className="sr-only">Email Address</label>
-                  <input
-                    ref={emailInputRef}
-                    type="email"
-                    name="email"
-                    id="splash-email"
-                    value={formData.email}
-                    onChange={handleChange}
-                    required
-                    placeholder="Enter your email"
-                    className={`block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${errors.email ? 'border-red-500' : 'border-slate-300'}`}
-                    aria-invalid={!!errors.email}
-                    aria-describedby={errors.email ? 'splash-email-error' : undefined}
-                  />
-                  {errors.email && <p id="splash-email-error" className="mt-1 text-sm text-error">{errors.email}</p>}
-                </div>
-                <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-burgundy disabled:bg-slate-400">
-                  {status === 'submitting' ? 'Submitting...' : 'Notify Me'}
-                </button>
-                {status === 'error' && <p className="text-center text-sm text-error" aria-live="polite">{errorMessage}</p>}
-                 <button
+              <FormProvider {...form}>
+                <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+                  <SplashEmailField />
+                  <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-burgundy disabled:bg-slate-400">
+                    {status === 'submitting' ? 'Submitting...' : 'Notify Me'}
+                  </button>
+                  {status === 'error' && <p className="text-center text-sm text-error" aria-live="polite">{errorMessage}</p>}
+                  <button
                     type="button"
                     onClick={onClose}
                     className="w-full text-center text-sm text-slate-600 hover:text-burgundy font-semibold mt-2"
-                >
+                  >
                     No, thanks
-                </button>
-              </form>
+                  </button>
+                  <HoneypotField id="splash-website" inputRef={abuseGuard.honeypotRef} />
+                </form>
+              </FormProvider>
             )}
           </div>
         </div>
@@ -0,0 +1,57 @@
+import React from 'react';
+import type { Session } from '@supabase/supabase-js';
+import type { PatientProfile } from '@/lib/schemas';
+import type { PatientRefillRequest } from '@/lib/patientAccount';
+import PatientSignIn from './PatientSignIn';
+import PatientProfileForm from './PatientProfileForm';
+import RequestHistory from './RequestHistory';
+
+interface AccountPageProps {
+  session: Session | null;
+  status: 'loading' | 'signed-out' | 'ready';
+  profile: PatientProfile | null;
+  onSendMagicLink: (email: string) => Promise<void>;
+  onSendSmsCode: (phone: string) => Promise<void>;
+  onVerifySmsCode: (phone: string, code: string) => Promise<void>;
+  onSignOut: () => Promise<void>;
+  onSaveProfile: (profile: PatientProfile) => Promise<void>;
+  onRequestAgain: (request: PatientRefillRequest) => void;
+}
+
+const AccountPage: React.FC<AccountPageProps> = ({
+  session,
+  status,
+  profile,
+  onSendMagicLink,
+  onSendSmsCode,
+  onVerifySmsCode,
+  onSignOut,
+  onSaveProfile,
+  onRequestAgain,
+}) => {
+  return (
+    <main className="py-16 sm:py-24">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-3xl">
+        {status === 'loading' ? (
+          <p className="text-center text-slate-500">Loading...</p>
+        ) : status === 'signed-out' || !session ? (
+          <PatientSignIn onSendMagicLink={onSendMagicLink} onSendSmsCode={onSendSmsCode} onVerifySmsCode={onVerifySmsCode} />
+        ) : (
+          <div className="space-y-8">
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div>
+                <h2 className="text-3xl font-bold text-slate-900">My Prescriptions</h2>
+                <p className="mt-1 text-sm text-slate-600">Signed in as {session.user.email || session.user.phone}</p>
+              </div>
+              <button type="button" onClick={onSignOut} className="text-sm font-semibold text-burgundy hover:text-burgundy-dark">Sign Out</button>
+            </div>
+            <PatientProfileForm profile={profile} onSave={onSaveProfile} />
+            <RequestHistory userId={session.user.id} onRequestAgain={onRequestAgain} />
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default AccountPage;
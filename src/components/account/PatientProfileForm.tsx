@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import { FormProvider } from 'react-hook-form';
+import { NameSuffixSchema, PatientProfileSchema } from '@/lib/schemas';
+import type { PatientProfile } from '@/lib/schemas';
+import { useSchemaForm } from '@/lib/forms';
+import { toPatientFormValues } from '@/lib/patientAccount';
+import { SelectField, TextField } from '../form';
+
+interface PatientProfileFormProps {
+  profile: PatientProfile | null;
+  onSave: (profile: PatientProfile) => Promise<void>;
+}
+
+const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ profile, onSave }) => {
+  const prefill = useMemo(() => (profile ? toPatientFormValues(profile) : null), [profile]);
+  const { form, status, errorMessage, handleSubmit } = useSchemaForm({
+    schema: PatientProfileSchema,
+    defaultValues: {
+      firstName: '',
+      middleName: '',
+      lastName: '',
+      suffix: '',
+      dob: '',
+      phone: '',
+      email: '',
+    },
+    onSubmit: async data => {
+      await onSave(data);
+      // The saved values become the baseline for further edits
+      form.reset(form.getValues());
+    },
+    prefill,
+  });
+
+  return (
+    <section className="bg-white p-6 rounded-2xl shadow-sm">
+      <h3 className="text-lg font-semibold text-slate-800">Your Details</h3>
+      <p className="mt-1 text-sm text-slate-600">We fill these in for you on refill and transfer requests.</p>
+      <FormProvider {...form}>
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div className="grid sm:grid-cols-2 gap-4">
+            <TextField name="firstName" id="profile-firstName" label="First Name" autoComplete="given-name" required />
+            <TextField name="middleName" id="profile-middleName" label="Middle Name (Optional)" autoComplete="additional-name" />
+          </div>
+          <div className="grid sm:grid-cols-3 gap-4">
+            <TextField name="lastName" id="profile-lastName" label="Last Name" autoComplete="family-name" required className="sm:col-span-2" />
+            <SelectField name="suffix" id="profile-suffix" label="Suffix">
+              <option value="">None</option>
+              {NameSuffixSchema.options.map(suffix => (
+                <option key={suffix} value={suffix}>{suffix}</option>
+              ))}
+            </SelectField>
+          </div>
+          <div className="grid sm:grid-cols-3 gap-4">
+            <TextField name="dob" id="profile-dob" label="Date of Birth" type="date" required />
+            <TextField name="phone" id="profile-phone" label="Phone Number" type="tel" autoComplete="tel" required />
+            <TextField name="email" id="profile-email" label="Email (Optional)" type="email" autoComplete="email" />
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <button type="submit" disabled={status === 'submitting'} className="py-2 px-6 border border-transparent rounded-2xl shadow-sm text-sm font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+              {status === 'submitting' ? 'Saving...' : 'Save Details'}
+            </button>
+            <span aria-live="polite" className="text-sm">
+              {status === 'success' && <span className="text-success">Your details were saved.</span>}
+              {status === 'error' && <span className="text-error">{errorMessage}</span>}
+            </span>
+          </div>
+        </form>
+      </FormProvider>
+    </section>
+  );
+};
+
+export default PatientProfileForm;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+
+interface PatientSignInProps {
+  onSendMagicLink: (email: string) => Promise<void>;
+  onSendSmsCode: (phone: string) => Promise<void>;
+  onVerifySmsCode: (phone: string, code: string) => Promise<void>;
+}
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy';
+const tabClassName = (isActive: boolean) =>
+  `flex-1 py-2 text-sm font-semibold rounded-lg ${isActive ? 'bg-burgundy text-white' : 'text-slate-700 hover:bg-rose-mist'}`;
+
+const PatientSignIn: React.FC<PatientSignInProps> = ({ onSendMagicLink, onSendSmsCode, onVerifySmsCode }) => {
+  const [method, setMethod] = useState<'email' | 'sms'>('email');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [status, setStatus] = useState<'idle' | 'submitting' | 'error'>('idle');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setStatus('submitting');
+    setErrorMessage(null);
+    try {
+      await action();
+      setStatus('idle');
+    } catch (error) {
+      setStatus('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Sign in failed. Please try again.');
+    }
+  };
+
+  const switchMethod = (next: 'email' | 'sms') => {
+    setMethod(next);
+    setSentTo(null);
+    setCode('');
+    setStatus('idle');
+    setErrorMessage(null);
+  };
+
+  const handleSend = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    run(async () => {
+      if (method === 'email') {
+        await onSendMagicLink(email);
+        setSentTo(email);
+      } else {
+        await onSendSmsCode(phone);
+        setSentTo(phone);
+      }
+    });
+  };
+
+  const handleVerify = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    run(() => onVerifySmsCode(phone, code));
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white p-8 rounded-2xl shadow-xl">
+      <h2 className="text-2xl font-bold text-slate-900">Sign In</h2>
+      <p className="mt-2 text-slate-600">See your past refill and transfer requests, request a refill again, and skip retyping your details. No password needed.</p>
+
+      <div className="mt-6 flex gap-2" role="group" aria-label="Sign in method">
+        <button type="button" onClick={() => switchMethod('email')} aria-pressed={method === 'email'} className={tabClassName(method === 'email')}>Email Link</button>
+        <button type="button" onClick={() => switchMethod('sms')} aria-pressed={method === 'sms'} className={tabClassName(method === 'sms')}>Text Message</button>
+      </div>
+
+      {method === 'email' && sentTo ? (
+        <p className="mt-6 text-slate-700" aria-live="polite">We sent a sign-in link to <span className="font-semibold">{sentTo}</span>. Open it on this device to continue.</p>
+      ) : method === 'sms' && sentTo ? (
+        <form onSubmit={handleVerify} className="mt-6 space-y-4">
+          <p className="text-slate-700" aria-live="polite">We texted a code to <span className="font-semibold">{sentTo}</span>.</p>
+          <div>
+            <label htmlFor="patient-sms-code" className="block text-sm font-medium text-slate-700">Code</label>
+            <input type="text" id="patient-sms-code" inputMode="numeric" autoComplete="one-time-code" value={code} onChange={e => setCode(e.target.value)} required className={inputClassName} />
+          </div>
+          <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+            {status === 'submitting' ? 'Verifying...' : 'Sign In'}
+          </button>
+          <button type="button" onClick={() => setSentTo(null)} className="w-full text-sm font-semibold text-burgundy hover:text-burgundy-dark">Use a different number</button>
+        </form>
+      ) : (
+        <form onSubmit={handleSend} className="mt-6 space-y-4">
+          {method === 'email' ? (
+            <div>
+              <label htmlFor="patient-email" className="block text-sm font-medium text-slate-700">Email</label>
+              <input type="email" id="patient-email" autoComplete="email" value={email} onChange={e => setEmail(e.target.value)} required className={inputClassName} />
+            </div>
+          ) : (
+            <div>
+              <label htmlFor="patient-phone" className="block text-sm font-medium text-slate-700">Mobile Number</label>
+              <input type="tel" id="patient-phone" autoComplete="tel" value={phone} onChange={e => setPhone(e.target.value)} required className={inputClassName} />
+            </div>
+          )}
+          <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+            {status === 'submitting' ? 'Sending...' : method === 'email' ? 'Email Me a Sign-In Link' : 'Text Me a Code'}
+          </button>
+        </form>
+      )}
+
+      {status === 'error' && <p className="mt-4 text-center text-sm text-error" aria-live="polite">{errorMessage}</p>}
+    </div>
+  );
+};
+
+export default PatientSignIn;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { REQUEST_STATUS_LABELS } from '@/lib/requestStatus';
+import { formatAdminValue } from '@/lib/adminTables';
+import { usePatientRequests } from '@/lib/hooks';
+import type { PatientRefillRequest } from '@/lib/patientAccount';
+
+interface RequestHistoryProps {
+  userId: string;
+  onRequestAgain: (request: PatientRefillRequest) => void;
+}
+
+const statusClassName = 'shrink-0 px-3 py-1 rounded-full bg-rose-mist text-xs font-semibold text-burgundy';
+
+const RequestHistory: React.FC<RequestHistoryProps> = ({ userId, onRequestAgain }) => {
+  const { refills, transfers, status } = usePatientRequests(userId);
+
+  if (status === 'loading') {
+    return <p className="text-slate-500">Loading your requests...</p>;
+  }
+  if (status === 'error') {
+    return <p className="text-error">Your requests could not be loaded. Please try again later.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <h3 className="text-lg font-semibold text-slate-800">Refill Requests</h3>
+        {refills.length === 0 ? (
+          <p className="mt-2 text-sm text-slate-600">Refills you request while signed in will appear here.</p>
+        ) : (
+          <ul className="mt-3 space-y-3">
+            {refills.map(request => (
+              <li key={request.id} className="bg-white p-4 rounded-2xl shadow-sm">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm text-slate-500">Requested {formatAdminValue(request.created_at, 'datetime')}</p>
+                    <p className="mt-1 text-slate-800 whitespace-pre-line">{formatAdminValue(request.prescriptions, 'prescriptions')}</p>
+                  </div>
+                  <span className={statusClassName}>{REQUEST_STATUS_LABELS[request.status]}</span>
+                </div>
+                <button type="button" onClick={() => onRequestAgain(request)} className="mt-3 text-sm font-semibold text-burgundy hover:text-burgundy-dark">
+                  Request Again
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-lg font-semibold text-slate-800">Transfer Requests</h3>
+        {transfers.length === 0 ? (
+          <p className="mt-2 text-sm text-slate-600">Transfers you request while signed in will appear here.</p>
+        ) : (
+          <ul className="mt-3 space-y-3">
+            {transfers.map(request => (
+              <li key={request.id} className="bg-white p-4 rounded-2xl shadow-sm flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-sm text-slate-500">Requested {formatAdminValue(request.created_at, 'datetime')}</p>
+                  <p className="mt-1 text-slate-800">Rx #{request.rx_number} to {request.transfer_to_pharmacy_name}</p>
+                </div>
+                <span className={statusClassName}>{REQUEST_STATUS_LABELS[request.status]}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default RequestHistory;
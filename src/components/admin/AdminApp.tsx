@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ADMIN_TABLES } from '@/lib/adminTables';
+import type { AdminTableName } from '@/lib/adminTables';
+import { useStaffSession } from '@/lib/hooks';
+import AdminLogin from './AdminLogin';
+import AdminTableView from './AdminTableView';
+import AdminRecordDetail from './AdminRecordDetail';
+import AdminAuditChainPanel from './AdminAuditChainPanel';
+import AdminWaitlistBoard from './AdminWaitlistBoard';
+import AdminRpmReviewQueue from './AdminRpmReviewQueue';
+import AdminRpmThresholdsPanel from './AdminRpmThresholdsPanel';
+import AdminMedSyncBatchPanel from './AdminMedSyncBatchPanel';
+
+const TABLE_ORDER = Object.keys(ADMIN_TABLES) as AdminTableName[];
+
+const AdminApp: React.FC = () => {
+  const { session, isStaff, status, signIn, signOut } = useStaffSession();
+  const [table, setTable] = useState<AdminTableName>('refill_requests');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [waitlistView, setWaitlistView] = useState<'board' | 'table'>('board');
+
+  if (status === 'loading') {
+    return <p className="min-h-screen flex items-center justify-center text-slate-500">Loading...</p>;
+  }
+
+  if (status === 'signed-out' || !session) {
+    return <AdminLogin onSignIn={signIn} />;
+  }
+
+  if (!isStaff) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="max-w-sm bg-white p-8 rounded-2xl shadow-xl text-center">
+          <h1 className="text-xl font-bold text-slate-900">Staff Access Required</h1>
+          <p className="mt-2 text-sm text-slate-600">{session.user.email} is not registered as staff. Ask an administrator to add your account.</p>
+          <button type="button" onClick={signOut} className="mt-6 w-full py-2 px-4 border border-slate-300 rounded-2xl text-slate-700 bg-white hover:bg-slate-50">Sign Out</button>
+        </div>
+      </div>
+    );
+  }
+
+  const handleTableChange = (next: AdminTableName) => {
+    setTable(next);
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <nav aria-label="Submission tables" className="md:w-60 shrink-0 bg-white border-b md:border-b-0 md:border-r border-slate-200 p-4">
+        <p className="text-lg font-bold text-slate-900">Staff Dashboard</p>
+        <ul className="mt-4 space-y-1">
+          {TABLE_ORDER.map(name => (
+            <li key={name}>
+              <button
+                type="button"
+                onClick={() => handleTableChange(name)}
+                aria-current={name === table ? 'page' : undefined}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm font-medium ${name === table ? 'bg-burgundy text-white' : 'text-slate-700 hover:bg-rose-mist'}`}
+              >
+                {ADMIN_TABLES[name].label}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="mt-6 pt-4 border-t border-slate-200 text-xs text-slate-500">
+          <p className="truncate">{session.user.email}</p>
+          <button type="button" onClick={signOut} className="mt-2 text-sm font-semibold text-burgundy hover:text-burgundy-dark">Sign Out</button>
+        </div>
+      </nav>
+      <main className="grow p-4 md:p-8">
+        {selectedId ? (
+          <AdminRecordDetail table={table} id={selectedId} onBack={() => setSelectedId(null)} />
+        ) : (
+          <>
+            {table === 'audit_events' && <AdminAuditChainPanel />}
+            {table === 'rpm_readings' && <AdminRpmReviewQueue onSelect={setSelectedId} />}
+            {table === 'rpm_patients' && <AdminRpmThresholdsPanel patientId={null} />}
+            {table === 'med_sync_enrollments' && <AdminMedSyncBatchPanel />}
+            {table === 'waitlist_entries' && (
+              <div role="group" aria-label="Waitlist view" className="mb-4 inline-flex rounded-2xl border border-slate-300 bg-white p-1">
+                {(['board', 'table'] as const).map(view => (
+                  <button
+                    key={view}
+                    type="button"
+                    onClick={() => setWaitlistView(view)}
+                    aria-pressed={waitlistView === view}
+                    className={`px-4 py-1 rounded-2xl text-sm font-medium ${waitlistView === view ? 'bg-burgundy text-white' : 'text-slate-700 hover:bg-rose-mist'}`}
+                  >
+                    {view === 'board' ? 'Board' : 'Table'}
+                  </button>
+                ))}
+              </div>
+            )}
+            {table === 'waitlist_entries' && waitlistView === 'board' ? (
+              <AdminWaitlistBoard onSelect={setSelectedId} />
+            ) : (
+              <AdminTableView table={table} onSelect={setSelectedId} />
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminApp;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { useVerifyAuditChain } from '@/lib/hooks';
+
+const AdminAuditChainPanel: React.FC = () => {
+  const { result, status, error, verify } = useVerifyAuditChain();
+
+  return (
+    <div className="mb-6 bg-white rounded-2xl shadow-sm p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Tamper Check</h3>
+          <p className="mt-1 text-sm text-slate-600">Each event is hashed together with the one before it, so any edited or removed event breaks the chain.</p>
+        </div>
+        <button type="button" onClick={verify} disabled={status === 'loading'} className="py-2 px-4 border border-transparent rounded-2xl text-sm font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+          {status === 'loading' ? 'Verifying...' : 'Verify Chain'}
+        </button>
+      </div>
+
+      <div aria-live="polite">
+        {status === 'error' && <p className="mt-3 text-sm text-error">{error}</p>}
+        {status === 'idle' && result?.valid && (
+          <p className="mt-3 text-sm text-slate-700">All {result.checked} events verified.</p>
+        )}
+        {status === 'idle' && result && !result.valid && (
+          <p className="mt-3 text-sm font-medium text-error">
+            The chain is broken at event #{result.broken_at}; {result.checked} events before it verified.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminAuditChainPanel;
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+
+interface AdminLoginProps {
+  onSignIn: (email: string, password: string) => Promise<void>;
+}
+
+const AdminLogin: React.FC<AdminLoginProps> = ({ onSignIn }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [status, setStatus] = useState<'idle' | 'submitting' | 'error'>('idle');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setStatus('submitting');
+    setErrorMessage(null);
+    try {
+      await onSignIn(email, password);
+      setStatus('idle');
+    } catch (error) {
+      setStatus('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Sign in failed. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white p-8 rounded-2xl shadow-xl space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Staff Sign In</h1>
+          <p className="mt-1 text-sm text-slate-600">Elevated WellnessRX dashboard</p>
+        </div>
+        <div>
+          <label htmlFor="admin-email" className="block text-sm font-medium text-slate-700">Email</label>
+          <input type="email" id="admin-email" autoComplete="username" value={email} onChange={e => setEmail(e.target.value)} required className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy" />
+        </div>
+        <div>
+          <label htmlFor="admin-password" className="block text-sm font-medium text-slate-700">Password</label>
+          <input type="password" id="admin-password" autoComplete="current-password" value={password} onChange={e => setPassword(e.target.value)} required className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy" />
+        </div>
+        <button type="submit" disabled={status === 'submitting'} className="w-full flex justify-center py-3 px-4 border border-transparent rounded-2xl shadow-sm text-base font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+          {status === 'submitting' ? 'Signing In...' : 'Sign In'}
+        </button>
+        {status === 'error' && <p className="text-center text-sm text-error" aria-live="polite">{errorMessage}</p>}
+      </form>
+    </div>
+  );
+};
+
+export default AdminLogin;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { formatMedSyncFill } from '@/lib/medSync';
+import { useMedSyncBatch } from '@/lib/hooks';
+
+const controlClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-burgundy focus:border-burgundy';
+const primaryButtonClassName = 'py-2 px-4 border border-transparent rounded-2xl text-sm font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400';
+
+// Sync dates are checked against the database's (UTC) date
+const today = () => new Date().toISOString().slice(0, 10);
+
+const RESULT_CLASS_NAMES = {
+  sent: 'text-success',
+  failed: 'text-error',
+  skipped: 'text-slate-500',
+} as const;
+
+const AdminMedSyncBatchPanel: React.FC = () => {
+  const { result, status, send } = useMedSyncBatch();
+  const [syncDate, setSyncDate] = useState(today);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    send(syncDate);
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-2xl shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-slate-800">Monthly Batch</h3>
+      <p className="mt-1 text-sm text-slate-600">
+        Sends the refills due on a sync date for every active enrollment. Sending a date again only resends the batches that
+        failed.
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-3 flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="admin-med-sync-date" className="block text-xs font-medium text-slate-600">Sync Date</label>
+          <input type="date" id="admin-med-sync-date" value={syncDate} onChange={e => setSyncDate(e.target.value)} required className={controlClassName} />
+        </div>
+        <button type="submit" disabled={status === 'sending' || !syncDate} className={primaryButtonClassName}>
+          {status === 'sending' ? 'Sending...' : 'Send Batch'}
+        </button>
+      </form>
+
+      <div aria-live="polite">
+        {result && <p className={`mt-3 text-sm ${result.success ? 'text-slate-600' : 'text-error'}`}>{result.message}</p>}
+      </div>
+      {result?.results && result.results.length > 0 && (
+        <ul className="mt-2 space-y-2 text-sm">
+          {result.results.map(enrollment => (
+            <li key={enrollment.enrollmentId} className="text-slate-700">
+              <div className="flex flex-wrap gap-x-3">
+                <span className="font-medium">{enrollment.patientName}</span>
+                <span className={RESULT_CLASS_NAMES[enrollment.status]}>{enrollment.message}</span>
+              </div>
+              {enrollment.fills && (
+                <ul className="mt-1 ml-4 text-xs text-slate-600">
+                  {enrollment.fills.map((fill, index) => (
+                    <li key={`${fill.rxNumber}-${index}`}>{formatMedSyncFill(fill)}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AdminMedSyncBatchPanel;
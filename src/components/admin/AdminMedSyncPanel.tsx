@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { formatAdminValue } from '@/lib/adminTables';
+import type { MedSyncStatus } from '@/lib/schemas';
+import { addDays, formatMedSyncFill, medSyncFillsFor, nextSyncDate, planMedSyncEnrollment } from '@/lib/medSync';
+import type { MedSyncEnrollment, MedSyncFill, MedSyncPlan } from '@/lib/medSync';
+import { useMedSyncActions, useMedSyncFills } from '@/lib/hooks';
+
+interface AdminMedSyncPanelProps {
+  enrollment: MedSyncEnrollment;
+  currentStatus: MedSyncStatus;
+  onChange: () => void;
+}
+
+const primaryButtonClassName = 'py-2 px-4 border border-transparent rounded-2xl text-sm font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400';
+const secondaryButtonClassName = 'py-2 px-4 border border-slate-300 rounded-2xl text-sm font-medium text-slate-700 bg-white hover:bg-rose-mist disabled:opacity-50';
+
+// Sync dates are checked against the database's (UTC) date
+const today = () => new Date().toISOString().slice(0, 10);
+
+const AdminMedSyncPanel: React.FC<AdminMedSyncPanelProps> = ({ enrollment, currentStatus, onChange }) => {
+  const { fills, status: loadStatus, reload } = useMedSyncFills(enrollment.id);
+  const { setEnrollmentStatus, status, error } = useMedSyncActions();
+  const [message, setMessage] = useState<string | null>(null);
+  const isSubmitting = status === 'submitting';
+
+  // Stored medications are validated on enrollment, so a plan only fails for hand-edited rows
+  const plan = useMemo((): MedSyncPlan | null => {
+    try {
+      return planMedSyncEnrollment(enrollment);
+    } catch {
+      return null;
+    }
+  }, [enrollment]);
+  const nextBatchDate = nextSyncDate(enrollment.sync_day, today());
+  const nextBatch = plan ? medSyncFillsFor(plan, nextBatchDate) : [];
+
+  const changeStatus = async (nextStatus: MedSyncStatus, successMessage: string) => {
+    setMessage(null);
+    try {
+      await setEnrollmentStatus({ enrollmentId: enrollment.id, status: nextStatus });
+      setMessage(successMessage);
+      onChange();
+      reload();
+    } catch {
+      // error is surfaced by the hook
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-slate-800">Med Sync</h3>
+
+      <div aria-live="polite">
+        {status === 'error' && <p className="mt-3 text-sm text-error">{error}</p>}
+        {status === 'success' && message && <p className="mt-3 text-sm text-slate-600">{message}</p>}
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-3">
+        {currentStatus === 'pending' && (
+          <button
+            type="button"
+            onClick={() => changeStatus('active', 'Enrollment activated. Its refills are sent with each monthly batch.')}
+            disabled={isSubmitting}
+            className={primaryButtonClassName}
+          >
+            Activate
+          </button>
+        )}
+        {currentStatus !== 'cancelled' && (
+          <button
+            type="button"
+            onClick={() => changeStatus('cancelled', 'Enrollment cancelled.')}
+            disabled={isSubmitting}
+            className={secondaryButtonClassName}
+          >
+            Cancel Enrollment
+          </button>
+        )}
+      </div>
+
+      <h4 className="mt-6 text-sm font-semibold text-slate-700">Alignment Plan</h4>
+      {!plan ? (
+        <p className="mt-2 text-sm text-error">The stored medications could not be read.</p>
+      ) : (
+        <>
+          <p className="mt-1 text-sm text-slate-600">
+            Supply as of {formatAdminValue(plan.supplyAsOf, 'date')}. All medications are refilled together from{' '}
+            {formatAdminValue(plan.syncedFrom, 'date')}.
+          </p>
+          <table className="mt-2 w-full text-sm text-left">
+            <thead className="text-xs text-slate-500">
+              <tr>
+                <th className="py-1 font-medium">Prescription</th>
+                <th className="py-1 font-medium">Regular Fill</th>
+                <th className="py-1 font-medium">Runs Out</th>
+                <th className="py-1 font-medium">Short Fill</th>
+                <th className="py-1 font-medium">Synced From</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-700">
+              {plan.items.map((item, index) => (
+                <tr key={`${item.medication.rxNumber}-${index}`} className="border-t border-slate-100">
+                  <td className="py-1">
+                    Rx #{item.medication.rxNumber}
+                    {item.medication.medicationName && <span className="text-slate-500"> · {item.medication.medicationName}</span>}
+                  </td>
+                  <td className="py-1">{item.medication.daysSupply} days, qty {item.medication.quantity}</td>
+                  <td className="py-1">{formatAdminValue(addDays(plan.supplyAsOf, item.medication.daysOnHand), 'date')}</td>
+                  <td className="py-1">
+                    {item.shortFill ? (
+                      <>
+                        {item.shortFill.days} days, qty {item.shortFill.quantity}
+                        <span className={`ml-2 text-xs ${item.shortFill.sendOn ? 'text-slate-500' : 'text-error'}`}>
+                          {item.shortFill.sendOn ? `sent ${formatAdminValue(item.shortFill.sendOn, 'date')}` : 'dispense at activation'}
+                        </span>
+                      </>
+                    ) : (
+                      '—'
+                    )}
+                  </td>
+                  <td className="py-1">{formatAdminValue(item.alignedDate, 'date')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <h4 className="mt-6 text-sm font-semibold text-slate-700">Next Batch · {formatAdminValue(nextBatchDate, 'date')}</h4>
+      {nextBatch.length === 0 ? (
+        <p className="mt-2 text-sm text-slate-500">Nothing is due on the next sync date.</p>
+      ) : (
+        <ul className="mt-2 space-y-1 text-sm text-slate-700">
+          {nextBatch.map((fill, index) => (
+            <li key={`${fill.rxNumber}-${index}`}>{formatMedSyncFill(fill)}</li>
+          ))}
+        </ul>
+      )}
+      {currentStatus !== 'active' && plan && (
+        <p className="mt-2 text-xs text-slate-500">Only active enrollments are included in a batch.</p>
+      )}
+
+      <h4 className="mt-6 text-sm font-semibold text-slate-700">Batch History</h4>
+      {loadStatus === 'error' && <p className="mt-2 text-sm text-error">Batch history could not be loaded.</p>}
+      {loadStatus === 'idle' && fills.length === 0 && <p className="mt-2 text-sm text-slate-500">No batches sent yet.</p>}
+      <ol className="mt-2 space-y-2 text-sm">
+        {fills.map(fill => (
+          <li key={fill.id} className="text-slate-700">
+            <div className="flex flex-wrap gap-x-3">
+              <span className="font-medium">{formatAdminValue(fill.sync_date, 'date')}</span>
+              <span className={fill.status === 'sent' ? 'text-success' : 'text-error'}>{fill.status === 'sent' ? 'Sent' : 'Failed'}</span>
+              {fill.message && <span className="text-slate-600">— {fill.message}</span>}
+            </div>
+            <ul className="mt-1 ml-4 text-xs text-slate-600">
+              {(fill.prescriptions as unknown as MedSyncFill[]).map((prescription, index) => (
+                <li key={`${prescription.rxNumber}-${index}`}>{formatMedSyncFill(prescription)}</li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default AdminMedSyncPanel;
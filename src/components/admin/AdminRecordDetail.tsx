@@ -0,0 +1,87 @@
+import React from 'react';
+import { ADMIN_TABLES, formatAdminValue } from '@/lib/adminTables';
+import type { AdminTableName } from '@/lib/adminTables';
+import type { MedSyncStatus, RefillFormData, RequestStatus, RequestType, WaitlistStatus } from '@/lib/schemas';
+import type { MedSyncEnrollment } from '@/lib/medSync';
+import { useAdminRecord } from '@/lib/hooks';
+import AdminRequestStatusPanel from './AdminRequestStatusPanel';
+import AdminWaitlistPanel from './AdminWaitlistPanel';
+import AdminRpmPatientPanel from './AdminRpmPatientPanel';
+import AdminMedSyncPanel from './AdminMedSyncPanel';
+
+// Tables whose rows follow the refill/transfer status workflow
+const REQUEST_TYPES: Partial<Record<AdminTableName, RequestType>> = {
+  refill_requests: 'refill',
+  transfer_requests: 'transfer',
+};
+
+interface AdminRecordDetailProps {
+  table: AdminTableName;
+  id: string;
+  onBack: () => void;
+}
+
+const AdminRecordDetail: React.FC<AdminRecordDetailProps> = ({ table, id, onBack }) => {
+  const config = ADMIN_TABLES[table];
+  const { record, status, error, reload } = useAdminRecord(table, id);
+  const requestType = REQUEST_TYPES[table];
+
+  return (
+    <section>
+      <button type="button" onClick={onBack} className="text-sm font-semibold text-burgundy hover:text-burgundy-dark">
+        &larr; Back to {config.label}
+      </button>
+
+      {status === 'loading' && <p className="mt-6 text-slate-500">Loading...</p>}
+      {status === 'error' && <p className="mt-6 text-error">{error}</p>}
+      {status === 'idle' && !record && <p className="mt-6 text-slate-500">This record was not found.</p>}
+
+      {record && (
+        <div className="mt-4 bg-white rounded-2xl shadow-sm p-6">
+          <h2 className="text-xl font-bold text-slate-900">{config.label} &middot; Detail</h2>
+          <p className="mt-1 text-xs text-slate-500">ID {record.id}</p>
+          <dl className="mt-4 grid sm:grid-cols-2 gap-x-6 gap-y-4 text-sm">
+            {config.detailColumns.map(column => (
+              <div key={column.key} className={column.format === 'prescriptions' || column.key === 'message' || column.key === 'notes' ? 'sm:col-span-2' : undefined}>
+                <dt className="font-medium text-slate-500">{column.label}</dt>
+                <dd className="text-slate-800 whitespace-pre-line break-words">{formatAdminValue(record[column.key], column.format)}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      {record && requestType && (
+        <AdminRequestStatusPanel
+          requestType={requestType}
+          requestId={record.id}
+          currentStatus={record.status as RequestStatus}
+          preferredService={record.preferred_service as RefillFormData['preferredService'] | undefined}
+          onStatusChange={reload}
+        />
+      )}
+
+      {record && table === 'waitlist_entries' && (
+        <AdminWaitlistPanel
+          entryId={record.id}
+          currentStatus={record.status as WaitlistStatus}
+          notes={record.notes as string | null}
+          rpmPatientId={record.rpm_patient_id as string | null}
+          onChange={reload}
+        />
+      )}
+
+      {record && table === 'rpm_patients' && <AdminRpmPatientPanel patientId={record.id} />}
+
+      {record && table === 'med_sync_enrollments' && (
+        <AdminMedSyncPanel
+          enrollment={record as unknown as MedSyncEnrollment}
+          currentStatus={record.status as MedSyncStatus}
+          onChange={reload}
+        />
+      )}
+    </section>
+  );
+};
+
+export default AdminRecordDetail;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import type { RequestStatus, RequestType, RefillFormData } from '@/lib/schemas';
+import { REQUEST_STATUS_LABELS, REQUEST_STATUS_TRANSITIONS } from '@/lib/requestStatus';
+import { useAdvanceRequestStatus, useRequestStatusHistory } from '@/lib/hooks';
+
+interface AdminRequestStatusPanelProps {
+  requestType: RequestType;
+  requestId: string;
+  currentStatus: RequestStatus;
+  preferredService?: RefillFormData['preferredService'];
+  onStatusChange: () => void;
+}
+
+const AdminRequestStatusPanel: React.FC<AdminRequestStatusPanelProps> = ({ requestType, requestId, currentStatus, preferredService, onStatusChange }) => {
+  const { history, status: historyStatus, reload } = useRequestStatusHistory(requestType, requestId);
+  const { submit, status, error } = useAdvanceRequestStatus();
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [notificationMessage, setNotificationMessage] = useState<string | null>(null);
+  // Only offer the hand-off that matches the patient's pickup/delivery choice
+  const skippedStatus: RequestStatus | null =
+    preferredService === 'pickup' ? 'out_for_delivery' : preferredService === 'delivery' ? 'ready_for_pickup' : null;
+  const nextStatuses = REQUEST_STATUS_TRANSITIONS[currentStatus].filter(next => next !== 'rejected' && next !== skippedStatus);
+  const canReject = REQUEST_STATUS_TRANSITIONS[currentStatus].includes('rejected');
+
+  const advance = async (next: RequestStatus) => {
+    setNotificationMessage(null);
+    try {
+      const { notification } = await submit({
+        requestType,
+        requestId,
+        status: next,
+        reason: next === 'rejected' ? reason.trim() : undefined,
+      });
+      setNotificationMessage(notification.message);
+      setIsRejecting(false);
+      setReason('');
+      reload();
+      onStatusChange();
+    } catch {
+      // error is surfaced by the hook
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-sm p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Status</h3>
+          <p className="mt-1 text-2xl font-bold text-burgundy">{REQUEST_STATUS_LABELS[currentStatus]}</p>
+        </div>
+        {!isRejecting && (
+          <div className="flex flex-wrap gap-2">
+            {nextStatuses.map(next => (
+              <button key={next} type="button" onClick={() => advance(next)} disabled={status === 'submitting'} className="py-2 px-4 border border-transparent rounded-2xl text-sm font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+                Mark {REQUEST_STATUS_LABELS[next]}
+              </button>
+            ))}
+            {canReject && (
+              <button type="button" onClick={() => setIsRejecting(true)} disabled={status === 'submitting'} className="py-2 px-4 border border-slate-300 rounded-2xl text-sm font-medium text-error bg-white hover:bg-slate-50 disabled:opacity-50">
+                Reject
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isRejecting && (
+        <div className="mt-4">
+          <label htmlFor="admin-reject-reason" className="block text-sm font-medium text-slate-700">Reason for Rejection</label>
+          <textarea id="admin-reject-reason" rows={2} value={reason} onChange={e => setReason(e.target.value)} placeholder="Shared with the patient, e.g., No refills remaining; please contact your prescriber" className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-burgundy focus:border-burgundy"></textarea>
+          <div className="mt-3 flex gap-2">
+            <button type="button" onClick={() => advance('rejected')} disabled={status === 'submitting' || !reason.trim()} className="py-2 px-4 border border-transparent rounded-2xl text-sm font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+              Reject Request
+            </button>
+            <button type="button" onClick={() => { setIsRejecting(false); setReason(''); }} disabled={status === 'submitting'} className="py-2 px-4 border border-slate-300 rounded-2xl text-sm font-medium text-slate-700 bg-white hover:bg-slate-50">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status === 'error' && <p className="mt-3 text-sm text-error" aria-live="polite">{error}</p>}
+      {notificationMessage && <p className="mt-3 text-sm text-slate-600" aria-live="polite">{notificationMessage}</p>}
+
+      <h4 className="mt-6 text-sm font-semibold text-slate-700">History</h4>
+      {historyStatus === 'error' && <p className="mt-2 text-sm text-error">History could not be loaded.</p>}
+      <ol className="mt-2 space-y-2 text-sm">
+        {history.map(entry => (
+          <li key={entry.id} className="flex flex-wrap gap-x-3 text-slate-700">
+            <span className="text-slate-500">{entry.created_at && new Date(entry.created_at).toLocaleString()}</span>
+            <span className="font-medium">{REQUEST_STATUS_LABELS[entry.to_status]}</span>
+            {entry.reason && <span className="text-slate-600">— {entry.reason}</span>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default AdminRequestStatusPanel;
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { formatAdminValue } from '@/lib/adminTables';
+import type { RpmActivity, RpmReadingType } from '@/lib/schemas';
+import {
+  formatRpmAlertFlags,
+  formatRpmBillingCodes,
+  formatRpmReading,
+  RPM_ACTIVITY_LABELS,
+  RPM_READING_TYPE_LABELS,
+  summarizeRpmBillingMonth,
+} from '@/lib/rpm';
+import { useRpmActions, useRpmPatientMonitoring } from '@/lib/hooks';
+import AdminRpmThresholdsPanel from './AdminRpmThresholdsPanel';
+
+interface AdminRpmPatientPanelProps {
+  patientId: string;
+}
+
+const controlClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-burgundy focus:border-burgundy';
+const primaryButtonClassName = 'py-2 px-4 border border-transparent rounded-2xl text-sm font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400';
+const secondaryButtonClassName = 'py-1 px-3 border border-slate-300 rounded-2xl text-xs font-medium text-slate-700 bg-white hover:bg-rose-mist disabled:opacity-50';
+
+// Service dates are checked against the database's (UTC) date
+const today = () => new Date().toISOString().slice(0, 10);
+
+const formatMonth = (month: string | null) =>
+  month ? new Date(`${month}T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' }) : '—';
+
+const AdminRpmPatientPanel: React.FC<AdminRpmPatientPanelProps> = ({ patientId }) => {
+  const { devices, readings, timeEntries, months, status: loadStatus, reload } = useRpmPatientMonitoring(patientId);
+  const { registerDevice, setDeviceActive, logMinutes, status, error } = useRpmActions();
+  const [deviceType, setDeviceType] = useState<RpmReadingType>('blood_pressure');
+  const [vendor, setVendor] = useState('');
+  const [serialNumber, setSerialNumber] = useState('');
+  const [activity, setActivity] = useState<RpmActivity>('patient_call');
+  const [minutes, setMinutes] = useState('');
+  const [serviceDate, setServiceDate] = useState(today);
+  const [timeNote, setTimeNote] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const isSubmitting = status === 'submitting';
+
+  // Runs a staff action and reloads; errors are surfaced by the hook
+  const run = async (action: () => Promise<unknown>, successMessage: string) => {
+    setMessage(null);
+    try {
+      await action();
+      setMessage(successMessage);
+      reload();
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const handleRegisterDevice = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const ok = await run(
+      () => registerDevice({ patientId, deviceType, vendor: vendor.trim(), serialNumber: serialNumber.trim() }),
+      'Device registered. Its readings can now be ingested.'
+    );
+    if (ok) {
+      setVendor('');
+      setSerialNumber('');
+    }
+  };
+
+  const handleLogMinutes = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const ok = await run(
+      () => logMinutes({ patientId, activity, minutes: Number(minutes), serviceDate, note: timeNote.trim() }),
+      'Minutes logged.'
+    );
+    if (ok) {
+      setMinutes('');
+      setTimeNote('');
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-slate-800">Remote Monitoring</h3>
+
+      <div aria-live="polite">
+        {loadStatus === 'error' && <p className="mt-3 text-sm text-error">Monitoring data could not be loaded.</p>}
+        {status === 'error' && <p className="mt-3 text-sm text-error">{error}</p>}
+        {status === 'success' && message && <p className="mt-3 text-sm text-slate-600">{message}</p>}
+      </div>
+
+      <h4 className="mt-6 text-sm font-semibold text-slate-700">Devices</h4>
+      {loadStatus === 'idle' && devices.length === 0 && <p className="mt-2 text-sm text-slate-500">No devices registered yet.</p>}
+      <ul className="mt-2 space-y-2 text-sm">
+        {devices.map(device => (
+          <li key={device.id} className="flex flex-wrap items-center gap-x-3 gap-y-1 text-slate-700">
+            <span className="font-medium">{RPM_READING_TYPE_LABELS[device.device_type]}</span>
+            <span>{device.vendor ?? 'Unknown vendor'} · SN {device.serial_number}</span>
+            <span className={device.active ? 'text-success' : 'text-slate-500'}>{device.active ? 'Active' : 'Inactive'}</span>
+            <button
+              type="button"
+              onClick={() => run(() => setDeviceActive(device.id, !device.active), device.active ? 'Device deactivated.' : 'Device reactivated.')}
+              disabled={isSubmitting}
+              className={secondaryButtonClassName}
+            >
+              {device.active ? 'Deactivate' : 'Reactivate'}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleRegisterDevice} className="mt-3 grid sm:grid-cols-4 gap-3 items-end">
+        <div>
+          <label htmlFor="admin-rpm-device-type" className="block text-xs font-medium text-slate-600">Type</label>
+          <select id="admin-rpm-device-type" value={deviceType} onChange={e => setDeviceType(e.target.value as RpmReadingType)} className={controlClassName}>
+            {Object.entries(RPM_READING_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="admin-rpm-device-vendor" className="block text-xs font-medium text-slate-600">Vendor (Optional)</label>
+          <input type="text" id="admin-rpm-device-vendor" value={vendor} onChange={e => setVendor(e.target.value)} placeholder="e.g., Omron" className={controlClassName} />
+        </div>
+        <div>
+          <label htmlFor="admin-rpm-device-serial" className="block text-xs font-medium text-slate-600">Serial Number</label>
+          <input type="text" id="admin-rpm-device-serial" value={serialNumber} onChange={e => setSerialNumber(e.target.value)} required className={controlClassName} />
+        </div>
+        <button type="submit" disabled={isSubmitting || !serialNumber.trim()} className={primaryButtonClassName}>
+          Register Device
+        </button>
+      </form>
+
+      <AdminRpmThresholdsPanel patientId={patientId} />
+
+      <h4 className="mt-6 text-sm font-semibold text-slate-700">Monthly Monitoring</h4>
+      {loadStatus === 'idle' && months.length === 0 && <p className="mt-2 text-sm text-slate-500">No readings or minutes yet.</p>}
+      {months.length > 0 && (
+        <table className="mt-2 w-full text-sm text-left">
+          <thead className="text-xs text-slate-500">
+            <tr>
+              <th className="py-1 font-medium">Month</th>
+              <th className="py-1 font-medium">Minutes</th>
+              <th className="py-1 font-medium">Reading Days</th>
+              <th className="py-1 font-medium">Billable</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-700">
+            {months.map(month => {
+              const summary = summarizeRpmBillingMonth(month.minutes ?? 0, month.reading_days ?? 0);
+              return (
+                <tr key={month.month} className="border-t border-slate-100">
+                  <td className="py-1">{formatMonth(month.month)}</td>
+                  <td className="py-1">{month.minutes ?? 0}</td>
+                  <td className="py-1">{month.reading_days ?? 0}</td>
+                  <td className="py-1">
+                    {formatRpmBillingCodes(summary)}
+                    <span className="ml-2 text-xs text-slate-500">{summary.minutesToNextUnit} min to next unit</span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleLogMinutes} className="mt-4 grid sm:grid-cols-5 gap-3 items-end">
+        <div>
+          <label htmlFor="admin-rpm-activity" className="block text-xs font-medium text-slate-600">Activity</label>
+          <select id="admin-rpm-activity" value={activity} onChange={e => setActivity(e.target.value as RpmActivity)} className={controlClassName}>
+            {Object.entries(RPM_ACTIVITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="admin-rpm-minutes" className="block text-xs font-medium text-slate-600">Minutes</label>
+          <input type="number" id="admin-rpm-minutes" min={1} max={120} value={minutes} onChange={e => setMinutes(e.target.value)} required className={controlClassName} />
+        </div>
+        <div>
+          <label htmlFor="admin-rpm-service-date" className="block text-xs font-medium text-slate-600">Date</label>
+          <input type="date" id="admin-rpm-service-date" value={serviceDate} max={today()} onChange={e => setServiceDate(e.target.value)} required className={controlClassName} />
+        </div>
+        <div>
+          <label htmlFor="admin-rpm-time-note" className="block text-xs font-medium text-slate-600">Note (Optional)</label>
+          <input type="text" id="admin-rpm-time-note" value={timeNote} onChange={e => setTimeNote(e.target.value)} className={controlClassName} />
+        </div>
+        <button type="submit" disabled={isSubmitting || !minutes} className={primaryButtonClassName}>
+          Log Minutes
+        </button>
+      </form>
+
+      {timeEntries.length > 0 && (
+        <ol className="mt-3 space-y-1 text-sm">
+          {timeEntries.map(entry => (
+            <li key={entry.id} className="flex flex-wrap gap-x-3 text-slate-700">
+              <span className="text-slate-500">{formatAdminValue(entry.service_date, 'date')}</span>
+              <span className="font-medium">{RPM_ACTIVITY_LABELS[entry.activity]} · {entry.minutes} min</span>
+              {entry.note && <span className="text-slate-600">— {entry.note}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <h4 className="mt-6 text-sm font-semibold text-slate-700">Recent Readings</h4>
+      {loadStatus === 'idle' && readings.length === 0 && <p className="mt-2 text-sm text-slate-500">No readings received yet.</p>}
+      <ol className="mt-2 space-y-1 text-sm">
+        {readings.map(reading => (
+          <li key={reading.id} className="flex flex-wrap gap-x-3 text-slate-700">
+            <span className="text-slate-500">{formatAdminValue(reading.measured_at, 'datetime')}</span>
+            <span className="font-medium">{formatRpmReading(reading)}</span>
+            {reading.flagged && (
+              <span className={reading.reviewed_at ? 'text-slate-500' : 'text-error'}>
+                {formatRpmAlertFlags(reading.alert_flags)}{reading.reviewed_at ? ' · reviewed' : ''}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default AdminRpmPatientPanel;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { formatAdminValue } from '@/lib/adminTables';
+import { formatRpmAlertFlags, formatRpmReading, RPM_READING_TYPE_LABELS } from '@/lib/rpm';
+import { useRpmActions, useRpmReviewQueue } from '@/lib/hooks';
+import type { RpmReviewQueueEntry } from '@/lib/hooks';
+
+interface AdminRpmReviewQueueProps {
+  onSelect: (id: string) => void;
+}
+
+const controlClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-burgundy focus:border-burgundy';
+
+type QueuedReading = RpmReviewQueueEntry & { id: string };
+
+// Review time logged by default, in minutes
+const DEFAULT_REVIEW_MINUTES = '5';
+
+const AdminRpmReviewQueue: React.FC<AdminRpmReviewQueueProps> = ({ onSelect }) => {
+  const { readings, status, error, reload } = useRpmReviewQueue();
+  const { reviewReading, status: actionStatus, error: actionError } = useRpmActions();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [minutes, setMinutes] = useState<Record<string, string>>({});
+  // View columns are nullable in the generated types; every queued reading has an id
+  const queue = readings.filter((reading): reading is QueuedReading => reading.id !== null);
+
+  const review = async (reading: QueuedReading) => {
+    try {
+      await reviewReading({
+        readingId: reading.id,
+        note: notes[reading.id]?.trim(),
+        minutes: Number(minutes[reading.id] ?? DEFAULT_REVIEW_MINUTES) || 0,
+      });
+      reload();
+    } catch {
+      // error is surfaced by the hook
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-2xl shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-slate-800">
+        Review Queue {status === 'idle' && <span className="text-slate-500">({queue.length})</span>}
+      </h3>
+      <p className="mt-1 text-sm text-slate-600">Out-of-range readings awaiting pharmacist review. Review minutes count toward the patient's monthly monitoring time.</p>
+
+      {status === 'loading' && <p className="mt-4 text-slate-500">Loading...</p>}
+      {status === 'error' && <p className="mt-4 text-error">{error}</p>}
+      {status === 'idle' && queue.length === 0 && <p className="mt-4 text-sm text-slate-500">No readings need review.</p>}
+      {actionStatus === 'error' && <p className="mt-4 text-sm text-error" aria-live="polite">{actionError}</p>}
+
+      <ul className="mt-4 space-y-3">
+        {queue.map(reading => (
+          <li key={reading.id} className="rounded-xl border border-slate-200 p-4 text-sm">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <p className="font-semibold text-slate-800">
+                {reading.last_name}, {reading.first_name}
+                <span className="ml-2 font-normal text-slate-500">DOB {formatAdminValue(reading.dob, 'date')}{reading.phone && ` · ${reading.phone}`}</span>
+              </p>
+              <button type="button" onClick={() => onSelect(reading.id)} className="text-xs font-semibold text-burgundy hover:underline">
+                View Reading
+              </button>
+            </div>
+            <p className="mt-1 text-slate-700">
+              {reading.reading_type && `${RPM_READING_TYPE_LABELS[reading.reading_type]}: `}
+              {reading.reading_type && formatRpmReading({
+                reading_type: reading.reading_type,
+                systolic: reading.systolic,
+                diastolic: reading.diastolic,
+                pulse: reading.pulse,
+                glucose_mg_dl: reading.glucose_mg_dl,
+                glucose_context: reading.glucose_context,
+              })}
+              <span className="ml-2 text-slate-500">{formatAdminValue(reading.measured_at, 'datetime')}</span>
+            </p>
+            <p className="mt-1 font-medium text-error">{formatRpmAlertFlags(reading.alert_flags)}</p>
+            <div className="mt-3 grid sm:grid-cols-[1fr_8rem_auto] gap-3 items-end">
+              <div>
+                <label htmlFor={`rpm-review-note-${reading.id}`} className="block text-xs font-medium text-slate-600">Note (Optional)</label>
+                <input
+                  type="text"
+                  id={`rpm-review-note-${reading.id}`}
+                  value={notes[reading.id] ?? ''}
+                  onChange={e => setNotes(previous => ({ ...previous, [reading.id]: e.target.value }))}
+                  placeholder="e.g., Called patient; advised to recheck in 1 hour"
+                  className={controlClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor={`rpm-review-minutes-${reading.id}`} className="block text-xs font-medium text-slate-600">Minutes</label>
+                <input
+                  type="number"
+                  id={`rpm-review-minutes-${reading.id}`}
+                  min={0}
+                  max={120}
+                  value={minutes[reading.id] ?? DEFAULT_REVIEW_MINUTES}
+                  onChange={e => setMinutes(previous => ({ ...previous, [reading.id]: e.target.value }))}
+                  className={controlClassName}
+                />
+              </div>
+              <button type="button" onClick={() => review(reading)} disabled={actionStatus === 'submitting'} className="py-2 px-4 border border-transparent rounded-2xl text-sm font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400">
+                Mark Reviewed
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AdminRpmReviewQueue;
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { RpmAlertThresholdsSchema } from '@/lib/schemas';
+import type { RpmAlertThresholds } from '@/lib/schemas';
+import { RPM_THRESHOLD_MEASURES } from '@/lib/rpm';
+import type { RpmThresholdMeasure } from '@/lib/rpm';
+import { useRpmActions, useRpmAlertThresholds } from '@/lib/hooks';
+import type { RpmAlertThresholdsRow } from '@/lib/hooks';
+
+interface AdminRpmThresholdsPanelProps {
+  // null edits the clinic default
+  patientId: string | null;
+}
+
+type LimitKey = `${RpmThresholdMeasure}_${'high' | 'low'}`;
+type LimitInputs = Record<LimitKey, string>;
+
+const LIMIT_KEYS: LimitKey[] = RPM_THRESHOLD_MEASURES.flatMap(measure => [`${measure.key}_high`, `${measure.key}_low`] as LimitKey[]);
+
+const controlClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-burgundy focus:border-burgundy';
+const primaryButtonClassName = 'py-2 px-4 border border-transparent rounded-2xl text-sm font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400';
+
+function toInputs(row: RpmAlertThresholdsRow | null): LimitInputs {
+  return Object.fromEntries(LIMIT_KEYS.map(key => [key, row?.[key]?.toString() ?? ''])) as LimitInputs;
+}
+
+function toLimits(patientId: string | null, inputs: LimitInputs): RpmAlertThresholds {
+  const limit = (key: LimitKey) => (inputs[key].trim() === '' ? null : Number(inputs[key]));
+  return {
+    patientId,
+    systolicHigh: limit('systolic_high'),
+    systolicLow: limit('systolic_low'),
+    diastolicHigh: limit('diastolic_high'),
+    diastolicLow: limit('diastolic_low'),
+    pulseHigh: limit('pulse_high'),
+    pulseLow: limit('pulse_low'),
+    glucoseHigh: limit('glucose_high'),
+    glucoseLow: limit('glucose_low'),
+  };
+}
+
+const AdminRpmThresholdsPanel: React.FC<AdminRpmThresholdsPanelProps> = ({ patientId }) => {
+  const { defaults, override, status: loadStatus, reload } = useRpmAlertThresholds(patientId);
+  const { saveThresholds, status, error } = useRpmActions();
+  const current = patientId ? override : defaults;
+  const [inputs, setInputs] = useState<LimitInputs>(() => toInputs(null));
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setInputs(toInputs(current));
+  }, [current]);
+
+  const save = async (limits: RpmAlertThresholds, successMessage: string) => {
+    setMessage(null);
+    const parsed = RpmAlertThresholdsSchema.safeParse(limits);
+    if (!parsed.success) {
+      setValidationError(parsed.error.issues[0].message);
+      return;
+    }
+    setValidationError(null);
+    try {
+      await saveThresholds(parsed.data);
+      setMessage(successMessage);
+      reload();
+    } catch {
+      // error is surfaced by the hook
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    save(toLimits(patientId, inputs), 'Alert thresholds saved. New readings are flagged against them.');
+  };
+
+  const handleUseDefaults = () => save(toLimits(patientId, toInputs(null)), 'This patient now uses the clinic defaults.');
+
+  return (
+    <div className={patientId ? 'mt-6' : 'mb-6 bg-white rounded-2xl shadow-sm p-6'}>
+      <h3 className={patientId ? 'text-sm font-semibold text-slate-700' : 'text-lg font-semibold text-slate-800'}>
+        {patientId ? 'Alert Thresholds' : 'Default Alert Thresholds'}
+      </h3>
+      <p className="mt-1 text-sm text-slate-600">
+        {patientId
+          ? 'Leave a limit blank to use the clinic default (shown as the placeholder).'
+          : 'Readings at or beyond a limit go to the pharmacist review queue. Leave a limit blank for none. Patients can override these.'}
+      </p>
+
+      {loadStatus === 'error' && <p className="mt-2 text-sm text-error">Alert thresholds could not be loaded.</p>}
+
+      <form onSubmit={handleSubmit} className="mt-3">
+        <div className="grid sm:grid-cols-4 gap-3">
+          {RPM_THRESHOLD_MEASURES.map(measure => (
+            <fieldset key={measure.key} className="rounded-xl border border-slate-200 p-3">
+              <legend className="px-1 text-xs font-semibold text-slate-700">{measure.label} ({measure.unit})</legend>
+              {(['high', 'low'] as const).map(bound => {
+                const key: LimitKey = `${measure.key}_${bound}`;
+                const inputId = `admin-rpm-${patientId ?? 'default'}-${key}`;
+                return (
+                  <div key={bound} className="mt-1">
+                    <label htmlFor={inputId} className="block text-xs font-medium text-slate-600">{bound === 'high' ? 'High' : 'Low'}</label>
+                    <input
+                      type="number"
+                      id={inputId}
+                      min={1}
+                      max={800}
+                      step={1}
+                      value={inputs[key]}
+                      onChange={e => setInputs(previous => ({ ...previous, [key]: e.target.value }))}
+                      placeholder={patientId ? defaults?.[key]?.toString() ?? 'None' : 'None'}
+                      className={controlClassName}
+                    />
+                  </div>
+                );
+              })}
+            </fieldset>
+          ))}
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button type="submit" disabled={status === 'submitting' || loadStatus !== 'idle'} className={primaryButtonClassName}>
+            Save Thresholds
+          </button>
+          {patientId && override && (
+            <button type="button" onClick={handleUseDefaults} disabled={status === 'submitting'} className="py-2 px-4 border border-slate-300 rounded-2xl text-sm font-medium text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-50">
+              Use Clinic Defaults
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div aria-live="polite">
+        {validationError && <p className="mt-3 text-sm text-error">{validationError}</p>}
+        {status === 'error' && <p className="mt-3 text-sm text-error">{error}</p>}
+        {status === 'success' && message && <p className="mt-3 text-sm text-slate-600">{message}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default AdminRpmThresholdsPanel;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { ADMIN_TABLES, formatAdminValue } from '@/lib/adminTables';
+import type { AdminTableName } from '@/lib/adminTables';
+import { useAdminList } from '@/lib/hooks';
+
+interface AdminTableViewProps {
+  table: AdminTableName;
+  onSelect: (id: string) => void;
+}
+
+const PAGE_SIZE = 25;
+
+const AdminTableView: React.FC<AdminTableViewProps> = ({ table, onSelect }) => {
+  const config = ADMIN_TABLES[table];
+  const [page, setPage] = useState(0);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [createdFrom, setCreatedFrom] = useState('');
+  const [createdTo, setCreatedTo] = useState('');
+  const { rows, count, status, error } = useAdminList(table, {
+    page,
+    pageSize: PAGE_SIZE,
+    search,
+    filters,
+    createdFrom,
+    createdTo,
+  });
+  const pageCount = Math.max(1, Math.ceil(count / PAGE_SIZE));
+
+  // Reset filters when switching tables
+  useEffect(() => {
+    setPage(0);
+    setSearchInput('');
+    setSearch('');
+    setFilters({});
+    setCreatedFrom('');
+    setCreatedTo('');
+  }, [table]);
+
+  // Debounce the search box
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const handleFilterChange = (column: string, value: string) => {
+    setFilters(prev => ({ ...prev, [column]: value }));
+    setPage(0);
+  };
+
+  const controlClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-burgundy focus:border-burgundy';
+
+  return (
+    <section>
+      <h2 className="text-xl font-bold text-slate-900">{config.label}</h2>
+
+      <div className="mt-4 grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor="admin-search" className="block text-xs font-medium text-slate-600">Search</label>
+          <input type="search" id="admin-search" value={searchInput} onChange={e => setSearchInput(e.target.value)} className={controlClassName} />
+        </div>
+        {config.filters.map(filter => (
+          <div key={filter.column}>
+            <label htmlFor={`admin-filter-${filter.column}`} className="block text-xs font-medium text-slate-600">{filter.label}</label>
+            <select id={`admin-filter-${filter.column}`} value={filters[filter.column] ?? ''} onChange={e => handleFilterChange(filter.column, e.target.value)} className={controlClassName}>
+              <option value="">All</option>
+              {filter.options.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+        <div>
+          <label htmlFor="admin-created-from" className="block text-xs font-medium text-slate-600">Submitted From</label>
+          <input type="date" id="admin-created-from" value={createdFrom} onChange={e => { setCreatedFrom(e.target.value); setPage(0); }} className={controlClassName} />
+        </div>
+        <div>
+          <label htmlFor="admin-created-to" className="block text-xs font-medium text-slate-600">Submitted To</label>
+          <input type="date" id="admin-created-to" value={createdTo} onChange={e => { setCreatedTo(e.target.value); setPage(0); }} className={controlClassName} />
+        </div>
+      </div>
+
+      <div className="mt-4 bg-white rounded-2xl shadow-sm overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 text-left text-slate-500">
+            <tr>
+              {config.listColumns.map(column => (
+                <th key={column.key} scope="col" className="px-4 py-3 font-medium">{column.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <tr key={row.id} className="hover:bg-rose-mist">
+                {config.listColumns.map((column, index) => (
+                  <td key={column.key} className="px-4 py-3 text-slate-800 whitespace-nowrap">
+                    {index === 0 ? (
+                      <button type="button" onClick={() => onSelect(row.id)} className="text-burgundy hover:underline">
+                        {formatAdminValue(row[column.key], column.format)}
+                      </button>
+                    ) : (
+                      formatAdminValue(row[column.key], column.format)
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {status === 'loading' && <p className="px-4 py-6 text-center text-slate-500">Loading...</p>}
+        {status === 'error' && <p className="px-4 py-6 text-center text-error">{error}</p>}
+        {status === 'idle' && rows.length === 0 && <p className="px-4 py-6 text-center text-slate-500">No matching records.</p>}
+      </div>
+
+      <div className="mt-4 flex items-center justify-between text-sm text-slate-600">
+        <span>{count} {count === 1 ? 'record' : 'records'}</span>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => setPage(prev => prev - 1)} disabled={page === 0} className="px-3 py-1 border border-slate-300 rounded-md bg-white hover:bg-slate-50 disabled:opacity-50">
+            Previous
+          </button>
+          <span>Page {page + 1} of {pageCount}</span>
+          <button type="button" onClick={() => setPage(prev => prev + 1)} disabled={page + 1 >= pageCount} className="px-3 py-1 border border-slate-300 rounded-md bg-white hover:bg-slate-50 disabled:opacity-50">
+            Next
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default AdminTableView;
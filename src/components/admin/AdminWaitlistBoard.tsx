@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { formatAdminValue } from '@/lib/adminTables';
+import type { WaitlistStatus } from '@/lib/schemas';
+import {
+  INSURANCE_TYPE_LABELS,
+  RPM_DEVICE_INTEREST_LABELS,
+  toWaitlistCsv,
+  WAITLIST_STATUS_LABELS,
+  WAITLIST_STATUS_TRANSITIONS,
+} from '@/lib/waitlist';
+import { recordStaffAuditEvent, useWaitlistActions, useWaitlistBoard } from '@/lib/hooks';
+
+interface AdminWaitlistBoardProps {
+  onSelect: (id: string) => void;
+}
+
+const BOARD_COLUMNS = Object.keys(WAITLIST_STATUS_LABELS) as WaitlistStatus[];
+
+const AdminWaitlistBoard: React.FC<AdminWaitlistBoardProps> = ({ onSelect }) => {
+  const { entries, status, error, reload } = useWaitlistBoard();
+  const { advance, status: actionStatus, error: actionError } = useWaitlistActions();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const move = async (entryId: string, next: WaitlistStatus) => {
+    try {
+      await advance({ entryId, status: next });
+      reload();
+    } catch {
+      // error is surfaced by the hook
+    }
+  };
+
+  const exportCsv = async () => {
+    setIsExporting(true);
+    try {
+      await recordStaffAuditEvent('export', 'waitlist_entries', null, {
+        row_ids: entries.map(entry => entry.id),
+        format: 'csv',
+      });
+      const blob = new Blob([toWaitlistCsv(entries)], { type: 'text/csv;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `rpm-waitlist-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-xl font-bold text-slate-900">RPM Waitlist</h2>
+        <button type="button" onClick={exportCsv} disabled={isExporting || entries.length === 0} className="py-2 px-4 border border-slate-300 rounded-2xl text-sm font-medium text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-50">
+          {isExporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      {status === 'loading' && <p className="mt-6 text-slate-500">Loading...</p>}
+      {status === 'error' && <p className="mt-6 text-error">{error}</p>}
+      {actionStatus === 'error' && <p className="mt-4 text-sm text-error" aria-live="polite">{actionError}</p>}
+
+      {status === 'idle' && (
+        <div className="mt-4 grid md:grid-cols-3 gap-4">
+          {BOARD_COLUMNS.map(column => {
+            const columnEntries = entries.filter(entry => entry.status === column);
+            return (
+              <div key={column} className="bg-slate-50 rounded-2xl p-4">
+                <h3 className="text-sm font-semibold text-slate-700">
+                  {WAITLIST_STATUS_LABELS[column]} <span className="text-slate-500">({columnEntries.length})</span>
+                </h3>
+                <ul className="mt-3 space-y-3">
+                  {columnEntries.map(entry => (
+                    <li key={entry.id} className="bg-white rounded-xl shadow-sm p-4 text-sm">
+                      <button type="button" onClick={() => onSelect(entry.id)} className="font-semibold text-burgundy hover:underline">
+                        {entry.name}
+                      </button>
+                      <p className="mt-1 text-slate-600 break-words">{entry.email}{entry.phone && ` · ${entry.phone}`}</p>
+                      <p className="mt-1 text-slate-600">
+                        {entry.device_interest ? RPM_DEVICE_INTEREST_LABELS[entry.device_interest] : 'Device not given'}
+                        {' · '}
+                        {entry.insurance_type ? INSURANCE_TYPE_LABELS[entry.insurance_type] : 'Insurance not given'}
+                      </p>
+                      <p className="mt-1 text-xs text-slate-500">Joined {formatAdminValue(entry.created_at, 'date')}</p>
+                      {entry.rpm_patient_id && <p className="mt-1 text-xs font-medium text-success">RPM patient record created</p>}
+                      {entry.status && WAITLIST_STATUS_TRANSITIONS[entry.status].length > 0 && (
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {WAITLIST_STATUS_TRANSITIONS[entry.status].map(next => (
+                            <button key={next} type="button" onClick={() => move(entry.id, next)} disabled={actionStatus === 'submitting'} className="py-1 px-3 border border-slate-300 rounded-2xl text-xs font-medium text-slate-700 bg-white hover:bg-rose-mist disabled:opacity-50">
+                              Move to {WAITLIST_STATUS_LABELS[next]}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {columnEntries.length === 0 && <p className="mt-3 text-sm text-slate-500">No entries.</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default AdminWaitlistBoard;
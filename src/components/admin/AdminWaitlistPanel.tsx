@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import type { ContactMethod, ContactOutcome, WaitlistStatus } from '@/lib/schemas';
+import {
+  CONTACT_METHOD_LABELS,
+  CONTACT_OUTCOME_LABELS,
+  WAITLIST_STATUS_LABELS,
+  WAITLIST_STATUS_TRANSITIONS,
+} from '@/lib/waitlist';
+import { useWaitlistActions, useWaitlistContactAttempts } from '@/lib/hooks';
+
+interface AdminWaitlistPanelProps {
+  entryId: string;
+  currentStatus: WaitlistStatus;
+  notes: string | null;
+  rpmPatientId: string | null;
+  onChange: () => void;
+}
+
+const controlClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-burgundy focus:border-burgundy';
+const primaryButtonClassName = 'py-2 px-4 border border-transparent rounded-2xl text-sm font-medium text-white bg-burgundy hover:bg-burgundy-dark disabled:bg-slate-400';
+
+const AdminWaitlistPanel: React.FC<AdminWaitlistPanelProps> = ({ entryId, currentStatus, notes, rpmPatientId, onChange }) => {
+  const { attempts, status: attemptsStatus, reload } = useWaitlistContactAttempts(entryId);
+  const { advance, logContactAttempt, saveNotes, convert, status, error } = useWaitlistActions();
+  const [notesInput, setNotesInput] = useState(notes ?? '');
+  const [method, setMethod] = useState<ContactMethod>('phone');
+  const [outcome, setOutcome] = useState<ContactOutcome>('reached');
+  const [attemptNote, setAttemptNote] = useState('');
+  const [dob, setDob] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const isSubmitting = status === 'submitting';
+
+  useEffect(() => {
+    setNotesInput(notes ?? '');
+  }, [notes]);
+
+  // Runs a staff action; errors are surfaced by the hook
+  const run = async (action: () => Promise<unknown>, successMessage: string) => {
+    setMessage(null);
+    try {
+      await action();
+      setMessage(successMessage);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const moveTo = (next: WaitlistStatus) =>
+    run(() => advance({ entryId, status: next }), `Moved to ${WAITLIST_STATUS_LABELS[next]}.`).then(ok => ok && onChange());
+
+  const handleSaveNotes = () =>
+    run(() => saveNotes(entryId, notesInput), 'Notes saved.').then(ok => ok && onChange());
+
+  const handleLogAttempt = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const ok = await run(() => logContactAttempt({ entryId, method, outcome, note: attemptNote.trim() }), 'Contact attempt logged.');
+    if (ok) {
+      setAttemptNote('');
+      reload();
+    }
+  };
+
+  const handleConvert = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (await run(() => convert({ entryId, dob }), 'RPM patient record created.')) {
+      setDob('');
+      onChange();
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-sm p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Status</h3>
+          <p className="mt-1 text-2xl font-bold text-burgundy">{WAITLIST_STATUS_LABELS[currentStatus]}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {WAITLIST_STATUS_TRANSITIONS[currentStatus].map(next => (
+            <button key={next} type="button" onClick={() => moveTo(next)} disabled={isSubmitting} className={primaryButtonClassName}>
+              Mark {WAITLIST_STATUS_LABELS[next]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div aria-live="polite">
+        {status === 'error' && <p className="mt-3 text-sm text-error">{error}</p>}
+        {status === 'success' && message && <p className="mt-3 text-sm text-slate-600">{message}</p>}
+      </div>
+
+      {currentStatus === 'enrolled' && (
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold text-slate-700">RPM Patient</h4>
+          {rpmPatientId ? (
+            <p className="mt-2 text-sm text-slate-700">Converted to RPM patient {rpmPatientId}.</p>
+          ) : (
+            <form onSubmit={handleConvert} className="mt-2 flex flex-wrap items-end gap-3">
+              <div>
+                <label htmlFor="admin-waitlist-dob" className="block text-xs font-medium text-slate-600">Patient Date of Birth</label>
+                <input type="date" id="admin-waitlist-dob" value={dob} onChange={e => setDob(e.target.value)} required className={controlClassName} />
+              </div>
+              <button type="submit" disabled={isSubmitting || !dob} className={primaryButtonClassName}>
+                Create RPM Patient
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+
+      <div className="mt-6">
+        <label htmlFor="admin-waitlist-notes" className="block text-sm font-semibold text-slate-700">Notes</label>
+        <textarea id="admin-waitlist-notes" rows={3} value={notesInput} onChange={e => setNotesInput(e.target.value)} placeholder="Staff only, e.g., Prefers calls after 3pm; asked about cuff sizes" className={controlClassName}></textarea>
+        <button type="button" onClick={handleSaveNotes} disabled={isSubmitting || notesInput === (notes ?? '')} className={`mt-3 ${primaryButtonClassName}`}>
+          Save Notes
+        </button>
+      </div>
+
+      <h4 className="mt-6 text-sm font-semibold text-slate-700">Contact Attempts</h4>
+      <form onSubmit={handleLogAttempt} className="mt-2 grid sm:grid-cols-4 gap-3 items-end">
+        <div>
+          <label htmlFor="admin-contact-method" className="block text-xs font-medium text-slate-600">Method</label>
+          <select id="admin-contact-method" value={method} onChange={e => setMethod(e.target.value as ContactMethod)} className={controlClassName}>
+            {Object.entries(CONTACT_METHOD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="admin-contact-outcome" className="block text-xs font-medium text-slate-600">Outcome</label>
+          <select id="admin-contact-outcome" value={outcome} onChange={e => setOutcome(e.target.value as ContactOutcome)} className={controlClassName}>
+            {Object.entries(CONTACT_OUTCOME_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="admin-contact-note" className="block text-xs font-medium text-slate-600">Note (Optional)</label>
+          <input type="text" id="admin-contact-note" value={attemptNote} onChange={e => setAttemptNote(e.target.value)} className={controlClassName} />
+        </div>
+        <button type="submit" disabled={isSubmitting} className={primaryButtonClassName}>
+          Log Attempt
+        </button>
+      </form>
+
+      {attemptsStatus === 'error' && <p className="mt-2 text-sm text-error">Contact attempts could not be loaded.</p>}
+      {attemptsStatus === 'idle' && attempts.length === 0 && <p className="mt-3 text-sm text-slate-500">No contact attempts yet.</p>}
+      <ol className="mt-3 space-y-2 text-sm">
+        {attempts.map(attempt => (
+          <li key={attempt.id} className="flex flex-wrap gap-x-3 text-slate-700">
+            <span className="text-slate-500">{attempt.created_at && new Date(attempt.created_at).toLocaleString()}</span>
+            <span className="font-medium">{CONTACT_METHOD_LABELS[attempt.method]} · {CONTACT_OUTCOME_LABELS[attempt.outcome]}</span>
+            {attempt.note && <span className="text-slate-600">— {attempt.note}</span>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default AdminWaitlistPanel;
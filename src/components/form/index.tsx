@@ -0,0 +1,200 @@
+import React from 'react';
+import { useFieldError, useSchemaField } from '@/lib/forms';
+
+// Field components for forms built with useSchemaForm; render them inside the form's <FormProvider>.
+// Each field's error message gets the id `${id}-error` and is linked through aria-describedby.
+
+export const getInputClassName = (hasError: boolean) =>
+  `mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm placeholder-slate-400 focus:outline-none focus:ring-burgundy focus:border-burgundy ${hasError ? 'border-red-500' : 'border-slate-300'}`;
+
+const LABEL_CLASS_NAME = 'block text-sm font-medium text-slate-700';
+
+// Smaller labels for the fields of a repeated row, e.g. a prescription
+export const ROW_LABEL_CLASS_NAME = 'block text-xs font-medium text-slate-600';
+
+const describedBy = (id: string, error: string | undefined, extra?: string) =>
+  [error ? `${id}-error` : '', extra ?? ''].filter(Boolean).join(' ') || undefined;
+
+interface FieldErrorProps {
+  id?: string;
+  message: string | undefined;
+  className?: string;
+}
+
+export const FieldError: React.FC<FieldErrorProps> = ({ id, message, className = 'mt-1' }) =>
+  message ? <p id={id} className={`${className} text-sm text-error`}>{message}</p> : null;
+
+// List-level error of an array field, e.g. "At least one prescription is required"
+export const ArrayFieldError: React.FC<{ id?: string; name: string }> = ({ id, name }) => {
+  const error = useFieldError(name);
+  return <FieldError id={id} message={error} />;
+};
+
+interface BaseFieldProps {
+  name: string;
+  id: string;
+  label: React.ReactNode;
+  labelClassName?: string;
+  className?: string;
+  /** Ids of other elements describing the field, e.g. a warning above the form */
+  describedBy?: string;
+}
+
+type TextFieldProps = BaseFieldProps &
+  Omit<React.InputHTMLAttributes<HTMLInputElement>, 'name' | 'id' | 'className'>;
+
+export const TextField: React.FC<TextFieldProps> = ({ name, id, label, labelClassName = LABEL_CLASS_NAME, className, describedBy: extraDescribedBy, type = 'text', ...inputProps }) => {
+  const { registration, error } = useSchemaField(name);
+  return (
+    <div className={className}>
+      <label htmlFor={id} className={labelClassName}>{label}</label>
+      <input
+        {...inputProps}
+        {...registration}
+        type={type}
+        id={id}
+        className={getInputClassName(!!error)}
+        aria-invalid={error ? 'true' : 'false'}
+        aria-describedby={describedBy(id, error, extraDescribedBy)}
+      />
+      <FieldError id={`${id}-error`} message={error} />
+    </div>
+  );
+};
+
+type TextAreaFieldProps = BaseFieldProps &
+  Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'name' | 'id' | 'className'>;
+
+export const TextAreaField: React.FC<TextAreaFieldProps> = ({ name, id, label, labelClassName = LABEL_CLASS_NAME, className, describedBy: extraDescribedBy, ...textAreaProps }) => {
+  const { registration, error } = useSchemaField(name);
+  return (
+    <div className={className}>
+      <label htmlFor={id} className={labelClassName}>{label}</label>
+      <textarea
+        {...textAreaProps}
+        {...registration}
+        id={id}
+        className={getInputClassName(!!error)}
+        aria-invalid={error ? 'true' : 'false'}
+        aria-describedby={describedBy(id, error, extraDescribedBy)}
+      ></textarea>
+      <FieldError id={`${id}-error`} message={error} />
+    </div>
+  );
+};
+
+type SelectFieldProps = BaseFieldProps & {
+  children: React.ReactNode;
+  /** Replaces the default input styling */
+  selectClassName?: string;
+};
+
+export const SelectField: React.FC<SelectFieldProps> = ({ name, id, label, labelClassName = LABEL_CLASS_NAME, className, describedBy: extraDescribedBy, selectClassName, children }) => {
+  const { registration, error } = useSchemaField(name);
+  return (
+    <div className={className}>
+      <label htmlFor={id} className={labelClassName}>{label}</label>
+      <select
+        {...registration}
+        id={id}
+        className={selectClassName ?? getInputClassName(!!error)}
+        aria-invalid={error ? 'true' : 'false'}
+        aria-describedby={describedBy(id, error, extraDescribedBy)}
+      >
+        {children}
+      </select>
+      <FieldError id={`${id}-error`} message={error} />
+    </div>
+  );
+};
+
+interface CheckboxFieldProps {
+  name: string;
+  id: string;
+  label: React.ReactNode;
+  /** Shown under the label with the id `${id}-description` */
+  description?: React.ReactNode;
+  required?: boolean;
+  className?: string;
+  /** Positions the error message, which sits below the checkbox row */
+  errorClassName?: string;
+}
+
+export const CheckboxField: React.FC<CheckboxFieldProps> = ({ name, id, label, description, required, className = '', errorClassName = '-mt-4' }) => {
+  const { registration, error } = useSchemaField(name);
+  return (
+    <>
+      <div className={`relative flex items-start ${className}`.trim()}>
+        <div className="flex items-center h-5">
+          <input
+            {...registration}
+            id={id}
+            type="checkbox"
+            required={required}
+            className={`focus:ring-burgundy h-4 w-4 text-burgundy rounded ${error ? 'border-red-500' : 'border-slate-300'}`}
+            aria-invalid={error ? 'true' : 'false'}
+            aria-describedby={describedBy(id, error, description ? `${id}-description` : undefined)}
+          />
+        </div>
+        <div className="ml-3 text-sm">
+          <label htmlFor={id} className="font-medium text-slate-700">{label}</label>
+          {description && <p id={`${id}-description`} className="text-slate-500">{description}</p>}
+        </div>
+      </div>
+      <FieldError id={`${id}-error`} message={error} className={errorClassName} />
+    </>
+  );
+};
+
+interface RadioOption {
+  id: string;
+  value: string;
+  label: React.ReactNode;
+}
+
+interface RadioGroupFieldProps {
+  name: string;
+  legend: React.ReactNode;
+  options: RadioOption[];
+  /** Lays out the options, e.g. stacked or in a row */
+  optionsClassName?: string;
+}
+
+export const RadioGroupField: React.FC<RadioGroupFieldProps> = ({ name, legend, options, optionsClassName = 'mt-2 space-y-2' }) => {
+  const { registration } = useSchemaField(name);
+  return (
+    <fieldset>
+      <legend className="text-sm font-medium text-slate-700">{legend}</legend>
+      <div className={optionsClassName}>
+        {options.map(option => (
+          <div key={option.value} className="flex items-center">
+            <input
+              {...registration}
+              id={option.id}
+              type="radio"
+              value={option.value}
+              className="focus:ring-burgundy h-4 w-4 text-burgundy border-slate-300"
+            />
+            <label htmlFor={option.id} className="ml-3 block text-sm font-medium text-slate-700">
+              {option.label}
+            </label>
+          </div>
+        ))}
+      </div>
+    </fieldset>
+  );
+};
+
+interface HoneypotFieldProps {
+  id: string;
+  inputRef: React.Ref<HTMLInputElement>;
+}
+
+// Bot trap from useAbuseGuard: kept off-screen and out of the tab order and accessibility tree,
+// so only bots that fill in every field fill it in.
+export const HoneypotField: React.FC<HoneypotFieldProps> = ({ id, inputRef }) => (
+  <div aria-hidden="true" className="absolute -left-[10000px] top-auto h-px w-px overflow-hidden">
+    <label htmlFor={id}>Leave this field empty</label>
+    <input ref={inputRef} id={id} name="website" type="text" tabIndex={-1} autoComplete="off" defaultValue="" />
+  </div>
+);
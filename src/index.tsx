@@ -1,16 +1,36 @@
-import React from 'react';
+import React, { Suspense, lazy } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import './index.css';
+import { startOutbox } from './lib/outboxDelivery';
+
+// The staff dashboard is loaded on demand so it stays out of the public bundle
+const AdminApp = lazy(() => import('./components/admin/AdminApp'));
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+const appPath = window.location.pathname.slice(import.meta.env.BASE_URL.length - 1);
+const isAdminPath = appPath === '/admin' || appPath.startsWith('/admin/');
+// Patient sign-in links return to /account
+const isAccountPath = appPath === '/account';
+
+// Refill requests queued while offline are sent from the public site
+if (!isAdminPath) {
+  startOutbox();
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isAdminPath ? (
+      <Suspense fallback={null}>
+        <AdminApp />
+      </Suspense>
+    ) : (
+      <App initialPage={isAccountPath ? 'account' : 'home'} />
+    )}
   </React.StrictMode>
 );
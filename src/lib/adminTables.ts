@@ -0,0 +1,445 @@
+/**
+ * Admin dashboard table definitions
+ * Describes how each submission table is listed, filtered, and shown in detail
+ * on the staff /admin dashboard.
+ */
+
+export type AdminTableName =
+  | 'contact_messages'
+  | 'waitlist_entries'
+  | 'refill_requests'
+  | 'transfer_requests'
+  | 'inbound_transfer_requests'
+  | 'rpm_patients'
+  | 'rpm_readings'
+  | 'med_sync_enrollments'
+  | 'splash_modal_submissions'
+  | 'submission_rejections'
+  | 'audit_events';
+
+export type AdminValueFormat = 'text' | 'date' | 'datetime' | 'boolean' | 'prescriptions' | 'json';
+
+export interface AdminColumn {
+  key: string;
+  label: string;
+  format?: AdminValueFormat;
+}
+
+/**
+ * Exact-match filter on an enum-like column
+ */
+export interface AdminFilter {
+  column: string;
+  label: string;
+  options: readonly string[];
+}
+
+export interface AdminTableConfig {
+  name: AdminTableName;
+  label: string;
+  /** Text columns matched by the search box (case-insensitive substring) */
+  searchColumns: string[];
+  listColumns: AdminColumn[];
+  detailColumns: AdminColumn[];
+  filters: AdminFilter[];
+}
+
+export type AdminRow = Record<string, unknown> & { id: string; created_at: string };
+
+const SERVICE_PREFERENCES = ['pickup', 'delivery'] as const;
+
+const REQUEST_STATUSES = ['received', 'in_progress', 'ready_for_pickup', 'out_for_delivery', 'completed', 'rejected'] as const;
+
+const RPM_DEVICE_INTERESTS = ['blood_pressure', 'glucose', 'both'] as const;
+
+const RPM_READING_TYPES = ['blood_pressure', 'glucose'] as const;
+
+const MED_SYNC_STATUSES = ['pending', 'active', 'cancelled'] as const;
+
+const INSURANCE_TYPES = ['medicare', 'medicare_advantage', 'medicaid', 'commercial', 'uninsured', 'other'] as const;
+
+const TIMESTAMPS: AdminColumn[] = [
+  { key: 'created_at', label: 'Submitted', format: 'datetime' },
+  { key: 'updated_at', label: 'Updated', format: 'datetime' },
+];
+
+export const ADMIN_TABLES: Record<AdminTableName, AdminTableConfig> = {
+  contact_messages: {
+    name: 'contact_messages',
+    label: 'Contact Messages',
+    searchColumns: ['name', 'email', 'phone', 'message'],
+    listColumns: [
+      { key: 'created_at', label: 'Submitted', format: 'datetime' },
+      { key: 'name', label: 'Name' },
+      { key: 'email', label: 'Email' },
+      { key: 'reason', label: 'Reason' },
+    ],
+    detailColumns: [
+      { key: 'name', label: 'Name' },
+      { key: 'phone', label: 'Phone' },
+      { key: 'email', label: 'Email' },
+      { key: 'reason', label: 'Reason' },
+      { key: 'message', label: 'Message' },
+      { key: 'consent', label: 'Consent', format: 'boolean' },
+      ...TIMESTAMPS,
+    ],
+    filters: [
+      { column: 'reason', label: 'Reason', options: ['general', 'new', 'transfer', 'refill', 'rpm'] },
+    ],
+  },
+  waitlist_entries: {
+    name: 'waitlist_entries',
+    label: 'Waitlist',
+    searchColumns: ['name', 'email', 'phone', 'notes'],
+    listColumns: [
+      { key: 'created_at', label: 'Joined', format: 'datetime' },
+      { key: 'name', label: 'Name' },
+      { key: 'email', label: 'Email' },
+      { key: 'device_interest', label: 'Device' },
+      { key: 'insurance_type', label: 'Insurance' },
+      { key: 'status', label: 'Status' },
+    ],
+    detailColumns: [
+      { key: 'name', label: 'Name' },
+      { key: 'email', label: 'Email' },
+      { key: 'phone', label: 'Phone' },
+      { key: 'device_interest', label: 'Device Interest' },
+      { key: 'insurance_type', label: 'Insurance' },
+      { key: 'status', label: 'Status' },
+      { key: 'rpm_patient_id', label: 'RPM Patient' },
+      ...TIMESTAMPS,
+    ],
+    filters: [
+      { column: 'status', label: 'Status', options: ['active', 'contacted', 'enrolled'] },
+      { column: 'device_interest', label: 'Device', options: RPM_DEVICE_INTERESTS },
+      { column: 'insurance_type', label: 'Insurance', options: INSURANCE_TYPES },
+    ],
+  },
+  refill_requests: {
+    name: 'refill_requests',
+    label: 'Refill Requests',
+    searchColumns: ['patient_name', 'phone', 'email', 'confirmation_code'],
+    listColumns: [
+      { key: 'created_at', label: 'Submitted', format: 'datetime' },
+      { key: 'patient_name', label: 'Patient' },
+      { key: 'dob', label: 'DOB', format: 'date' },
+      { key: 'preferred_service', label: 'Service' },
+      { key: 'status', label: 'Status' },
+    ],
+    detailColumns: [
+      { key: 'patient_name', label: 'Patient' },
+      { key: 'dob', label: 'Date of Birth', format: 'date' },
+      { key: 'phone', label: 'Phone' },
+      { key: 'email', label: 'Email' },
+      { key: 'prescriptions', label: 'Prescriptions', format: 'prescriptions' },
+      { key: 'preferred_service', label: 'Preferred Service' },
+      { key: 'notes', label: 'Notes' },
+      { key: 'consent', label: 'Consent', format: 'boolean' },
+      { key: 'confirmation_code', label: 'Confirmation Code' },
+      ...TIMESTAMPS,
+    ],
+    filters: [
+      { column: 'status', label: 'Status', options: REQUEST_STATUSES },
+      { column: 'preferred_service', label: 'Service', options: SERVICE_PREFERENCES },
+    ],
+  },
+  transfer_requests: {
+    name: 'transfer_requests',
+    label: 'Outbound Transfers',
+    searchColumns: ['patient_first_name', 'patient_last_name', 'rx_number', 'transfer_to_pharmacy_name'],
+    listColumns: [
+      { key: 'created_at', label: 'Submitted', format: 'datetime' },
+      { key: 'patient_last_name', label: 'Patient' },
+      { key: 'rx_number', label: 'Rx #' },
+      { key: 'transfer_to_pharmacy_name', label: 'Destination' },
+      { key: 'status', label: 'Status' },
+    ],
+    detailColumns: [
+      { key: 'patient_first_name', label: 'First Name' },
+      { key: 'patient_middle_name', label: 'Middle Name' },
+      { key: 'patient_last_name', label: 'Last Name' },
+      { key: 'patient_suffix', label: 'Suffix' },
+      { key: 'patient_dob', label: 'Date of Birth', format: 'date' },
+      { key: 'patient_phone', label: 'Phone' },
+      { key: 'patient_email', label: 'Email' },
+      { key: 'rx_number', label: 'Rx #' },
+      { key: 'rx_fill_date', label: 'Last Fill Date', format: 'date' },
+      { key: 'transfer_to_pharmacy_name', label: 'Destination Pharmacy' },
+      { key: 'transfer_to_pharmacy_address1', label: 'Address Line 1' },
+      { key: 'transfer_to_pharmacy_address2', label: 'Address Line 2' },
+      { key: 'transfer_to_pharmacy_city', label: 'City' },
+      { key: 'transfer_to_pharmacy_state', label: 'State' },
+      { key: 'transfer_to_pharmacy_zip', label: 'ZIP' },
+      { key: 'transfer_to_pharmacy_phone', label: 'Pharmacy Phone' },
+      { key: 'transfer_to_pharmacy_ncdp', label: 'NCPDP' },
+      { key: 'transfer_rx_remark', label: 'Reason for Transfer' },
+      { key: 'consent', label: 'Consent', format: 'boolean' },
+      ...TIMESTAMPS,
+    ],
+    filters: [
+      { column: 'status', label: 'Status', options: REQUEST_STATUSES },
+    ],
+  },
+  inbound_transfer_requests: {
+    name: 'inbound_transfer_requests',
+    label: 'Inbound Transfers',
+    searchColumns: ['first_name', 'last_name', 'phone', 'current_pharmacy_name', 'prescriber_name'],
+    listColumns: [
+      { key: 'created_at', label: 'Submitted', format: 'datetime' },
+      { key: 'last_name', label: 'Patient' },
+      { key: 'current_pharmacy_name', label: 'Current Pharmacy' },
+      { key: 'status', label: 'Status' },
+    ],
+    detailColumns: [
+      { key: 'first_name', label: 'First Name' },
+      { key: 'middle_name', label: 'Middle Name' },
+      { key: 'last_name', label: 'Last Name' },
+      { key: 'suffix', label: 'Suffix' },
+      { key: 'dob', label: 'Date of Birth', format: 'date' },
+      { key: 'phone', label: 'Phone' },
+      { key: 'email', label: 'Email' },
+      { key: 'current_pharmacy_name', label: 'Current Pharmacy' },
+      { key: 'current_pharmacy_phone', label: 'Pharmacy Phone' },
+      { key: 'current_pharmacy_city', label: 'City' },
+      { key: 'current_pharmacy_state', label: 'State' },
+      { key: 'current_pharmacy_ncpdp', label: 'NCPDP' },
+      { key: 'prescriptions', label: 'Prescriptions', format: 'prescriptions' },
+      { key: 'prescriber_name', label: 'Prescriber' },
+      { key: 'prescriber_phone', label: 'Prescriber Phone' },
+      { key: 'preferred_service', label: 'Preferred Service' },
+      { key: 'notes', label: 'Notes' },
+      { key: 'consent', label: 'Consent', format: 'boolean' },
+      { key: 'status', label: 'Status' },
+      ...TIMESTAMPS,
+    ],
+    filters: [
+      { column: 'status', label: 'Status', options: ['pending', 'in_progress', 'completed', 'cancelled'] },
+      { column: 'preferred_service', label: 'Service', options: SERVICE_PREFERENCES },
+    ],
+  },
+  rpm_patients: {
+    name: 'rpm_patients',
+    label: 'RPM Patients',
+    searchColumns: ['first_name', 'last_name', 'phone', 'email'],
+    listColumns: [
+      { key: 'created_at', label: 'Enrolled', format: 'datetime' },
+      { key: 'last_name', label: 'Patient' },
+      { key: 'dob', label: 'DOB', format: 'date' },
+      { key: 'device_interest', label: 'Device' },
+      { key: 'insurance_type', label: 'Insurance' },
+    ],
+    detailColumns: [
+      { key: 'first_name', label: 'First Name' },
+      { key: 'middle_name', label: 'Middle Name' },
+      { key: 'last_name', label: 'Last Name' },
+      { key: 'suffix', label: 'Suffix' },
+      { key: 'dob', label: 'Date of Birth', format: 'date' },
+      { key: 'phone', label: 'Phone' },
+      { key: 'email', label: 'Email' },
+      { key: 'device_interest', label: 'Device' },
+      { key: 'insurance_type', label: 'Insurance' },
+      { key: 'created_at', label: 'Enrolled', format: 'datetime' },
+      { key: 'updated_at', label: 'Updated', format: 'datetime' },
+    ],
+    filters: [
+      { column: 'device_interest', label: 'Device', options: RPM_DEVICE_INTERESTS },
+      { column: 'insurance_type', label: 'Insurance', options: INSURANCE_TYPES },
+    ],
+  },
+  rpm_readings: {
+    name: 'rpm_readings',
+    label: 'RPM Readings',
+    searchColumns: ['review_note'],
+    listColumns: [
+      { key: 'measured_at', label: 'Measured', format: 'datetime' },
+      { key: 'reading_type', label: 'Type' },
+      { key: 'systolic', label: 'Systolic' },
+      { key: 'diastolic', label: 'Diastolic' },
+      { key: 'glucose_mg_dl', label: 'Glucose' },
+      { key: 'flagged', label: 'Flagged', format: 'boolean' },
+      { key: 'reviewed_at', label: 'Reviewed', format: 'datetime' },
+    ],
+    detailColumns: [
+      { key: 'rpm_patient_id', label: 'RPM Patient' },
+      { key: 'device_id', label: 'Device' },
+      { key: 'reading_type', label: 'Type' },
+      { key: 'measured_at', label: 'Measured', format: 'datetime' },
+      { key: 'systolic', label: 'Systolic (mmHg)' },
+      { key: 'diastolic', label: 'Diastolic (mmHg)' },
+      { key: 'pulse', label: 'Pulse (bpm)' },
+      { key: 'glucose_mg_dl', label: 'Glucose (mg/dL)' },
+      { key: 'glucose_context', label: 'Glucose Context' },
+      { key: 'alert_flags', label: 'Alerts', format: 'json' },
+      { key: 'reviewed_at', label: 'Reviewed', format: 'datetime' },
+      { key: 'reviewed_by', label: 'Reviewed By' },
+      { key: 'review_note', label: 'Review Note' },
+      { key: 'created_at', label: 'Received', format: 'datetime' },
+    ],
+    filters: [
+      { column: 'reading_type', label: 'Type', options: RPM_READING_TYPES },
+      { column: 'flagged', label: 'Flagged', options: ['true', 'false'] },
+    ],
+  },
+  med_sync_enrollments: {
+    name: 'med_sync_enrollments',
+    label: 'Med Sync',
+    searchColumns: ['first_name', 'last_name', 'phone', 'email'],
+    listColumns: [
+      { key: 'created_at', label: 'Enrolled', format: 'datetime' },
+      { key: 'last_name', label: 'Patient' },
+      { key: 'dob', label: 'DOB', format: 'date' },
+      { key: 'sync_day', label: 'Sync Day' },
+      { key: 'status', label: 'Status' },
+      { key: 'preferred_service', label: 'Service' },
+    ],
+    detailColumns: [
+      { key: 'first_name', label: 'First Name' },
+      { key: 'middle_name', label: 'Middle Name' },
+      { key: 'last_name', label: 'Last Name' },
+      { key: 'suffix', label: 'Suffix' },
+      { key: 'dob', label: 'Date of Birth', format: 'date' },
+      { key: 'phone', label: 'Phone' },
+      { key: 'email', label: 'Email' },
+      { key: 'medications', label: 'Medications', format: 'prescriptions' },
+      { key: 'supply_as_of', label: 'Supply As Of', format: 'date' },
+      { key: 'sync_day', label: 'Sync Day' },
+      { key: 'preferred_service', label: 'Service' },
+      { key: 'status', label: 'Status' },
+      { key: 'activated_at', label: 'Activated', format: 'datetime' },
+      { key: 'notes', label: 'Notes' },
+      { key: 'consent', label: 'Consent', format: 'boolean' },
+      ...TIMESTAMPS,
+    ],
+    filters: [
+      { column: 'status', label: 'Status', options: MED_SYNC_STATUSES },
+      { column: 'preferred_service', label: 'Service', options: SERVICE_PREFERENCES },
+    ],
+  },
+  splash_modal_submissions: {
+    name: 'splash_modal_submissions',
+    label: 'Email Signups',
+    searchColumns: ['email'],
+    listColumns: [
+      { key: 'created_at', label: 'Signed Up', format: 'datetime' },
+      { key: 'email', label: 'Email' },
+    ],
+    detailColumns: [
+      { key: 'email', label: 'Email' },
+      ...TIMESTAMPS,
+    ],
+    filters: [],
+  },
+  submission_rejections: {
+    name: 'submission_rejections',
+    label: 'Rejected Submissions',
+    searchColumns: ['email', 'ip_address'],
+    listColumns: [
+      { key: 'created_at', label: 'Rejected', format: 'datetime' },
+      { key: 'form', label: 'Form' },
+      { key: 'reason', label: 'Reason' },
+      { key: 'email', label: 'Email' },
+      { key: 'ip_address', label: 'IP Address' },
+    ],
+    detailColumns: [
+      { key: 'form', label: 'Form' },
+      { key: 'reason', label: 'Reason' },
+      { key: 'email', label: 'Email' },
+      { key: 'ip_address', label: 'IP Address' },
+      { key: 'details', label: 'Details', format: 'json' },
+      { key: 'created_at', label: 'Rejected', format: 'datetime' },
+    ],
+    filters: [
+      { column: 'form', label: 'Form', options: ['contact', 'waitlist', 'splash', 'med_sync'] },
+      { column: 'reason', label: 'Reason', options: ['honeypot', 'too_fast', 'challenge_failed', 'rate_limited'] },
+    ],
+  },
+  audit_events: {
+    name: 'audit_events',
+    label: 'Audit Log',
+    searchColumns: ['actor_email', 'row_id', 'source'],
+    listColumns: [
+      { key: 'created_at', label: 'Time', format: 'datetime' },
+      { key: 'actor_email', label: 'Actor' },
+      { key: 'action', label: 'Action' },
+      { key: 'table_name', label: 'Table' },
+      { key: 'row_id', label: 'Record' },
+      { key: 'source', label: 'Source' },
+    ],
+    detailColumns: [
+      { key: 'seq', label: 'Sequence' },
+      { key: 'created_at', label: 'Time', format: 'datetime' },
+      { key: 'actor_email', label: 'Actor' },
+      { key: 'actor_id', label: 'Actor ID' },
+      { key: 'actor_role', label: 'Role' },
+      { key: 'action', label: 'Action' },
+      { key: 'table_name', label: 'Table' },
+      { key: 'row_id', label: 'Record' },
+      { key: 'source', label: 'Source' },
+      { key: 'details', label: 'Details', format: 'json' },
+      { key: 'prev_hash', label: 'Previous Hash' },
+      { key: 'hash', label: 'Hash' },
+    ],
+    filters: [
+      { column: 'action', label: 'Action', options: ['create', 'view', 'update', 'delete', 'export'] },
+      {
+        column: 'table_name',
+        label: 'Table',
+        options: [
+          'refill_requests',
+          'transfer_requests',
+          'inbound_transfer_requests',
+          'contact_messages',
+          'waitlist_entries',
+          'waitlist_contact_attempts',
+          'rpm_patients',
+          'rpm_devices',
+          'rpm_alert_thresholds',
+          'rpm_readings',
+          'rpm_time_entries',
+          'med_sync_enrollments',
+          'med_sync_fills',
+          'splash_modal_submissions',
+          'submission_rejections',
+        ],
+      },
+    ],
+  },
+};
+
+/**
+ * Formats a column value for display; empty values render as an em dash
+ */
+export function formatAdminValue(value: unknown, format: AdminValueFormat = 'text'): string {
+  if (value === null || value === undefined || value === '') return '—';
+
+  switch (format) {
+    case 'date':
+      // DATE columns have no time zone, so format without shifting the day
+      return new Date(`${String(value).slice(0, 10)}T00:00:00`).toLocaleDateString();
+    case 'datetime':
+      return new Date(String(value)).toLocaleString();
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'prescriptions':
+      return Array.isArray(value)
+        ? value
+            .map((rx: { rxNumber?: string; medicationName?: string }) =>
+              [rx.rxNumber && `Rx #${rx.rxNumber}`, rx.medicationName].filter(Boolean).join(' – ')
+            )
+            .join('\n')
+        : String(value);
+    case 'json':
+      return JSON.stringify(value, null, 2);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * ISO timestamp of local midnight for a YYYY-MM-DD date, optionally offset by whole days
+ */
+export function localDayStart(date: string, offsetDays = 0): string {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + offsetDays);
+  return day.toISOString();
+}
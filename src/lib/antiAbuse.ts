@@ -0,0 +1,69 @@
+/**
+ * Abuse protection for the public forms
+ * Collects the signals the contact, waitlist and email signup RPCs screen
+ * submissions with (see 012_submission_abuse_protection.sql): a honeypot
+ * field, the time since the form was shown, and an optional challenge token.
+ * The RPCs log rejected submissions for staff and return no id.
+ */
+
+import { useCallback, useEffect, useRef } from "react";
+
+export interface AbuseSignals {
+  /** Value of the hidden honeypot field; anything but "" marks a bot */
+  honeypot: string;
+  /** Milliseconds between showing the form and submitting it */
+  elapsedMs: number;
+  challengeToken: string | null;
+}
+
+/**
+ * Issues a token proving the submitter passed a challenge (e.g. a CAPTCHA
+ * widget). Tokens are checked server-side by verify_submission_challenge.
+ */
+export interface ChallengeProvider {
+  name: string;
+  /** `action` names the form being submitted */
+  getToken: (action: string) => Promise<string | null>;
+}
+
+/** Stand-in provider: no challenge, no token */
+export const noopChallengeProvider: ChallengeProvider = {
+  name: "none",
+  getToken: async () => null,
+};
+
+let challengeProvider: ChallengeProvider = noopChallengeProvider;
+
+export function setChallengeProvider(provider: ChallengeProvider): void {
+  challengeProvider = provider;
+}
+
+export const SUBMISSION_REJECTED_MESSAGE =
+  "We couldn't accept your submission right now. Please wait a few minutes and try again, or call us at (614) 349-5140.";
+
+/**
+ * Abuse signals for one form. Render a <HoneypotField> with `honeypotRef`
+ * inside the form and pass `collect()` along with the submission. Modal
+ * forms pass their open state so the timer restarts each time they open.
+ */
+export function useAbuseGuard(action: string, isOpen?: boolean) {
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const shownAtRef = useRef(Date.now());
+
+  useEffect(() => {
+    if (isOpen !== false) {
+      shownAtRef.current = Date.now();
+    }
+  }, [isOpen]);
+
+  const collect = useCallback(
+    async (): Promise<AbuseSignals> => ({
+      honeypot: honeypotRef.current?.value ?? "",
+      elapsedMs: Date.now() - shownAtRef.current,
+      challengeToken: await challengeProvider.getToken(action),
+    }),
+    [action]
+  );
+
+  return { honeypotRef, collect };
+}
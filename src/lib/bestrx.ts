@@ -3,7 +3,8 @@
  * Handles payload construction, API calls, and error handling for BestRX integration
  */
 
-import type { RefillFormData, TransferFormData } from './schemas';
+import type { RefillFormData, TransferFormData } from './schemas.ts';
+import { getBestRXLastName, normalizePatientName } from './patientName.ts';
 
 // BestRX API Endpoints
 export const BESTRX_ENDPOINTS = {
@@ -11,6 +12,57 @@ export const BESTRX_ENDPOINTS = {
   transfer: 'https://dataservice.bestrxconnect.com/prescription/submitrxtransferrequest',
 } as const;
 
+export type BestRXEndpoint = keyof typeof BESTRX_ENDPOINTS;
+
+/**
+ * Raw response returned by a BestRX transport
+ */
+export interface BestRXTransportResponse {
+  ok: boolean;
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Sends a JSON payload to a BestRX endpoint.
+ * Swap implementations to point at the live service, a mock server, or an in-process mock.
+ */
+export interface BestRXTransport {
+  post(
+    endpoint: BestRXEndpoint,
+    payload: Record<string, unknown>,
+    headers: Record<string, string>
+  ): Promise<BestRXTransportResponse>;
+}
+
+/**
+ * Creates a transport that POSTs to the given endpoint URLs with fetch
+ */
+export function createFetchTransport(
+  endpoints: Record<BestRXEndpoint, string> = BESTRX_ENDPOINTS
+): BestRXTransport {
+  return {
+    async post(endpoint, payload, headers) {
+      const response = await fetch(endpoints[endpoint], {
+        method: 'POST' as const,
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify(payload),
+      });
+
+      return {
+        ok: response.ok,
+        status: response.status,
+        body: (await response.json()) as unknown,
+      };
+    },
+  };
+}
+
+const defaultTransport = createFetchTransport();
+
 // BestRX Error Code Mappings
 export const BESTRX_ERROR_CODES: Record<string, string> = {
   // Refill errors
@@ -30,6 +82,29 @@ export const BESTRX_ERROR_CODES: Record<string, string> = {
   'ERROR0082': 'Transfer limit exceeded. Please try again later.',
 };
 
+/**
+ * Outcome of a single prescription within a refill request
+ */
+export type RefillRxStatus = 'accepted' | 'rejected';
+
+export interface RefillRxResult {
+  rxNumber: string;
+  medicationName: string;
+  status: RefillRxStatus;
+  errorCode?: string;
+  message: string;
+}
+
+/**
+ * Result of a BestRX Refill Request, with one entry per requested prescription
+ */
+export interface RefillSubmissionResult {
+  success: boolean;
+  message: string;
+  data?: unknown;
+  results?: RefillRxResult[];
+}
+
 /**
  * Formats phone number to match BestRX requirements (remove non-numeric)
  */
@@ -47,28 +122,17 @@ export function buildRefillRequestPayload(
   apiKey: string,
   username: string
 ): Record<string, unknown> {
-  // Parse prescription numbers and medication names
-  const rxNumbers = formData.prescriptionNumbers
-    .split(',')
-    .map((num: string) => num.trim())
-    .filter((num: string) => num.length > 0);
-
-  const medications = formData.medicationNames
-    .split(',')
-    .map((name: string) => name.trim())
-    .filter((name: string) => name.length > 0);
-
-  // Build RxInRefillRequest array
-  const rxInRefillRequest = rxNumbers.map((rxNumber: string, index: number) => ({
-    RxNumber: rxNumber,
-    MedicationName: medications[index] || '',
+  // Build RxInRefillRequest array, one entry per prescription row
+  const rxInRefillRequest = formData.prescriptions.map((rx) => ({
+    RxNumber: rx.rxNumber,
+    MedicationName: rx.medicationName || '',
   }));
 
   return {
     userName: username,
     APIKey: apiKey,
     PharmacyNumber: pharmacyNumber,
-    LastName: formData.patientName.split(' ').pop() || formData.patientName,
+    LastName: getBestRXLastName(formData),
     DOB: formData.dob, // Expected format: YYYY-MM-DD
     Phone: formatPhoneForBestRX(formData.phone),
     DeliveryOption: formData.preferredService || 'Pickup',
@@ -87,8 +151,14 @@ export function buildTransferRequestPayload(
   // Parse date for BestRX (YYYY-MM-DD format)
   const transferDate = new Date().toISOString().split('T')[0];
 
+  const patientName = normalizePatientName(formData);
+
   return {
     PharmacyNumber: pharmacyNumber,
+    FirstName: patientName.firstName,
+    LastName: patientName.lastName,
+    DOB: formData.dob, // Expected format: YYYY-MM-DD
+    Phone: formatPhoneForBestRX(formData.phone),
     RxNo: formData.rxNumber,
     RxFillDate: formData.rxFillDate, // Expected format: YYYY-MM-DD
     TransferToPharmacy: {
@@ -130,6 +200,7 @@ export function mapBestRXError(errorCode: string | undefined, httpStatus?: numbe
 
 /**
  * Validates BestRX Refill Response
+ * True when at least one prescription was accepted; see extractRefillResults for the per-Rx outcome
  */
 export function validateRefillResponse(response: unknown): boolean {
   if (!response || typeof response !== 'object') return false;
@@ -191,6 +262,59 @@ export function extractRefillErrorMessage(response: unknown): string | null {
   return null;
 }
 
+/**
+ * Maps each prescription in a refill payload to its outcome in the BestRX Refill Response.
+ * Entries are matched by RxNumber, falling back to position when BestRX omits it.
+ * Prescriptions missing from the response are reported as rejected.
+ */
+export function extractRefillResults(
+  payload: Record<string, unknown>,
+  response: unknown
+): RefillRxResult[] {
+  const requested = Array.isArray(payload.RxInRefillRequest)
+    ? (payload.RxInRefillRequest as Array<Record<string, unknown>>)
+    : [];
+
+  const data = response && typeof response === 'object' ? (response as Record<string, unknown>) : {};
+  const rxResponses = (Array.isArray(data.RxInRefillResponse) ? data.RxInRefillResponse : []).filter(
+    (rx: unknown): rx is Record<string, unknown> => typeof rx === 'object' && rx !== null
+  );
+
+  return requested.map((rx, index) => {
+    const rxNumber = String(rx.RxNumber ?? '');
+    const medicationName = String(rx.MedicationName ?? '');
+    const entry =
+      rxResponses.find((res) => res.RxNumber !== undefined && String(res.RxNumber) === rxNumber) ??
+      (rxResponses[index]?.RxNumber === undefined ? rxResponses[index] : undefined);
+
+    if (!entry) {
+      return {
+        rxNumber,
+        medicationName,
+        status: 'rejected' as const,
+        message: 'We could not confirm this prescription. Our team will follow up with you.',
+      };
+    }
+
+    if (entry.Status === 'OK') {
+      return { rxNumber, medicationName, status: 'accepted' as const, message: 'Refill request received.' };
+    }
+
+    const errorCode = entry.ErrorCode ? String(entry.ErrorCode) : undefined;
+    return {
+      rxNumber,
+      medicationName,
+      status: 'rejected' as const,
+      errorCode,
+      message: errorCode
+        ? mapBestRXError(errorCode)
+        : entry.ErrorMessage
+          ? String(entry.ErrorMessage)
+          : mapBestRXError(undefined),
+    };
+  });
+}
+
 /**
  * Extracts error message from BestRX Transfer Response
  */
@@ -208,26 +332,21 @@ export function extractTransferErrorMessage(response: unknown): string | null {
     return errorMessage;
   }
 
-  return mapBestRXError(undefined);
+  return null;
 }
 
 /**
  * Makes a BestRX Refill Request
- * Note: This should ideally be called from a backend/Edge Function to protect API credentials
+ * Server-side only: called by the BestRX proxy (see bestrxProxy.ts) so credentials never reach the browser
  */
 export async function submitRefillToBestRX(
-  payload: Record<string, unknown>
-): Promise<{ success: boolean; message: string; data?: unknown }> {
+  payload: Record<string, unknown>,
+  transport: BestRXTransport = defaultTransport
+): Promise<RefillSubmissionResult> {
   try {
-    const response = await fetch(BESTRX_ENDPOINTS.refill, {
-      method: 'POST' as const,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    });
-
-    const responseData = (await response.json()) as unknown;
+    const response = await transport.post('refill', payload, {});
+    const responseData = response.body;
+    const results = extractRefillResults(payload, responseData);
 
     if (!response.ok) {
       const errorMessage = extractRefillErrorMessage(responseData);
@@ -244,13 +363,20 @@ export async function submitRefillToBestRX(
       return {
         success: false,
         message: errorMessage || 'Unable to process refill request. Please try again.',
+        results,
       };
     }
 
+    const rejectedCount = results.filter((rx) => rx.status === 'rejected').length;
+
     return {
       success: true,
-      message: 'Refill request submitted successfully',
+      message:
+        rejectedCount > 0
+          ? `Refill request submitted; ${rejectedCount} prescription(s) need follow-up`
+          : 'Refill request submitted successfully',
       data: responseData,
+      results,
     };
   } catch (error) {
     console.error('BestRX Refill Error:', error);
@@ -263,23 +389,18 @@ export async function submitRefillToBestRX(
 
 /**
  * Makes a BestRX Transfer Request
- * Note: This should ideally be called from a backend/Edge Function to protect API credentials
+ * Server-side only: called by the BestRX proxy (see bestrxProxy.ts) so credentials never reach the browser
  */
 export async function submitTransferToBestRX(
   payload: Record<string, unknown>,
-  basicAuthHeader: string
+  basicAuthHeader: string,
+  transport: BestRXTransport = defaultTransport
 ): Promise<{ success: boolean; message: string; data?: unknown }> {
   try {
-    const response = await fetch(BESTRX_ENDPOINTS.transfer, {
-      method: 'POST' as const,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': basicAuthHeader,
-      },
-      body: JSON.stringify(payload),
+    const response = await transport.post('transfer', payload, {
+      'Authorization': basicAuthHeader,
     });
-
-    const responseData = (await response.json()) as unknown;
+    const responseData = response.body;
 
     if (!response.ok) {
       const errorMessage = extractTransferErrorMessage(responseData);
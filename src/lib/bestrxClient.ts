@@ -0,0 +1,92 @@
+/**
+ * BestRX proxy client
+ * Sends refill and transfer requests from the browser (page or outbox service
+ * worker) to the server-side BestRX proxy. Failures are thrown as
+ * SubmissionErrors; the ones where the proxy never answered are retryable.
+ */
+
+import { SubmissionError } from "./submission";
+import { IDEMPOTENCY_KEY_HEADER } from "./idempotency";
+import type { BestRXProxyResult } from "./bestrxProxy";
+import type { RefillRxResult } from "./bestrx";
+import type { RefillFormData, TransferFormData } from "./schemas";
+
+// BestRX calls go through the server-side proxy so credentials stay out of the bundle.
+// In development the Vite dev server mounts the proxy at /api/bestrx (see vite.config.ts).
+export const bestrxProxyUrl =
+  import.meta.env.VITE_BESTRX_PROXY_URL ||
+  (import.meta.env.DEV
+    ? "/api/bestrx"
+    : `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/bestrx-proxy`);
+
+const BESTRX_UNAVAILABLE_MESSAGE = "Unable to connect to pharmacy service. Please try again later.";
+
+// Gateway errors mean the proxy never answered, and 409 means an earlier send of the
+// same request is still in flight; both are retried like network failures
+const RETRYABLE_STATUSES = [409, 502, 503, 504];
+
+/**
+ * BestRX turned the request down. For refills, `results` gives each
+ * prescription's outcome and reason when BestRX reported them.
+ */
+export class BestRXRejectionError extends SubmissionError {
+  readonly results: RefillRxResult[];
+
+  constructor(message: string, results: RefillRxResult[] = []) {
+    super(message, "external", "rejected");
+    this.name = "BestRXRejectionError";
+    this.results = results;
+  }
+}
+
+/**
+ * `idempotencyKey` (the submission's request ID) makes a repeat return the
+ * original result instead of sending the request to BestRX again
+ */
+export async function callBestRXProxy(
+  route: "refill" | "transfer",
+  data: RefillFormData | TransferFormData,
+  signal: AbortSignal,
+  idempotencyKey?: string
+): Promise<BestRXProxyResult> {
+  let response: Response;
+  try {
+    response = await fetch(`${bestrxProxyUrl}/${route}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+        ...(idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } : {}),
+      },
+      body: JSON.stringify(data),
+      signal,
+    });
+  } catch (error) {
+    console.error("BestRX proxy error:", error);
+    throw new SubmissionError(BESTRX_UNAVAILABLE_MESSAGE, "external", "network", { cause: error });
+  }
+
+  let result: BestRXProxyResult | null;
+  try {
+    result = (await response.json()) as BestRXProxyResult;
+  } catch {
+    result = null;
+  }
+
+  // The proxy reports a BestRX failure as a 502 with a result body; a bare 502 came from the gateway
+  const isBestRXFailure = response.status === 502 && typeof result?.success === "boolean";
+  if (RETRYABLE_STATUSES.includes(response.status) && !isBestRXFailure) {
+    throw new SubmissionError(BESTRX_UNAVAILABLE_MESSAGE, "external", "network");
+  }
+
+  if (!result) {
+    console.error(`BestRX proxy returned an unreadable response (status ${response.status})`);
+    throw new SubmissionError(BESTRX_UNAVAILABLE_MESSAGE, "external", "rejected");
+  }
+
+  if (!result.success) {
+    throw new BestRXRejectionError(result.message, result.results);
+  }
+  return result;
+}
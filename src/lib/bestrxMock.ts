@@ -0,0 +1,169 @@
+/**
+ * Mock BestRX service
+ * Deterministic stand-in for the BestRX refill and transfer endpoints, usable in-process
+ * as a BestRXTransport or over HTTP through the Vite dev server (/api/bestrx-mock).
+ *
+ * Responses are driven by the submitted Rx numbers:
+ * - A BestRX error code (e.g. `ERROR_RX_NOT_FOUND`, `ERROR0027`) fails with that `ErrorCode`
+ * - `MSG-<text>` fails with `ErrorMessage: <text>` and no code
+ * - `HTTP-<status>` (e.g. `HTTP-403`) returns that HTTP status with an empty body
+ * - `NOT-TRANSFERRED` (transfer only) returns `IsValid: true, RxTransferred: false`
+ * - Anything else succeeds
+ *
+ * Queued responses passed to the factories are replayed first, in order.
+ */
+
+import { BESTRX_ERROR_CODES } from './bestrx.ts';
+import type { BestRXEndpoint, BestRXTransport, BestRXTransportResponse } from './bestrx.ts';
+
+export interface MockBestRXResponse {
+  status?: number;
+  body: unknown;
+}
+
+export interface MockBestRXOptions {
+  refill?: MockBestRXResponse[];
+  transfer?: MockBestRXResponse[];
+}
+
+/**
+ * Canned responses covering each branch of the refill and transfer error handling
+ */
+export const MOCK_BESTRX_RESPONSES = {
+  refillOk: {
+    body: { RxInRefillResponse: [{ RxNumber: '1000001', Status: 'OK' }] },
+  },
+  refillPartial: {
+    body: {
+      RxInRefillResponse: [
+        { RxNumber: '1000001', Status: 'OK' },
+        { RxNumber: '1000002', Status: 'ERROR', ErrorCode: 'ERROR_RX_REFILLED' },
+      ],
+    },
+  },
+  refillErrorCode: {
+    body: {
+      RxInRefillResponse: [{ RxNumber: '1000001', Status: 'ERROR', ErrorCode: 'ERROR_RX_NOT_FOUND' }],
+    },
+  },
+  refillErrorMessage: {
+    body: {
+      RxInRefillResponse: [{ RxNumber: '1000001', Status: 'ERROR', ErrorMessage: 'Prescription on hold' }],
+    },
+  },
+  refillMalformed: { body: { Message: 'Unexpected response' } },
+  transferOk: { body: { IsValid: true, RxTransferred: true } },
+  transferNotTransferred: { body: { IsValid: true, RxTransferred: false } },
+  transferErrorCode: { body: { IsValid: false, RxTransferred: false, ErrorCode: 'ERROR0027' } },
+  transferErrorMessage: {
+    body: { IsValid: false, RxTransferred: false, ErrorMessage: 'Transfer window closed' },
+  },
+  forbidden: { status: 403, body: {} },
+  serverError: { status: 500, body: {} },
+} satisfies Record<string, MockBestRXResponse>;
+
+function httpOverride(value: string): MockBestRXResponse | null {
+  const match = /^HTTP-(\d{3})$/.exec(value);
+  return match ? { status: Number(match[1]), body: {} } : null;
+}
+
+/**
+ * Default rule-based refill responder
+ */
+export function respondToRefill(payload: Record<string, unknown>): MockBestRXResponse {
+  const requested = Array.isArray(payload.RxInRefillRequest)
+    ? (payload.RxInRefillRequest as Array<Record<string, unknown>>)
+    : [];
+
+  for (const rx of requested) {
+    const override = httpOverride(String(rx.RxNumber ?? ''));
+    if (override) return override;
+  }
+
+  const RxInRefillResponse = requested.map((rx) => {
+    const rxNumber = String(rx.RxNumber ?? '');
+
+    if (Object.hasOwn(BESTRX_ERROR_CODES, rxNumber)) {
+      return { RxNumber: rxNumber, Status: 'ERROR', ErrorCode: rxNumber };
+    }
+    if (rxNumber.startsWith('MSG-')) {
+      return { RxNumber: rxNumber, Status: 'ERROR', ErrorMessage: rxNumber.slice(4) };
+    }
+    return { RxNumber: rxNumber, Status: 'OK' };
+  });
+
+  return { body: { RxInRefillResponse } };
+}
+
+/**
+ * Default rule-based transfer responder
+ */
+export function respondToTransfer(payload: Record<string, unknown>): MockBestRXResponse {
+  const rxNo = String(payload.RxNo ?? '');
+
+  const override = httpOverride(rxNo);
+  if (override) return override;
+
+  if (Object.hasOwn(BESTRX_ERROR_CODES, rxNo)) {
+    return { body: { IsValid: false, RxTransferred: false, ErrorCode: rxNo } };
+  }
+  if (rxNo.startsWith('MSG-')) {
+    return { body: { IsValid: false, RxTransferred: false, ErrorMessage: rxNo.slice(4) } };
+  }
+  if (rxNo === 'NOT-TRANSFERRED') {
+    return MOCK_BESTRX_RESPONSES.transferNotTransferred;
+  }
+  return MOCK_BESTRX_RESPONSES.transferOk;
+}
+
+/**
+ * Creates an in-process transport backed by the mock service
+ */
+export function createMockBestRXTransport(options: MockBestRXOptions = {}): BestRXTransport {
+  const queues: Record<BestRXEndpoint, MockBestRXResponse[]> = {
+    refill: [...(options.refill ?? [])],
+    transfer: [...(options.transfer ?? [])],
+  };
+
+  return {
+    async post(endpoint, payload): Promise<BestRXTransportResponse> {
+      const queued = queues[endpoint].shift();
+      const response =
+        queued ?? (endpoint === 'refill' ? respondToRefill(payload) : respondToTransfer(payload));
+      const status = response.status ?? 200;
+
+      return { ok: status >= 200 && status < 300, status, body: response.body };
+    },
+  };
+}
+
+/**
+ * Creates an HTTP handler for the mock service. Routes by the last path segment,
+ * matching the live endpoint names (`SendRefillRequest`, `submitrxtransferrequest`).
+ */
+export function createMockBestRXHandler(
+  options: MockBestRXOptions = {}
+): (request: Request) => Promise<Response> {
+  const transport = createMockBestRXTransport(options);
+
+  return async (request: Request) => {
+    const route = new URL(request.url).pathname.split('/').filter(Boolean).pop()?.toLowerCase();
+    const endpoint: BestRXEndpoint | null =
+      route === 'sendrefillrequest' ? 'refill' : route === 'submitrxtransferrequest' ? 'transfer' : null;
+
+    if (request.method !== 'POST' || !endpoint) {
+      return new Response(JSON.stringify({ ErrorMessage: 'Not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const payload = (await request.json()) as Record<string, unknown>;
+    const result = await transport.post(endpoint, payload, {});
+
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * BestRX proxy
+ * Runtime-agnostic request handler that keeps BestRX credentials on the server.
+ * Served as a Supabase Edge Function (Deno) and by the Vite dev server (Node).
+ * Requests carrying an `Idempotency-Key` are sent to BestRX at most once.
+ */
+
+import { RefillFormDataSchema, TransferFormDataSchema } from './schemas.ts';
+import {
+  BESTRX_ENDPOINTS,
+  buildRefillRequestPayload,
+  buildTransferRequestPayload,
+  buildBasicAuthHeader,
+  createFetchTransport,
+  submitRefillToBestRX,
+  submitTransferToBestRX,
+} from './bestrx.ts';
+import type { BestRXTransport, RefillRxResult } from './bestrx.ts';
+import {
+  createMemoryIdempotencyStore,
+  createSupabaseIdempotencyStore,
+  hashRequestBody,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+  isIdempotencyKey,
+} from './idempotency.ts';
+import type { IdempotencyClaim, IdempotencyStore } from './idempotency.ts';
+
+export interface BestRXProxyConfig {
+  username: string;
+  apiKey: string;
+  password: string;
+  pharmacyNumber: string;
+  transport: BestRXTransport;
+  idempotency: IdempotencyStore;
+}
+
+export interface BestRXProxyResult {
+  success: boolean;
+  message: string;
+  data?: unknown;
+  results?: RefillRxResult[];
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': IDEMPOTENT_REPLAYED_HEADER,
+};
+
+// How long a repeat waits for the original request to finish before answering 409
+const IN_PROGRESS_WAIT_MS = 10_000;
+const IN_PROGRESS_POLL_MS = 500;
+
+/**
+ * Reads BestRX credentials through the given environment accessor
+ * (e.g. `Deno.env.get` or a lookup into `process.env`).
+ * `BESTRX_REFILL_URL` / `BESTRX_TRANSFER_URL` override the live endpoints, e.g. to target the mock service.
+ * Idempotency keys are stored in Supabase when `SUPABASE_URL` and `SUPABASE_SERVICE_ROLE_KEY`
+ * are set (as they are in Edge Functions), and in memory otherwise.
+ */
+export function loadBestRXProxyConfig(
+  getEnv: (name: string) => string | undefined
+): BestRXProxyConfig | null {
+  const username = getEnv('BESTRX_USERNAME');
+  const apiKey = getEnv('BESTRX_API_KEY');
+  const password = getEnv('BESTRX_PASSWORD');
+  const pharmacyNumber = getEnv('BESTRX_PHARMACY_NUMBER');
+
+  if (!username || !apiKey || !password || !pharmacyNumber) {
+    return null;
+  }
+
+  const transport = createFetchTransport({
+    refill: getEnv('BESTRX_REFILL_URL') || BESTRX_ENDPOINTS.refill,
+    transfer: getEnv('BESTRX_TRANSFER_URL') || BESTRX_ENDPOINTS.transfer,
+  });
+
+  const supabaseUrl = getEnv('SUPABASE_URL');
+  const serviceRoleKey = getEnv('SUPABASE_SERVICE_ROLE_KEY');
+  const idempotency =
+    supabaseUrl && serviceRoleKey
+      ? createSupabaseIdempotencyStore(supabaseUrl, serviceRoleKey)
+      : createMemoryIdempotencyStore();
+
+  return { username, apiKey, password, pharmacyNumber, transport, idempotency };
+}
+
+function jsonResponse(body: BestRXProxyResult, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function resultResponse(result: BestRXProxyResult): Response {
+  return jsonResponse(result, result.success ? 200 : 502);
+}
+
+// Claims the key, waiting a while for a request already holding it to finish
+async function claimIdempotencyKey(
+  store: IdempotencyStore,
+  route: string,
+  key: string,
+  requestHash: string
+): Promise<IdempotencyClaim> {
+  const deadline = Date.now() + IN_PROGRESS_WAIT_MS;
+  for (;;) {
+    const claim = await store.claim(route, key, requestHash);
+    if (claim.status !== 'in_progress' || Date.now() >= deadline) {
+      return claim;
+    }
+    await new Promise((resolve) => setTimeout(resolve, IN_PROGRESS_POLL_MS));
+  }
+}
+
+/**
+ * Sends the request to BestRX at most once per idempotency key. Only successful
+ * results are stored; after a failure the key is released so the patient can
+ * try again.
+ */
+async function sendOnce(
+  route: string,
+  idempotencyKey: string | null,
+  body: unknown,
+  config: BestRXProxyConfig,
+  send: () => Promise<BestRXProxyResult>
+): Promise<Response> {
+  if (!idempotencyKey) {
+    return resultResponse(await send());
+  }
+
+  let claim: IdempotencyClaim;
+  try {
+    claim = await claimIdempotencyKey(config.idempotency, route, idempotencyKey, await hashRequestBody(body));
+  } catch (error) {
+    // Without the key check a retry could reach BestRX twice, so don't send
+    console.error('Idempotency key store unavailable:', error);
+    return jsonResponse({ success: false, message: 'Pharmacy service is temporarily unavailable.' }, 503);
+  }
+
+  switch (claim.status) {
+    case 'completed':
+      return jsonResponse(claim.response as BestRXProxyResult, 200, { [IDEMPOTENT_REPLAYED_HEADER]: 'true' });
+    case 'in_progress':
+      return jsonResponse({ success: false, message: 'This request is already being processed.' }, 409);
+    case 'mismatch':
+      return jsonResponse(
+        { success: false, message: 'This request was already submitted with different details.' },
+        422
+      );
+  }
+
+  let result: BestRXProxyResult;
+  try {
+    result = await send();
+  } catch (error) {
+    await config.idempotency.release(route, idempotencyKey).catch(() => undefined);
+    throw error;
+  }
+
+  try {
+    if (result.success) {
+      await config.idempotency.complete(route, idempotencyKey, result);
+    } else {
+      await config.idempotency.release(route, idempotencyKey);
+    }
+  } catch (error) {
+    // BestRX already has the request; the claim expires on its own
+    console.error('Unable to record the idempotency key result:', error);
+  }
+
+  return resultResponse(result);
+}
+
+async function handleRefill(
+  body: unknown,
+  idempotencyKey: string | null,
+  config: BestRXProxyConfig
+): Promise<Response> {
+  const parsed = RefillFormDataSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse({ success: false, message: 'Invalid refill request.' }, 400);
+  }
+
+  const payload = buildRefillRequestPayload(
+    parsed.data,
+    config.pharmacyNumber,
+    config.apiKey,
+    config.username
+  );
+  return sendOnce('refill', idempotencyKey, parsed.data, config, () =>
+    submitRefillToBestRX(payload, config.transport)
+  );
+}
+
+async function handleTransfer(
+  body: unknown,
+  idempotencyKey: string | null,
+  config: BestRXProxyConfig
+): Promise<Response> {
+  const parsed = TransferFormDataSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse({ success: false, message: 'Invalid transfer request.' }, 400);
+  }
+
+  const payload = buildTransferRequestPayload(parsed.data, config.pharmacyNumber);
+  const authHeader = buildBasicAuthHeader(config.username, config.password);
+  return sendOnce('transfer', idempotencyKey, parsed.data, config, () =>
+    submitTransferToBestRX(payload, authHeader, config.transport)
+  );
+}
+
+/**
+ * Creates the proxy handler. Requests are routed by the last path segment:
+ * `POST …/refill` and `POST …/transfer`, each taking the validated form data as JSON
+ * and an optional `Idempotency-Key` header (a UUID).
+ */
+export function createBestRXProxyHandler(
+  config: BestRXProxyConfig | null
+): (request: Request) => Promise<Response> {
+  return async (request: Request) => {
+    if (request.method === 'OPTIONS') {
+      return new Response('ok', { headers: CORS_HEADERS });
+    }
+
+    if (request.method !== 'POST') {
+      return jsonResponse({ success: false, message: 'Method not allowed.' }, 405);
+    }
+
+    if (!config) {
+      console.error('BestRX proxy is missing its BESTRX_* configuration');
+      return jsonResponse(
+        {
+          success: false,
+          message: 'Pharmacy service is not properly configured. Please contact support.',
+        },
+        500
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ success: false, message: 'Request body must be JSON.' }, 400);
+    }
+
+    const idempotencyKey = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+    if (idempotencyKey !== null && !isIdempotencyKey(idempotencyKey)) {
+      return jsonResponse({ success: false, message: 'Idempotency-Key must be a UUID.' }, 400);
+    }
+
+    const route = new URL(request.url).pathname.split('/').filter(Boolean).pop();
+
+    switch (route) {
+      case 'refill':
+        return handleRefill(body, idempotencyKey, config);
+      case 'transfer':
+        return handleTransfer(body, idempotencyKey, config);
+      default:
+        return jsonResponse({ success: false, message: 'Not found.' }, 404);
+    }
+  };
+}
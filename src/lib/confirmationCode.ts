@@ -0,0 +1,47 @@
+/**
+ * Refill confirmation codes
+ * Patients check a refill request's status with its confirmation code and
+ * their date of birth. The code is derived from the request ID, so it is
+ * known before the request reaches the database (e.g. while it waits in the
+ * offline outbox). refill_confirmation_code() in 015_refill_status_lookup.sql
+ * derives the same code.
+ */
+
+// No 0/O or 1/I, which are easily confused when read aloud or retyped
+const CONFIRMATION_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const CONFIRMATION_CODE_LENGTH = 8;
+
+/**
+ * The first 40 bits of the SHA-256 of the request ID, 5 bits per character
+ */
+export async function confirmationCodeFor(requestId: string): Promise<string> {
+  const digest = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(requestId.toLowerCase()))
+  );
+  let bits = 0;
+  for (let i = 0; i < 5; i++) {
+    bits = bits * 256 + digest[i];
+  }
+
+  let code = '';
+  for (let i = CONFIRMATION_CODE_LENGTH - 1; i >= 0; i--) {
+    code += CONFIRMATION_CODE_ALPHABET[Math.floor(bits / 2 ** (i * 5)) % 32];
+  }
+  return code;
+}
+
+/**
+ * Uppercases a code as typed and drops spaces and dashes
+ */
+export function normalizeConfirmationCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Shows a code in two groups of four, e.g. `Q8BA-XY8C`
+ */
+export function formatConfirmationCode(code: string): string {
+  const normalized = normalizeConfirmationCode(code);
+  return `${normalized.slice(0, 4)}-${normalized.slice(4)}`;
+}
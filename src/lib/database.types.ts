@@ -0,0 +1,1802 @@
+// Generated by src/lib/migrations/generateDatabaseTypes.ts from the migrated
+// database schema. Do not edit by hand; re-run the generator after adding a migration.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      audit_events: {
+        Row: {
+          id: string
+          seq: number
+          actor_id: string | null
+          actor_email: string | null
+          actor_role: string
+          action: Database["public"]["Enums"]["audit_action"]
+          table_name: string
+          row_id: string | null
+          source: string
+          details: Json
+          prev_hash: string | null
+          hash: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          seq: number
+          actor_id?: string | null
+          actor_email?: string | null
+          actor_role: string
+          action: Database["public"]["Enums"]["audit_action"]
+          table_name: string
+          row_id?: string | null
+          source: string
+          details?: Json
+          prev_hash?: string | null
+          hash: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          seq?: number
+          actor_id?: string | null
+          actor_email?: string | null
+          actor_role?: string
+          action?: Database["public"]["Enums"]["audit_action"]
+          table_name?: string
+          row_id?: string | null
+          source?: string
+          details?: Json
+          prev_hash?: string | null
+          hash?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      bestrx_idempotency_keys: {
+        Row: {
+          route: string
+          idempotency_key: string
+          request_hash: string
+          response: Json | null
+          claimed_at: string
+          completed_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          route: string
+          idempotency_key: string
+          request_hash: string
+          response?: Json | null
+          claimed_at?: string
+          completed_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          route?: string
+          idempotency_key?: string
+          request_hash?: string
+          response?: Json | null
+          claimed_at?: string
+          completed_at?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      contact_messages: {
+        Row: {
+          id: string
+          name: string
+          phone: string
+          email: string
+          reason: Database["public"]["Enums"]["contact_reason"]
+          message: string
+          consent: boolean
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          phone: string
+          email: string
+          reason: Database["public"]["Enums"]["contact_reason"]
+          message: string
+          consent: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          phone?: string
+          email?: string
+          reason?: Database["public"]["Enums"]["contact_reason"]
+          message?: string
+          consent?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      inbound_transfer_requests: {
+        Row: {
+          id: string
+          first_name: string
+          middle_name: string | null
+          last_name: string
+          suffix: string | null
+          dob: string
+          phone: string
+          email: string | null
+          current_pharmacy_name: string
+          current_pharmacy_phone: string
+          current_pharmacy_city: string | null
+          current_pharmacy_state: string | null
+          current_pharmacy_ncpdp: string | null
+          prescriptions: Json
+          prescriber_name: string
+          prescriber_phone: string | null
+          preferred_service: Database["public"]["Enums"]["service_preference"]
+          notes: string | null
+          consent: boolean
+          status: Database["public"]["Enums"]["inbound_transfer_status"]
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          first_name: string
+          middle_name?: string | null
+          last_name: string
+          suffix?: string | null
+          dob: string
+          phone: string
+          email?: string | null
+          current_pharmacy_name: string
+          current_pharmacy_phone: string
+          current_pharmacy_city?: string | null
+          current_pharmacy_state?: string | null
+          current_pharmacy_ncpdp?: string | null
+          prescriptions: Json
+          prescriber_name: string
+          prescriber_phone?: string | null
+          preferred_service: Database["public"]["Enums"]["service_preference"]
+          notes?: string | null
+          consent: boolean
+          status?: Database["public"]["Enums"]["inbound_transfer_status"]
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          first_name?: string
+          middle_name?: string | null
+          last_name?: string
+          suffix?: string | null
+          dob?: string
+          phone?: string
+          email?: string | null
+          current_pharmacy_name?: string
+          current_pharmacy_phone?: string
+          current_pharmacy_city?: string | null
+          current_pharmacy_state?: string | null
+          current_pharmacy_ncpdp?: string | null
+          prescriptions?: Json
+          prescriber_name?: string
+          prescriber_phone?: string | null
+          preferred_service?: Database["public"]["Enums"]["service_preference"]
+          notes?: string | null
+          consent?: boolean
+          status?: Database["public"]["Enums"]["inbound_transfer_status"]
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      med_sync_enrollments: {
+        Row: {
+          id: string
+          first_name: string
+          middle_name: string | null
+          last_name: string
+          suffix: string | null
+          dob: string
+          phone: string
+          email: string | null
+          medications: Json
+          supply_as_of: string
+          sync_day: number
+          preferred_service: Database["public"]["Enums"]["service_preference"]
+          notes: string | null
+          consent: boolean
+          status: Database["public"]["Enums"]["med_sync_status"]
+          activated_at: string | null
+          patient_id: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          first_name: string
+          middle_name?: string | null
+          last_name: string
+          suffix?: string | null
+          dob: string
+          phone: string
+          email?: string | null
+          medications: Json
+          supply_as_of?: string
+          sync_day: number
+          preferred_service: Database["public"]["Enums"]["service_preference"]
+          notes?: string | null
+          consent: boolean
+          status?: Database["public"]["Enums"]["med_sync_status"]
+          activated_at?: string | null
+          patient_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          first_name?: string
+          middle_name?: string | null
+          last_name?: string
+          suffix?: string | null
+          dob?: string
+          phone?: string
+          email?: string | null
+          medications?: Json
+          supply_as_of?: string
+          sync_day?: number
+          preferred_service?: Database["public"]["Enums"]["service_preference"]
+          notes?: string | null
+          consent?: boolean
+          status?: Database["public"]["Enums"]["med_sync_status"]
+          activated_at?: string | null
+          patient_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      med_sync_fills: {
+        Row: {
+          id: string
+          enrollment_id: string
+          sync_date: string
+          status: Database["public"]["Enums"]["med_sync_fill_status"]
+          message: string | null
+          prescriptions: Json
+          refill_request_id: string | null
+          created_by: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          enrollment_id: string
+          sync_date: string
+          status: Database["public"]["Enums"]["med_sync_fill_status"]
+          message?: string | null
+          prescriptions: Json
+          refill_request_id?: string | null
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          enrollment_id?: string
+          sync_date?: string
+          status?: Database["public"]["Enums"]["med_sync_fill_status"]
+          message?: string | null
+          prescriptions?: Json
+          refill_request_id?: string | null
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "med_sync_fills_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "med_sync_enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "med_sync_fills_refill_request_id_fkey"
+            columns: ["refill_request_id"]
+            isOneToOne: false
+            referencedRelation: "refill_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_profiles: {
+        Row: {
+          id: string
+          user_id: string
+          first_name: string
+          middle_name: string | null
+          last_name: string
+          suffix: string | null
+          dob: string
+          phone: string
+          email: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          first_name: string
+          middle_name?: string | null
+          last_name: string
+          suffix?: string | null
+          dob: string
+          phone: string
+          email?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          first_name?: string
+          middle_name?: string | null
+          last_name?: string
+          suffix?: string | null
+          dob?: string
+          phone?: string
+          email?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      pharmacy_directory: {
+        Row: {
+          ncpdp_id: string
+          name: string
+          address1: string
+          address2: string | null
+          city: string
+          state: string
+          zip: string
+          phone: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          ncpdp_id: string
+          name: string
+          address1: string
+          address2?: string | null
+          city: string
+          state: string
+          zip: string
+          phone: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          ncpdp_id?: string
+          name?: string
+          address1?: string
+          address2?: string | null
+          city?: string
+          state?: string
+          zip?: string
+          phone?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      refill_requests: {
+        Row: {
+          id: string
+          patient_name: string
+          dob: string
+          phone: string
+          email: string | null
+          prescription_numbers: string | null
+          medication_names: string | null
+          preferred_service: Database["public"]["Enums"]["service_preference"]
+          notes: string | null
+          consent: boolean
+          created_at: string | null
+          updated_at: string | null
+          prescriptions: Json
+          first_name: string | null
+          middle_name: string | null
+          last_name: string | null
+          suffix: string | null
+          status: Database["public"]["Enums"]["request_status"]
+          idempotency_key: string | null
+          patient_id: string | null
+          confirmation_code: string | null
+          confirmation_emailed_at: string | null
+        }
+        Insert: {
+          id?: string
+          patient_name: string
+          dob: string
+          phone: string
+          email?: string | null
+          prescription_numbers?: string | null
+          medication_names?: string | null
+          preferred_service: Database["public"]["Enums"]["service_preference"]
+          notes?: string | null
+          consent: boolean
+          created_at?: string | null
+          updated_at?: string | null
+          prescriptions?: Json
+          first_name?: string | null
+          middle_name?: string | null
+          last_name?: string | null
+          suffix?: string | null
+          status?: Database["public"]["Enums"]["request_status"]
+          idempotency_key?: string | null
+          patient_id?: string | null
+          confirmation_code?: string | null
+          confirmation_emailed_at?: string | null
+        }
+        Update: {
+          id?: string
+          patient_name?: string
+          dob?: string
+          phone?: string
+          email?: string | null
+          prescription_numbers?: string | null
+          medication_names?: string | null
+          preferred_service?: Database["public"]["Enums"]["service_preference"]
+          notes?: string | null
+          consent?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+          prescriptions?: Json
+          first_name?: string | null
+          middle_name?: string | null
+          last_name?: string | null
+          suffix?: string | null
+          status?: Database["public"]["Enums"]["request_status"]
+          idempotency_key?: string | null
+          patient_id?: string | null
+          confirmation_code?: string | null
+          confirmation_emailed_at?: string | null
+        }
+        Relationships: []
+      }
+      refill_status_lookups: {
+        Row: {
+          id: number
+          ip_address: string | null
+          confirmation_code: string
+          matched: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          ip_address?: string | null
+          confirmation_code: string
+          matched: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          ip_address?: string | null
+          confirmation_code?: string
+          matched?: boolean
+          created_at?: string
+        }
+        Relationships: []
+      }
+      request_status_history: {
+        Row: {
+          id: string
+          request_type: Database["public"]["Enums"]["request_type"]
+          request_id: string
+          from_status: Database["public"]["Enums"]["request_status"] | null
+          to_status: Database["public"]["Enums"]["request_status"]
+          reason: string | null
+          changed_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          request_type: Database["public"]["Enums"]["request_type"]
+          request_id: string
+          from_status?: Database["public"]["Enums"]["request_status"] | null
+          to_status: Database["public"]["Enums"]["request_status"]
+          reason?: string | null
+          changed_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          request_type?: Database["public"]["Enums"]["request_type"]
+          request_id?: string
+          from_status?: Database["public"]["Enums"]["request_status"] | null
+          to_status?: Database["public"]["Enums"]["request_status"]
+          reason?: string | null
+          changed_by?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      rpm_alert_thresholds: {
+        Row: {
+          id: string
+          rpm_patient_id: string | null
+          systolic_high: number | null
+          systolic_low: number | null
+          diastolic_high: number | null
+          diastolic_low: number | null
+          pulse_high: number | null
+          pulse_low: number | null
+          glucose_high: number | null
+          glucose_low: number | null
+          updated_by: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          rpm_patient_id?: string | null
+          systolic_high?: number | null
+          systolic_low?: number | null
+          diastolic_high?: number | null
+          diastolic_low?: number | null
+          pulse_high?: number | null
+          pulse_low?: number | null
+          glucose_high?: number | null
+          glucose_low?: number | null
+          updated_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          rpm_patient_id?: string | null
+          systolic_high?: number | null
+          systolic_low?: number | null
+          diastolic_high?: number | null
+          diastolic_low?: number | null
+          pulse_high?: number | null
+          pulse_low?: number | null
+          glucose_high?: number | null
+          glucose_low?: number | null
+          updated_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rpm_alert_thresholds_rpm_patient_id_fkey"
+            columns: ["rpm_patient_id"]
+            isOneToOne: true
+            referencedRelation: "rpm_patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rpm_devices: {
+        Row: {
+          id: string
+          rpm_patient_id: string
+          device_type: Database["public"]["Enums"]["rpm_reading_type"]
+          vendor: string | null
+          serial_number: string
+          active: boolean
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          rpm_patient_id: string
+          device_type: Database["public"]["Enums"]["rpm_reading_type"]
+          vendor?: string | null
+          serial_number: string
+          active?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          rpm_patient_id?: string
+          device_type?: Database["public"]["Enums"]["rpm_reading_type"]
+          vendor?: string | null
+          serial_number?: string
+          active?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rpm_devices_rpm_patient_id_fkey"
+            columns: ["rpm_patient_id"]
+            isOneToOne: false
+            referencedRelation: "rpm_patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rpm_patients: {
+        Row: {
+          id: string
+          first_name: string | null
+          middle_name: string | null
+          last_name: string
+          suffix: string | null
+          dob: string
+          phone: string
+          email: string | null
+          device_interest: Database["public"]["Enums"]["rpm_device_interest"] | null
+          insurance_type: Database["public"]["Enums"]["insurance_type"] | null
+          enrolled_by: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          first_name?: string | null
+          middle_name?: string | null
+          last_name: string
+          suffix?: string | null
+          dob: string
+          phone: string
+          email?: string | null
+          device_interest?: Database["public"]["Enums"]["rpm_device_interest"] | null
+          insurance_type?: Database["public"]["Enums"]["insurance_type"] | null
+          enrolled_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          first_name?: string | null
+          middle_name?: string | null
+          last_name?: string
+          suffix?: string | null
+          dob?: string
+          phone?: string
+          email?: string | null
+          device_interest?: Database["public"]["Enums"]["rpm_device_interest"] | null
+          insurance_type?: Database["public"]["Enums"]["insurance_type"] | null
+          enrolled_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      rpm_readings: {
+        Row: {
+          id: string
+          rpm_patient_id: string
+          device_id: string | null
+          reading_type: Database["public"]["Enums"]["rpm_reading_type"]
+          measured_at: string
+          systolic: number | null
+          diastolic: number | null
+          pulse: number | null
+          glucose_mg_dl: number | null
+          glucose_context: Database["public"]["Enums"]["glucose_context"] | null
+          alert_flags: string[]
+          flagged: boolean | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          review_note: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          rpm_patient_id: string
+          device_id?: string | null
+          reading_type: Database["public"]["Enums"]["rpm_reading_type"]
+          measured_at: string
+          systolic?: number | null
+          diastolic?: number | null
+          pulse?: number | null
+          glucose_mg_dl?: number | null
+          glucose_context?: Database["public"]["Enums"]["glucose_context"] | null
+          alert_flags?: string[]
+          flagged?: boolean | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          review_note?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          rpm_patient_id?: string
+          device_id?: string | null
+          reading_type?: Database["public"]["Enums"]["rpm_reading_type"]
+          measured_at?: string
+          systolic?: number | null
+          diastolic?: number | null
+          pulse?: number | null
+          glucose_mg_dl?: number | null
+          glucose_context?: Database["public"]["Enums"]["glucose_context"] | null
+          alert_flags?: string[]
+          flagged?: boolean | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          review_note?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rpm_readings_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "rpm_devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rpm_readings_rpm_patient_id_fkey"
+            columns: ["rpm_patient_id"]
+            isOneToOne: false
+            referencedRelation: "rpm_patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rpm_time_entries: {
+        Row: {
+          id: string
+          rpm_patient_id: string
+          reading_id: string | null
+          activity: Database["public"]["Enums"]["rpm_activity"]
+          minutes: number
+          service_date: string
+          note: string | null
+          staff_id: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          rpm_patient_id: string
+          reading_id?: string | null
+          activity: Database["public"]["Enums"]["rpm_activity"]
+          minutes: number
+          service_date?: string
+          note?: string | null
+          staff_id?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          rpm_patient_id?: string
+          reading_id?: string | null
+          activity?: Database["public"]["Enums"]["rpm_activity"]
+          minutes?: number
+          service_date?: string
+          note?: string | null
+          staff_id?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rpm_time_entries_reading_id_fkey"
+            columns: ["reading_id"]
+            isOneToOne: false
+            referencedRelation: "rpm_readings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rpm_time_entries_rpm_patient_id_fkey"
+            columns: ["rpm_patient_id"]
+            isOneToOne: false
+            referencedRelation: "rpm_patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      splash_modal_submissions: {
+        Row: {
+          id: string
+          email: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          email: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          email?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      staff_users: {
+        Row: {
+          user_id: string
+          email: string
+          display_name: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          user_id: string
+          email: string
+          display_name?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          user_id?: string
+          email?: string
+          display_name?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      submission_attempts: {
+        Row: {
+          id: number
+          form: string
+          ip_address: string | null
+          email: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          form: string
+          ip_address?: string | null
+          email?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          form?: string
+          ip_address?: string | null
+          email?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      submission_rejections: {
+        Row: {
+          id: string
+          form: string
+          reason: Database["public"]["Enums"]["submission_rejection_reason"]
+          ip_address: string | null
+          email: string | null
+          details: Json
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          form: string
+          reason: Database["public"]["Enums"]["submission_rejection_reason"]
+          ip_address?: string | null
+          email?: string | null
+          details?: Json
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          form?: string
+          reason?: Database["public"]["Enums"]["submission_rejection_reason"]
+          ip_address?: string | null
+          email?: string | null
+          details?: Json
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      transfer_requests: {
+        Row: {
+          id: string
+          rx_number: string
+          rx_fill_date: string
+          transfer_to_pharmacy_name: string
+          transfer_to_pharmacy_address1: string
+          transfer_to_pharmacy_address2: string | null
+          transfer_to_pharmacy_city: string
+          transfer_to_pharmacy_state: string
+          transfer_to_pharmacy_zip: string
+          transfer_to_pharmacy_phone: string
+          transfer_to_pharmacy_ncdp: string | null
+          transfer_rx_remark: string | null
+          consent: boolean
+          created_at: string | null
+          updated_at: string | null
+          patient_first_name: string | null
+          patient_middle_name: string | null
+          patient_last_name: string | null
+          patient_suffix: string | null
+          patient_dob: string | null
+          patient_phone: string | null
+          patient_email: string | null
+          status: Database["public"]["Enums"]["request_status"]
+          idempotency_key: string | null
+          patient_id: string | null
+        }
+        Insert: {
+          id?: string
+          rx_number: string
+          rx_fill_date: string
+          transfer_to_pharmacy_name: string
+          transfer_to_pharmacy_address1: string
+          transfer_to_pharmacy_address2?: string | null
+          transfer_to_pharmacy_city: string
+          transfer_to_pharmacy_state: string
+          transfer_to_pharmacy_zip: string
+          transfer_to_pharmacy_phone: string
+          transfer_to_pharmacy_ncdp?: string | null
+          transfer_rx_remark?: string | null
+          consent: boolean
+          created_at?: string | null
+          updated_at?: string | null
+          patient_first_name?: string | null
+          patient_middle_name?: string | null
+          patient_last_name?: string | null
+          patient_suffix?: string | null
+          patient_dob?: string | null
+          patient_phone?: string | null
+          patient_email?: string | null
+          status?: Database["public"]["Enums"]["request_status"]
+          idempotency_key?: string | null
+          patient_id?: string | null
+        }
+        Update: {
+          id?: string
+          rx_number?: string
+          rx_fill_date?: string
+          transfer_to_pharmacy_name?: string
+          transfer_to_pharmacy_address1?: string
+          transfer_to_pharmacy_address2?: string | null
+          transfer_to_pharmacy_city?: string
+          transfer_to_pharmacy_state?: string
+          transfer_to_pharmacy_zip?: string
+          transfer_to_pharmacy_phone?: string
+          transfer_to_pharmacy_ncdp?: string | null
+          transfer_rx_remark?: string | null
+          consent?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+          patient_first_name?: string | null
+          patient_middle_name?: string | null
+          patient_last_name?: string | null
+          patient_suffix?: string | null
+          patient_dob?: string | null
+          patient_phone?: string | null
+          patient_email?: string | null
+          status?: Database["public"]["Enums"]["request_status"]
+          idempotency_key?: string | null
+          patient_id?: string | null
+        }
+        Relationships: []
+      }
+      waitlist_contact_attempts: {
+        Row: {
+          id: string
+          waitlist_entry_id: string
+          method: Database["public"]["Enums"]["contact_method"]
+          outcome: Database["public"]["Enums"]["contact_outcome"]
+          note: string | null
+          attempted_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          waitlist_entry_id: string
+          method: Database["public"]["Enums"]["contact_method"]
+          outcome: Database["public"]["Enums"]["contact_outcome"]
+          note?: string | null
+          attempted_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          waitlist_entry_id?: string
+          method?: Database["public"]["Enums"]["contact_method"]
+          outcome?: Database["public"]["Enums"]["contact_outcome"]
+          note?: string | null
+          attempted_by?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_contact_attempts_waitlist_entry_id_fkey"
+            columns: ["waitlist_entry_id"]
+            isOneToOne: false
+            referencedRelation: "waitlist_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      waitlist_entries: {
+        Row: {
+          id: string
+          name: string
+          email: string
+          phone: string
+          status: Database["public"]["Enums"]["waitlist_status"]
+          timestamp: string | null
+          created_at: string | null
+          updated_at: string | null
+          device_interest: Database["public"]["Enums"]["rpm_device_interest"] | null
+          insurance_type: Database["public"]["Enums"]["insurance_type"] | null
+          notes: string | null
+          rpm_patient_id: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          email: string
+          phone: string
+          status?: Database["public"]["Enums"]["waitlist_status"]
+          timestamp?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          device_interest?: Database["public"]["Enums"]["rpm_device_interest"] | null
+          insurance_type?: Database["public"]["Enums"]["insurance_type"] | null
+          notes?: string | null
+          rpm_patient_id?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          email?: string
+          phone?: string
+          status?: Database["public"]["Enums"]["waitlist_status"]
+          timestamp?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          device_interest?: Database["public"]["Enums"]["rpm_device_interest"] | null
+          insurance_type?: Database["public"]["Enums"]["insurance_type"] | null
+          notes?: string | null
+          rpm_patient_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_rpm_patient_id_fkey"
+            columns: ["rpm_patient_id"]
+            isOneToOne: true
+            referencedRelation: "rpm_patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      inbound_transfer_queue: {
+        Row: {
+          id: string | null
+          first_name: string | null
+          middle_name: string | null
+          last_name: string | null
+          suffix: string | null
+          dob: string | null
+          phone: string | null
+          email: string | null
+          current_pharmacy_name: string | null
+          current_pharmacy_phone: string | null
+          current_pharmacy_city: string | null
+          current_pharmacy_state: string | null
+          current_pharmacy_ncpdp: string | null
+          prescriptions: Json | null
+          prescriber_name: string | null
+          prescriber_phone: string | null
+          preferred_service: Database["public"]["Enums"]["service_preference"] | null
+          notes: string | null
+          consent: boolean | null
+          status: Database["public"]["Enums"]["inbound_transfer_status"] | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Relationships: []
+      }
+      rpm_monthly_minutes: {
+        Row: {
+          rpm_patient_id: string | null
+          month: string | null
+          minutes: number | null
+          reading_days: number | null
+          readings: number | null
+        }
+        Relationships: []
+      }
+      rpm_review_queue: {
+        Row: {
+          id: string | null
+          rpm_patient_id: string | null
+          device_id: string | null
+          reading_type: Database["public"]["Enums"]["rpm_reading_type"] | null
+          measured_at: string | null
+          systolic: number | null
+          diastolic: number | null
+          pulse: number | null
+          glucose_mg_dl: number | null
+          glucose_context: Database["public"]["Enums"]["glucose_context"] | null
+          alert_flags: string[] | null
+          flagged: boolean | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          review_note: string | null
+          created_at: string | null
+          first_name: string | null
+          last_name: string | null
+          dob: string | null
+          phone: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      advance_request_status: {
+        Args: {
+          p_request_type: Database["public"]["Enums"]["request_type"]
+          p_request_id: string
+          p_status: Database["public"]["Enums"]["request_status"]
+          p_reason: string
+        }
+        Returns: Database["public"]["Tables"]["request_status_history"]["Row"]
+      }
+      advance_waitlist_status: {
+        Args: {
+          p_entry_id: string
+          p_status: Database["public"]["Enums"]["waitlist_status"]
+        }
+        Returns: Database["public"]["Tables"]["waitlist_entries"]["Row"]
+      }
+      audit_event_hash: {
+        Args: {
+          event: Database["public"]["Tables"]["audit_events"]["Row"]
+        }
+        Returns: string
+      }
+      claim_bestrx_idempotency_key: {
+        Args: {
+          p_route: string
+          p_key: string
+          p_request_hash: string
+        }
+        Returns: Json
+      }
+      claim_refill_confirmation: {
+        Args: {
+          p_request_id: string
+        }
+        Returns: {
+          first_name: string
+          email: string
+          confirmation_code: string
+        }[]
+      }
+      complete_bestrx_idempotency_key: {
+        Args: {
+          p_route: string
+          p_key: string
+          p_response: Json
+        }
+        Returns: undefined
+      }
+      convert_waitlist_entry: {
+        Args: {
+          p_entry_id: string
+          p_dob: string
+        }
+        Returns: string
+      }
+      get_audited_record: {
+        Args: {
+          p_table_name: string
+          p_id: string
+        }
+        Returns: Json
+      }
+      get_patient_profile: {
+        Args: never
+        Returns: Database["public"]["Tables"]["patient_profiles"]["Row"][]
+      }
+      get_patient_requests: {
+        Args: never
+        Returns: Json
+      }
+      get_rpm_patient_monitoring: {
+        Args: {
+          p_patient_id: string
+        }
+        Returns: Json
+      }
+      get_rpm_review_queue: {
+        Args: never
+        Returns: Database["public"]["Views"]["rpm_review_queue"]["Row"][]
+      }
+      get_status_notification: {
+        Args: {
+          p_request_type: Database["public"]["Enums"]["request_type"]
+          p_request_id: string
+        }
+        Returns: {
+          first_name: string
+          phone: string
+          email: string
+          request_status: Database["public"]["Enums"]["request_status"]
+          reason: string
+        }[]
+      }
+      get_waitlist_board: {
+        Args: never
+        Returns: Database["public"]["Tables"]["waitlist_entries"]["Row"][]
+      }
+      ingest_rpm_readings: {
+        Args: {
+          p_serial_number: string
+          p_readings: Json
+        }
+        Returns: Json
+      }
+      is_staff: {
+        Args: never
+        Returns: boolean
+      }
+      json_count_between: {
+        Args: {
+          p_value: Json
+          p_low: number
+          p_high: number
+        }
+        Returns: boolean
+      }
+      list_audited_records: {
+        Args: {
+          p_table_name: string
+          p_offset: number
+          p_limit: number
+          p_search?: string
+          p_search_columns?: string[]
+          p_filters?: Json
+          p_created_from?: string
+          p_created_to?: string
+        }
+        Returns: Json
+      }
+      list_med_sync_fills: {
+        Args: {
+          p_enrollment_id: string
+        }
+        Returns: Database["public"]["Tables"]["med_sync_fills"]["Row"][]
+      }
+      list_request_status_history: {
+        Args: {
+          p_request_type: Database["public"]["Enums"]["request_type"]
+          p_request_id: string
+        }
+        Returns: Database["public"]["Tables"]["request_status_history"]["Row"][]
+      }
+      list_rpm_alert_thresholds: {
+        Args: {
+          p_patient_id?: string
+        }
+        Returns: Database["public"]["Tables"]["rpm_alert_thresholds"]["Row"][]
+      }
+      list_waitlist_contact_attempts: {
+        Args: {
+          p_entry_id: string
+        }
+        Returns: Database["public"]["Tables"]["waitlist_contact_attempts"]["Row"][]
+      }
+      log_rpm_minutes: {
+        Args: {
+          p_patient_id: string
+          p_activity: Database["public"]["Enums"]["rpm_activity"]
+          p_minutes: number
+          p_service_date: string
+          p_note: string
+        }
+        Returns: Database["public"]["Tables"]["rpm_time_entries"]["Row"]
+      }
+      log_waitlist_contact_attempt: {
+        Args: {
+          p_entry_id: string
+          p_method: Database["public"]["Enums"]["contact_method"]
+          p_outcome: Database["public"]["Enums"]["contact_outcome"]
+          p_note: string
+        }
+        Returns: Database["public"]["Tables"]["waitlist_contact_attempts"]["Row"]
+      }
+      lookup_refill_status: {
+        Args: {
+          p_confirmation_code: string
+          p_dob: string
+        }
+        Returns: {
+          request_status: Database["public"]["Enums"]["request_status"]
+          status_changed_at: string
+          rejection_reason: string
+          preferred_service: Database["public"]["Enums"]["service_preference"]
+          submitted_at: string
+        }[]
+      }
+      med_sync_batch_enrollments: {
+        Args: {
+          p_sync_date: string
+        }
+        Returns: Database["public"]["Tables"]["med_sync_enrollments"]["Row"][]
+      }
+      parse_patient_name: {
+        Args: {
+          full_name: string
+        }
+        Returns: {
+          first_name: string
+          middle_name: string
+          last_name: string
+          suffix: string
+        }[]
+      }
+      record_audit_event: {
+        Args: {
+          p_action: Database["public"]["Enums"]["audit_action"]
+          p_table_name: string
+          p_row_id: string
+          p_source?: string
+          p_details?: Json
+        }
+        Returns: undefined
+      }
+      record_med_sync_fill: {
+        Args: {
+          p_enrollment_id: string
+          p_sync_date: string
+          p_request_id: string
+          p_prescriptions: Json
+          p_notes: string
+          p_sent: boolean
+          p_message: string
+        }
+        Returns: Database["public"]["Tables"]["med_sync_fills"]["Row"]
+      }
+      record_rows_viewed: {
+        Args: {
+          p_table_name: string
+          p_row_ids: string[]
+          p_source: string
+          p_details?: Json
+        }
+        Returns: undefined
+      }
+      record_staff_audit_event: {
+        Args: {
+          p_action: Database["public"]["Enums"]["audit_action"]
+          p_table_name: string
+          p_source: string
+          p_row_id?: string
+          p_details?: Json
+        }
+        Returns: undefined
+      }
+      record_undelivered_refill_request: {
+        Args: {
+          p_patient_name: string
+          p_first_name: string
+          p_middle_name: string
+          p_last_name: string
+          p_suffix: string
+          p_dob: string
+          p_phone: string
+          p_email: string
+          p_prescriptions: Json
+          p_preferred_service: Database["public"]["Enums"]["service_preference"]
+          p_notes: string
+          p_consent: boolean
+          p_idempotency_key: string
+          p_reason: string
+        }
+        Returns: string
+      }
+      refill_confirmation_code: {
+        Args: {
+          p_request_id: string
+        }
+        Returns: string
+      }
+      register_rpm_device: {
+        Args: {
+          p_patient_id: string
+          p_device_type: Database["public"]["Enums"]["rpm_reading_type"]
+          p_vendor: string
+          p_serial_number: string
+        }
+        Returns: Database["public"]["Tables"]["rpm_devices"]["Row"]
+      }
+      release_bestrx_idempotency_key: {
+        Args: {
+          p_route: string
+          p_key: string
+        }
+        Returns: undefined
+      }
+      request_client_ip: {
+        Args: never
+        Returns: string
+      }
+      review_rpm_reading: {
+        Args: {
+          p_reading_id: string
+          p_note: string
+          p_minutes?: number
+        }
+        Returns: Database["public"]["Tables"]["rpm_readings"]["Row"]
+      }
+      rpm_effective_thresholds: {
+        Args: {
+          p_patient_id: string
+        }
+        Returns: {
+          systolic_high: number
+          systolic_low: number
+          diastolic_high: number
+          diastolic_low: number
+          pulse_high: number
+          pulse_low: number
+          glucose_high: number
+          glucose_low: number
+        }[]
+      }
+      save_patient_profile: {
+        Args: {
+          p_first_name: string
+          p_middle_name: string
+          p_last_name: string
+          p_suffix: string
+          p_dob: string
+          p_phone: string
+          p_email: string
+        }
+        Returns: string
+      }
+      save_waitlist_notes: {
+        Args: {
+          p_entry_id: string
+          p_notes: string
+        }
+        Returns: undefined
+      }
+      screen_submission: {
+        Args: {
+          p_form: string
+          p_email: string
+          p_honeypot: string
+          p_elapsed_ms: number
+          p_challenge_token: string
+        }
+        Returns: boolean
+      }
+      search_pharmacies: {
+        Args: {
+          p_query: string
+          p_limit?: number
+        }
+        Returns: Database["public"]["Tables"]["pharmacy_directory"]["Row"][]
+      }
+      set_med_sync_status: {
+        Args: {
+          p_enrollment_id: string
+          p_status: Database["public"]["Enums"]["med_sync_status"]
+        }
+        Returns: Database["public"]["Tables"]["med_sync_enrollments"]["Row"]
+      }
+      set_rpm_alert_thresholds: {
+        Args: {
+          p_patient_id?: string
+          p_systolic_high?: number
+          p_systolic_low?: number
+          p_diastolic_high?: number
+          p_diastolic_low?: number
+          p_pulse_high?: number
+          p_pulse_low?: number
+          p_glucose_high?: number
+          p_glucose_low?: number
+        }
+        Returns: undefined
+      }
+      set_rpm_device_active: {
+        Args: {
+          p_device_id: string
+          p_active: boolean
+        }
+        Returns: Database["public"]["Tables"]["rpm_devices"]["Row"]
+      }
+      submit_contact_form: {
+        Args: {
+          p_name: string
+          p_phone: string
+          p_email: string
+          p_reason: Database["public"]["Enums"]["contact_reason"]
+          p_message: string
+          p_consent: boolean
+          p_honeypot: string
+          p_elapsed_ms: number
+          p_challenge_token?: string
+        }
+        Returns: string
+      }
+      submit_inbound_transfer_request: {
+        Args: {
+          p_first_name: string
+          p_middle_name: string
+          p_last_name: string
+          p_suffix: string
+          p_dob: string
+          p_phone: string
+          p_email: string
+          p_current_pharmacy_name: string
+          p_current_pharmacy_phone: string
+          p_current_pharmacy_city: string
+          p_current_pharmacy_state: string
+          p_current_pharmacy_ncpdp: string
+          p_prescriptions: Json
+          p_prescriber_name: string
+          p_prescriber_phone: string
+          p_preferred_service: Database["public"]["Enums"]["service_preference"]
+          p_notes: string
+          p_consent: boolean
+        }
+        Returns: string
+      }
+      submit_med_sync_enrollment: {
+        Args: {
+          p_first_name: string
+          p_middle_name: string
+          p_last_name: string
+          p_suffix: string
+          p_dob: string
+          p_phone: string
+          p_email: string
+          p_medications: Json
+          p_sync_day: number
+          p_preferred_service: Database["public"]["Enums"]["service_preference"]
+          p_notes: string
+          p_consent: boolean
+          p_honeypot: string
+          p_elapsed_ms: number
+          p_challenge_token?: string
+        }
+        Returns: string
+      }
+      submit_refill_request: {
+        Args: {
+          p_patient_name: string
+          p_first_name: string
+          p_middle_name: string
+          p_last_name: string
+          p_suffix: string
+          p_dob: string
+          p_phone: string
+          p_email: string
+          p_prescriptions: Json
+          p_preferred_service: Database["public"]["Enums"]["service_preference"]
+          p_notes: string
+          p_consent: boolean
+          p_idempotency_key?: string
+        }
+        Returns: string
+      }
+      submit_splash_modal_signup: {
+        Args: {
+          p_email: string
+          p_honeypot: string
+          p_elapsed_ms: number
+          p_challenge_token?: string
+        }
+        Returns: string
+      }
+      submit_transfer_request: {
+        Args: {
+          p_patient_first_name: string
+          p_patient_middle_name: string
+          p_patient_last_name: string
+          p_patient_suffix: string
+          p_patient_dob: string
+          p_patient_phone: string
+          p_patient_email: string
+          p_rx_number: string
+          p_rx_fill_date: string
+          p_transfer_to_pharmacy_name: string
+          p_transfer_to_pharmacy_address1: string
+          p_transfer_to_pharmacy_address2: string
+          p_transfer_to_pharmacy_city: string
+          p_transfer_to_pharmacy_state: string
+          p_transfer_to_pharmacy_zip: string
+          p_transfer_to_pharmacy_phone: string
+          p_transfer_to_pharmacy_ncpdp: string
+          p_transfer_rx_remark: string
+          p_consent: boolean
+          p_idempotency_key?: string
+        }
+        Returns: string
+      }
+      submit_waitlist_entry: {
+        Args: {
+          p_name: string
+          p_email: string
+          p_phone: string
+          p_honeypot: string
+          p_elapsed_ms: number
+          p_challenge_token?: string
+          p_device_interest?: Database["public"]["Enums"]["rpm_device_interest"]
+          p_insurance_type?: Database["public"]["Enums"]["insurance_type"]
+        }
+        Returns: string
+      }
+      validate_admin_table: {
+        Args: {
+          p_table_name: string
+        }
+        Returns: undefined
+      }
+      validate_email: {
+        Args: {
+          p_value: string
+          p_required?: boolean
+        }
+        Returns: undefined
+      }
+      validate_inbound_prescriptions: {
+        Args: {
+          p_prescriptions: Json
+        }
+        Returns: undefined
+      }
+      validate_med_sync_medications: {
+        Args: {
+          p_medications: Json
+        }
+        Returns: undefined
+      }
+      validate_patient_name: {
+        Args: {
+          p_first_name: string
+          p_last_name: string
+          p_suffix: string
+        }
+        Returns: undefined
+      }
+      validate_phone: {
+        Args: {
+          p_value: string
+          p_required?: boolean
+        }
+        Returns: undefined
+      }
+      validate_prescriptions: {
+        Args: {
+          p_prescriptions: Json
+        }
+        Returns: undefined
+      }
+      validate_required: {
+        Args: {
+          p_value: string
+          p_message: string
+        }
+        Returns: undefined
+      }
+      verify_audit_chain: {
+        Args: never
+        Returns: Json
+      }
+      verify_submission_challenge: {
+        Args: {
+          p_form: string
+          p_token: string
+        }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      audit_action:
+        | "create"
+        | "view"
+        | "update"
+        | "delete"
+        | "export"
+      contact_method:
+        | "phone"
+        | "sms"
+        | "email"
+      contact_outcome:
+        | "reached"
+        | "left_message"
+        | "no_answer"
+        | "wrong_number"
+        | "declined"
+      contact_reason:
+        | "general"
+        | "new"
+        | "transfer"
+        | "refill"
+        | "rpm"
+      glucose_context:
+        | "fasting"
+        | "before_meal"
+        | "after_meal"
+        | "bedtime"
+        | "random"
+      inbound_transfer_status:
+        | "pending"
+        | "in_progress"
+        | "completed"
+        | "cancelled"
+      insurance_type:
+        | "medicare"
+        | "medicare_advantage"
+        | "medicaid"
+        | "commercial"
+        | "uninsured"
+        | "other"
+      med_sync_fill_status:
+        | "sent"
+        | "failed"
+      med_sync_status:
+        | "pending"
+        | "active"
+        | "cancelled"
+      request_status:
+        | "received"
+        | "in_progress"
+        | "ready_for_pickup"
+        | "out_for_delivery"
+        | "completed"
+        | "rejected"
+      request_type:
+        | "refill"
+        | "transfer"
+      rpm_activity:
+        | "reading_review"
+        | "patient_call"
+        | "care_coordination"
+      rpm_device_interest:
+        | "blood_pressure"
+        | "glucose"
+        | "both"
+      rpm_reading_type:
+        | "blood_pressure"
+        | "glucose"
+      service_preference:
+        | "pickup"
+        | "delivery"
+      submission_rejection_reason:
+        | "honeypot"
+        | "too_fast"
+        | "challenge_failed"
+        | "rate_limited"
+      waitlist_status:
+        | "active"
+        | "contacted"
+        | "enrolled"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
+export type Views<T extends keyof PublicSchema["Views"]> = PublicSchema["Views"][T]["Row"]
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T]
@@ -0,0 +1,150 @@
+/**
+ * Schema-driven forms
+ * Wraps react-hook-form with the form's Zod schema (via zodResolver) and the
+ * submit status every public form shows: fields are validated on submit, a
+ * field's error clears as soon as it is edited, and modal forms reset once
+ * their close transition has finished.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { BaseSyntheticEvent } from "react";
+import { useForm, useFormContext } from "react-hook-form";
+import type { DefaultValues, FieldError, FieldPath, FieldValues, UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type { z } from "zod";
+
+export type FormStatus = "idle" | "submitting" | "success" | "error";
+
+// Matches the modals' close transition duration
+const RESET_DELAY_MS = 300;
+
+const DEFAULT_ERROR_MESSAGE = "Something went wrong. Please try again.";
+
+interface SchemaFormOptions<TInput extends FieldValues, TOutput> {
+  schema: z.ZodType<TOutput, z.ZodTypeDef, TInput>;
+  defaultValues: DefaultValues<TInput>;
+  /** Sends the validated (parsed) form data; a thrown error is shown as the form's error message */
+  onSubmit: (data: TOutput) => Promise<void>;
+  /** Modal forms pass their open state; the form resets after the modal closes */
+  isOpen?: boolean;
+  /** Resets any extra state the form keeps alongside its fields */
+  onReset?: () => void;
+  /** Clears the fields after a successful submit instead of leaving them filled in */
+  resetOnSuccess?: boolean;
+  /**
+   * Values filled in over the defaults, e.g. a signed-in patient's details.
+   * Applied when the form opens and whenever they change (say, once the
+   * profile loads) unless the user has started editing. Pass a memoized object.
+   */
+  prefill?: Partial<TInput> | null;
+}
+
+export interface SchemaForm<TInput extends FieldValues, TOutput> {
+  form: UseFormReturn<TInput, unknown, TOutput>;
+  status: FormStatus;
+  errorMessage: string | null;
+  /** `<form onSubmit>` handler: validates, then calls onSubmit */
+  handleSubmit: (e?: BaseSyntheticEvent) => Promise<void>;
+  /** Calls onSubmit with already-validated data, e.g. after a confirmation step */
+  submitValues: (data: TOutput) => Promise<void>;
+  /** Clears a previous submit's outcome, e.g. when the user goes back to edit */
+  resetStatus: () => void;
+  reset: () => void;
+}
+
+export function useSchemaForm<TInput extends FieldValues, TOutput>({
+  schema,
+  defaultValues,
+  onSubmit,
+  isOpen,
+  onReset,
+  resetOnSuccess = false,
+  prefill,
+}: SchemaFormOptions<TInput, TOutput>): SchemaForm<TInput, TOutput> {
+  const form = useForm<TInput, unknown, TOutput>({
+    resolver: zodResolver(schema),
+    defaultValues,
+    // Errors only appear on submit; useSchemaField clears them on edit
+    reValidateMode: "onSubmit",
+  });
+  const [status, setStatus] = useState<FormStatus>("idle");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const onResetRef = useRef(onReset);
+  onResetRef.current = onReset;
+  const initialValuesRef = useRef(defaultValues);
+  const isDirtyRef = useRef(false);
+  isDirtyRef.current = form.formState.isDirty;
+
+  const resetStatus = useCallback(() => {
+    setStatus("idle");
+    setErrorMessage(null);
+  }, []);
+
+  const { reset: resetFields } = form;
+  const reset = useCallback(() => {
+    resetFields();
+    resetStatus();
+    onResetRef.current?.();
+  }, [resetFields, resetStatus]);
+
+  useEffect(() => {
+    if (isOpen !== false) return;
+    const timeout = setTimeout(reset, RESET_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [isOpen, reset]);
+
+  // Also runs when prefill becomes null (e.g. on sign-out), clearing the previous values
+  useEffect(() => {
+    if (prefill === undefined || isOpen === false || isDirtyRef.current) return;
+    resetFields({ ...initialValuesRef.current, ...prefill } as DefaultValues<TInput>);
+  }, [prefill, isOpen, resetFields]);
+
+  const submitValues = async (data: TOutput) => {
+    setStatus("submitting");
+    setErrorMessage(null);
+    try {
+      await onSubmit(data);
+      setStatus("success");
+      if (resetOnSuccess) {
+        resetFields();
+      }
+    } catch (error) {
+      setStatus("error");
+      setErrorMessage(error instanceof Error ? error.message : DEFAULT_ERROR_MESSAGE);
+    }
+  };
+
+  // On validation errors react-hook-form focuses the first invalid field
+  const handleSubmit = form.handleSubmit(submitValues, () => setErrorMessage(null));
+
+  return { form, status, errorMessage, handleSubmit, submitValues, resetStatus, reset };
+}
+
+/**
+ * The validation message of a field of the surrounding <FormProvider> form.
+ * Array fields report list-level errors (e.g. "at least one") under `root`.
+ */
+export function useFieldError<TValues extends FieldValues>(name: FieldPath<TValues>): string | undefined {
+  const { getFieldState, formState } = useFormContext<TValues>();
+  const { error } = getFieldState(name, formState);
+  return error?.message ?? (error as { root?: FieldError } | undefined)?.root?.message;
+}
+
+/**
+ * Registers a field of the surrounding <FormProvider> form; editing the field
+ * clears its error
+ */
+export function useSchemaField<TValues extends FieldValues>(name: FieldPath<TValues>) {
+  const { register, clearErrors, getFieldState } = useFormContext<TValues>();
+
+  return {
+    registration: register(name, {
+      onChange: () => {
+        if (getFieldState(name).error) {
+          clearErrors(name);
+        }
+      },
+    }),
+    error: useFieldError<TValues>(name),
+  };
+}
@@ -1,86 +1,787 @@
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { supabase } from "./supabaseClient";
 import {
-  ContactFormData,
-  WaitlistFormData,
-  RefillFormData,
-  TransferFormData,
-  SplashModalFormData,
+  ContactFormDataSchema,
+  InboundTransferFormDataSchema,
+  MedSyncEnrollmentFormDataSchema,
+  RefillFormDataSchema,
+  SplashModalFormDataSchema,
+  TransferFormDataSchema,
+  WaitlistFormDataSchema,
 } from "./schemas";
+import type {
+  MedSyncStatusUpdate,
+  PatientProfile,
+  PharmacyDirectoryEntry,
+  RefillStatusLookup,
+  RequestStatusUpdate,
+  RequestType,
+  RpmAlertThresholds,
+  RpmDeviceRegistration,
+  RpmReadingReview,
+  RpmTimeEntry,
+  WaitlistContactAttempt,
+  WaitlistConversion,
+  WaitlistStatusUpdate,
+} from "./schemas";
+import type { RefillRxResult } from "./bestrx";
 import {
-  buildRefillRequestPayload,
-  buildTransferRequestPayload,
-  buildBasicAuthHeader,
-  submitRefillToBestRX,
-  submitTransferToBestRX,
-} from "./bestrx";
+  toContactFormArgs,
+  toInboundTransferRequestArgs,
+  toMedSyncEnrollmentArgs,
+  toMedSyncStatusUpdateArgs,
+  toPatientProfileArgs,
+  toRefillRequestArgs,
+  toRefillStatusLookupArgs,
+  toRequestStatusUpdateArgs,
+  toRpmAlertThresholdsArgs,
+  toRpmDeviceRegistrationArgs,
+  toRpmReadingReviewArgs,
+  toRpmTimeEntryArgs,
+  toSplashModalSignupArgs,
+  toTransferRequestArgs,
+  toWaitlistContactAttemptArgs,
+  toWaitlistConversionArgs,
+  toWaitlistEntryArgs,
+  toWaitlistStatusUpdateArgs,
+} from "./rpcArgs";
+import type { RpcReturns } from "./rpcArgs";
+import { fromPharmacyDirectoryRow } from "./pharmacyDirectory";
+import type { PharmacyDirectoryRow } from "./pharmacyDirectory";
+import { ADMIN_TABLES, localDayStart } from "./adminTables";
+import type { AdminRow, AdminTableName } from "./adminTables";
+import type { Session } from "@supabase/supabase-js";
+import { fromPatientProfileRow, toSmsPhone } from "./patientAccount";
+import type { PatientRefillRequest, PatientTransferRequest } from "./patientAccount";
+import type { NotificationDispatchResult } from "./notificationDispatcher";
+import type { MedSyncBatchResult } from "./medSyncBatch";
+import type { Json, Tables, Views } from "./database.types";
+import { createSubmission, SubmissionError, unwrapRpcResponse } from "./submission";
+import type { RunOptions, Submission, SubmissionStatus } from "./submission";
+import { SUBMISSION_REJECTED_MESSAGE } from "./antiAbuse";
+import { callBestRXProxy } from "./bestrxClient";
+import { queueOutboxEntry } from "./outbox";
+import { requestOutboxSync } from "./outboxDelivery";
+import { notifyPatientUrl, sendRefillConfirmation } from "./notificationClient";
+import { confirmationCodeFor } from "./confirmationCode";
 
-type SubmissionStatus = "idle" | "submitting" | "success" | "error";
+async function notifyPatient(
+  requestType: RequestType,
+  requestId: string
+): Promise<NotificationDispatchResult> {
+  try {
+    const { data } = await supabase.auth.getSession();
+    const response = await fetch(notifyPatientUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${data.session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      },
+      body: JSON.stringify({ requestType, requestId }),
+    });
 
-export function useContactFormSubmission() {
+    return (await response.json()) as NotificationDispatchResult;
+  } catch (error) {
+    console.error("Patient notification error:", error);
+    return { success: false, message: "Unable to reach the notification service." };
+  }
+}
+
+/**
+ * Submit state for a form: status, error message, and `cancel`, which aborts
+ * the pending submission (also done on unmount). Starting a new submission
+ * cancels the previous one. Forms that may resubmit the same request (e.g.
+ * after a retry) pass a stable request ID; the public forms pass their abuse
+ * signals.
+ */
+export function useSubmission<TInput, TResult>(submission: Submission<TInput, TResult>) {
   const [status, setStatus] = useState<SubmissionStatus>("idle");
   const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
 
-  const submit = async (data: ContactFormData) => {
-    setStatus("submitting");
-    setError(null);
+  useEffect(() => () => controllerRef.current?.abort(), []);
 
-    try {
-      const { data: id, error: rpcError } = await supabase.rpc(
-        "submit_contact_form",
-        {
-          p_name: data.name,
-          p_phone: data.phone,
-          p_email: data.email,
-          p_reason: data.reason,
-          p_message: data.message,
-          p_consent: data.consent,
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const submit = useCallback(
+    async (input: TInput, options: Omit<RunOptions, "signal"> = {}): Promise<TResult> => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setStatus("submitting");
+      setError(null);
+
+      // A newer submission owns the state once it has replaced this one
+      const isCurrent = () => controllerRef.current === controller;
+
+      try {
+        const result = await submission.run(input, { ...options, signal: controller.signal });
+        if (isCurrent()) setStatus("success");
+        return result;
+      } catch (err) {
+        if (!isCurrent()) {
+          throw err;
         }
-      );
+        if (err instanceof SubmissionError && err.kind === "cancelled") {
+          setStatus("idle");
+        } else {
+          setError(err instanceof Error ? err.message : "Submission failed");
+          setStatus("error");
+        }
+        throw err;
+      }
+    },
+    [submission]
+  );
+
+  return { submit, status, error, cancel };
+}
+
+/**
+ * Idempotency keys for a form's submissions. Resubmitting the same details
+ * (a double-click, or trying again after an error) reuses the key, so the
+ * server returns the original result instead of acting twice; changed
+ * details get a new key. `reset` starts over, e.g. when the form is reset.
+ */
+export function useIdempotencyKey<T>() {
+  const lastRef = useRef<{ payload: string; key: string } | null>(null);
+
+  const keyFor = useCallback((data: T): string => {
+    const payload = JSON.stringify(data);
+    if (lastRef.current?.payload !== payload) {
+      lastRef.current = { payload, key: crypto.randomUUID() };
+    }
+    return lastRef.current.key;
+  }, []);
+
+  const reset = useCallback(() => {
+    lastRef.current = null;
+  }, []);
+
+  return { keyFor, reset };
+}
+
+/**
+ * A refill is either sent to BestRX now or queued in the outbox until the
+ * browser is back online. Either way the patient gets the confirmation code
+ * they check its status with.
+ */
+export type RefillRequestOutcome = { confirmationCode: string } & (
+  | { status: "sent"; results: RefillRxResult[] }
+  | { status: "queued" }
+);
+
+// The screened RPCs return no id for a submission they rejected as abuse
+function requireAccepted(id: string | null): string {
+  if (id === null) {
+    throw new SubmissionError(SUBMISSION_REJECTED_MESSAGE, "persist", "rejected");
+  }
+  return id;
+}
+
+const contactFormSubmission = createSubmission({
+  name: "contact message",
+  schema: ContactFormDataSchema,
+  persist: async (data, { signal, abuseSignals }) =>
+    requireAccepted(
+      unwrapRpcResponse(
+        await supabase.rpc("submit_contact_form", toContactFormArgs(data, abuseSignals)).abortSignal(signal),
+        "persist"
+      )
+    ),
+});
+
+const waitlistFormSubmission = createSubmission({
+  name: "waitlist entry",
+  schema: WaitlistFormDataSchema,
+  persist: async (data, { signal, abuseSignals }) =>
+    requireAccepted(
+      unwrapRpcResponse(
+        await supabase.rpc("submit_waitlist_entry", toWaitlistEntryArgs(data, abuseSignals)).abortSignal(signal),
+        "persist"
+      )
+    ),
+});
+
+const refillFormSubmission = createSubmission({
+  name: "refill request",
+  schema: RefillFormDataSchema,
+  // BestRX is the system of record; the Supabase row is the audit trail.
+  // Both honor the request ID as an idempotency key, so a repeat is not sent or saved twice.
+  external: async (data, { signal, requestId }): Promise<RefillRequestOutcome> => ({
+    status: "sent",
+    results: (await callBestRXProxy("refill", data, signal, requestId)).results ?? [],
+    confirmationCode: await confirmationCodeFor(requestId),
+  }),
+  persist: async (data, { signal, requestId }) => {
+    unwrapRpcResponse(
+      await supabase.rpc("submit_refill_request", toRefillRequestArgs(data, requestId)).abortSignal(signal),
+      "persist"
+    );
+    if (data.email) {
+      void sendRefillConfirmation(requestId);
+    }
+  },
+  // Offline refills wait in the encrypted outbox and are sent when the browser reconnects
+  deferExternal: async (data, { requestId }): Promise<RefillRequestOutcome> => {
+    await queueOutboxEntry(requestId, data, "external");
+    await requestOutboxSync();
+    return { status: "queued", confirmationCode: await confirmationCodeFor(requestId) };
+  },
+  deferPersist: async (data, { requestId }) => {
+    await queueOutboxEntry(requestId, data, "persist");
+    await requestOutboxSync();
+  },
+});
+
+const transferFormSubmission = createSubmission({
+  name: "transfer request",
+  schema: TransferFormDataSchema,
+  external: async (data, { signal, requestId }) =>
+    (await callBestRXProxy("transfer", data, signal, requestId)).data,
+  persist: async (data, { signal, requestId }) => {
+    unwrapRpcResponse(
+      await supabase.rpc("submit_transfer_request", toTransferRequestArgs(data, requestId)).abortSignal(signal),
+      "persist"
+    );
+  },
+});
+
+// Inbound transfers are worked by staff, so there is no BestRX call
+const inboundTransferFormSubmission = createSubmission({
+  name: "inbound transfer request",
+  schema: InboundTransferFormDataSchema,
+  persist: async (data, { signal }) =>
+    unwrapRpcResponse(
+      await supabase.rpc("submit_inbound_transfer_request", toInboundTransferRequestArgs(data)).abortSignal(signal),
+      "persist"
+    ),
+});
+
+const splashModalFormSubmission = createSubmission({
+  name: "delivery signup",
+  schema: SplashModalFormDataSchema,
+  persist: async (data, { signal, abuseSignals }) =>
+    requireAccepted(
+      unwrapRpcResponse(
+        await supabase.rpc("submit_splash_modal_signup", toSplashModalSignupArgs(data, abuseSignals)).abortSignal(signal),
+        "persist"
+      )
+    ),
+});
+
+const medSyncEnrollmentSubmission = createSubmission({
+  name: "Med Sync enrollment",
+  schema: MedSyncEnrollmentFormDataSchema,
+  persist: async (data, { signal, abuseSignals }) =>
+    requireAccepted(
+      unwrapRpcResponse(
+        await supabase.rpc("submit_med_sync_enrollment", toMedSyncEnrollmentArgs(data, abuseSignals)).abortSignal(signal),
+        "persist"
+      )
+    ),
+});
+
+export function useContactFormSubmission() {
+  return useSubmission(contactFormSubmission);
+}
+
+export function useWaitlistFormSubmission() {
+  return useSubmission(waitlistFormSubmission);
+}
+
+export function useRefillFormSubmission() {
+  return useSubmission(refillFormSubmission);
+}
+
+export type RefillStatusResult = RpcReturns<"lookup_refill_status">[number];
+
+/**
+ * Public refill status check by confirmation code and date of birth. Resolves
+ * to null when they don't match a request; throws when the lookup fails or is
+ * rate limited.
+ */
+export async function lookupRefillStatus(query: RefillStatusLookup): Promise<RefillStatusResult | null> {
+  const { data, error } = await supabase.rpc("lookup_refill_status", toRefillStatusLookupArgs(query));
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data[0] ?? null;
+}
+
+export function useTransferFormSubmission() {
+  return useSubmission(transferFormSubmission);
+}
+
+export function useInboundTransferFormSubmission() {
+  return useSubmission(inboundTransferFormSubmission);
+}
+
+export function useSplashModalFormSubmission() {
+  return useSubmission(splashModalFormSubmission);
+}
+
+export function useMedSyncEnrollmentSubmission() {
+  return useSubmission(medSyncEnrollmentSubmission);
+}
+
+/**
+ * Debounced typeahead search of the pharmacy directory by name, city, ZIP, or NCPDP ID
+ */
+export function usePharmacySearch(query: string, debounceMs = 250) {
+  const [results, setResults] = useState<PharmacyDirectoryEntry[]>([]);
+  const [status, setStatus] = useState<"idle" | "searching" | "error">("idle");
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setResults([]);
+      setStatus("idle");
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setStatus("searching");
+      const { data, error: rpcError } = await supabase.rpc("search_pharmacies", {
+        p_query: trimmed,
+        p_limit: 8,
+      });
+
+      if (cancelled) return;
 
       if (rpcError) {
-        throw new Error(rpcError.message);
+        console.warn("Pharmacy search failed:", rpcError);
+        setResults([]);
+        setStatus("error");
+        return;
       }
 
-      setStatus("success");
-      return id;
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Submission failed";
-      setError(errorMessage);
-      setStatus("error");
-      throw err;
+      setResults(((data ?? []) as PharmacyDirectoryRow[]).map(fromPharmacyDirectoryRow));
+      setStatus("idle");
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, debounceMs]);
+
+  return { results, status };
+}
+
+/**
+ * Supabase Auth session for the staff dashboard. `isStaff` is checked with the
+ * is_staff() RPC, which the staff-only RPCs also rely on.
+ */
+export function useStaffSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isStaff, setIsStaff] = useState(false);
+  const [status, setStatus] = useState<"loading" | "signed-out" | "ready">("loading");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const applySession = async (next: Session | null) => {
+      if (!next) {
+        setSession(null);
+        setIsStaff(false);
+        setStatus("signed-out");
+        return;
+      }
+
+      const { data, error: rpcError } = await supabase.rpc("is_staff");
+      if (cancelled) return;
+      if (rpcError) {
+        console.warn("Staff check failed:", rpcError);
+      }
+      setSession(next);
+      setIsStaff(data === true);
+      setStatus("ready");
+    };
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (!cancelled) applySession(data.session);
+    });
+
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, next) => {
+      // Defer so the RPC does not run inside the auth callback
+      setTimeout(() => {
+        if (!cancelled) applySession(next);
+      }, 0);
+    });
+
+    return () => {
+      cancelled = true;
+      listener.subscription.unsubscribe();
+    };
+  }, []);
+
+  const signIn = async (email: string, password: string) => {
+    const { error: authError } = await supabase.auth.signInWithPassword({ email, password });
+    if (authError) {
+      throw new Error(authError.message);
     }
   };
 
-  return { submit, status, error };
+  const signOut = async () => {
+    await supabase.auth.signOut();
+  };
+
+  return { session, isStaff, status, signIn, signOut };
 }
 
-export function useWaitlistFormSubmission() {
+// Magic links and the SMS sign-in flow return patients to their account page
+const patientAccountUrl = () => `${window.location.origin}${import.meta.env.BASE_URL}account`;
+
+/**
+ * Optional patient sign-in with Supabase Auth: an email magic link, or a code
+ * sent by text message
+ */
+export function usePatientSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [status, setStatus] = useState<"loading" | "signed-out" | "ready">("loading");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const applySession = (next: Session | null) => {
+      if (cancelled) return;
+      setSession(next);
+      setStatus(next ? "ready" : "signed-out");
+    };
+
+    supabase.auth.getSession().then(({ data }) => applySession(data.session));
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, next) => applySession(next));
+
+    return () => {
+      cancelled = true;
+      listener.subscription.unsubscribe();
+    };
+  }, []);
+
+  const sendMagicLink = async (email: string) => {
+    const { error: authError } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: patientAccountUrl() },
+    });
+    if (authError) {
+      throw new Error(authError.message);
+    }
+  };
+
+  const sendSmsCode = async (phone: string) => {
+    const { error: authError } = await supabase.auth.signInWithOtp({ phone: toSmsPhone(phone) });
+    if (authError) {
+      throw new Error(authError.message);
+    }
+  };
+
+  const verifySmsCode = async (phone: string, code: string) => {
+    const { error: authError } = await supabase.auth.verifyOtp({
+      phone: toSmsPhone(phone),
+      token: code.trim(),
+      type: "sms",
+    });
+    if (authError) {
+      throw new Error(authError.message);
+    }
+  };
+
+  const signOut = async () => {
+    await supabase.auth.signOut();
+  };
+
+  return { session, status, sendMagicLink, sendSmsCode, verifySmsCode, signOut };
+}
+
+/**
+ * The signed-in patient's saved details (null until saved), which the
+ * request forms are pre-filled with
+ */
+export function usePatientProfile(userId: string | null) {
+  const [profile, setProfile] = useState<PatientProfile | null>(null);
+  const [status, setStatus] = useState<"loading" | "idle" | "error">("loading");
+
+  useEffect(() => {
+    setProfile(null);
+    if (!userId) {
+      setStatus("idle");
+      return;
+    }
+
+    let cancelled = false;
+    setStatus("loading");
+    // Read through get_patient_profile, which records the view
+    supabase
+      .rpc("get_patient_profile")
+      .maybeSingle()
+      .then(({ data, error: queryError }) => {
+        if (cancelled) return;
+        if (queryError) {
+          console.error("Patient profile error:", queryError);
+          setStatus("error");
+          return;
+        }
+        setProfile(data ? fromPatientProfileRow(data) : null);
+        setStatus("idle");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const save = useCallback(async (data: PatientProfile) => {
+    const { error: rpcError } = await supabase.rpc("save_patient_profile", toPatientProfileArgs(data));
+    if (rpcError) {
+      throw new Error(rpcError.message);
+    }
+    setProfile(data);
+  }, []);
+
+  return { profile, status, save };
+}
+
+/**
+ * The signed-in patient's own refill and transfer requests, newest first.
+ * get_patient_requests returns only the caller's requests and records the view.
+ */
+export function usePatientRequests(userId: string | null) {
+  const [refills, setRefills] = useState<PatientRefillRequest[]>([]);
+  const [transfers, setTransfers] = useState<PatientTransferRequest[]>([]);
+  const [status, setStatus] = useState<"loading" | "idle" | "error">("loading");
+
+  useEffect(() => {
+    setRefills([]);
+    setTransfers([]);
+    if (!userId) {
+      setStatus("idle");
+      return;
+    }
+
+    let cancelled = false;
+    setStatus("loading");
+    supabase.rpc("get_patient_requests").then(({ data, error: queryError }) => {
+      if (cancelled) return;
+      if (queryError) {
+        console.error("Patient requests error:", queryError);
+        setStatus("error");
+        return;
+      }
+      const requests = data as unknown as { refills: PatientRefillRequest[]; transfers: PatientTransferRequest[] };
+      setRefills(requests.refills);
+      setTransfers(requests.transfers);
+      setStatus("idle");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return { refills, transfers, status };
+}
+
+/**
+ * Records a staff export in the audit log (013_audit_events.sql). Reads are
+ * recorded by the RPCs that serve them (020_audited_reads.sql). Failures are
+ * logged rather than shown, since the data is already on screen.
+ */
+export async function recordStaffAuditEvent(
+  action: "export",
+  table: AdminTableName,
+  rowId: string | null,
+  details: Json = {}
+): Promise<void> {
+  const { error } = await supabase.rpc("record_staff_audit_event", {
+    p_action: action,
+    p_table_name: table,
+    p_row_id: rowId ?? undefined,
+    p_source: "admin_dashboard",
+    p_details: details,
+  });
+  if (error) {
+    console.error("Audit logging failed:", error);
+  }
+}
+
+export interface AdminListQuery {
+  page: number;
+  pageSize: number;
+  search: string;
+  filters: Record<string, string>;
+  createdFrom: string;
+  createdTo: string;
+}
+
+/**
+ * One page of a submission table for the staff dashboard, newest first
+ */
+export function useAdminList(table: AdminTableName, query: AdminListQuery) {
+  const [rows, setRows] = useState<AdminRow[]>([]);
+  const [count, setCount] = useState(0);
+  const [status, setStatus] = useState<"loading" | "idle" | "error">("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { page, pageSize, search, filters, createdFrom, createdTo } = query;
+  const filterKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    let cancelled = false;
+    const config = ADMIN_TABLES[table];
+
+    setStatus("loading");
+    setError(null);
+    // Read through list_audited_records, which records the view
+    supabase
+      .rpc("list_audited_records", {
+        p_table_name: table,
+        p_offset: page * pageSize,
+        p_limit: pageSize,
+        p_search: search.trim() || undefined,
+        p_search_columns: config.searchColumns,
+        p_filters: JSON.parse(filterKey) as Record<string, string>,
+        p_created_from: createdFrom ? localDayStart(createdFrom) : undefined,
+        // Inclusive of the whole "to" day
+        p_created_to: createdTo ? localDayStart(createdTo, 1) : undefined,
+      })
+      .then(({ data, error: queryError }) => {
+        if (cancelled) return;
+        if (queryError) {
+          setRows([]);
+          setCount(0);
+          setError(queryError.message);
+          setStatus("error");
+          return;
+        }
+        const listed = data as unknown as { rows: AdminRow[]; count: number };
+        setRows(listed.rows);
+        setCount(listed.count);
+        setStatus("idle");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [table, page, pageSize, search, filterKey, createdFrom, createdTo, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return { rows, count, status, error, reload };
+}
+
+/**
+ * A single submission row for the staff dashboard detail view
+ */
+export function useAdminRecord(table: AdminTableName, id: string | null) {
+  const [record, setRecord] = useState<AdminRow | null>(null);
+  const [status, setStatus] = useState<"loading" | "idle" | "error">("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!id) {
+      setRecord(null);
+      setStatus("idle");
+      return;
+    }
+
+    let cancelled = false;
+    setStatus("loading");
+    setError(null);
+    // Read through get_audited_record, which records the view
+    supabase
+      .rpc("get_audited_record", { p_table_name: table, p_id: id })
+      .then(({ data, error: queryError }) => {
+        if (cancelled) return;
+        if (queryError) {
+          setRecord(null);
+          setError(queryError.message);
+          setStatus("error");
+          return;
+        }
+        setRecord(data as unknown as AdminRow | null);
+        setStatus("idle");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [table, id, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return { record, status, error, reload };
+}
+
+export type RequestStatusHistoryEntry = Tables<"request_status_history">;
+
+/**
+ * Status history of a refill/transfer request, oldest first
+ */
+export function useRequestStatusHistory(requestType: RequestType, requestId: string) {
+  const [history, setHistory] = useState<RequestStatusHistoryEntry[]>([]);
+  const [status, setStatus] = useState<"loading" | "idle" | "error">("loading");
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus("loading");
+    supabase
+      .rpc("list_request_status_history", { p_request_type: requestType, p_request_id: requestId })
+      .then(({ data, error: queryError }) => {
+        if (cancelled) return;
+        if (queryError) {
+          console.warn("Status history failed to load:", queryError);
+          setHistory([]);
+          setStatus("error");
+          return;
+        }
+        setHistory(data ?? []);
+        setStatus("idle");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestType, requestId, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return { history, status, reload };
+}
+
+/**
+ * Staff action: moves a request to its next status, then notifies the patient.
+ * A failed notification does not undo the status change; it is reported in `notification`.
+ */
+export function useAdvanceRequestStatus() {
   const [status, setStatus] = useState<SubmissionStatus>("idle");
   const [error, setError] = useState<string | null>(null);
 
-  const submit = async (data: WaitlistFormData) => {
+  const submit = async (update: RequestStatusUpdate) => {
     setStatus("submitting");
     setError(null);
 
     try {
-      const { data: id, error: rpcError } = await supabase.rpc(
-        "submit_waitlist_entry",
-        {
-          p_name: data.name,
-          p_email: data.email,
-          p_phone: data.phone,
-        }
+      const { data: entry, error: rpcError } = await supabase.rpc(
+        "advance_request_status",
+        toRequestStatusUpdateArgs(update)
       );
 
       if (rpcError) {
         throw new Error(rpcError.message);
       }
 
+      const notification = await notifyPatient(update.requestType, update.requestId);
       setStatus("success");
-      return id;
+      return { entry, notification };
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Submission failed";
+      const errorMessage = err instanceof Error ? err.message : "Status update failed";
       setError(errorMessage);
       setStatus("error");
       throw err;
@@ -90,174 +791,408 @@ export function useWaitlistFormSubmission() {
   return { submit, status, error };
 }
 
-export function useRefillFormSubmission() {
-  const [status, setStatus] = useState<SubmissionStatus>("idle");
+export type WaitlistBoardEntry = Tables<"waitlist_entries">;
+
+/**
+ * Every waitlist entry for the staff waitlist board, oldest first
+ */
+export function useWaitlistBoard() {
+  const [entries, setEntries] = useState<WaitlistBoardEntry[]>([]);
+  const [status, setStatus] = useState<"loading" | "idle" | "error">("loading");
   const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
-  const submit = async (data: RefillFormData) => {
-    setStatus("submitting");
+  useEffect(() => {
+    let cancelled = false;
+    setStatus("loading");
     setError(null);
-
-    try {
-      // Get BestRX credentials from environment (defined in vite.config.ts)
-      const username = process.env.BESTRX_USERNAME;
-      const apiKey = process.env.BESTRX_API_KEY;
-      const pharmacyNumber = process.env.BESTRX_PHARMACY_NUMBER;
-
-      if (!username || !apiKey || !pharmacyNumber) {
-        throw new Error(
-          "Pharmacy service is not properly configured. Please contact support."
-        );
+    supabase.rpc("get_waitlist_board").then(({ data, error: queryError }) => {
+      if (cancelled) return;
+      if (queryError) {
+        setEntries([]);
+        setError(queryError.message);
+        setStatus("error");
+        return;
       }
+      setEntries(data ?? []);
+      setStatus("idle");
+    });
 
-      // Step 1: Build BestRX payload
-      const payload = buildRefillRequestPayload(
-        data,
-        pharmacyNumber,
-        apiKey,
-        username
-      );
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
 
-      // Step 2: Submit to BestRX API
-      // IMPORTANT: In production, this should be called from a backend/Edge Function
-      // to keep API credentials secure. This frontend call is for development only.
-      const result = await submitRefillToBestRX(payload);
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
 
-      if (!result.success) {
-        throw new Error(result.message);
-      }
+  return { entries, status, error, reload };
+}
 
-      // Step 3: Persist to Supabase for audit trail
-      // This is a secondary operation; failure here doesn't prevent the refill submission
-      try {
-        await supabase.rpc("submit_refill_request", {
-          p_patient_name: data.patientName,
-          p_dob: data.dob,
-          p_phone: data.phone,
-          p_email: data.email || "",
-          p_prescription_numbers: data.prescriptionNumbers,
-          p_medication_names: data.medicationNames,
-          p_preferred_service: data.preferredService,
-          p_notes: data.notes || "",
-          p_consent: data.consent,
-        });
-      } catch (supabaseError) {
-        console.warn("Failed to save refill request to database:", supabaseError);
-        // Don't throw - BestRX submission succeeded, which is the primary goal
-      }
+export type WaitlistContactAttemptEntry = Tables<"waitlist_contact_attempts">;
+
+/**
+ * Contact attempts logged for a waitlist entry, newest first
+ */
+export function useWaitlistContactAttempts(entryId: string) {
+  const [attempts, setAttempts] = useState<WaitlistContactAttemptEntry[]>([]);
+  const [status, setStatus] = useState<"loading" | "idle" | "error">("loading");
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus("loading");
+    supabase
+      .rpc("list_waitlist_contact_attempts", { p_entry_id: entryId })
+      .then(({ data, error: queryError }) => {
+        if (cancelled) return;
+        if (queryError) {
+          console.warn("Contact attempts failed to load:", queryError);
+          setAttempts([]);
+          setStatus("error");
+          return;
+        }
+        setAttempts(data ?? []);
+        setStatus("idle");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return { attempts, status, reload };
+}
 
+/**
+ * Shared state for a group of staff actions: `run` performs one Supabase call,
+ * records its error in `error` and rethrows it
+ */
+function useStaffActionRunner(fallbackMessage: string) {
+  const [status, setStatus] = useState<SubmissionStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async <T,>(action: () => PromiseLike<{ data: T; error: { message: string } | null }>) => {
+    setStatus("submitting");
+    setError(null);
+
+    try {
+      const { data, error: rpcError } = await action();
+      if (rpcError) {
+        throw new Error(rpcError.message);
+      }
       setStatus("success");
-      return result.data;
+      return data;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Submission failed";
+      const errorMessage = err instanceof Error ? err.message : fallbackMessage;
       setError(errorMessage);
       setStatus("error");
       throw err;
     }
   };
 
-  return { submit, status, error };
+  return { run, status, error };
 }
 
-export function useTransferFormSubmission() {
-  const [status, setStatus] = useState<SubmissionStatus>("idle");
+/**
+ * Staff actions on a waitlist entry: status changes, contact attempts, notes
+ * and conversion into an RPM patient. Each action rethrows its error after
+ * recording it in `error`.
+ */
+export function useWaitlistActions() {
+  const { run, status, error } = useStaffActionRunner("Waitlist update failed");
+
+  const advance = (update: WaitlistStatusUpdate) =>
+    run(() => supabase.rpc("advance_waitlist_status", toWaitlistStatusUpdateArgs(update)));
+
+  const logContactAttempt = (attempt: WaitlistContactAttempt) =>
+    run(() => supabase.rpc("log_waitlist_contact_attempt", toWaitlistContactAttemptArgs(attempt)));
+
+  const saveNotes = (entryId: string, notes: string) =>
+    run(() => supabase.rpc("save_waitlist_notes", { p_entry_id: entryId, p_notes: notes }));
+
+  /** Resolves to the new rpm_patients id */
+  const convert = (conversion: WaitlistConversion) =>
+    run(() => supabase.rpc("convert_waitlist_entry", toWaitlistConversionArgs(conversion)));
+
+  return { advance, logContactAttempt, saveNotes, convert, status, error };
+}
+
+export type RpmReviewQueueEntry = Views<"rpm_review_queue">;
+
+/**
+ * Flagged RPM readings awaiting pharmacist review, oldest first. Loading the
+ * queue is recorded in the audit log.
+ */
+export function useRpmReviewQueue() {
+  const [readings, setReadings] = useState<RpmReviewQueueEntry[]>([]);
+  const [status, setStatus] = useState<"loading" | "idle" | "error">("loading");
   const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
-  const submit = async (data: TransferFormData) => {
-    setStatus("submitting");
+  useEffect(() => {
+    let cancelled = false;
+    setStatus("loading");
     setError(null);
-
-    try {
-      // Get BestRX credentials from environment (defined in vite.config.ts)
-      const username = process.env.BESTRX_USERNAME;
-      const password = process.env.BESTRX_PASSWORD;
-      const pharmacyNumber = process.env.BESTRX_PHARMACY_NUMBER;
-
-      if (!username || !password || !pharmacyNumber) {
-        throw new Error(
-          "Pharmacy service is not properly configured. Please contact support."
-        );
+    supabase.rpc("get_rpm_review_queue").then(({ data, error: queryError }) => {
+      if (cancelled) return;
+      if (queryError) {
+        setReadings([]);
+        setError(queryError.message);
+        setStatus("error");
+        return;
       }
+      setReadings(data ?? []);
+      setStatus("idle");
+    });
 
-      // Step 1: Build BestRX payload
-      const payload = buildTransferRequestPayload(data, pharmacyNumber);
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
 
-      // Step 2: Build Basic Auth header
-      const authHeader = buildBasicAuthHeader(username, password);
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
 
-      // Step 3: Submit to BestRX API
-      // IMPORTANT: In production, this should be called from a backend/Edge Function
-      // to keep API credentials secure. This frontend call is for development only.
-      const result = await submitTransferToBestRX(payload, authHeader);
+  return { readings, status, error, reload };
+}
 
-      if (!result.success) {
-        throw new Error(result.message);
-      }
+export type RpmDevice = Tables<"rpm_devices">;
+export type RpmReadingEntry = Tables<"rpm_readings">;
+export type RpmTimeEntryRecord = Tables<"rpm_time_entries">;
+export type RpmMonthlyMinutes = Views<"rpm_monthly_minutes">;
 
-      // Step 4: Persist to Supabase for audit trail
-      // This is a secondary operation; failure here doesn't prevent the transfer submission
-      try {
-        await supabase.rpc("submit_transfer_request", {
-          p_rx_number: data.rxNumber,
-          p_rx_fill_date: data.rxFillDate,
-          p_transfer_to_pharmacy_name: data.transferToPharmacyName,
-          p_transfer_to_pharmacy_address1: data.transferToPharmacyAddress1,
-          p_transfer_to_pharmacy_address2: data.transferToPharmacyAddress2 || "",
-          p_transfer_to_pharmacy_city: data.transferToPharmacyCity,
-          p_transfer_to_pharmacy_state: data.transferToPharmacyState,
-          p_transfer_to_pharmacy_zip: data.transferToPharmacyZip,
-          p_transfer_to_pharmacy_phone: data.transferToPharmacyPhone,
-          p_transfer_to_pharmacy_ncpdp: data.transferToPharmacyNCPDP || "",
-          p_transfer_rx_remark: data.transferRxRemark || "",
-          p_consent: data.consent,
-        });
-      } catch (supabaseError) {
-        console.warn("Failed to save transfer request to database:", supabaseError);
-        // Don't throw - BestRX submission succeeded, which is the primary goal
+/**
+ * An RPM patient's devices, recent readings, logged minutes and monthly
+ * totals (newest first). Loading the readings is recorded in the audit log.
+ */
+export function useRpmPatientMonitoring(patientId: string) {
+  const [devices, setDevices] = useState<RpmDevice[]>([]);
+  const [readings, setReadings] = useState<RpmReadingEntry[]>([]);
+  const [timeEntries, setTimeEntries] = useState<RpmTimeEntryRecord[]>([]);
+  const [months, setMonths] = useState<RpmMonthlyMinutes[]>([]);
+  const [status, setStatus] = useState<"loading" | "idle" | "error">("loading");
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus("loading");
+    supabase.rpc("get_rpm_patient_monitoring", { p_patient_id: patientId }).then(({ data, error: queryError }) => {
+      if (cancelled) return;
+      if (queryError) {
+        console.warn("RPM monitoring failed to load:", queryError);
+        setStatus("error");
+        return;
       }
+      const monitoring = data as unknown as {
+        devices: RpmDevice[];
+        readings: RpmReadingEntry[];
+        time_entries: RpmTimeEntryRecord[];
+        months: RpmMonthlyMinutes[];
+      };
+      setDevices(monitoring.devices);
+      setReadings(monitoring.readings);
+      setTimeEntries(monitoring.time_entries);
+      setMonths(monitoring.months);
+      setStatus("idle");
+    });
 
-      setStatus("success");
-      return result.data;
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Submission failed";
-      setError(errorMessage);
-      setStatus("error");
-      throw err;
-    }
-  };
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId, reloadKey]);
 
-  return { submit, status, error };
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return { devices, readings, timeEntries, months, status, reload };
 }
 
-export function useSplashModalFormSubmission() {
-  const [status, setStatus] = useState<SubmissionStatus>("idle");
-  const [error, setError] = useState<string | null>(null);
+export type RpmAlertThresholdsRow = Tables<"rpm_alert_thresholds">;
 
-  const submit = async (data: SplashModalFormData) => {
-    setStatus("submitting");
-    setError(null);
+/**
+ * Alert limits: the clinic default, and for a patient their override row
+ * (null when they use the default throughout)
+ */
+export function useRpmAlertThresholds(patientId: string | null) {
+  const [defaults, setDefaults] = useState<RpmAlertThresholdsRow | null>(null);
+  const [override, setOverride] = useState<RpmAlertThresholdsRow | null>(null);
+  const [status, setStatus] = useState<"loading" | "idle" | "error">("loading");
+  const [reloadKey, setReloadKey] = useState(0);
 
-    try {
-      const { data: id, error: rpcError } = await supabase.rpc(
-        "submit_splash_modal_signup",
-        {
-          p_email: data.email,
+  useEffect(() => {
+    let cancelled = false;
+    setStatus("loading");
+    supabase
+      .rpc("list_rpm_alert_thresholds", { p_patient_id: patientId ?? undefined })
+      .then(({ data, error: queryError }) => {
+        if (cancelled) return;
+        if (queryError) {
+          console.warn("Alert thresholds failed to load:", queryError);
+          setStatus("error");
+          return;
         }
-      );
+        const rows = data ?? [];
+        setDefaults(rows.find((row) => row.rpm_patient_id === null) ?? null);
+        setOverride(patientId ? rows.find((row) => row.rpm_patient_id === patientId) ?? null : null);
+        setStatus("idle");
+      });
 
-      if (rpcError) {
-        throw new Error(rpcError.message);
-      }
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId, reloadKey]);
 
-      setStatus("success");
-      return id;
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Submission failed";
-      setError(errorMessage);
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return { defaults, override, status, reload };
+}
+
+/**
+ * Staff actions for RPM: devices, alert thresholds, reading review and
+ * monitoring minutes. Each action rethrows its error after recording it in `error`.
+ */
+export function useRpmActions() {
+  const { run, status, error } = useStaffActionRunner("RPM update failed");
+
+  const registerDevice = (device: RpmDeviceRegistration) =>
+    run(() => supabase.rpc("register_rpm_device", toRpmDeviceRegistrationArgs(device)));
+
+  const setDeviceActive = (deviceId: string, active: boolean) =>
+    run(() => supabase.rpc("set_rpm_device_active", { p_device_id: deviceId, p_active: active }));
+
+  const saveThresholds = (limits: RpmAlertThresholds) =>
+    run(() => supabase.rpc("set_rpm_alert_thresholds", toRpmAlertThresholdsArgs(limits)));
+
+  const reviewReading = (review: RpmReadingReview) =>
+    run(() => supabase.rpc("review_rpm_reading", toRpmReadingReviewArgs(review)));
+
+  const logMinutes = (entry: RpmTimeEntry) =>
+    run(() => supabase.rpc("log_rpm_minutes", toRpmTimeEntryArgs(entry)));
+
+  return { registerDevice, setDeviceActive, saveThresholds, reviewReading, logMinutes, status, error };
+}
+
+export type MedSyncFillEntry = Tables<"med_sync_fills">;
+
+/**
+ * The batches sent (or that failed) for a Med Sync enrollment, newest first
+ */
+export function useMedSyncFills(enrollmentId: string) {
+  const [fills, setFills] = useState<MedSyncFillEntry[]>([]);
+  const [status, setStatus] = useState<"loading" | "idle" | "error">("loading");
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus("loading");
+    supabase
+      .rpc("list_med_sync_fills", { p_enrollment_id: enrollmentId })
+      .then(({ data, error: queryError }) => {
+        if (cancelled) return;
+        if (queryError) {
+          console.warn("Med Sync fills failed to load:", queryError);
+          setFills([]);
+          setStatus("error");
+          return;
+        }
+        setFills(data ?? []);
+        setStatus("idle");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enrollmentId, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return { fills, status, reload };
+}
+
+/**
+ * Staff action on a Med Sync enrollment: activating or cancelling it. Rethrows
+ * its error after recording it in `error`.
+ */
+export function useMedSyncActions() {
+  const { run, status, error } = useStaffActionRunner("Med Sync update failed");
+
+  const setEnrollmentStatus = (update: MedSyncStatusUpdate) =>
+    run(() => supabase.rpc("set_med_sync_status", toMedSyncStatusUpdateArgs(update)));
+
+  return { setEnrollmentStatus, status, error };
+}
+
+// Med Sync batches are sent by the med-sync-batch Edge Function (/api/med-sync-batch in development)
+const medSyncBatchUrl =
+  import.meta.env.VITE_MED_SYNC_BATCH_URL ||
+  (import.meta.env.DEV
+    ? "/api/med-sync-batch"
+    : `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/med-sync-batch`);
+
+/**
+ * Staff action: sends the Med Sync refills due on a date. `result` lists the
+ * outcome per enrollment, including when some of them failed.
+ */
+export function useMedSyncBatch() {
+  const [result, setResult] = useState<MedSyncBatchResult | null>(null);
+  const [status, setStatus] = useState<"idle" | "sending" | "error">("idle");
+
+  const send = useCallback(async (syncDate: string) => {
+    setStatus("sending");
+    setResult(null);
+    try {
+      const { data } = await supabase.auth.getSession();
+      const response = await fetch(medSyncBatchUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${data.session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+        },
+        body: JSON.stringify({ syncDate }),
+      });
+      const batch = (await response.json()) as MedSyncBatchResult;
+      setResult(batch);
+      setStatus(batch.success ? "idle" : "error");
+    } catch (error) {
+      console.error("Med Sync batch error:", error);
+      setResult({ success: false, message: "Unable to reach the Med Sync service." });
       setStatus("error");
-      throw err;
     }
-  };
+  }, []);
 
-  return { submit, status, error };
+  return { result, status, send };
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  /** Events verified before the first broken one */
+  checked: number;
+  /** Sequence number of the first event that fails verification */
+  broken_at: number | null;
+}
+
+/**
+ * Staff action: recomputes the audit log's hash chain
+ */
+export function useVerifyAuditChain() {
+  const [result, setResult] = useState<AuditChainVerification | null>(null);
+  const [status, setStatus] = useState<"idle" | "loading" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const verify = useCallback(async () => {
+    setStatus("loading");
+    setError(null);
+    const { data, error: rpcError } = await supabase.rpc("verify_audit_chain");
+    if (rpcError) {
+      setResult(null);
+      setError(rpcError.message);
+      setStatus("error");
+      return;
+    }
+    setResult(data as unknown as AuditChainVerification);
+    setStatus("idle");
+  }, []);
+
+  return { result, status, error, verify };
 }
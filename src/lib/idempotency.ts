@@ -0,0 +1,141 @@
+/**
+ * Idempotency keys
+ * Clients send a UUID per submission in the `Idempotency-Key` header. The
+ * BestRX proxy claims the key before calling BestRX and stores the result
+ * against it, so a repeat of the same submission gets the original result
+ * back instead of reaching BestRX twice. Runtime-agnostic (Deno and Node).
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Set on responses that replay a stored result
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+// A claim whose holder never completed or released it (e.g. a crashed
+// function) is handed to the next caller after this long
+export const IDEMPOTENCY_CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Longer than the offline outbox keeps requests (see outbox.ts), so a late
+// resend is still recognized
+export const IDEMPOTENCY_KEY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isIdempotencyKey(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * - claimed: the caller holds the key and must complete or release it
+ * - completed: a result is already stored for the key
+ * - in_progress: another request holds the key
+ * - mismatch: the key was used for a different request body
+ */
+export type IdempotencyClaim =
+  | { status: 'claimed' }
+  | { status: 'completed'; response: unknown }
+  | { status: 'in_progress' }
+  | { status: 'mismatch' };
+
+/**
+ * Where keys and their results are kept. `scope` separates key spaces,
+ * e.g. the proxy's `refill` and `transfer` routes.
+ */
+export interface IdempotencyStore {
+  claim(scope: string, key: string, requestHash: string): Promise<IdempotencyClaim>;
+  /** Stores the result for a claimed key */
+  complete(scope: string, key: string, response: unknown): Promise<void>;
+  /** Gives up a claimed key without a result, so the request can be tried again */
+  release(scope: string, key: string): Promise<void>;
+}
+
+/**
+ * SHA-256 of the request body, to tell a repeat from a different request
+ * reusing a key
+ */
+export async function hashRequestBody(body: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(body)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Keeps keys in memory, for the Vite dev server. Keys are lost on restart and
+ * not shared between processes.
+ */
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const entries = new Map<string, { requestHash: string; response?: unknown; claimedAt: number }>();
+  const entryId = (scope: string, key: string) => `${scope}:${key.toLowerCase()}`;
+
+  return {
+    async claim(scope, key, requestHash) {
+      const now = Date.now();
+      for (const [id, entry] of entries) {
+        if (now - entry.claimedAt > IDEMPOTENCY_KEY_RETENTION_MS) entries.delete(id);
+      }
+
+      const id = entryId(scope, key);
+      const entry = entries.get(id);
+      if (!entry) {
+        entries.set(id, { requestHash, claimedAt: now });
+        return { status: 'claimed' };
+      }
+      if (entry.requestHash !== requestHash) {
+        return { status: 'mismatch' };
+      }
+      if (entry.response !== undefined) {
+        return { status: 'completed', response: entry.response };
+      }
+      if (now - entry.claimedAt > IDEMPOTENCY_CLAIM_TIMEOUT_MS) {
+        entry.claimedAt = now;
+        return { status: 'claimed' };
+      }
+      return { status: 'in_progress' };
+    },
+    async complete(scope, key, response) {
+      const entry = entries.get(entryId(scope, key));
+      if (entry) entry.response = response;
+    },
+    async release(scope, key) {
+      const id = entryId(scope, key);
+      if (entries.get(id)?.response === undefined) entries.delete(id);
+    },
+  };
+}
+
+/**
+ * Keeps keys in the `bestrx_idempotency_keys` table through its RPCs
+ * (migration 011), which only the service role may call
+ */
+export function createSupabaseIdempotencyStore(supabaseUrl: string, serviceRoleKey: string): IdempotencyStore {
+  const rpc = async (name: string, args: Record<string, unknown>): Promise<unknown> => {
+    const response = await fetch(`${supabaseUrl}/rest/v1/rpc/${name}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey,
+      },
+      body: JSON.stringify(args),
+    });
+    if (!response.ok) {
+      throw new Error(`${name} failed with status ${response.status}: ${await response.text()}`);
+    }
+    return response.status === 204 ? null : response.json();
+  };
+
+  return {
+    async claim(scope, key, requestHash) {
+      return (await rpc('claim_bestrx_idempotency_key', {
+        p_route: scope,
+        p_key: key,
+        p_request_hash: requestHash,
+      })) as IdempotencyClaim;
+    },
+    async complete(scope, key, response) {
+      await rpc('complete_bestrx_idempotency_key', { p_route: scope, p_key: key, p_response: response });
+    },
+    async release(scope, key) {
+      await rpc('release_bestrx_idempotency_key', { p_route: scope, p_key: key });
+    },
+  };
+}
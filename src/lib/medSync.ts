@@ -0,0 +1,222 @@
+/**
+ * Med Sync scheduling
+ * Works out how an enrollment's medications are brought onto one refill day a
+ * month (short-filling any that would run out before it), and which fills
+ * make up the batch sent on a given sync date. Runtime-agnostic: the staff
+ * dashboard shows the plan and the med-sync-batch function (medSyncBatch.ts)
+ * sends the batches.
+ *
+ * Dates are calendar dates (YYYY-MM-DD) without a time zone.
+ */
+
+import { MedSyncMedicationListSchema, RefillFormDataSchema } from './schemas.ts';
+import type { MedSyncMedication, RefillFormData } from './schemas.ts';
+import { hashRequestBody } from './idempotency.ts';
+
+// Insurers generally pay for a refill up to a week before the last one runs
+// out, so a medication due within this many days after a sync date is
+// refilled on it instead of being short-filled up to the next one
+export const EARLY_REFILL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+export function addDays(date: string, days: number): string {
+  return toDate(toTime(date) + days * DAY_MS);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toTime(to) - toTime(from)) / DAY_MS);
+}
+
+/**
+ * The first date on or after `onOrAfter` that falls on the sync day (1–28)
+ */
+export function nextSyncDate(syncDay: number, onOrAfter: string): string {
+  const [year, month, day] = onOrAfter.split('-').map(Number);
+  return toDate(Date.UTC(year, day <= syncDay ? month - 1 : month, syncDay));
+}
+
+/** The columns of a med_sync_enrollments row the scheduler reads */
+export interface MedSyncEnrollment {
+  id: string;
+  first_name: string;
+  middle_name: string | null;
+  last_name: string;
+  suffix: string | null;
+  dob: string;
+  phone: string;
+  email: string | null;
+  medications: unknown;
+  supply_as_of: string;
+  sync_day: number;
+  preferred_service: RefillFormData['preferredService'];
+  consent: boolean;
+}
+
+export interface MedSyncShortFill {
+  /** When the current supply runs out */
+  runsOut: string;
+  days: number;
+  quantity: number;
+  /** The sync date whose batch includes it; null when it's due before the first batch */
+  sendOn: string | null;
+}
+
+export interface MedSyncPlanItem {
+  medication: MedSyncMedication;
+  /** The first sync date the medication is refilled on */
+  alignedDate: string;
+  /** Covers the days between running out and alignedDate */
+  shortFill: MedSyncShortFill | null;
+}
+
+export interface MedSyncPlan {
+  syncDay: number;
+  supplyAsOf: string;
+  items: MedSyncPlanItem[];
+  /** From this sync date on, every medication is refilled together */
+  syncedFrom: string;
+}
+
+/**
+ * Plans each medication's alignment from the supply the patient had on
+ * `supplyAsOf`. A medication whose supply runs out after the sync date (beyond
+ * the early refill window) gets a short fill of the days until the next one,
+ * its quantity prorated from the regular fill and rounded up.
+ */
+export function planMedSync(medications: MedSyncMedication[], syncDay: number, supplyAsOf: string): MedSyncPlan {
+  const items = medications.map((medication): MedSyncPlanItem => {
+    const runsOut = addDays(supplyAsOf, medication.daysOnHand);
+    const earliestRefill = addDays(runsOut, -EARLY_REFILL_DAYS);
+    const alignedDate = nextSyncDate(syncDay, earliestRefill > supplyAsOf ? earliestRefill : supplyAsOf);
+    if (alignedDate <= runsOut) {
+      return { medication, alignedDate, shortFill: null };
+    }
+
+    const days = daysBetween(runsOut, alignedDate);
+    // The sync date a month before alignedDate, when the short fill is sent
+    const previousSync = nextSyncDate(syncDay, addDays(alignedDate, -31));
+    return {
+      medication,
+      alignedDate,
+      shortFill: {
+        runsOut,
+        days,
+        quantity: Math.ceil((medication.quantity * days) / medication.daysSupply),
+        sendOn: previousSync >= supplyAsOf ? previousSync : null,
+      },
+    };
+  });
+
+  return {
+    syncDay,
+    supplyAsOf,
+    items,
+    syncedFrom: items.reduce((latest, item) => (item.alignedDate > latest ? item.alignedDate : latest), supplyAsOf),
+  };
+}
+
+export type MedSyncFillKind = 'sync' | 'short';
+
+/** One prescription in a sync date's batch, as stored in med_sync_fills.prescriptions */
+export interface MedSyncFill {
+  rxNumber: string;
+  medicationName?: string;
+  kind: MedSyncFillKind;
+  days: number;
+  quantity: number;
+}
+
+// Whether a medication aligned on item.alignedDate is due for its regular
+// fill on syncDate: each fill is repeated on the first sync date its supply
+// can be refilled on, so a 90-day supply is filled every third month
+function isRegularFillDate(item: MedSyncPlanItem, syncDay: number, syncDate: string): boolean {
+  const refillAfterDays = Math.max(1, item.medication.daysSupply - EARLY_REFILL_DAYS);
+  let fillDate = item.alignedDate;
+  while (fillDate < syncDate) {
+    fillDate = nextSyncDate(syncDay, addDays(fillDate, refillAfterDays));
+  }
+  return fillDate === syncDate;
+}
+
+/**
+ * The fills in the batch sent on `syncDate`: the regular fill of each
+ * medication due that day, and the short fills of any that will run out
+ * before the next sync date
+ */
+export function medSyncFillsFor(plan: MedSyncPlan, syncDate: string): MedSyncFill[] {
+  if (syncDate < plan.supplyAsOf || nextSyncDate(plan.syncDay, syncDate) !== syncDate) {
+    return [];
+  }
+
+  return plan.items.flatMap((item): MedSyncFill[] => {
+    const { medication, shortFill } = item;
+    const prescription = { rxNumber: medication.rxNumber, medicationName: medication.medicationName };
+    if (isRegularFillDate(item, plan.syncDay, syncDate)) {
+      return [{ ...prescription, kind: 'sync', days: medication.daysSupply, quantity: medication.quantity }];
+    }
+    if (shortFill?.sendOn === syncDate) {
+      return [{ ...prescription, kind: 'short', days: shortFill.days, quantity: shortFill.quantity }];
+    }
+    return [];
+  });
+}
+
+export function formatMedSyncFill(fill: MedSyncFill): string {
+  const name = fill.medicationName ? ` (${fill.medicationName})` : '';
+  const kind = fill.kind === 'short' ? 'short fill' : 'fill';
+  return `Rx ${fill.rxNumber}${name}: ${kind} of ${fill.days} days, qty ${fill.quantity}`;
+}
+
+/**
+ * Reads an enrollment's stored medications and plans them
+ */
+export function planMedSyncEnrollment(enrollment: MedSyncEnrollment): MedSyncPlan {
+  const medications = MedSyncMedicationListSchema.parse(enrollment.medications);
+  return planMedSync(medications, enrollment.sync_day, enrollment.supply_as_of);
+}
+
+/**
+ * The refill request for an enrollment's batch on `syncDate`, in the form the
+ * refill form submits (so it goes through buildRefillRequestPayload), or null
+ * when nothing is due. BestRX takes no quantities, so the days and quantity
+ * of each fill are listed in the notes for the pharmacist.
+ */
+export function buildMedSyncRefill(
+  enrollment: MedSyncEnrollment,
+  syncDate: string
+): { formData: RefillFormData; fills: MedSyncFill[] } | null {
+  const fills = medSyncFillsFor(planMedSyncEnrollment(enrollment), syncDate);
+  if (fills.length === 0) {
+    return null;
+  }
+
+  const formData = RefillFormDataSchema.parse({
+    firstName: enrollment.first_name,
+    middleName: enrollment.middle_name ?? undefined,
+    lastName: enrollment.last_name,
+    suffix: enrollment.suffix ?? undefined,
+    dob: enrollment.dob,
+    phone: enrollment.phone,
+    email: enrollment.email ?? undefined,
+    prescriptions: fills.map(({ rxNumber, medicationName }) => ({ rxNumber, medicationName })),
+    preferredService: enrollment.preferred_service,
+    notes: [`Med Sync batch for ${syncDate}.`, ...fills.map(formatMedSyncFill)].join('\n'),
+    consent: enrollment.consent,
+  });
+  return { formData, fills };
+}
+
+/**
+ * The request ID of an enrollment's batch for a sync date. It is derived from
+ * both, so sending the batch again reuses the idempotency key and BestRX gets
+ * it once. Formatted as a UUID (version 8: custom).
+ */
+export async function medSyncRequestId(enrollmentId: string, syncDate: string): Promise<string> {
+  const hash = await hashRequestBody({ enrollmentId: enrollmentId.toLowerCase(), syncDate });
+  const variant = (8 | (parseInt(hash[16], 16) & 3)).toString(16);
+  return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-8${hash.slice(13, 16)}-${variant}${hash.slice(17, 20)}-${hash.slice(20, 32)}`;
+}
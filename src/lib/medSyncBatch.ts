@@ -0,0 +1,321 @@
+/**
+ * Med Sync batch
+ * Runtime-agnostic request handler that sends the refills due on a sync date
+ * for every active Med Sync enrollment. Served as the med-sync-batch Supabase
+ * Edge Function (Deno) and by the Vite dev server (Node).
+ *
+ * Enrollments are read and fills recorded with the caller's JWT, so only
+ * staff can run a batch (018_med_sync.sql). Each enrollment's batch goes to
+ * BestRX as one refill request built by buildRefillRequestPayload, under an
+ * idempotency key derived from the enrollment and date: running the batch
+ * again sends only what didn't go through.
+ */
+
+import { MedSyncBatchRequestSchema } from './schemas.ts';
+import type { RefillFormData } from './schemas.ts';
+import { buildRefillRequestPayload, submitRefillToBestRX } from './bestrx.ts';
+import type { RefillSubmissionResult } from './bestrx.ts';
+import { loadBestRXProxyConfig } from './bestrxProxy.ts';
+import type { BestRXProxyConfig } from './bestrxProxy.ts';
+import { hashRequestBody } from './idempotency.ts';
+import { buildMedSyncRefill, medSyncRequestId } from './medSync.ts';
+import type { MedSyncEnrollment, MedSyncFill } from './medSync.ts';
+
+export interface MedSyncFillRecord {
+  enrollmentId: string;
+  syncDate: string;
+  requestId: string;
+  fills: MedSyncFill[];
+  notes: string;
+  sent: boolean;
+  message: string;
+}
+
+/** Where due enrollments are read and batch outcomes recorded, with the caller's JWT */
+export interface MedSyncBatchStore {
+  /** Active enrollments due on the date whose batch hasn't been sent */
+  dueEnrollments(syncDate: string, authorization: string): Promise<MedSyncEnrollment[]>;
+  recordFill(record: MedSyncFillRecord, authorization: string): Promise<void>;
+}
+
+export interface MedSyncBatchConfig {
+  bestrx: BestRXProxyConfig;
+  store: MedSyncBatchStore;
+}
+
+export interface MedSyncBatchEnrollmentResult {
+  enrollmentId: string;
+  patientName: string;
+  /** skipped: nothing is due for the enrollment on this date */
+  status: 'sent' | 'failed' | 'skipped';
+  message: string;
+  fills?: MedSyncFill[];
+}
+
+export interface MedSyncBatchResult {
+  success: boolean;
+  message: string;
+  results?: MedSyncBatchEnrollmentResult[];
+}
+
+/** A store error with the HTTP status to answer with, e.g. 403 for a caller who isn't staff */
+export class MedSyncBatchError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'MedSyncBatchError';
+    this.status = status;
+  }
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Postgres error codes raised by the Med Sync RPCs
+const STORE_ERROR_STATUSES: Record<string, number> = {
+  '42501': 403,
+  '22023': 422,
+};
+
+// Shares the BestRX proxy's refill key space: the request ID is the refill's idempotency key
+const IDEMPOTENCY_SCOPE = 'refill';
+
+/**
+ * Reads enrollments and records fills through the Med Sync RPCs
+ * (018_med_sync.sql) with the caller's JWT
+ */
+export function createPostgrestMedSyncStore(supabaseUrl: string, anonKey: string): MedSyncBatchStore {
+  const rpc = async (name: string, args: Record<string, unknown>, authorization: string): Promise<unknown> => {
+    const response = await fetch(`${supabaseUrl}/rest/v1/rpc/${name}`, {
+      method: 'POST',
+      headers: { apikey: anonKey, Authorization: authorization, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as { code?: string; message?: string };
+      const status = error.code ? STORE_ERROR_STATUSES[error.code] : undefined;
+      if (status) {
+        throw new MedSyncBatchError(error.message ?? 'Request rejected.', status);
+      }
+      throw new Error(`${name} failed with status ${response.status}: ${error.message ?? ''}`);
+    }
+    return response.json();
+  };
+
+  return {
+    async dueEnrollments(syncDate, authorization) {
+      return (await rpc('med_sync_batch_enrollments', { p_sync_date: syncDate }, authorization)) as MedSyncEnrollment[];
+    },
+    async recordFill(record, authorization) {
+      await rpc(
+        'record_med_sync_fill',
+        {
+          p_enrollment_id: record.enrollmentId,
+          p_sync_date: record.syncDate,
+          p_request_id: record.requestId,
+          p_prescriptions: record.fills,
+          p_notes: record.notes,
+          p_sent: record.sent,
+          p_message: record.message,
+        },
+        authorization
+      );
+    },
+  };
+}
+
+/**
+ * Reads batch configuration through the given environment accessor: the
+ * BestRX settings of loadBestRXProxyConfig, plus `SUPABASE_URL` and
+ * `SUPABASE_ANON_KEY`
+ */
+export function loadMedSyncBatchConfig(getEnv: (name: string) => string | undefined): MedSyncBatchConfig | null {
+  const bestrx = loadBestRXProxyConfig(getEnv);
+  const supabaseUrl = getEnv('SUPABASE_URL') || getEnv('VITE_SUPABASE_URL');
+  const anonKey = getEnv('SUPABASE_ANON_KEY') || getEnv('VITE_SUPABASE_ANON_KEY');
+
+  if (!bestrx || !supabaseUrl || !anonKey) {
+    return null;
+  }
+
+  return { bestrx, store: createPostgrestMedSyncStore(supabaseUrl, anonKey) };
+}
+
+function jsonResponse(body: MedSyncBatchResult, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Sends the refill to BestRX at most once per request ID. A repeat gets the
+ * stored result; after a failure the key is released so the next run retries.
+ */
+async function sendRefillOnce(
+  config: BestRXProxyConfig,
+  requestId: string,
+  formData: RefillFormData
+): Promise<RefillSubmissionResult> {
+  const claim = await config.idempotency.claim(IDEMPOTENCY_SCOPE, requestId, await hashRequestBody(formData));
+  switch (claim.status) {
+    case 'completed':
+      return claim.response as RefillSubmissionResult;
+    case 'in_progress':
+      return { success: false, message: 'This batch is already being sent.' };
+    case 'mismatch':
+      return { success: false, message: 'A different batch was already sent for this date.' };
+  }
+
+  let result: RefillSubmissionResult;
+  try {
+    result = await submitRefillToBestRX(
+      buildRefillRequestPayload(formData, config.pharmacyNumber, config.apiKey, config.username),
+      config.transport
+    );
+  } catch (error) {
+    await config.idempotency.release(IDEMPOTENCY_SCOPE, requestId).catch(() => undefined);
+    throw error;
+  }
+
+  try {
+    if (result.success) {
+      await config.idempotency.complete(IDEMPOTENCY_SCOPE, requestId, result);
+    } else {
+      await config.idempotency.release(IDEMPOTENCY_SCOPE, requestId);
+    }
+  } catch (error) {
+    // BestRX already has the request; the claim expires on its own
+    console.error('Unable to record the idempotency key result:', error);
+  }
+  return result;
+}
+
+async function sendEnrollmentBatch(
+  enrollment: MedSyncEnrollment,
+  syncDate: string,
+  authorization: string,
+  config: MedSyncBatchConfig
+): Promise<MedSyncBatchEnrollmentResult> {
+  const base = { enrollmentId: enrollment.id, patientName: `${enrollment.first_name} ${enrollment.last_name}` };
+
+  let refill: ReturnType<typeof buildMedSyncRefill>;
+  try {
+    refill = buildMedSyncRefill(enrollment, syncDate);
+  } catch (error) {
+    console.error(`Med Sync enrollment ${enrollment.id} could not be planned:`, error);
+    return { ...base, status: 'failed', message: 'The enrollment has invalid medication details.' };
+  }
+  if (!refill) {
+    return { ...base, status: 'skipped', message: 'Nothing is due on this date.' };
+  }
+
+  const requestId = await medSyncRequestId(enrollment.id, syncDate);
+  let sent: RefillSubmissionResult;
+  try {
+    sent = await sendRefillOnce(config.bestrx, requestId, refill.formData);
+  } catch (error) {
+    console.error(`Med Sync batch for enrollment ${enrollment.id} failed:`, error);
+    sent = { success: false, message: 'Pharmacy service is temporarily unavailable.' };
+  }
+
+  try {
+    await config.store.recordFill(
+      {
+        enrollmentId: enrollment.id,
+        syncDate,
+        requestId,
+        fills: refill.fills,
+        notes: refill.formData.notes ?? '',
+        sent: sent.success,
+        message: sent.message,
+      },
+      authorization
+    );
+  } catch (error) {
+    console.error(`Unable to record the Med Sync batch for enrollment ${enrollment.id}:`, error);
+    if (sent.success) {
+      return {
+        ...base,
+        status: 'failed',
+        message: 'Sent to BestRX but not recorded. Run the batch again to record it; it will not be sent twice.',
+        fills: refill.fills,
+      };
+    }
+  }
+
+  return { ...base, status: sent.success ? 'sent' : 'failed', message: sent.message, fills: refill.fills };
+}
+
+/**
+ * Creates the batch handler: `POST { syncDate }` with the staff member's
+ * `Authorization: Bearer <jwt>` header sends each due enrollment's refills,
+ * one enrollment at a time, and answers with the outcome for each
+ */
+export function createMedSyncBatchHandler(config: MedSyncBatchConfig | null): (request: Request) => Promise<Response> {
+  return async (request: Request) => {
+    if (request.method === 'OPTIONS') {
+      return new Response('ok', { headers: CORS_HEADERS });
+    }
+
+    if (request.method !== 'POST') {
+      return jsonResponse({ success: false, message: 'Method not allowed.' }, 405);
+    }
+
+    if (!config) {
+      console.error('Med Sync batch is missing its BESTRX_* or Supabase configuration');
+      return jsonResponse({ success: false, message: 'Med Sync batches are not configured.' }, 500);
+    }
+
+    const authorization = request.headers.get('Authorization');
+    if (!authorization) {
+      return jsonResponse({ success: false, message: 'Sign in required.' }, 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ success: false, message: 'Request body must be JSON.' }, 400);
+    }
+
+    const parsed = MedSyncBatchRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return jsonResponse({ success: false, message: 'Invalid Med Sync batch request.' }, 400);
+    }
+    const { syncDate } = parsed.data;
+
+    let enrollments: MedSyncEnrollment[];
+    try {
+      enrollments = await config.store.dueEnrollments(syncDate, authorization);
+    } catch (error) {
+      if (error instanceof MedSyncBatchError) {
+        return jsonResponse({ success: false, message: error.message }, error.status);
+      }
+      console.error('Med Sync enrollment lookup failed:', error);
+      return jsonResponse({ success: false, message: 'Unable to load Med Sync enrollments.' }, 502);
+    }
+
+    const results: MedSyncBatchEnrollmentResult[] = [];
+    for (const enrollment of enrollments) {
+      results.push(await sendEnrollmentBatch(enrollment, syncDate, authorization, config));
+    }
+
+    const sentCount = results.filter((result) => result.status === 'sent').length;
+    const failedCount = results.filter((result) => result.status === 'failed').length;
+    return jsonResponse(
+      {
+        success: failedCount === 0,
+        message: sentCount + failedCount === 0
+          ? 'No Med Sync refills are due on this date.'
+          : `Sent ${sentCount} of ${sentCount + failedCount} Med Sync batch${sentCount + failedCount === 1 ? '' : 'es'}.`,
+        results,
+      },
+      failedCount === 0 ? 200 : 502
+    );
+  };
+}
@@ -1,7 +1,21 @@
--- Create enum types
-CREATE TYPE contact_reason AS ENUM ('general', 'new', 'transfer', 'refill', 'rpm');
-CREATE TYPE waitlist_status AS ENUM ('active', 'contacted', 'enrolled');
-CREATE TYPE service_preference AS ENUM ('pickup', 'delivery');
+-- Create enum types (skipped when they already exist)
+DO $$
+BEGIN
+  CREATE TYPE contact_reason AS ENUM ('general', 'new', 'transfer', 'refill', 'rpm');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE TYPE waitlist_status AS ENUM ('active', 'contacted', 'enrolled');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE TYPE service_preference AS ENUM ('pickup', 'delivery');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
 
 -- ============================================
 -- Contact Messages Table
@@ -18,8 +32,8 @@ CREATE TABLE IF NOT EXISTS contact_messages (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
-CREATE INDEX idx_contact_messages_email ON contact_messages(email);
-CREATE INDEX idx_contact_messages_created_at ON contact_messages(created_at);
+CREATE INDEX IF NOT EXISTS idx_contact_messages_email ON contact_messages(email);
+CREATE INDEX IF NOT EXISTS idx_contact_messages_created_at ON contact_messages(created_at);
 
 -- ============================================
 -- Waitlist Entries Table
@@ -35,9 +49,9 @@ CREATE TABLE IF NOT EXISTS waitlist_entries (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
-CREATE INDEX idx_waitlist_entries_email ON waitlist_entries(email);
-CREATE INDEX idx_waitlist_entries_status ON waitlist_entries(status);
-CREATE INDEX idx_waitlist_entries_timestamp ON waitlist_entries(timestamp);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_email ON waitlist_entries(email);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_status ON waitlist_entries(status);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_timestamp ON waitlist_entries(timestamp);
 
 -- ============================================
 -- Refill Requests Table
@@ -57,9 +71,9 @@ CREATE TABLE IF NOT EXISTS refill_requests (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
-CREATE INDEX idx_refill_requests_email ON refill_requests(email);
-CREATE INDEX idx_refill_requests_patient_name ON refill_requests(patient_name);
-CREATE INDEX idx_refill_requests_created_at ON refill_requests(created_at);
+CREATE INDEX IF NOT EXISTS idx_refill_requests_email ON refill_requests(email);
+CREATE INDEX IF NOT EXISTS idx_refill_requests_patient_name ON refill_requests(patient_name);
+CREATE INDEX IF NOT EXISTS idx_refill_requests_created_at ON refill_requests(created_at);
 
 -- ============================================
 -- Transfer Requests Table
@@ -84,8 +98,8 @@ CREATE TABLE IF NOT EXISTS transfer_requests (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
-CREATE INDEX idx_transfer_requests_rx_number ON transfer_requests(rx_number);
-CREATE INDEX idx_transfer_requests_created_at ON transfer_requests(created_at);
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_rx_number ON transfer_requests(rx_number);
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_created_at ON transfer_requests(created_at);
 
 -- ============================================
 -- Splash Modal Submissions Table
@@ -97,8 +111,8 @@ CREATE TABLE IF NOT EXISTS splash_modal_submissions (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
-CREATE INDEX idx_splash_modal_submissions_email ON splash_modal_submissions(email);
-CREATE INDEX idx_splash_modal_submissions_created_at ON splash_modal_submissions(created_at);
+CREATE INDEX IF NOT EXISTS idx_splash_modal_submissions_email ON splash_modal_submissions(email);
+CREATE INDEX IF NOT EXISTS idx_splash_modal_submissions_created_at ON splash_modal_submissions(created_at);
 
 -- ============================================
 -- Enable RLS (Row Level Security)
@@ -0,0 +1,23 @@
+-- ============================================
+-- Roll back 002_refill_prescriptions.sql
+-- ============================================
+-- The legacy comma-separated columns were kept, but refills submitted after
+-- 002 only have the prescriptions array, so their legacy columns are filled
+-- from it before it is dropped.
+UPDATE refill_requests
+SET prescription_numbers = (
+      SELECT string_agg(item->>'rxNumber', ', ')
+      FROM jsonb_array_elements(prescriptions) AS item
+    ),
+    medication_names = (
+      SELECT string_agg(COALESCE(item->>'medicationName', ''), ', ')
+      FROM jsonb_array_elements(prescriptions) AS item
+    )
+WHERE prescription_numbers IS NULL OR medication_names IS NULL;
+
+ALTER TABLE refill_requests ALTER COLUMN prescription_numbers SET NOT NULL;
+ALTER TABLE refill_requests ALTER COLUMN medication_names SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_refill_requests_prescriptions;
+ALTER TABLE refill_requests DROP CONSTRAINT IF EXISTS refill_requests_prescriptions_is_array;
+ALTER TABLE refill_requests DROP COLUMN IF EXISTS prescriptions;
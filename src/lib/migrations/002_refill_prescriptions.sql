@@ -0,0 +1,54 @@
+-- ============================================
+-- Structured prescriptions on refill requests
+-- ============================================
+-- Each refill request stores its prescriptions as a JSONB array of
+-- { "rxNumber": string, "medicationName": string } rows, replacing the
+-- comma-separated prescription_numbers / medication_names columns.
+
+ALTER TABLE refill_requests
+  ADD COLUMN IF NOT EXISTS prescriptions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE refill_requests
+  ADD CONSTRAINT refill_requests_prescriptions_is_array
+  CHECK (jsonb_typeof(prescriptions) = 'array');
+
+-- ============================================
+-- Migrate existing comma-separated data
+-- ============================================
+-- Mirrors the old client-side parsing: split on commas or new lines, trim,
+-- drop empty entries, then pair Rx numbers with medications by position.
+WITH rx AS (
+  SELECT r.id, trim(t.value) AS value,
+         row_number() OVER (PARTITION BY r.id ORDER BY t.ordinality) AS position
+  FROM refill_requests r,
+       regexp_split_to_table(r.prescription_numbers, '[,\n]') WITH ORDINALITY AS t(value, ordinality)
+  WHERE trim(t.value) <> ''
+),
+med AS (
+  SELECT r.id, trim(t.value) AS value,
+         row_number() OVER (PARTITION BY r.id ORDER BY t.ordinality) AS position
+  FROM refill_requests r,
+       regexp_split_to_table(COALESCE(r.medication_names, ''), '[,\n]') WITH ORDINALITY AS t(value, ordinality)
+  WHERE trim(t.value) <> ''
+),
+items AS (
+  SELECT rx.id,
+         jsonb_agg(
+           jsonb_build_object('rxNumber', rx.value, 'medicationName', COALESCE(med.value, ''))
+           ORDER BY rx.position
+         ) AS prescriptions
+  FROM rx
+  LEFT JOIN med ON med.id = rx.id AND med.position = rx.position
+  GROUP BY rx.id
+)
+UPDATE refill_requests r
+SET prescriptions = items.prescriptions
+FROM items
+WHERE items.id = r.id
+  AND r.prescriptions = '[]'::jsonb;
+
+-- Legacy columns are kept for reference but no longer written
+ALTER TABLE refill_requests ALTER COLUMN prescription_numbers DROP NOT NULL;
+ALTER TABLE refill_requests ALTER COLUMN medication_names DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_refill_requests_prescriptions ON refill_requests USING GIN (prescriptions);
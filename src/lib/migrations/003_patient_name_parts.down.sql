@@ -0,0 +1,13 @@
+-- ============================================
+-- Roll back 003_patient_name_parts.sql
+-- ============================================
+-- patient_name still holds the formatted full name, so nothing is lost.
+DROP INDEX IF EXISTS idx_refill_requests_last_name_dob;
+
+ALTER TABLE refill_requests
+  DROP COLUMN IF EXISTS first_name,
+  DROP COLUMN IF EXISTS middle_name,
+  DROP COLUMN IF EXISTS last_name,
+  DROP COLUMN IF EXISTS suffix;
+
+DROP FUNCTION IF EXISTS parse_patient_name(TEXT);
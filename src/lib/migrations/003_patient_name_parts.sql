@@ -0,0 +1,82 @@
+-- ============================================
+-- Structured patient names on refill requests
+-- ============================================
+-- New submissions store first/middle/last name and suffix separately.
+-- patient_name stays populated with the formatted full name so existing
+-- readers keep working; legacy rows are backfilled from it below.
+-- parse_patient_name takes the last word as the last name (no name-particle
+-- handling) and recognizes the suffixes Jr., Sr., II, III and IV.
+
+ALTER TABLE refill_requests
+  ADD COLUMN IF NOT EXISTS first_name VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS middle_name VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS last_name VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS suffix VARCHAR(10);
+
+-- ============================================
+-- Legacy patient_name parsing
+-- ============================================
+CREATE OR REPLACE FUNCTION parse_patient_name(full_name TEXT)
+RETURNS TABLE (first_name TEXT, middle_name TEXT, last_name TEXT, suffix TEXT)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  cleaned TEXT := regexp_replace(regexp_replace(trim(full_name), '\s+', ' ', 'g'), '\s*-\s*', '-', 'g');
+  family TEXT;
+  given TEXT;
+  tokens TEXT[];
+  token_count INT;
+  canonical_suffix TEXT;
+BEGIN
+  -- Trailing suffix: "John Smith Jr.", "John Smith, Jr.", "Smith, John III"
+  canonical_suffix := CASE lower(regexp_replace(substring(cleaned FROM '[ ,]([^ ,]+)$'), '[.,]', '', 'g'))
+    WHEN 'jr' THEN 'Jr.' WHEN 'junior' THEN 'Jr.'
+    WHEN 'sr' THEN 'Sr.' WHEN 'senior' THEN 'Sr.'
+    WHEN 'ii' THEN 'II' WHEN 'iii' THEN 'III' WHEN 'iv' THEN 'IV'
+    ELSE NULL
+  END;
+  IF canonical_suffix IS NOT NULL THEN
+    cleaned := regexp_replace(cleaned, ',?\s*[^ ,]+$', '');
+  END IF;
+
+  -- "Last, First Middle"
+  IF position(',' IN cleaned) > 0 THEN
+    family := trim(split_part(cleaned, ',', 1));
+    given := trim(substring(cleaned FROM position(',' IN cleaned) + 1));
+    tokens := string_to_array(given, ' ');
+    RETURN QUERY SELECT
+      tokens[1],
+      NULLIF(array_to_string(tokens[2:], ' '), ''),
+      family,
+      canonical_suffix;
+    RETURN;
+  END IF;
+
+  tokens := string_to_array(cleaned, ' ');
+  token_count := COALESCE(array_length(tokens, 1), 0);
+
+  IF token_count <= 1 THEN
+    RETURN QUERY SELECT NULL::TEXT, NULL::TEXT, NULLIF(cleaned, ''), canonical_suffix;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT
+    tokens[1],
+    NULLIF(array_to_string(tokens[2:token_count - 1], ' '), ''),
+    tokens[token_count],
+    canonical_suffix;
+END;
+$$;
+
+UPDATE refill_requests r
+SET first_name = p.first_name,
+    middle_name = p.middle_name,
+    last_name = p.last_name,
+    suffix = p.suffix
+FROM refill_requests src
+CROSS JOIN LATERAL parse_patient_name(src.patient_name) AS p
+WHERE src.id = r.id
+  AND r.last_name IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_refill_requests_last_name_dob ON refill_requests(last_name, dob);
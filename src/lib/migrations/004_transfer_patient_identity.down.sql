@@ -0,0 +1,18 @@
+-- ============================================
+-- Roll back 004_transfer_patient_identity.sql
+-- ============================================
+DROP FUNCTION IF EXISTS submit_transfer_request(
+  TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, TEXT, DATE,
+  TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN
+);
+
+DROP INDEX IF EXISTS idx_transfer_requests_patient_last_name_dob;
+
+ALTER TABLE transfer_requests
+  DROP COLUMN IF EXISTS patient_first_name,
+  DROP COLUMN IF EXISTS patient_middle_name,
+  DROP COLUMN IF EXISTS patient_last_name,
+  DROP COLUMN IF EXISTS patient_suffix,
+  DROP COLUMN IF EXISTS patient_dob,
+  DROP COLUMN IF EXISTS patient_phone,
+  DROP COLUMN IF EXISTS patient_email;
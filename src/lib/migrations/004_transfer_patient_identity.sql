@@ -0,0 +1,76 @@
+-- ============================================
+-- Patient identity on transfer requests
+-- ============================================
+-- Lets staff verify who requested a transfer and gives BestRX the patient
+-- details its ERROR0080 / ERROR0003 checks match against.
+-- Columns are nullable so rows submitted before this migration remain valid.
+
+ALTER TABLE transfer_requests
+  ADD COLUMN IF NOT EXISTS patient_first_name VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS patient_middle_name VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS patient_last_name VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS patient_suffix VARCHAR(10),
+  ADD COLUMN IF NOT EXISTS patient_dob DATE,
+  ADD COLUMN IF NOT EXISTS patient_phone VARCHAR(30),
+  ADD COLUMN IF NOT EXISTS patient_email VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_patient_last_name_dob
+  ON transfer_requests(patient_last_name, patient_dob);
+
+-- ============================================
+-- submit_transfer_request RPC
+-- ============================================
+-- Called by useTransferFormSubmission after BestRX accepts the transfer.
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_patient_dob DATE,
+  p_patient_phone TEXT,
+  p_patient_email TEXT,
+  p_rx_number TEXT,
+  p_rx_fill_date DATE,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  INSERT INTO transfer_requests (
+    patient_first_name, patient_middle_name, patient_last_name, patient_suffix,
+    patient_dob, patient_phone, patient_email,
+    rx_number, rx_fill_date,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncdp,
+    transfer_rx_remark, consent
+  ) VALUES (
+    p_patient_first_name, NULLIF(p_patient_middle_name, ''), p_patient_last_name, NULLIF(p_patient_suffix, ''),
+    p_patient_dob, p_patient_phone, NULLIF(p_patient_email, ''),
+    p_rx_number, p_rx_fill_date,
+    p_transfer_to_pharmacy_name, p_transfer_to_pharmacy_address1, NULLIF(p_transfer_to_pharmacy_address2, ''),
+    p_transfer_to_pharmacy_city, p_transfer_to_pharmacy_state, p_transfer_to_pharmacy_zip,
+    p_transfer_to_pharmacy_phone, NULLIF(p_transfer_to_pharmacy_ncpdp, ''),
+    NULLIF(p_transfer_rx_remark, ''), p_consent
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_transfer_request TO anon, authenticated;
@@ -0,0 +1,8 @@
+-- ============================================
+-- Roll back 005_pharmacy_directory.sql
+-- ============================================
+DROP FUNCTION IF EXISTS search_pharmacies(TEXT, INT);
+
+ALTER TABLE transfer_requests DROP CONSTRAINT IF EXISTS transfer_requests_ncdp_format;
+
+DROP TABLE IF EXISTS pharmacy_directory;
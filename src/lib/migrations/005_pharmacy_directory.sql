@@ -0,0 +1,73 @@
+-- ============================================
+-- Pharmacy Directory Table
+-- ============================================
+-- Destination pharmacies for transfer requests, loaded from a CSV/JSON
+-- dataset with src/lib/migrations/importPharmacyDirectory.ts.
+CREATE TABLE IF NOT EXISTS pharmacy_directory (
+  ncpdp_id VARCHAR(7) PRIMARY KEY CHECK (ncpdp_id ~ '^[0-9]{7}$'),
+  name VARCHAR(255) NOT NULL,
+  address1 VARCHAR(255) NOT NULL,
+  address2 VARCHAR(255),
+  city VARCHAR(100) NOT NULL,
+  state VARCHAR(2) NOT NULL,
+  zip VARCHAR(10) NOT NULL,
+  phone VARCHAR(30) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_pharmacy_directory_name ON pharmacy_directory(lower(name) text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_pharmacy_directory_city ON pharmacy_directory(lower(city) text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_pharmacy_directory_zip ON pharmacy_directory(zip text_pattern_ops);
+
+ALTER TABLE pharmacy_directory ENABLE ROW LEVEL SECURITY;
+
+-- Directory data is public business information
+CREATE POLICY "Enable read for all users" ON pharmacy_directory FOR SELECT USING (true);
+
+-- Transfer requests must reference a well-formed NCPDP ID when one is given
+ALTER TABLE transfer_requests
+  ADD CONSTRAINT transfer_requests_ncdp_format
+  CHECK (transfer_to_pharmacy_ncdp IS NULL OR transfer_to_pharmacy_ncdp ~ '^[0-9]{7}$')
+  NOT VALID;
+
+-- ============================================
+-- search_pharmacies RPC
+-- ============================================
+-- Typeahead search by name, city, ZIP, or NCPDP ID.
+-- Numeric queries match NCPDP ID / ZIP prefixes; text queries match name or city.
+CREATE OR REPLACE FUNCTION search_pharmacies(p_query TEXT, p_limit INT DEFAULT 10)
+RETURNS SETOF pharmacy_directory
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q TEXT := lower(trim(COALESCE(p_query, '')));
+  pattern TEXT;
+BEGIN
+  IF length(q) < 2 THEN
+    RETURN;
+  END IF;
+
+  -- Escape LIKE wildcards in user input
+  pattern := replace(replace(replace(q, '\', '\\'), '%', '\%'), '_', '\_');
+
+  IF q ~ '^[0-9]+$' THEN
+    RETURN QUERY
+      SELECT * FROM pharmacy_directory d
+      WHERE d.ncpdp_id LIKE pattern || '%' OR d.zip LIKE pattern || '%'
+      ORDER BY (d.ncpdp_id = q) DESC, d.name
+      LIMIT LEAST(GREATEST(p_limit, 1), 25);
+  ELSE
+    RETURN QUERY
+      SELECT * FROM pharmacy_directory d
+      WHERE lower(d.name) LIKE '%' || pattern || '%' OR lower(d.city) LIKE pattern || '%'
+      ORDER BY (lower(d.name) LIKE pattern || '%') DESC, d.name
+      LIMIT LEAST(GREATEST(p_limit, 1), 25);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_pharmacies TO anon, authenticated;
@@ -0,0 +1,7 @@
+-- ============================================
+-- Roll back 006_inbound_transfer_requests.sql
+-- ============================================
+DROP FUNCTION IF EXISTS submit_inbound_transfer_request;
+DROP VIEW IF EXISTS inbound_transfer_queue;
+DROP TABLE IF EXISTS inbound_transfer_requests;
+DROP TYPE IF EXISTS inbound_transfer_status;
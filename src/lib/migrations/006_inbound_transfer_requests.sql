@@ -0,0 +1,108 @@
+-- ============================================
+-- Inbound Transfer Requests Table
+-- ============================================
+-- Patients moving prescriptions from another pharmacy to Elevated WellnessRX.
+-- Staff work these from the inbound_transfer_queue view by contacting the
+-- current pharmacy and prescriber.
+CREATE TYPE inbound_transfer_status AS ENUM ('pending', 'in_progress', 'completed', 'cancelled');
+
+CREATE TABLE IF NOT EXISTS inbound_transfer_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  first_name VARCHAR(100) NOT NULL,
+  middle_name VARCHAR(100),
+  last_name VARCHAR(100) NOT NULL,
+  suffix VARCHAR(10),
+  dob DATE NOT NULL,
+  phone VARCHAR(30) NOT NULL,
+  email VARCHAR(255),
+
+  current_pharmacy_name VARCHAR(255) NOT NULL,
+  current_pharmacy_phone VARCHAR(30) NOT NULL,
+  current_pharmacy_city VARCHAR(100),
+  current_pharmacy_state VARCHAR(2),
+  current_pharmacy_ncpdp VARCHAR(7) CHECK (current_pharmacy_ncpdp IS NULL OR current_pharmacy_ncpdp ~ '^[0-9]{7}$'),
+
+  -- JSONB array of { "medicationName": string, "rxNumber": string }
+  prescriptions JSONB NOT NULL CHECK (jsonb_typeof(prescriptions) = 'array'),
+
+  prescriber_name VARCHAR(255) NOT NULL,
+  prescriber_phone VARCHAR(30),
+
+  preferred_service service_preference NOT NULL,
+  notes TEXT,
+  consent BOOLEAN NOT NULL,
+
+  status inbound_transfer_status NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_inbound_transfer_requests_status ON inbound_transfer_requests(status);
+CREATE INDEX idx_inbound_transfer_requests_created_at ON inbound_transfer_requests(created_at);
+CREATE INDEX idx_inbound_transfer_requests_last_name_dob ON inbound_transfer_requests(last_name, dob);
+
+ALTER TABLE inbound_transfer_requests ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- Staff queue
+-- ============================================
+-- Open requests, oldest first
+CREATE OR REPLACE VIEW inbound_transfer_queue
+WITH (security_invoker = true) AS
+SELECT *
+FROM inbound_transfer_requests
+WHERE status IN ('pending', 'in_progress')
+ORDER BY created_at;
+
+-- ============================================
+-- submit_inbound_transfer_request RPC
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_inbound_transfer_request(
+  p_first_name TEXT,
+  p_middle_name TEXT,
+  p_last_name TEXT,
+  p_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_current_pharmacy_name TEXT,
+  p_current_pharmacy_phone TEXT,
+  p_current_pharmacy_city TEXT,
+  p_current_pharmacy_state TEXT,
+  p_current_pharmacy_ncpdp TEXT,
+  p_prescriptions JSONB,
+  p_prescriber_name TEXT,
+  p_prescriber_phone TEXT,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  INSERT INTO inbound_transfer_requests (
+    first_name, middle_name, last_name, suffix, dob, phone, email,
+    current_pharmacy_name, current_pharmacy_phone, current_pharmacy_city,
+    current_pharmacy_state, current_pharmacy_ncpdp,
+    prescriptions, prescriber_name, prescriber_phone,
+    preferred_service, notes, consent
+  ) VALUES (
+    p_first_name, NULLIF(p_middle_name, ''), p_last_name, NULLIF(p_suffix, ''), p_dob, p_phone, NULLIF(p_email, ''),
+    p_current_pharmacy_name, p_current_pharmacy_phone, NULLIF(p_current_pharmacy_city, ''),
+    NULLIF(upper(p_current_pharmacy_state), ''), NULLIF(p_current_pharmacy_ncpdp, ''),
+    p_prescriptions, p_prescriber_name, NULLIF(p_prescriber_phone, ''),
+    p_preferred_service, NULLIF(p_notes, ''), p_consent
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_inbound_transfer_request TO anon, authenticated;
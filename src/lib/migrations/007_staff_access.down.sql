@@ -0,0 +1,22 @@
+-- ============================================
+-- Roll back 007_staff_access.sql
+-- ============================================
+-- Restores the permissive read/update policies from 001_init_schema.sql,
+-- which expose every submission to the anon key again.
+DROP POLICY IF EXISTS "Staff read" ON contact_messages;
+DROP POLICY IF EXISTS "Staff read" ON waitlist_entries;
+DROP POLICY IF EXISTS "Staff update" ON waitlist_entries;
+DROP POLICY IF EXISTS "Staff read" ON refill_requests;
+DROP POLICY IF EXISTS "Staff read" ON transfer_requests;
+DROP POLICY IF EXISTS "Staff read" ON splash_modal_submissions;
+DROP POLICY IF EXISTS "Staff read" ON inbound_transfer_requests;
+
+CREATE POLICY "Enable read for all users" ON contact_messages FOR SELECT USING (true);
+CREATE POLICY "Enable read for all users" ON waitlist_entries FOR SELECT USING (true);
+CREATE POLICY "Enable update for all users" ON waitlist_entries FOR UPDATE USING (true);
+CREATE POLICY "Enable read for all users" ON refill_requests FOR SELECT USING (true);
+CREATE POLICY "Enable read for all users" ON transfer_requests FOR SELECT USING (true);
+CREATE POLICY "Enable read for all users" ON splash_modal_submissions FOR SELECT USING (true);
+
+DROP FUNCTION IF EXISTS is_staff();
+DROP TABLE IF EXISTS staff_users;
@@ -0,0 +1,57 @@
+-- ============================================
+-- Staff Access
+-- ============================================
+-- Staff sign in to the /admin dashboard with Supabase Auth. A signed-in user
+-- is staff only when their auth user id is listed in staff_users; rows are
+-- added from the Supabase SQL editor, e.g.
+--   INSERT INTO staff_users (user_id, email)
+--   SELECT id, email FROM auth.users WHERE email = 'pharmacist@example.com';
+CREATE TABLE IF NOT EXISTS staff_users (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  display_name VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE staff_users ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- is_staff()
+-- ============================================
+-- SECURITY DEFINER so policies can call it without granting reads on staff_users.
+CREATE OR REPLACE FUNCTION is_staff()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM staff_users WHERE user_id = auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION is_staff TO anon, authenticated;
+
+-- Staff can see their own membership row
+CREATE POLICY "Staff read own membership" ON staff_users
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- ============================================
+-- Staff-only read policies
+-- ============================================
+-- Replaces the permissive policies from 001_init_schema.sql. Public forms
+-- keep inserting through their RPCs and insert policies.
+DROP POLICY IF EXISTS "Enable read for all users" ON contact_messages;
+DROP POLICY IF EXISTS "Enable read for all users" ON waitlist_entries;
+DROP POLICY IF EXISTS "Enable update for all users" ON waitlist_entries;
+DROP POLICY IF EXISTS "Enable read for all users" ON refill_requests;
+DROP POLICY IF EXISTS "Enable read for all users" ON transfer_requests;
+DROP POLICY IF EXISTS "Enable read for all users" ON splash_modal_submissions;
+
+CREATE POLICY "Staff read" ON contact_messages FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON waitlist_entries FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff update" ON waitlist_entries FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+CREATE POLICY "Staff read" ON refill_requests FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON transfer_requests FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON splash_modal_submissions FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON inbound_transfer_requests FOR SELECT TO authenticated USING (is_staff());
@@ -0,0 +1,19 @@
+-- ============================================
+-- Roll back 008_request_status_workflow.sql
+-- ============================================
+-- Drops the status columns and the whole status history.
+DROP FUNCTION IF EXISTS advance_request_status(request_type, UUID, request_status, TEXT);
+
+DROP TRIGGER IF EXISTS refill_requests_initial_status ON refill_requests;
+DROP TRIGGER IF EXISTS transfer_requests_initial_status ON transfer_requests;
+DROP FUNCTION IF EXISTS record_initial_request_status();
+
+DROP TABLE IF EXISTS request_status_history;
+
+DROP INDEX IF EXISTS idx_refill_requests_status;
+DROP INDEX IF EXISTS idx_transfer_requests_status;
+ALTER TABLE refill_requests DROP COLUMN IF EXISTS status;
+ALTER TABLE transfer_requests DROP COLUMN IF EXISTS status;
+
+DROP TYPE IF EXISTS request_type;
+DROP TYPE IF EXISTS request_status;
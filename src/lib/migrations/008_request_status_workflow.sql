@@ -0,0 +1,136 @@
+-- ============================================
+-- Refill / Transfer Request Status Workflow
+-- ============================================
+-- received → in_progress → ready_for_pickup | out_for_delivery → completed,
+-- or rejected (with a reason) from any open status. The current status is
+-- kept on the request row; every change is recorded in request_status_history.
+CREATE TYPE request_status AS ENUM (
+  'received',
+  'in_progress',
+  'ready_for_pickup',
+  'out_for_delivery',
+  'completed',
+  'rejected'
+);
+CREATE TYPE request_type AS ENUM ('refill', 'transfer');
+
+ALTER TABLE refill_requests
+  ADD COLUMN IF NOT EXISTS status request_status NOT NULL DEFAULT 'received';
+ALTER TABLE transfer_requests
+  ADD COLUMN IF NOT EXISTS status request_status NOT NULL DEFAULT 'received';
+
+CREATE INDEX IF NOT EXISTS idx_refill_requests_status ON refill_requests(status);
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_status ON transfer_requests(status);
+
+-- ============================================
+-- Status History Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS request_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_type request_type NOT NULL,
+  request_id UUID NOT NULL,
+  from_status request_status,
+  to_status request_status NOT NULL,
+  reason TEXT,
+  -- NULL for the initial 'received' entry written on insert
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (to_status <> 'rejected' OR length(trim(coalesce(reason, ''))) > 0)
+);
+
+CREATE INDEX idx_request_status_history_request
+  ON request_status_history(request_type, request_id, created_at);
+
+ALTER TABLE request_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read" ON request_status_history FOR SELECT TO authenticated USING (is_staff());
+
+-- Existing requests start in 'received'
+INSERT INTO request_status_history (request_type, request_id, to_status, created_at)
+SELECT 'refill', id, status, created_at FROM refill_requests;
+INSERT INTO request_status_history (request_type, request_id, to_status, created_at)
+SELECT 'transfer', id, status, created_at FROM transfer_requests;
+
+-- Record the initial status of new requests
+CREATE OR REPLACE FUNCTION record_initial_request_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO request_status_history (request_type, request_id, to_status)
+  VALUES (TG_ARGV[0]::request_type, NEW.id, NEW.status);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refill_requests_initial_status
+  AFTER INSERT ON refill_requests
+  FOR EACH ROW EXECUTE FUNCTION record_initial_request_status('refill');
+
+CREATE TRIGGER transfer_requests_initial_status
+  AFTER INSERT ON transfer_requests
+  FOR EACH ROW EXECUTE FUNCTION record_initial_request_status('transfer');
+
+-- ============================================
+-- advance_request_status RPC
+-- ============================================
+-- Staff-only. Validates the transition (mirrors REQUEST_STATUS_TRANSITIONS in
+-- src/lib/requestStatus.ts), updates the request, and appends to the history.
+CREATE OR REPLACE FUNCTION advance_request_status(
+  p_request_type request_type,
+  p_request_id UUID,
+  p_status request_status,
+  p_reason TEXT
+)
+RETURNS request_status_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_status request_status;
+  history_row request_status_history;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can update request status' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_request_type = 'refill' THEN
+    SELECT status INTO current_status FROM refill_requests WHERE id = p_request_id FOR UPDATE;
+  ELSE
+    SELECT status INTO current_status FROM transfer_requests WHERE id = p_request_id FOR UPDATE;
+  END IF;
+
+  IF current_status IS NULL THEN
+    RAISE EXCEPTION 'Request % not found', p_request_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (
+    (current_status = 'received' AND p_status IN ('in_progress', 'rejected')) OR
+    (current_status = 'in_progress' AND p_status IN ('ready_for_pickup', 'out_for_delivery', 'rejected')) OR
+    (current_status IN ('ready_for_pickup', 'out_for_delivery') AND p_status IN ('completed', 'rejected'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot move a request from % to %', current_status, p_status USING ERRCODE = '22023';
+  END IF;
+
+  IF p_status = 'rejected' AND length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to reject a request' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_request_type = 'refill' THEN
+    UPDATE refill_requests SET status = p_status, updated_at = CURRENT_TIMESTAMP WHERE id = p_request_id;
+  ELSE
+    UPDATE transfer_requests SET status = p_status, updated_at = CURRENT_TIMESTAMP WHERE id = p_request_id;
+  END IF;
+
+  INSERT INTO request_status_history (request_type, request_id, from_status, to_status, reason, changed_by)
+  VALUES (p_request_type, p_request_id, current_status, p_status, NULLIF(trim(p_reason), ''), auth.uid())
+  RETURNING * INTO history_row;
+
+  RETURN history_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION advance_request_status TO authenticated;
@@ -0,0 +1,127 @@
+-- ============================================
+-- Roll back 009_submission_rpcs.sql
+-- ============================================
+DROP FUNCTION IF EXISTS submit_splash_modal_signup(TEXT);
+DROP FUNCTION IF EXISTS submit_refill_request(
+  TEXT, TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN
+);
+DROP FUNCTION IF EXISTS submit_waitlist_entry(TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS submit_contact_form(TEXT, TEXT, TEXT, contact_reason, TEXT, BOOLEAN);
+
+DROP FUNCTION IF EXISTS validate_inbound_prescriptions(JSONB);
+DROP FUNCTION IF EXISTS validate_prescriptions(JSONB);
+DROP FUNCTION IF EXISTS validate_patient_name(TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS validate_email(TEXT, BOOLEAN);
+DROP FUNCTION IF EXISTS validate_phone(TEXT, BOOLEAN);
+DROP FUNCTION IF EXISTS validate_required(TEXT, TEXT);
+
+-- ============================================
+-- submit_transfer_request RPC
+-- ============================================
+-- Restores the unvalidated version from 004_transfer_patient_identity.sql.
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_patient_dob DATE,
+  p_patient_phone TEXT,
+  p_patient_email TEXT,
+  p_rx_number TEXT,
+  p_rx_fill_date DATE,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  INSERT INTO transfer_requests (
+    patient_first_name, patient_middle_name, patient_last_name, patient_suffix,
+    patient_dob, patient_phone, patient_email,
+    rx_number, rx_fill_date,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncdp,
+    transfer_rx_remark, consent
+  ) VALUES (
+    p_patient_first_name, NULLIF(p_patient_middle_name, ''), p_patient_last_name, NULLIF(p_patient_suffix, ''),
+    p_patient_dob, p_patient_phone, NULLIF(p_patient_email, ''),
+    p_rx_number, p_rx_fill_date,
+    p_transfer_to_pharmacy_name, p_transfer_to_pharmacy_address1, NULLIF(p_transfer_to_pharmacy_address2, ''),
+    p_transfer_to_pharmacy_city, p_transfer_to_pharmacy_state, p_transfer_to_pharmacy_zip,
+    p_transfer_to_pharmacy_phone, NULLIF(p_transfer_to_pharmacy_ncpdp, ''),
+    NULLIF(p_transfer_rx_remark, ''), p_consent
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_transfer_request TO anon, authenticated;
+
+-- ============================================
+-- submit_inbound_transfer_request RPC
+-- ============================================
+-- Restores the version from 006_inbound_transfer_requests.sql.
+CREATE OR REPLACE FUNCTION submit_inbound_transfer_request(
+  p_first_name TEXT,
+  p_middle_name TEXT,
+  p_last_name TEXT,
+  p_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_current_pharmacy_name TEXT,
+  p_current_pharmacy_phone TEXT,
+  p_current_pharmacy_city TEXT,
+  p_current_pharmacy_state TEXT,
+  p_current_pharmacy_ncpdp TEXT,
+  p_prescriptions JSONB,
+  p_prescriber_name TEXT,
+  p_prescriber_phone TEXT,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  INSERT INTO inbound_transfer_requests (
+    first_name, middle_name, last_name, suffix, dob, phone, email,
+    current_pharmacy_name, current_pharmacy_phone, current_pharmacy_city,
+    current_pharmacy_state, current_pharmacy_ncpdp,
+    prescriptions, prescriber_name, prescriber_phone,
+    preferred_service, notes, consent
+  ) VALUES (
+    p_first_name, NULLIF(p_middle_name, ''), p_last_name, NULLIF(p_suffix, ''), p_dob, p_phone, NULLIF(p_email, ''),
+    p_current_pharmacy_name, p_current_pharmacy_phone, NULLIF(p_current_pharmacy_city, ''),
+    NULLIF(upper(p_current_pharmacy_state), ''), NULLIF(p_current_pharmacy_ncpdp, ''),
+    p_prescriptions, p_prescriber_name, NULLIF(p_prescriber_phone, ''),
+    p_preferred_service, NULLIF(p_notes, ''), p_consent
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_inbound_transfer_request TO anon, authenticated;
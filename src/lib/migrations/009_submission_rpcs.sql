@@ -0,0 +1,451 @@
+-- ============================================
+-- Form submission RPCs
+-- ============================================
+-- The RPCs called by src/lib/hooks.ts, writing to the tables created in
+-- 001_init_schema.sql (contact_messages, waitlist_entries, refill_requests,
+-- transfer_requests, splash_modal_submissions) and 006_inbound_transfer_requests.sql. .dev/z-nextsteps.md predates
+-- that schema and uses other table names.
+--
+-- Each function validates its input the way src/lib/schemas.ts does and
+-- raises invalid_parameter_value (22023) with the same message, so callers
+-- that skip client-side validation get the same errors.
+
+-- ============================================
+-- Validation helpers
+-- ============================================
+CREATE OR REPLACE FUNCTION validate_required(p_value TEXT, p_message TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_value IS NULL OR trim(p_value) = '' THEN
+    RAISE EXCEPTION '%', p_message USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+-- phoneSchema: 7 to 30 characters
+CREATE OR REPLACE FUNCTION validate_phone(p_value TEXT, p_required BOOLEAN DEFAULT true)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF coalesce(p_value, '') = '' THEN
+    IF p_required THEN
+      RAISE EXCEPTION 'Phone number is too short' USING ERRCODE = '22023';
+    END IF;
+    RETURN;
+  END IF;
+  IF length(p_value) < 7 THEN
+    RAISE EXCEPTION 'Phone number is too short' USING ERRCODE = '22023';
+  END IF;
+  IF length(p_value) > 30 THEN
+    RAISE EXCEPTION 'Phone number is too long' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+-- emailSchema: a single address with a dotted domain
+CREATE OR REPLACE FUNCTION validate_email(p_value TEXT, p_required BOOLEAN DEFAULT true)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF coalesce(p_value, '') = '' AND NOT p_required THEN
+    RETURN;
+  END IF;
+  IF coalesce(p_value, '') !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' OR length(p_value) > 255 THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+-- PatientNameSchema
+CREATE OR REPLACE FUNCTION validate_patient_name(
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_suffix TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  PERFORM validate_required(p_first_name, 'First name is required');
+  PERFORM validate_required(p_last_name, 'Last name is required');
+  IF coalesce(p_suffix, '') NOT IN ('', 'Jr.', 'Sr.', 'II', 'III', 'IV', 'V') THEN
+    RAISE EXCEPTION 'Invalid name suffix' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+-- PrescriptionListSchema: at least one { rxNumber, medicationName? } row
+CREATE OR REPLACE FUNCTION validate_prescriptions(p_prescriptions JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_prescriptions IS NULL OR jsonb_typeof(p_prescriptions) <> 'array' OR jsonb_array_length(p_prescriptions) = 0 THEN
+    RAISE EXCEPTION 'At least one prescription is required' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS rx
+    WHERE jsonb_typeof(rx) <> 'object'
+       OR jsonb_typeof(rx -> 'rxNumber') IS DISTINCT FROM 'string'
+       OR trim(rx ->> 'rxNumber') = ''
+  ) THEN
+    RAISE EXCEPTION 'Rx number is required' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+-- InboundTransferFormDataSchema prescriptions: at least one { medicationName, rxNumber? } row
+CREATE OR REPLACE FUNCTION validate_inbound_prescriptions(p_prescriptions JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_prescriptions IS NULL OR jsonb_typeof(p_prescriptions) <> 'array' OR jsonb_array_length(p_prescriptions) = 0 THEN
+    RAISE EXCEPTION 'At least one prescription is required' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_prescriptions) AS rx
+    WHERE jsonb_typeof(rx) <> 'object'
+       OR jsonb_typeof(rx -> 'medicationName') IS DISTINCT FROM 'string'
+       OR trim(rx ->> 'medicationName') = ''
+  ) THEN
+    RAISE EXCEPTION 'Medication name is required' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+-- Helpers are only called from the RPCs below, not by API clients
+REVOKE EXECUTE ON FUNCTION validate_required, validate_phone, validate_email,
+  validate_patient_name, validate_prescriptions, validate_inbound_prescriptions FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- submit_contact_form RPC
+-- ============================================
+CREATE OR REPLACE FUNCTION submit_contact_form(
+  p_name TEXT,
+  p_phone TEXT,
+  p_email TEXT,
+  p_reason contact_reason,
+  p_message TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  PERFORM validate_required(p_name, 'Name is required');
+  PERFORM validate_phone(p_phone);
+  PERFORM validate_email(p_email);
+  IF p_reason IS NULL THEN
+    RAISE EXCEPTION 'Reason is required' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_required(p_message, 'Message is required');
+  IF p_consent IS NULL THEN
+    RAISE EXCEPTION 'Consent is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO contact_messages (name, phone, email, reason, message, consent)
+  VALUES (trim(p_name), p_phone, p_email, p_reason, p_message, p_consent)
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_contact_form TO anon, authenticated;
+
+-- ============================================
+-- submit_waitlist_entry RPC
+-- ============================================
+-- Re-joining with the same email returns the existing entry unchanged.
+CREATE OR REPLACE FUNCTION submit_waitlist_entry(
+  p_name TEXT,
+  p_email TEXT,
+  p_phone TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry_id UUID;
+BEGIN
+  PERFORM validate_required(p_name, 'Name is required');
+  PERFORM validate_email(p_email);
+  PERFORM validate_phone(p_phone);
+
+  INSERT INTO waitlist_entries (name, email, phone)
+  VALUES (trim(p_name), p_email, p_phone)
+  ON CONFLICT (email) DO NOTHING
+  RETURNING id INTO entry_id;
+
+  -- A repeat signup returns the existing entry. Anyone can call this with
+  -- someone else's email, so it never changes the details already on file.
+  IF entry_id IS NULL THEN
+    SELECT id INTO entry_id FROM waitlist_entries WHERE email = p_email;
+  END IF;
+
+  RETURN entry_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_waitlist_entry TO anon, authenticated;
+
+-- ============================================
+-- submit_refill_request RPC
+-- ============================================
+-- Called by useRefillFormSubmission after BestRX accepts the refill.
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_name TEXT,
+  p_first_name TEXT,
+  p_middle_name TEXT,
+  p_last_name TEXT,
+  p_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  PERFORM validate_patient_name(p_first_name, p_last_name, p_suffix);
+  IF p_dob IS NULL THEN
+    RAISE EXCEPTION 'Date must be in YYYY-MM-DD format' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_phone);
+  PERFORM validate_email(p_email, false);
+  PERFORM validate_prescriptions(p_prescriptions);
+  IF p_preferred_service IS NULL THEN
+    RAISE EXCEPTION 'Preferred service is required' USING ERRCODE = '22023';
+  END IF;
+  IF p_consent IS NULL THEN
+    RAISE EXCEPTION 'Consent is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_name, first_name, middle_name, last_name, suffix,
+    dob, phone, email, prescriptions, preferred_service, notes, consent
+  ) VALUES (
+    coalesce(NULLIF(trim(p_patient_name), ''), trim(p_first_name) || ' ' || trim(p_last_name)),
+    trim(p_first_name), NULLIF(trim(p_middle_name), ''), trim(p_last_name), NULLIF(p_suffix, ''),
+    p_dob, p_phone, NULLIF(p_email, ''), p_prescriptions, p_preferred_service, NULLIF(p_notes, ''), p_consent
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_refill_request TO anon, authenticated;
+
+-- ============================================
+-- submit_transfer_request RPC
+-- ============================================
+-- Replaces the version from 004_transfer_patient_identity.sql, adding validation.
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_patient_dob DATE,
+  p_patient_phone TEXT,
+  p_patient_email TEXT,
+  p_rx_number TEXT,
+  p_rx_fill_date DATE,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  PERFORM validate_patient_name(p_patient_first_name, p_patient_last_name, p_patient_suffix);
+  IF p_patient_dob IS NULL OR p_rx_fill_date IS NULL THEN
+    RAISE EXCEPTION 'Date must be in YYYY-MM-DD format' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_patient_phone);
+  PERFORM validate_email(p_patient_email, false);
+  PERFORM validate_required(p_rx_number, 'Rx number is required');
+  PERFORM validate_required(p_transfer_to_pharmacy_name, 'Pharmacy name is required');
+  PERFORM validate_required(p_transfer_to_pharmacy_address1, 'Address is required');
+  PERFORM validate_required(p_transfer_to_pharmacy_city, 'City is required');
+  IF length(coalesce(p_transfer_to_pharmacy_state, '')) <> 2 THEN
+    RAISE EXCEPTION 'State must be a 2-letter code' USING ERRCODE = '22023';
+  END IF;
+  IF length(coalesce(p_transfer_to_pharmacy_zip, '')) NOT BETWEEN 3 AND 10 THEN
+    RAISE EXCEPTION 'Invalid ZIP code' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_transfer_to_pharmacy_phone);
+  IF coalesce(p_transfer_to_pharmacy_ncpdp, '') <> '' AND p_transfer_to_pharmacy_ncpdp !~ '^[0-9]{7}$' THEN
+    RAISE EXCEPTION 'NCPDP ID must be 7 digits' USING ERRCODE = '22023';
+  END IF;
+  IF p_consent IS NULL THEN
+    RAISE EXCEPTION 'Consent is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    patient_first_name, patient_middle_name, patient_last_name, patient_suffix,
+    patient_dob, patient_phone, patient_email,
+    rx_number, rx_fill_date,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncdp,
+    transfer_rx_remark, consent
+  ) VALUES (
+    trim(p_patient_first_name), NULLIF(trim(p_patient_middle_name), ''), trim(p_patient_last_name), NULLIF(p_patient_suffix, ''),
+    p_patient_dob, p_patient_phone, NULLIF(p_patient_email, ''),
+    trim(p_rx_number), p_rx_fill_date,
+    p_transfer_to_pharmacy_name, p_transfer_to_pharmacy_address1, NULLIF(p_transfer_to_pharmacy_address2, ''),
+    p_transfer_to_pharmacy_city, upper(p_transfer_to_pharmacy_state), p_transfer_to_pharmacy_zip,
+    p_transfer_to_pharmacy_phone, NULLIF(p_transfer_to_pharmacy_ncpdp, ''),
+    NULLIF(p_transfer_rx_remark, ''), p_consent
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_transfer_request TO anon, authenticated;
+
+-- ============================================
+-- submit_inbound_transfer_request RPC
+-- ============================================
+-- Replaces the version from 006_inbound_transfer_requests.sql with one built
+-- on the shared validation helpers.
+CREATE OR REPLACE FUNCTION submit_inbound_transfer_request(
+  p_first_name TEXT,
+  p_middle_name TEXT,
+  p_last_name TEXT,
+  p_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_current_pharmacy_name TEXT,
+  p_current_pharmacy_phone TEXT,
+  p_current_pharmacy_city TEXT,
+  p_current_pharmacy_state TEXT,
+  p_current_pharmacy_ncpdp TEXT,
+  p_prescriptions JSONB,
+  p_prescriber_name TEXT,
+  p_prescriber_phone TEXT,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  PERFORM validate_patient_name(p_first_name, p_last_name, p_suffix);
+  IF p_dob IS NULL THEN
+    RAISE EXCEPTION 'Date must be in YYYY-MM-DD format' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_phone);
+  PERFORM validate_email(p_email, false);
+  PERFORM validate_required(p_current_pharmacy_name, 'Current pharmacy is required');
+  PERFORM validate_phone(p_current_pharmacy_phone);
+  IF coalesce(p_current_pharmacy_ncpdp, '') <> '' AND p_current_pharmacy_ncpdp !~ '^[0-9]{7}$' THEN
+    RAISE EXCEPTION 'NCPDP ID must be 7 digits' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_inbound_prescriptions(p_prescriptions);
+  PERFORM validate_required(p_prescriber_name, 'Prescriber name is required');
+  PERFORM validate_phone(p_prescriber_phone, false);
+  IF p_preferred_service IS NULL THEN
+    RAISE EXCEPTION 'Preferred service is required' USING ERRCODE = '22023';
+  END IF;
+  IF p_consent IS NOT TRUE THEN
+    RAISE EXCEPTION 'Consent is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO inbound_transfer_requests (
+    first_name, middle_name, last_name, suffix, dob, phone, email,
+    current_pharmacy_name, current_pharmacy_phone, current_pharmacy_city,
+    current_pharmacy_state, current_pharmacy_ncpdp,
+    prescriptions, prescriber_name, prescriber_phone,
+    preferred_service, notes, consent
+  ) VALUES (
+    trim(p_first_name), NULLIF(trim(p_middle_name), ''), trim(p_last_name), NULLIF(p_suffix, ''), p_dob, p_phone, NULLIF(p_email, ''),
+    trim(p_current_pharmacy_name), p_current_pharmacy_phone, NULLIF(trim(p_current_pharmacy_city), ''),
+    NULLIF(upper(p_current_pharmacy_state), ''), NULLIF(p_current_pharmacy_ncpdp, ''),
+    p_prescriptions, trim(p_prescriber_name), NULLIF(p_prescriber_phone, ''),
+    p_preferred_service, NULLIF(p_notes, ''), p_consent
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_inbound_transfer_request TO anon, authenticated;
+
+-- ============================================
+-- submit_splash_modal_signup RPC
+-- ============================================
+-- Signing up again with the same email returns the existing signup.
+CREATE OR REPLACE FUNCTION submit_splash_modal_signup(
+  p_email TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signup_id UUID;
+BEGIN
+  PERFORM validate_email(p_email);
+
+  INSERT INTO splash_modal_submissions (email)
+  VALUES (lower(trim(p_email)))
+  ON CONFLICT (email) DO UPDATE
+    SET updated_at = CURRENT_TIMESTAMP
+  RETURNING id INTO signup_id;
+
+  RETURN signup_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_splash_modal_signup TO anon, authenticated;
@@ -0,0 +1,22 @@
+-- ============================================
+-- Roll back 010_anon_insert_only.sql
+-- ============================================
+-- Restores Supabase's default table privileges and the direct insert
+-- policies from 001_init_schema.sql. Reads stay staff-only (007).
+GRANT ALL ON TABLE
+  contact_messages,
+  waitlist_entries,
+  refill_requests,
+  transfer_requests,
+  splash_modal_submissions,
+  inbound_transfer_requests,
+  inbound_transfer_queue,
+  request_status_history,
+  staff_users
+TO anon, authenticated;
+
+CREATE POLICY "Enable insert for all users" ON contact_messages FOR INSERT WITH CHECK (true);
+CREATE POLICY "Enable insert for all users" ON waitlist_entries FOR INSERT WITH CHECK (true);
+CREATE POLICY "Enable insert for all users" ON refill_requests FOR INSERT WITH CHECK (true);
+CREATE POLICY "Enable insert for all users" ON transfer_requests FOR INSERT WITH CHECK (true);
+CREATE POLICY "Enable insert for all users" ON splash_modal_submissions FOR INSERT WITH CHECK (true);
@@ -0,0 +1,67 @@
+-- ============================================
+-- Anonymous access: insert-only, through RPCs
+-- ============================================
+-- The anon key ships in the site bundle, so anon must not read or change
+-- submissions. 007_staff_access.sql already limits reads (and waitlist
+-- updates) to staff; this migration closes the remaining paths:
+--   * the "Enable insert for all users" policies from 001_init_schema.sql let
+--     anon insert rows directly, skipping the validation in the submit_* RPCs
+--     (SECURITY DEFINER, so they keep working without these policies)
+--   * Supabase grants anon and authenticated every privilege on new public
+--     tables, so RLS was the only barrier; table privileges are revoked too
+-- Staff keep SELECT on everything, UPDATE only where a staff policy allows it.
+
+DROP POLICY IF EXISTS "Enable insert for all users" ON contact_messages;
+DROP POLICY IF EXISTS "Enable insert for all users" ON waitlist_entries;
+DROP POLICY IF EXISTS "Enable insert for all users" ON refill_requests;
+DROP POLICY IF EXISTS "Enable insert for all users" ON transfer_requests;
+DROP POLICY IF EXISTS "Enable insert for all users" ON splash_modal_submissions;
+
+-- ============================================
+-- Table privileges
+-- ============================================
+REVOKE ALL ON TABLE
+  contact_messages,
+  waitlist_entries,
+  refill_requests,
+  transfer_requests,
+  splash_modal_submissions,
+  inbound_transfer_requests,
+  inbound_transfer_queue,
+  request_status_history,
+  staff_users
+FROM anon;
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE, REFERENCES, TRIGGER ON TABLE
+  contact_messages,
+  refill_requests,
+  transfer_requests,
+  splash_modal_submissions,
+  inbound_transfer_requests,
+  inbound_transfer_queue,
+  request_status_history,
+  staff_users
+FROM authenticated;
+
+REVOKE INSERT, DELETE, TRUNCATE, REFERENCES, TRIGGER ON TABLE waitlist_entries FROM authenticated;
+
+GRANT SELECT ON TABLE
+  contact_messages,
+  waitlist_entries,
+  refill_requests,
+  transfer_requests,
+  splash_modal_submissions,
+  inbound_transfer_requests,
+  inbound_transfer_queue,
+  request_status_history,
+  staff_users
+TO authenticated;
+GRANT UPDATE ON TABLE waitlist_entries TO authenticated;
+
+-- The migration runner's bookkeeping table, when it exists
+DO $$
+BEGIN
+  IF to_regclass('public.schema_migrations') IS NOT NULL THEN
+    REVOKE ALL ON TABLE schema_migrations FROM anon, authenticated;
+  END IF;
+END $$;
@@ -0,0 +1,157 @@
+-- ============================================
+-- Roll back 011_idempotency_keys.sql
+-- ============================================
+DROP FUNCTION IF EXISTS submit_transfer_request(
+  TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN, UUID
+);
+DROP FUNCTION IF EXISTS submit_refill_request(
+  TEXT, TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN, UUID
+);
+
+DROP FUNCTION IF EXISTS release_bestrx_idempotency_key(TEXT, UUID);
+DROP FUNCTION IF EXISTS complete_bestrx_idempotency_key(TEXT, UUID, JSONB);
+DROP FUNCTION IF EXISTS claim_bestrx_idempotency_key(TEXT, UUID, TEXT);
+DROP TABLE IF EXISTS bestrx_idempotency_keys;
+
+ALTER TABLE transfer_requests DROP CONSTRAINT IF EXISTS transfer_requests_idempotency_key_key;
+ALTER TABLE transfer_requests DROP COLUMN IF EXISTS idempotency_key;
+ALTER TABLE refill_requests DROP CONSTRAINT IF EXISTS refill_requests_idempotency_key_key;
+ALTER TABLE refill_requests DROP COLUMN IF EXISTS idempotency_key;
+
+-- ============================================
+-- submit_refill_request RPC
+-- ============================================
+-- Restores the version from 009_submission_rpcs.sql.
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_name TEXT,
+  p_first_name TEXT,
+  p_middle_name TEXT,
+  p_last_name TEXT,
+  p_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  PERFORM validate_patient_name(p_first_name, p_last_name, p_suffix);
+  IF p_dob IS NULL THEN
+    RAISE EXCEPTION 'Date must be in YYYY-MM-DD format' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_phone);
+  PERFORM validate_email(p_email, false);
+  PERFORM validate_prescriptions(p_prescriptions);
+  IF p_preferred_service IS NULL THEN
+    RAISE EXCEPTION 'Preferred service is required' USING ERRCODE = '22023';
+  END IF;
+  IF p_consent IS NULL THEN
+    RAISE EXCEPTION 'Consent is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_name, first_name, middle_name, last_name, suffix,
+    dob, phone, email, prescriptions, preferred_service, notes, consent
+  ) VALUES (
+    coalesce(NULLIF(trim(p_patient_name), ''), trim(p_first_name) || ' ' || trim(p_last_name)),
+    trim(p_first_name), NULLIF(trim(p_middle_name), ''), trim(p_last_name), NULLIF(p_suffix, ''),
+    p_dob, p_phone, NULLIF(p_email, ''), p_prescriptions, p_preferred_service, NULLIF(p_notes, ''), p_consent
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_refill_request TO anon, authenticated;
+
+-- ============================================
+-- submit_transfer_request RPC
+-- ============================================
+-- Restores the version from 009_submission_rpcs.sql.
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_patient_dob DATE,
+  p_patient_phone TEXT,
+  p_patient_email TEXT,
+  p_rx_number TEXT,
+  p_rx_fill_date DATE,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  PERFORM validate_patient_name(p_patient_first_name, p_patient_last_name, p_patient_suffix);
+  IF p_patient_dob IS NULL OR p_rx_fill_date IS NULL THEN
+    RAISE EXCEPTION 'Date must be in YYYY-MM-DD format' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_patient_phone);
+  PERFORM validate_email(p_patient_email, false);
+  PERFORM validate_required(p_rx_number, 'Rx number is required');
+  PERFORM validate_required(p_transfer_to_pharmacy_name, 'Pharmacy name is required');
+  PERFORM validate_required(p_transfer_to_pharmacy_address1, 'Address is required');
+  PERFORM validate_required(p_transfer_to_pharmacy_city, 'City is required');
+  IF length(coalesce(p_transfer_to_pharmacy_state, '')) <> 2 THEN
+    RAISE EXCEPTION 'State must be a 2-letter code' USING ERRCODE = '22023';
+  END IF;
+  IF length(coalesce(p_transfer_to_pharmacy_zip, '')) NOT BETWEEN 3 AND 10 THEN
+    RAISE EXCEPTION 'Invalid ZIP code' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_transfer_to_pharmacy_phone);
+  IF coalesce(p_transfer_to_pharmacy_ncpdp, '') <> '' AND p_transfer_to_pharmacy_ncpdp !~ '^[0-9]{7}$' THEN
+    RAISE EXCEPTION 'NCPDP ID must be 7 digits' USING ERRCODE = '22023';
+  END IF;
+  IF p_consent IS NULL THEN
+    RAISE EXCEPTION 'Consent is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    patient_first_name, patient_middle_name, patient_last_name, patient_suffix,
+    patient_dob, patient_phone, patient_email,
+    rx_number, rx_fill_date,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncdp,
+    transfer_rx_remark, consent
+  ) VALUES (
+    trim(p_patient_first_name), NULLIF(trim(p_patient_middle_name), ''), trim(p_patient_last_name), NULLIF(p_patient_suffix, ''),
+    p_patient_dob, p_patient_phone, NULLIF(p_patient_email, ''),
+    trim(p_rx_number), p_rx_fill_date,
+    p_transfer_to_pharmacy_name, p_transfer_to_pharmacy_address1, NULLIF(p_transfer_to_pharmacy_address2, ''),
+    p_transfer_to_pharmacy_city, upper(p_transfer_to_pharmacy_state), p_transfer_to_pharmacy_zip,
+    p_transfer_to_pharmacy_phone, NULLIF(p_transfer_to_pharmacy_ncpdp, ''),
+    NULLIF(p_transfer_rx_remark, ''), p_consent
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_transfer_request TO anon, authenticated;
@@ -0,0 +1,296 @@
+-- ============================================
+-- Idempotency keys for refill and transfer submissions
+-- ============================================
+-- Each refill/transfer submission carries a client-generated UUID. The
+-- submit_* RPCs store it with a unique constraint and return the existing
+-- request for a repeated key, and the BestRX proxy records it (with the
+-- BestRX result) in bestrx_idempotency_keys before calling BestRX, so a
+-- double-click or a retry neither sends nor saves a request twice.
+
+ALTER TABLE refill_requests ADD COLUMN IF NOT EXISTS idempotency_key UUID;
+ALTER TABLE refill_requests
+  ADD CONSTRAINT refill_requests_idempotency_key_key UNIQUE (idempotency_key);
+
+ALTER TABLE transfer_requests ADD COLUMN IF NOT EXISTS idempotency_key UUID;
+ALTER TABLE transfer_requests
+  ADD CONSTRAINT transfer_requests_idempotency_key_key UNIQUE (idempotency_key);
+
+-- ============================================
+-- BestRX proxy keys
+-- ============================================
+-- response is NULL while the BestRX call is in flight. Only the proxy (with
+-- the service role key) reads or writes these rows, through the RPCs below.
+CREATE TABLE IF NOT EXISTS bestrx_idempotency_keys (
+  route TEXT NOT NULL CHECK (route IN ('refill', 'transfer')),
+  idempotency_key UUID NOT NULL,
+  request_hash TEXT NOT NULL,
+  response JSONB,
+  claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT bestrx_idempotency_keys_pkey PRIMARY KEY (route, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bestrx_idempotency_keys_created_at ON bestrx_idempotency_keys(created_at);
+
+ALTER TABLE bestrx_idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE bestrx_idempotency_keys FROM anon, authenticated;
+
+-- Claims a key for a BestRX call. Returns {"status": ...} as
+-- IdempotencyClaim in src/lib/idempotency.ts: claimed, completed (with the
+-- stored response), in_progress, or mismatch (same key, different request).
+-- A claim left unfinished for 2 minutes is handed over; keys are kept for
+-- 7 days, longer than the browser outbox holds a request.
+CREATE OR REPLACE FUNCTION claim_bestrx_idempotency_key(
+  p_route TEXT,
+  p_key UUID,
+  p_request_hash TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing bestrx_idempotency_keys%ROWTYPE;
+BEGIN
+  DELETE FROM bestrx_idempotency_keys WHERE created_at < CURRENT_TIMESTAMP - INTERVAL '7 days';
+
+  INSERT INTO bestrx_idempotency_keys (route, idempotency_key, request_hash)
+  VALUES (p_route, p_key, p_request_hash)
+  ON CONFLICT (route, idempotency_key) DO NOTHING;
+  IF FOUND THEN
+    RETURN jsonb_build_object('status', 'claimed');
+  END IF;
+
+  SELECT * INTO existing
+  FROM bestrx_idempotency_keys
+  WHERE route = p_route AND idempotency_key = p_key
+  FOR UPDATE;
+
+  IF existing.request_hash <> p_request_hash THEN
+    RETURN jsonb_build_object('status', 'mismatch');
+  END IF;
+  IF existing.response IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'completed', 'response', existing.response);
+  END IF;
+  IF existing.claimed_at < CURRENT_TIMESTAMP - INTERVAL '2 minutes' THEN
+    UPDATE bestrx_idempotency_keys
+    SET claimed_at = CURRENT_TIMESTAMP
+    WHERE route = p_route AND idempotency_key = p_key;
+    RETURN jsonb_build_object('status', 'claimed');
+  END IF;
+  RETURN jsonb_build_object('status', 'in_progress');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_bestrx_idempotency_key(
+  p_route TEXT,
+  p_key UUID,
+  p_response JSONB
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE bestrx_idempotency_keys
+  SET response = p_response, completed_at = CURRENT_TIMESTAMP
+  WHERE route = p_route AND idempotency_key = p_key;
+$$;
+
+-- Drops an unfinished claim after a failed BestRX call, so it can be retried
+CREATE OR REPLACE FUNCTION release_bestrx_idempotency_key(
+  p_route TEXT,
+  p_key UUID
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM bestrx_idempotency_keys
+  WHERE route = p_route AND idempotency_key = p_key AND response IS NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_bestrx_idempotency_key, complete_bestrx_idempotency_key,
+  release_bestrx_idempotency_key FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_bestrx_idempotency_key, complete_bestrx_idempotency_key,
+  release_bestrx_idempotency_key TO service_role;
+
+-- ============================================
+-- submit_refill_request RPC
+-- ============================================
+-- Replaces the version from 009_submission_rpcs.sql, adding p_idempotency_key.
+DROP FUNCTION IF EXISTS submit_refill_request(
+  TEXT, TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN
+);
+
+CREATE OR REPLACE FUNCTION submit_refill_request(
+  p_patient_name TEXT,
+  p_first_name TEXT,
+  p_middle_name TEXT,
+  p_last_name TEXT,
+  p_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  -- A repeated submission returns the request it already created
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO new_id FROM refill_requests WHERE idempotency_key = p_idempotency_key;
+    IF FOUND THEN
+      RETURN new_id;
+    END IF;
+  END IF;
+
+  PERFORM validate_patient_name(p_first_name, p_last_name, p_suffix);
+  IF p_dob IS NULL THEN
+    RAISE EXCEPTION 'Date must be in YYYY-MM-DD format' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_phone);
+  PERFORM validate_email(p_email, false);
+  PERFORM validate_prescriptions(p_prescriptions);
+  IF p_preferred_service IS NULL THEN
+    RAISE EXCEPTION 'Preferred service is required' USING ERRCODE = '22023';
+  END IF;
+  IF p_consent IS NULL THEN
+    RAISE EXCEPTION 'Consent is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO refill_requests (
+    patient_name, first_name, middle_name, last_name, suffix,
+    dob, phone, email, prescriptions, preferred_service, notes, consent, idempotency_key
+  ) VALUES (
+    coalesce(NULLIF(trim(p_patient_name), ''), trim(p_first_name) || ' ' || trim(p_last_name)),
+    trim(p_first_name), NULLIF(trim(p_middle_name), ''), trim(p_last_name), NULLIF(p_suffix, ''),
+    p_dob, p_phone, NULLIF(p_email, ''), p_prescriptions, p_preferred_service, NULLIF(p_notes, ''), p_consent, p_idempotency_key
+  )
+  -- A concurrent repeat inserted it first
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO new_id;
+
+  IF new_id IS NULL THEN
+    SELECT id INTO new_id FROM refill_requests WHERE idempotency_key = p_idempotency_key;
+  END IF;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_refill_request TO anon, authenticated;
+
+-- ============================================
+-- submit_transfer_request RPC
+-- ============================================
+-- Replaces the version from 009_submission_rpcs.sql, adding p_idempotency_key.
+DROP FUNCTION IF EXISTS submit_transfer_request(
+  TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN
+);
+
+CREATE OR REPLACE FUNCTION submit_transfer_request(
+  p_patient_first_name TEXT,
+  p_patient_middle_name TEXT,
+  p_patient_last_name TEXT,
+  p_patient_suffix TEXT,
+  p_patient_dob DATE,
+  p_patient_phone TEXT,
+  p_patient_email TEXT,
+  p_rx_number TEXT,
+  p_rx_fill_date DATE,
+  p_transfer_to_pharmacy_name TEXT,
+  p_transfer_to_pharmacy_address1 TEXT,
+  p_transfer_to_pharmacy_address2 TEXT,
+  p_transfer_to_pharmacy_city TEXT,
+  p_transfer_to_pharmacy_state TEXT,
+  p_transfer_to_pharmacy_zip TEXT,
+  p_transfer_to_pharmacy_phone TEXT,
+  p_transfer_to_pharmacy_ncpdp TEXT,
+  p_transfer_rx_remark TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  -- A repeated submission returns the request it already created
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO new_id FROM transfer_requests WHERE idempotency_key = p_idempotency_key;
+    IF FOUND THEN
+      RETURN new_id;
+    END IF;
+  END IF;
+
+  PERFORM validate_patient_name(p_patient_first_name, p_patient_last_name, p_patient_suffix);
+  IF p_patient_dob IS NULL OR p_rx_fill_date IS NULL THEN
+    RAISE EXCEPTION 'Date must be in YYYY-MM-DD format' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_patient_phone);
+  PERFORM validate_email(p_patient_email, false);
+  PERFORM validate_required(p_rx_number, 'Rx number is required');
+  PERFORM validate_required(p_transfer_to_pharmacy_name, 'Pharmacy name is required');
+  PERFORM validate_required(p_transfer_to_pharmacy_address1, 'Address is required');
+  PERFORM validate_required(p_transfer_to_pharmacy_city, 'City is required');
+  IF length(coalesce(p_transfer_to_pharmacy_state, '')) <> 2 THEN
+    RAISE EXCEPTION 'State must be a 2-letter code' USING ERRCODE = '22023';
+  END IF;
+  IF length(coalesce(p_transfer_to_pharmacy_zip, '')) NOT BETWEEN 3 AND 10 THEN
+    RAISE EXCEPTION 'Invalid ZIP code' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_transfer_to_pharmacy_phone);
+  IF coalesce(p_transfer_to_pharmacy_ncpdp, '') <> '' AND p_transfer_to_pharmacy_ncpdp !~ '^[0-9]{7}$' THEN
+    RAISE EXCEPTION 'NCPDP ID must be 7 digits' USING ERRCODE = '22023';
+  END IF;
+  IF p_consent IS NULL THEN
+    RAISE EXCEPTION 'Consent is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO transfer_requests (
+    patient_first_name, patient_middle_name, patient_last_name, patient_suffix,
+    patient_dob, patient_phone, patient_email,
+    rx_number, rx_fill_date,
+    transfer_to_pharmacy_name, transfer_to_pharmacy_address1, transfer_to_pharmacy_address2,
+    transfer_to_pharmacy_city, transfer_to_pharmacy_state, transfer_to_pharmacy_zip,
+    transfer_to_pharmacy_phone, transfer_to_pharmacy_ncdp,
+    transfer_rx_remark, consent, idempotency_key
+  ) VALUES (
+    trim(p_patient_first_name), NULLIF(trim(p_patient_middle_name), ''), trim(p_patient_last_name), NULLIF(p_patient_suffix, ''),
+    p_patient_dob, p_patient_phone, NULLIF(p_patient_email, ''),
+    trim(p_rx_number), p_rx_fill_date,
+    p_transfer_to_pharmacy_name, p_transfer_to_pharmacy_address1, NULLIF(p_transfer_to_pharmacy_address2, ''),
+    p_transfer_to_pharmacy_city, upper(p_transfer_to_pharmacy_state), p_transfer_to_pharmacy_zip,
+    p_transfer_to_pharmacy_phone, NULLIF(p_transfer_to_pharmacy_ncpdp, ''),
+    NULLIF(p_transfer_rx_remark, ''), p_consent, p_idempotency_key
+  )
+  -- A concurrent repeat inserted it first
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO new_id;
+
+  IF new_id IS NULL THEN
+    SELECT id INTO new_id FROM transfer_requests WHERE idempotency_key = p_idempotency_key;
+  END IF;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_transfer_request TO anon, authenticated;
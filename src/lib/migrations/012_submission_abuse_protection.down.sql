@@ -0,0 +1,122 @@
+-- ============================================
+-- Roll back 012_submission_abuse_protection.sql
+-- ============================================
+DROP FUNCTION IF EXISTS submit_splash_modal_signup(TEXT, TEXT, INTEGER, TEXT);
+DROP FUNCTION IF EXISTS submit_waitlist_entry(TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT);
+DROP FUNCTION IF EXISTS submit_contact_form(TEXT, TEXT, TEXT, contact_reason, TEXT, BOOLEAN, TEXT, INTEGER, TEXT);
+
+DROP FUNCTION IF EXISTS screen_submission(TEXT, TEXT, TEXT, INTEGER, TEXT);
+DROP FUNCTION IF EXISTS verify_submission_challenge(TEXT, TEXT);
+DROP FUNCTION IF EXISTS request_client_ip();
+
+DROP TABLE IF EXISTS submission_attempts;
+DROP TABLE IF EXISTS submission_rejections;
+DROP TYPE IF EXISTS submission_rejection_reason;
+
+-- ============================================
+-- submit_contact_form RPC
+-- ============================================
+-- Restores the version from 009_submission_rpcs.sql.
+CREATE OR REPLACE FUNCTION submit_contact_form(
+  p_name TEXT,
+  p_phone TEXT,
+  p_email TEXT,
+  p_reason contact_reason,
+  p_message TEXT,
+  p_consent BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  PERFORM validate_required(p_name, 'Name is required');
+  PERFORM validate_phone(p_phone);
+  PERFORM validate_email(p_email);
+  IF p_reason IS NULL THEN
+    RAISE EXCEPTION 'Reason is required' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_required(p_message, 'Message is required');
+  IF p_consent IS NULL THEN
+    RAISE EXCEPTION 'Consent is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO contact_messages (name, phone, email, reason, message, consent)
+  VALUES (trim(p_name), p_phone, p_email, p_reason, p_message, p_consent)
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_contact_form TO anon, authenticated;
+
+-- ============================================
+-- submit_waitlist_entry RPC
+-- ============================================
+-- Restores the version from 009_submission_rpcs.sql.
+CREATE OR REPLACE FUNCTION submit_waitlist_entry(
+  p_name TEXT,
+  p_email TEXT,
+  p_phone TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry_id UUID;
+BEGIN
+  PERFORM validate_required(p_name, 'Name is required');
+  PERFORM validate_email(p_email);
+  PERFORM validate_phone(p_phone);
+
+  INSERT INTO waitlist_entries (name, email, phone)
+  VALUES (trim(p_name), p_email, p_phone)
+  ON CONFLICT (email) DO NOTHING
+  RETURNING id INTO entry_id;
+
+  -- A repeat signup returns the existing entry. Anyone can call this with
+  -- someone else's email, so it never changes the details already on file.
+  IF entry_id IS NULL THEN
+    SELECT id INTO entry_id FROM waitlist_entries WHERE email = p_email;
+  END IF;
+
+  RETURN entry_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_waitlist_entry TO anon, authenticated;
+
+-- ============================================
+-- submit_splash_modal_signup RPC
+-- ============================================
+-- Restores the version from 009_submission_rpcs.sql.
+CREATE OR REPLACE FUNCTION submit_splash_modal_signup(
+  p_email TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signup_id UUID;
+BEGIN
+  PERFORM validate_email(p_email);
+
+  INSERT INTO splash_modal_submissions (email)
+  VALUES (lower(trim(p_email)))
+  ON CONFLICT (email) DO UPDATE
+    SET updated_at = CURRENT_TIMESTAMP
+  RETURNING id INTO signup_id;
+
+  RETURN signup_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_splash_modal_signup TO anon, authenticated;
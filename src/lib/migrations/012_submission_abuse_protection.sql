@@ -0,0 +1,300 @@
+-- ============================================
+-- Abuse protection for the public forms
+-- ============================================
+-- The contact, waitlist and email signup forms call their submit_* RPCs with
+-- the anon key, so anyone can call them directly. Each RPC now screens the
+-- submission before inserting it:
+--   * honeypot: a field hidden from people that bots fill in
+--   * too_fast: submitted less than 3 seconds after the form was shown
+--   * challenge_failed: the challenge token was not accepted (see
+--     verify_submission_challenge, a stand-in that accepts everything)
+--   * rate_limited: more than 5 submissions of the form from one IP address
+--     in 10 minutes, or 3 for one email address in an hour
+-- A rejected submission is logged in submission_rejections for staff review
+-- and the RPC returns NULL instead of an id. (Raising an error would roll the
+-- log entry back.) At most 20 rejections of a form are logged per IP address
+-- in 10 minutes, so a bot can't grow the log or flood the review list; past
+-- that, rejections are only returned.
+
+CREATE TYPE submission_rejection_reason AS ENUM (
+  'honeypot',
+  'too_fast',
+  'challenge_failed',
+  'rate_limited'
+);
+
+CREATE TABLE IF NOT EXISTS submission_rejections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form TEXT NOT NULL,
+  reason submission_rejection_reason NOT NULL,
+  ip_address TEXT,
+  email TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_rejections_created_at ON submission_rejections(created_at);
+CREATE INDEX IF NOT EXISTS idx_submission_rejections_ip ON submission_rejections(form, ip_address, created_at);
+
+-- Accepted submissions, counted by the rate limits; rows older than a day are pruned
+CREATE TABLE IF NOT EXISTS submission_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  form TEXT NOT NULL,
+  ip_address TEXT,
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_attempts_ip ON submission_attempts(form, ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_submission_attempts_email ON submission_attempts(form, email, created_at);
+
+ALTER TABLE submission_rejections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE submission_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read" ON submission_rejections FOR SELECT TO authenticated USING (is_staff());
+
+REVOKE ALL ON TABLE submission_rejections, submission_attempts FROM anon;
+REVOKE ALL ON TABLE submission_rejections, submission_attempts FROM authenticated;
+GRANT SELECT ON TABLE submission_rejections TO authenticated;
+
+-- ============================================
+-- Screening helpers
+-- ============================================
+-- The caller's IP address from the request headers PostgREST exposes;
+-- NULL outside an API request (e.g. in the SQL Editor). Only headers the
+-- platform sets are trusted: cf-connecting-ip, or else the last
+-- x-forwarded-for entry, which the platform's proxy appends. Earlier
+-- x-forwarded-for entries (and x-real-ip) come from the caller, who could
+-- send a new one per request to get around the rate limits.
+CREATE OR REPLACE FUNCTION request_client_ip()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  headers JSONB := NULLIF(current_setting('request.headers', true), '')::jsonb;
+BEGIN
+  RETURN NULLIF(trim(coalesce(
+    headers ->> 'cf-connecting-ip',
+    regexp_replace(headers ->> 'x-forwarded-for', '^.*,', '')
+  )), '');
+END;
+$$;
+
+-- Challenge provider hook. This stand-in accepts every token (including
+-- none); replace it to verify tokens from the provider configured with
+-- setChallengeProvider in src/lib/antiAbuse.ts.
+CREATE OR REPLACE FUNCTION verify_submission_challenge(p_form TEXT, p_token TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN true;
+END;
+$$;
+
+-- Returns true when the submission may be saved, recording it for the rate
+-- limits; otherwise logs the rejection (up to the cap) and returns false.
+-- Requests without an IP address share one cap.
+CREATE OR REPLACE FUNCTION screen_submission(
+  p_form TEXT,
+  p_email TEXT,
+  p_honeypot TEXT,
+  p_elapsed_ms INTEGER,
+  p_challenge_token TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  client_ip TEXT := request_client_ip();
+  normalized_email TEXT := NULLIF(lower(trim(p_email)), '');
+  rejection submission_rejection_reason;
+  rejection_details JSONB := '{}'::jsonb;
+BEGIN
+  IF coalesce(p_honeypot, '') <> '' THEN
+    rejection := 'honeypot';
+    rejection_details := jsonb_build_object('honeypot', left(p_honeypot, 200));
+  ELSIF p_elapsed_ms IS NULL OR p_elapsed_ms < 3000 THEN
+    rejection := 'too_fast';
+    rejection_details := jsonb_build_object('elapsed_ms', p_elapsed_ms);
+  ELSIF NOT verify_submission_challenge(p_form, p_challenge_token) THEN
+    rejection := 'challenge_failed';
+  ELSIF client_ip IS NOT NULL AND (
+    SELECT count(*) FROM submission_attempts
+    WHERE form = p_form AND ip_address = client_ip
+      AND created_at > CURRENT_TIMESTAMP - INTERVAL '10 minutes'
+  ) >= 5 THEN
+    rejection := 'rate_limited';
+    rejection_details := jsonb_build_object('limit', 'ip');
+  ELSIF normalized_email IS NOT NULL AND (
+    SELECT count(*) FROM submission_attempts
+    WHERE form = p_form AND email = normalized_email
+      AND created_at > CURRENT_TIMESTAMP - INTERVAL '1 hour'
+  ) >= 3 THEN
+    rejection := 'rate_limited';
+    rejection_details := jsonb_build_object('limit', 'email');
+  END IF;
+
+  IF rejection IS NOT NULL THEN
+    IF (
+      SELECT count(*) FROM submission_rejections
+      WHERE form = p_form AND ip_address IS NOT DISTINCT FROM client_ip
+        AND created_at > CURRENT_TIMESTAMP - INTERVAL '10 minutes'
+    ) < 20 THEN
+      INSERT INTO submission_rejections (form, reason, ip_address, email, details)
+      VALUES (p_form, rejection, client_ip, normalized_email, rejection_details);
+    END IF;
+    RETURN false;
+  END IF;
+
+  DELETE FROM submission_attempts WHERE created_at < CURRENT_TIMESTAMP - INTERVAL '1 day';
+  INSERT INTO submission_attempts (form, ip_address, email)
+  VALUES (p_form, client_ip, normalized_email);
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION request_client_ip, verify_submission_challenge, screen_submission
+  FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- submit_contact_form RPC
+-- ============================================
+-- Replaces the version from 009_submission_rpcs.sql, adding the screening parameters.
+DROP FUNCTION IF EXISTS submit_contact_form(TEXT, TEXT, TEXT, contact_reason, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION submit_contact_form(
+  p_name TEXT,
+  p_phone TEXT,
+  p_email TEXT,
+  p_reason contact_reason,
+  p_message TEXT,
+  p_consent BOOLEAN,
+  p_honeypot TEXT,
+  p_elapsed_ms INTEGER,
+  p_challenge_token TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  PERFORM validate_required(p_name, 'Name is required');
+  PERFORM validate_phone(p_phone);
+  PERFORM validate_email(p_email);
+  IF p_reason IS NULL THEN
+    RAISE EXCEPTION 'Reason is required' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_required(p_message, 'Message is required');
+  IF p_consent IS NULL THEN
+    RAISE EXCEPTION 'Consent is required' USING ERRCODE = '22023';
+  END IF;
+
+  -- Rejected attempts are logged in submission_rejections and return NULL
+  IF NOT screen_submission('contact', p_email, p_honeypot, p_elapsed_ms, p_challenge_token) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO contact_messages (name, phone, email, reason, message, consent)
+  VALUES (trim(p_name), p_phone, p_email, p_reason, p_message, p_consent)
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_contact_form TO anon, authenticated;
+
+-- ============================================
+-- submit_waitlist_entry RPC
+-- ============================================
+-- Replaces the version from 009_submission_rpcs.sql, adding the screening parameters.
+DROP FUNCTION IF EXISTS submit_waitlist_entry(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION submit_waitlist_entry(
+  p_name TEXT,
+  p_email TEXT,
+  p_phone TEXT,
+  p_honeypot TEXT,
+  p_elapsed_ms INTEGER,
+  p_challenge_token TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry_id UUID;
+BEGIN
+  PERFORM validate_required(p_name, 'Name is required');
+  PERFORM validate_email(p_email);
+  PERFORM validate_phone(p_phone);
+
+  -- Rejected attempts are logged in submission_rejections and return NULL
+  IF NOT screen_submission('waitlist', p_email, p_honeypot, p_elapsed_ms, p_challenge_token) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO waitlist_entries (name, email, phone)
+  VALUES (trim(p_name), p_email, p_phone)
+  ON CONFLICT (email) DO NOTHING
+  RETURNING id INTO entry_id;
+
+  -- A repeat signup returns the existing entry. Anyone can call this with
+  -- someone else's email, so it never changes the details already on file.
+  IF entry_id IS NULL THEN
+    SELECT id INTO entry_id FROM waitlist_entries WHERE email = p_email;
+  END IF;
+
+  RETURN entry_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_waitlist_entry TO anon, authenticated;
+
+-- ============================================
+-- submit_splash_modal_signup RPC
+-- ============================================
+-- Replaces the version from 009_submission_rpcs.sql, adding the screening parameters.
+DROP FUNCTION IF EXISTS submit_splash_modal_signup(TEXT);
+
+CREATE OR REPLACE FUNCTION submit_splash_modal_signup(
+  p_email TEXT,
+  p_honeypot TEXT,
+  p_elapsed_ms INTEGER,
+  p_challenge_token TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signup_id UUID;
+BEGIN
+  PERFORM validate_email(p_email);
+
+  -- Rejected attempts are logged in submission_rejections and return NULL
+  IF NOT screen_submission('splash', p_email, p_honeypot, p_elapsed_ms, p_challenge_token) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO splash_modal_submissions (email)
+  VALUES (lower(trim(p_email)))
+  ON CONFLICT (email) DO UPDATE
+    SET updated_at = CURRENT_TIMESTAMP
+  RETURNING id INTO signup_id;
+
+  RETURN signup_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_splash_modal_signup TO anon, authenticated;
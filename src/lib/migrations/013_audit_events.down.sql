@@ -0,0 +1,19 @@
+-- ============================================
+-- Roll back 013_audit_events.sql
+-- ============================================
+DROP FUNCTION IF EXISTS verify_audit_chain();
+DROP FUNCTION IF EXISTS get_audited_record(TEXT, TEXT);
+DROP FUNCTION IF EXISTS record_staff_audit_event(audit_action, TEXT, TEXT, TEXT, JSONB);
+
+DROP TRIGGER IF EXISTS inbound_transfer_requests_audit ON inbound_transfer_requests;
+DROP TRIGGER IF EXISTS transfer_requests_audit ON transfer_requests;
+DROP TRIGGER IF EXISTS refill_requests_audit ON refill_requests;
+DROP FUNCTION IF EXISTS audit_row_change();
+DROP FUNCTION IF EXISTS record_audit_event(audit_action, TEXT, TEXT, TEXT, JSONB);
+
+DROP FUNCTION IF EXISTS audit_event_hash(audit_events);
+DROP TABLE IF EXISTS audit_events;
+DROP FUNCTION IF EXISTS reject_audit_event_change();
+DROP FUNCTION IF EXISTS chain_audit_event();
+DROP SEQUENCE IF EXISTS audit_events_seq;
+DROP TYPE IF EXISTS audit_action;
@@ -0,0 +1,279 @@
+-- ============================================
+-- Audit log
+-- ============================================
+-- audit_events records who created, viewed, exported or changed rows with
+-- PHI. Inserts, updates and deletes of refill, transfer and inbound transfer
+-- requests are recorded by triggers. Views and exports are recorded by the
+-- server-side paths that serve them: get_audited_record (the dashboard
+-- detail view) and record_staff_audit_event (dashboard lists, exports and
+-- the notify-patient function).
+--
+-- The table is append-only, and each event stores the SHA-256 hash of its
+-- contents chained to the previous event's hash, so editing or removing an
+-- event (e.g. directly as the database owner) breaks the chain from that
+-- point. verify_audit_chain() recomputes it.
+CREATE TYPE audit_action AS ENUM ('create', 'view', 'update', 'delete', 'export');
+
+CREATE SEQUENCE IF NOT EXISTS audit_events_seq;
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Chain order, assigned when the event is chained
+  seq BIGINT NOT NULL UNIQUE,
+  actor_id UUID,
+  actor_email TEXT,
+  -- anon, authenticated, service_role, or the database user outside the API
+  actor_role TEXT NOT NULL,
+  action audit_action NOT NULL,
+  table_name TEXT NOT NULL,
+  row_id TEXT,
+  -- PostgREST path (e.g. /rpc/submit_refill_request), 'database', or the
+  -- app component that reported the event (e.g. admin_dashboard)
+  source TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  prev_hash TEXT,
+  hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_events_row ON audit_events(table_name, row_id);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read" ON audit_events FOR SELECT TO authenticated USING (is_staff());
+
+REVOKE ALL ON TABLE audit_events FROM anon, authenticated;
+GRANT SELECT ON TABLE audit_events TO authenticated;
+REVOKE ALL ON SEQUENCE audit_events_seq FROM anon, authenticated;
+
+-- ============================================
+-- Hash chaining
+-- ============================================
+-- Hash of an event's contents and the previous event's hash. Timestamps are
+-- formatted in UTC so the hash doesn't depend on the session time zone.
+CREATE OR REPLACE FUNCTION audit_event_hash(event audit_events)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(concat_ws('|',
+    coalesce(event.prev_hash, ''),
+    event.seq::text,
+    event.id::text,
+    to_char(event.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    coalesce(event.actor_id::text, ''),
+    coalesce(event.actor_email, ''),
+    event.actor_role,
+    event.action::text,
+    event.table_name,
+    coalesce(event.row_id, ''),
+    event.source,
+    event.details::text
+  ), 'UTF8')), 'hex');
+$$;
+
+-- Fills in the actor and timestamp from the request, and links the event to
+-- the chain. The lock serializes writers, so seq order is chain order.
+CREATE OR REPLACE FUNCTION chain_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claims JSONB := NULLIF(current_setting('request.jwt.claims', true), '')::jsonb;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('audit_events'));
+
+  NEW.seq := nextval('audit_events_seq');
+  NEW.created_at := clock_timestamp();
+  NEW.actor_id := auth.uid();
+  NEW.actor_email := claims ->> 'email';
+  NEW.actor_role := coalesce(claims ->> 'role', current_user::text);
+  NEW.source := coalesce(NULLIF(NEW.source, ''), NULLIF(current_setting('request.path', true), ''), 'database');
+  NEW.details := coalesce(NEW.details, '{}'::jsonb);
+  SELECT hash INTO NEW.prev_hash FROM audit_events ORDER BY seq DESC LIMIT 1;
+  NEW.hash := audit_event_hash(NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_events_chain
+  BEFORE INSERT ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION chain_audit_event();
+
+CREATE OR REPLACE FUNCTION reject_audit_event_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION reject_audit_event_change();
+
+CREATE TRIGGER audit_events_no_truncate
+  BEFORE TRUNCATE ON audit_events
+  FOR EACH STATEMENT EXECUTE FUNCTION reject_audit_event_change();
+
+-- Internal: appends an event. The actor comes from the request, not the caller.
+CREATE OR REPLACE FUNCTION record_audit_event(
+  p_action audit_action,
+  p_table_name TEXT,
+  p_row_id TEXT,
+  p_source TEXT DEFAULT NULL,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO audit_events (action, table_name, row_id, source, details)
+  VALUES (p_action, p_table_name, p_row_id, p_source, p_details);
+$$;
+
+-- ============================================
+-- Mutation triggers
+-- ============================================
+-- Updates record which columns changed, not their values, so the log holds
+-- no PHI of its own.
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed TEXT[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM record_audit_event('create', TG_TABLE_NAME, NEW.id::text);
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(new_row.key ORDER BY new_row.key) INTO changed
+    FROM jsonb_each(to_jsonb(NEW)) AS new_row
+    WHERE new_row.key <> 'updated_at'
+      AND new_row.value IS DISTINCT FROM to_jsonb(OLD) -> new_row.key;
+    PERFORM record_audit_event('update', TG_TABLE_NAME, NEW.id::text, NULL,
+      jsonb_build_object('changed', coalesce(to_jsonb(changed), '[]'::jsonb)));
+    RETURN NEW;
+  END IF;
+  PERFORM record_audit_event('delete', TG_TABLE_NAME, OLD.id::text);
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER refill_requests_audit
+  AFTER INSERT OR UPDATE OR DELETE ON refill_requests
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER transfer_requests_audit
+  AFTER INSERT OR UPDATE OR DELETE ON transfer_requests
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER inbound_transfer_requests_audit
+  AFTER INSERT OR UPDATE OR DELETE ON inbound_transfer_requests
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- ============================================
+-- Staff views and exports
+-- ============================================
+-- Records a staff member viewing or exporting rows, e.g. a dashboard list
+-- page (row IDs in p_details) or a CSV export
+CREATE OR REPLACE FUNCTION record_staff_audit_event(
+  p_action audit_action,
+  p_table_name TEXT,
+  p_source TEXT,
+  p_row_id TEXT DEFAULT NULL,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can record audit events' USING ERRCODE = '42501';
+  END IF;
+  IF p_action NOT IN ('view', 'export') THEN
+    RAISE EXCEPTION 'Only views and exports can be recorded directly' USING ERRCODE = '22023';
+  END IF;
+  PERFORM record_audit_event(p_action, p_table_name, p_row_id, p_source, coalesce(p_details, '{}'::jsonb));
+END;
+$$;
+
+-- The staff dashboard's detail view: returns the row and records the view.
+-- Viewing the audit log itself isn't recorded.
+CREATE OR REPLACE FUNCTION get_audited_record(
+  p_table_name TEXT,
+  p_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  record JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view records' USING ERRCODE = '42501';
+  END IF;
+  -- The tables listed on the staff dashboard (ADMIN_TABLES in src/lib/adminTables.ts)
+  IF p_table_name NOT IN (
+    'contact_messages', 'waitlist_entries', 'refill_requests', 'transfer_requests',
+    'inbound_transfer_requests', 'splash_modal_submissions', 'submission_rejections', 'audit_events'
+  ) THEN
+    RAISE EXCEPTION 'Unknown table %', p_table_name USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = %L', p_table_name, p_id) INTO record;
+
+  IF record IS NOT NULL AND p_table_name <> 'audit_events' THEN
+    PERFORM record_audit_event('view', p_table_name, p_id, 'admin_dashboard');
+  END IF;
+  RETURN record;
+END;
+$$;
+
+-- Recomputes the hash chain in order. broken_at is the seq of the first
+-- event whose hash or link doesn't match, or NULL when the chain is intact.
+CREATE OR REPLACE FUNCTION verify_audit_chain()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event audit_events;
+  expected_prev TEXT;
+  checked BIGINT := 0;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can verify the audit log' USING ERRCODE = '42501';
+  END IF;
+
+  FOR event IN SELECT * FROM audit_events ORDER BY seq LOOP
+    IF event.prev_hash IS DISTINCT FROM expected_prev OR event.hash <> audit_event_hash(event) THEN
+      RETURN jsonb_build_object('valid', false, 'checked', checked, 'broken_at', event.seq);
+    END IF;
+    expected_prev := event.hash;
+    checked := checked + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('valid', true, 'checked', checked, 'broken_at', NULL);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION audit_event_hash, chain_audit_event, reject_audit_event_change,
+  record_audit_event, audit_row_change FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_staff_audit_event, get_audited_record, verify_audit_chain
+  FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_staff_audit_event, get_audited_record, verify_audit_chain TO authenticated;
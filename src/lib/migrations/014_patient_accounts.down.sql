@@ -0,0 +1,17 @@
+-- ============================================
+-- Roll back 014_patient_accounts.sql
+-- ============================================
+DROP POLICY IF EXISTS "Patients read own requests" ON transfer_requests;
+DROP POLICY IF EXISTS "Patients read own requests" ON refill_requests;
+
+DROP TRIGGER IF EXISTS transfer_requests_link_patient ON transfer_requests;
+DROP TRIGGER IF EXISTS refill_requests_link_patient ON refill_requests;
+DROP FUNCTION IF EXISTS link_request_to_patient();
+
+DROP INDEX IF EXISTS idx_transfer_requests_patient_id;
+DROP INDEX IF EXISTS idx_refill_requests_patient_id;
+ALTER TABLE transfer_requests DROP COLUMN IF EXISTS patient_id;
+ALTER TABLE refill_requests DROP COLUMN IF EXISTS patient_id;
+
+DROP FUNCTION IF EXISTS save_patient_profile(TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT);
+DROP TABLE IF EXISTS patient_profiles;
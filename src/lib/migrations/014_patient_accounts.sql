@@ -0,0 +1,132 @@
+-- ============================================
+-- Patient accounts
+-- ============================================
+-- Patients may sign in with Supabase Auth (email magic link or SMS code).
+-- A signed-in patient's refill and transfer requests are linked to their
+-- account, and RLS lets them read only those requests and their own profile.
+-- Requests sent while signed out (or from the offline outbox) stay unlinked.
+
+-- ============================================
+-- patient_profiles
+-- ============================================
+-- The details the public forms are pre-filled with
+CREATE TABLE IF NOT EXISTS patient_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  first_name TEXT NOT NULL,
+  middle_name TEXT,
+  last_name TEXT NOT NULL,
+  suffix TEXT,
+  dob DATE NOT NULL,
+  phone TEXT NOT NULL,
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE patient_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patients read own profile" ON patient_profiles
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- Written only through save_patient_profile
+REVOKE ALL ON TABLE patient_profiles FROM anon, authenticated;
+GRANT SELECT ON TABLE patient_profiles TO authenticated;
+
+CREATE TRIGGER patient_profiles_audit
+  AFTER INSERT OR UPDATE OR DELETE ON patient_profiles
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- Creates or updates the caller's profile
+CREATE OR REPLACE FUNCTION save_patient_profile(
+  p_first_name TEXT,
+  p_middle_name TEXT,
+  p_last_name TEXT,
+  p_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to save your details' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM validate_patient_name(p_first_name, p_last_name, p_suffix);
+  IF p_dob IS NULL OR p_dob > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Date must be in YYYY-MM-DD format' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_phone);
+  PERFORM validate_email(p_email, false);
+
+  INSERT INTO patient_profiles (user_id, first_name, middle_name, last_name, suffix, dob, phone, email)
+  VALUES (
+    auth.uid(), trim(p_first_name), NULLIF(trim(p_middle_name), ''), trim(p_last_name), NULLIF(p_suffix, ''),
+    p_dob, p_phone, NULLIF(p_email, '')
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    first_name = EXCLUDED.first_name,
+    middle_name = EXCLUDED.middle_name,
+    last_name = EXCLUDED.last_name,
+    suffix = EXCLUDED.suffix,
+    dob = EXCLUDED.dob,
+    phone = EXCLUDED.phone,
+    email = EXCLUDED.email,
+    updated_at = CURRENT_TIMESTAMP
+  RETURNING id INTO profile_id;
+
+  RETURN profile_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_patient_profile FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_patient_profile TO authenticated;
+
+-- ============================================
+-- Linking requests to patients
+-- ============================================
+ALTER TABLE refill_requests
+  ADD COLUMN IF NOT EXISTS patient_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE transfer_requests
+  ADD COLUMN IF NOT EXISTS patient_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_refill_requests_patient_id ON refill_requests(patient_id);
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_patient_id ON transfer_requests(patient_id);
+
+-- Set on insert from the submitting user, so the submit_* RPCs need no
+-- patient argument a caller could forge. Staff submitting on a patient's
+-- behalf are not linked.
+CREATE OR REPLACE FUNCTION link_request_to_patient()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.patient_id := CASE WHEN auth.uid() IS NOT NULL AND NOT is_staff() THEN auth.uid() END;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION link_request_to_patient FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER refill_requests_link_patient
+  BEFORE INSERT ON refill_requests
+  FOR EACH ROW EXECUTE FUNCTION link_request_to_patient();
+
+CREATE TRIGGER transfer_requests_link_patient
+  BEFORE INSERT ON transfer_requests
+  FOR EACH ROW EXECUTE FUNCTION link_request_to_patient();
+
+CREATE POLICY "Patients read own requests" ON refill_requests
+  FOR SELECT TO authenticated USING (patient_id = auth.uid());
+
+CREATE POLICY "Patients read own requests" ON transfer_requests
+  FOR SELECT TO authenticated USING (patient_id = auth.uid());
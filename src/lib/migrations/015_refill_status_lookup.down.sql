@@ -0,0 +1,16 @@
+-- ============================================
+-- Roll back 015_refill_status_lookup.sql
+-- ============================================
+DROP FUNCTION IF EXISTS claim_refill_confirmation(UUID);
+DROP FUNCTION IF EXISTS lookup_refill_status(TEXT, DATE);
+
+DROP TABLE IF EXISTS refill_status_lookups;
+
+DROP TRIGGER IF EXISTS refill_requests_confirmation_code ON refill_requests;
+DROP FUNCTION IF EXISTS set_refill_confirmation_code();
+
+DROP INDEX IF EXISTS idx_refill_requests_confirmation_code;
+ALTER TABLE refill_requests DROP COLUMN IF EXISTS confirmation_emailed_at;
+ALTER TABLE refill_requests DROP COLUMN IF EXISTS confirmation_code;
+
+DROP FUNCTION IF EXISTS refill_confirmation_code(UUID);
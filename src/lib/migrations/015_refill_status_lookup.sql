@@ -0,0 +1,195 @@
+-- ============================================
+-- Refill status lookup
+-- ============================================
+-- Each refill request gets a confirmation code, shown to the patient when
+-- they submit it and emailed to them. With the code and their date of birth
+-- anyone can check the request's status through lookup_refill_status, so
+-- patients don't need to call or sign in to ask whether a refill is ready.
+--
+-- The code is derived from the request's idempotency key (the client's
+-- request ID), so the browser can show it even while the request waits in
+-- the offline outbox. Requests saved before this migration have no code.
+
+-- ============================================
+-- Confirmation codes
+-- ============================================
+-- 8 characters (40 bits) of the SHA-256 of the request ID, from an alphabet
+-- without 0/O and 1/I. Mirrors confirmationCodeFor in src/lib/confirmationCode.ts.
+CREATE OR REPLACE FUNCTION refill_confirmation_code(p_request_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  digest BYTEA := sha256(convert_to(p_request_id::text, 'UTF8'));
+  bits BIGINT := 0;
+  code TEXT := '';
+BEGIN
+  FOR i IN 0..4 LOOP
+    bits := (bits << 8) | get_byte(digest, i);
+  END LOOP;
+  FOR i IN REVERSE 7..0 LOOP
+    code := code || substr(alphabet, ((bits >> (i * 5)) & 31)::int + 1, 1);
+  END LOOP;
+  RETURN code;
+END;
+$$;
+
+ALTER TABLE refill_requests ADD COLUMN IF NOT EXISTS confirmation_code TEXT;
+-- Set once the confirmation email has been sent, so it is sent only once
+ALTER TABLE refill_requests ADD COLUMN IF NOT EXISTS confirmation_emailed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_refill_requests_confirmation_code ON refill_requests(confirmation_code);
+
+CREATE OR REPLACE FUNCTION set_refill_confirmation_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.confirmation_code := CASE
+    WHEN NEW.idempotency_key IS NOT NULL THEN refill_confirmation_code(NEW.idempotency_key)
+  END;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_refill_confirmation_code FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER refill_requests_confirmation_code
+  BEFORE INSERT ON refill_requests
+  FOR EACH ROW EXECUTE FUNCTION set_refill_confirmation_code();
+
+-- ============================================
+-- Lookup attempts
+-- ============================================
+-- Counted by the lookup rate limits; rows older than a day are pruned
+CREATE TABLE IF NOT EXISTS refill_status_lookups (
+  id BIGSERIAL PRIMARY KEY,
+  ip_address TEXT,
+  confirmation_code TEXT NOT NULL,
+  matched BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_refill_status_lookups_ip ON refill_status_lookups(ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_refill_status_lookups_code ON refill_status_lookups(confirmation_code, created_at);
+
+ALTER TABLE refill_status_lookups ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE refill_status_lookups FROM anon;
+REVOKE ALL ON TABLE refill_status_lookups FROM authenticated;
+
+-- ============================================
+-- lookup_refill_status RPC
+-- ============================================
+-- Public. Returns the request's current status, or no row when the code and
+-- date of birth don't match a request (whether the code exists is not
+-- revealed). Limited to 10 lookups per IP address in 10 minutes and 5
+-- mismatches per code in an hour, which keeps a known code's date of birth
+-- from being guessed.
+CREATE OR REPLACE FUNCTION lookup_refill_status(
+  p_confirmation_code TEXT,
+  p_dob DATE
+)
+RETURNS TABLE (
+  request_status request_status,
+  status_changed_at TIMESTAMP WITH TIME ZONE,
+  rejection_reason TEXT,
+  preferred_service service_preference,
+  submitted_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  client_ip TEXT := request_client_ip();
+  normalized_code TEXT := left(upper(regexp_replace(coalesce(p_confirmation_code, ''), '[^A-Za-z0-9]', '', 'g')), 16);
+  request refill_requests;
+  latest request_status_history;
+BEGIN
+  IF (
+    client_ip IS NOT NULL AND (
+      SELECT count(*) FROM refill_status_lookups l
+      WHERE l.ip_address = client_ip AND l.created_at > CURRENT_TIMESTAMP - INTERVAL '10 minutes'
+    ) >= 10
+  ) OR (
+    SELECT count(*) FROM refill_status_lookups l
+    WHERE l.confirmation_code = normalized_code AND NOT l.matched
+      AND l.created_at > CURRENT_TIMESTAMP - INTERVAL '1 hour'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many status checks. Please try again later.' USING ERRCODE = '54000';
+  END IF;
+
+  SELECT * INTO request FROM refill_requests r
+  WHERE r.confirmation_code = normalized_code AND r.dob = p_dob
+  ORDER BY r.created_at DESC
+  LIMIT 1;
+
+  DELETE FROM refill_status_lookups l WHERE l.created_at < CURRENT_TIMESTAMP - INTERVAL '1 day';
+  INSERT INTO refill_status_lookups (ip_address, confirmation_code, matched)
+  VALUES (client_ip, normalized_code, request.id IS NOT NULL);
+
+  IF request.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO latest FROM request_status_history h
+  WHERE h.request_type = 'refill' AND h.request_id = request.id
+  ORDER BY h.created_at DESC
+  LIMIT 1;
+
+  PERFORM record_audit_event('view', 'refill_requests', request.id::text, 'refill_status_lookup');
+
+  RETURN QUERY SELECT
+    request.status,
+    coalesce(latest.created_at, request.created_at),
+    CASE WHEN request.status = 'rejected' THEN latest.reason END,
+    request.preferred_service,
+    request.created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION lookup_refill_status TO anon, authenticated;
+
+-- ============================================
+-- claim_refill_confirmation RPC
+-- ============================================
+-- Used by the notify-patient function to email a new request's confirmation
+-- code. Only whoever submitted the request knows its request ID, and each
+-- request's email is claimed once, within a day of the request being saved.
+CREATE OR REPLACE FUNCTION claim_refill_confirmation(p_request_id UUID)
+RETURNS TABLE (
+  first_name TEXT,
+  email TEXT,
+  confirmation_code TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed refill_requests;
+BEGIN
+  UPDATE refill_requests r
+  SET confirmation_emailed_at = CURRENT_TIMESTAMP
+  WHERE r.idempotency_key = p_request_id
+    AND r.confirmation_emailed_at IS NULL
+    AND r.confirmation_code IS NOT NULL
+    AND r.email IS NOT NULL
+    AND r.created_at > CURRENT_TIMESTAMP - INTERVAL '1 day'
+  RETURNING * INTO claimed;
+
+  IF claimed.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM record_audit_event('view', 'refill_requests', claimed.id::text, 'notify_patient',
+    jsonb_build_object('purpose', 'refill_confirmation'));
+
+  RETURN QUERY SELECT claimed.first_name::text, claimed.email::text, claimed.confirmation_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_refill_confirmation TO anon, authenticated;
@@ -0,0 +1,111 @@
+-- ============================================
+-- Roll back 016_rpm_waitlist.sql
+-- ============================================
+DROP FUNCTION IF EXISTS convert_waitlist_entry(UUID, DATE);
+DROP FUNCTION IF EXISTS log_waitlist_contact_attempt(UUID, contact_method, contact_outcome, TEXT);
+DROP FUNCTION IF EXISTS advance_waitlist_status(UUID, waitlist_status);
+DROP FUNCTION IF EXISTS submit_waitlist_entry(
+  TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, rpm_device_interest, insurance_type
+);
+
+DROP TRIGGER IF EXISTS rpm_patients_audit ON rpm_patients;
+DROP TRIGGER IF EXISTS waitlist_contact_attempts_audit ON waitlist_contact_attempts;
+DROP TRIGGER IF EXISTS waitlist_entries_audit ON waitlist_entries;
+
+DROP TABLE IF EXISTS waitlist_contact_attempts;
+ALTER TABLE waitlist_entries DROP COLUMN IF EXISTS rpm_patient_id;
+DROP TABLE IF EXISTS rpm_patients;
+
+ALTER TABLE waitlist_entries DROP COLUMN IF EXISTS notes;
+ALTER TABLE waitlist_entries DROP COLUMN IF EXISTS insurance_type;
+ALTER TABLE waitlist_entries DROP COLUMN IF EXISTS device_interest;
+
+REVOKE UPDATE ON TABLE waitlist_entries FROM authenticated;
+GRANT UPDATE ON TABLE waitlist_entries TO authenticated;
+
+DROP TYPE IF EXISTS contact_outcome;
+DROP TYPE IF EXISTS contact_method;
+DROP TYPE IF EXISTS insurance_type;
+DROP TYPE IF EXISTS rpm_device_interest;
+
+-- ============================================
+-- get_audited_record
+-- ============================================
+-- Restores the version from 013_audit_events.sql.
+CREATE OR REPLACE FUNCTION get_audited_record(
+  p_table_name TEXT,
+  p_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  record JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view records' USING ERRCODE = '42501';
+  END IF;
+  -- The tables listed on the staff dashboard (ADMIN_TABLES in src/lib/adminTables.ts)
+  IF p_table_name NOT IN (
+    'contact_messages', 'waitlist_entries', 'refill_requests', 'transfer_requests',
+    'inbound_transfer_requests', 'splash_modal_submissions', 'submission_rejections', 'audit_events'
+  ) THEN
+    RAISE EXCEPTION 'Unknown table %', p_table_name USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = %L', p_table_name, p_id) INTO record;
+
+  IF record IS NOT NULL AND p_table_name <> 'audit_events' THEN
+    PERFORM record_audit_event('view', p_table_name, p_id, 'admin_dashboard');
+  END IF;
+  RETURN record;
+END;
+$$;
+
+-- ============================================
+-- submit_waitlist_entry RPC
+-- ============================================
+-- Restores the version from 012_submission_abuse_protection.sql.
+CREATE OR REPLACE FUNCTION submit_waitlist_entry(
+  p_name TEXT,
+  p_email TEXT,
+  p_phone TEXT,
+  p_honeypot TEXT,
+  p_elapsed_ms INTEGER,
+  p_challenge_token TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry_id UUID;
+BEGIN
+  PERFORM validate_required(p_name, 'Name is required');
+  PERFORM validate_email(p_email);
+  PERFORM validate_phone(p_phone);
+
+  -- Rejected attempts are logged in submission_rejections and return NULL
+  IF NOT screen_submission('waitlist', p_email, p_honeypot, p_elapsed_ms, p_challenge_token) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO waitlist_entries (name, email, phone)
+  VALUES (trim(p_name), p_email, p_phone)
+  ON CONFLICT (email) DO NOTHING
+  RETURNING id INTO entry_id;
+
+  -- A repeat signup returns the existing entry. Anyone can call this with
+  -- someone else's email, so it never changes the details already on file.
+  IF entry_id IS NULL THEN
+    SELECT id INTO entry_id FROM waitlist_entries WHERE email = p_email;
+  END IF;
+
+  RETURN entry_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_waitlist_entry TO anon, authenticated;
@@ -0,0 +1,327 @@
+-- ============================================
+-- RPM waitlist management
+-- ============================================
+-- Staff work the Remote Patient Monitoring waitlist from /admin:
+--   * the waitlist form captures device interest and insurance type for triage
+--   * entries move active → contacted → enrolled through advance_waitlist_status
+--     (mirrors WAITLIST_STATUS_TRANSITIONS in src/lib/waitlist.ts)
+--   * staff keep notes on an entry and log each contact attempt
+--   * an enrolled entry is converted into an rpm_patients record
+CREATE TYPE rpm_device_interest AS ENUM ('blood_pressure', 'glucose', 'both');
+CREATE TYPE insurance_type AS ENUM (
+  'medicare',
+  'medicare_advantage',
+  'medicaid',
+  'commercial',
+  'uninsured',
+  'other'
+);
+CREATE TYPE contact_method AS ENUM ('phone', 'sms', 'email');
+CREATE TYPE contact_outcome AS ENUM ('reached', 'left_message', 'no_answer', 'wrong_number', 'declined');
+
+ALTER TABLE waitlist_entries ADD COLUMN IF NOT EXISTS device_interest rpm_device_interest;
+ALTER TABLE waitlist_entries ADD COLUMN IF NOT EXISTS insurance_type insurance_type;
+ALTER TABLE waitlist_entries ADD COLUMN IF NOT EXISTS notes TEXT;
+
+-- Staff may edit notes directly; status changes go through advance_waitlist_status
+REVOKE UPDATE ON TABLE waitlist_entries FROM authenticated;
+GRANT UPDATE (notes, updated_at) ON TABLE waitlist_entries TO authenticated;
+
+-- ============================================
+-- RPM Patients Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS rpm_patients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  first_name TEXT,
+  middle_name TEXT,
+  last_name TEXT NOT NULL,
+  suffix TEXT,
+  dob DATE NOT NULL,
+  phone VARCHAR(30) NOT NULL,
+  email VARCHAR(255),
+  device_interest rpm_device_interest,
+  insurance_type insurance_type,
+  enrolled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_rpm_patients_created_at ON rpm_patients(created_at);
+
+-- Set when the entry is converted; an entry converts once
+ALTER TABLE waitlist_entries
+  ADD COLUMN IF NOT EXISTS rpm_patient_id UUID UNIQUE REFERENCES rpm_patients(id) ON DELETE SET NULL;
+
+ALTER TABLE rpm_patients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read" ON rpm_patients FOR SELECT TO authenticated USING (is_staff());
+
+REVOKE ALL ON TABLE rpm_patients FROM anon;
+REVOKE ALL ON TABLE rpm_patients FROM authenticated;
+GRANT SELECT ON TABLE rpm_patients TO authenticated;
+
+-- ============================================
+-- Waitlist Contact Attempts Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS waitlist_contact_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  waitlist_entry_id UUID NOT NULL REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+  method contact_method NOT NULL,
+  outcome contact_outcome NOT NULL,
+  note TEXT,
+  attempted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_contact_attempts_entry
+  ON waitlist_contact_attempts(waitlist_entry_id, created_at);
+
+ALTER TABLE waitlist_contact_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read" ON waitlist_contact_attempts FOR SELECT TO authenticated USING (is_staff());
+
+REVOKE ALL ON TABLE waitlist_contact_attempts FROM anon;
+REVOKE ALL ON TABLE waitlist_contact_attempts FROM authenticated;
+GRANT SELECT ON TABLE waitlist_contact_attempts TO authenticated;
+
+-- ============================================
+-- Audit
+-- ============================================
+CREATE TRIGGER waitlist_entries_audit
+  AFTER INSERT OR UPDATE OR DELETE ON waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER waitlist_contact_attempts_audit
+  AFTER INSERT OR UPDATE OR DELETE ON waitlist_contact_attempts
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER rpm_patients_audit
+  AFTER INSERT OR UPDATE OR DELETE ON rpm_patients
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- Replaces the version from 013_audit_events.sql, adding rpm_patients
+CREATE OR REPLACE FUNCTION get_audited_record(
+  p_table_name TEXT,
+  p_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  record JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view records' USING ERRCODE = '42501';
+  END IF;
+  -- The tables listed on the staff dashboard (ADMIN_TABLES in src/lib/adminTables.ts)
+  IF p_table_name NOT IN (
+    'contact_messages', 'waitlist_entries', 'refill_requests', 'transfer_requests',
+    'inbound_transfer_requests', 'splash_modal_submissions', 'submission_rejections', 'audit_events',
+    'rpm_patients'
+  ) THEN
+    RAISE EXCEPTION 'Unknown table %', p_table_name USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = %L', p_table_name, p_id) INTO record;
+
+  IF record IS NOT NULL AND p_table_name <> 'audit_events' THEN
+    PERFORM record_audit_event('view', p_table_name, p_id, 'admin_dashboard');
+  END IF;
+  RETURN record;
+END;
+$$;
+
+-- ============================================
+-- submit_waitlist_entry RPC
+-- ============================================
+-- Replaces the version from 012_submission_abuse_protection.sql, adding the
+-- triage answers. They default to NULL so pages loaded before this migration
+-- can still submit.
+DROP FUNCTION IF EXISTS submit_waitlist_entry(TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION submit_waitlist_entry(
+  p_name TEXT,
+  p_email TEXT,
+  p_phone TEXT,
+  p_honeypot TEXT,
+  p_elapsed_ms INTEGER,
+  p_challenge_token TEXT DEFAULT NULL,
+  p_device_interest rpm_device_interest DEFAULT NULL,
+  p_insurance_type insurance_type DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry_id UUID;
+BEGIN
+  PERFORM validate_required(p_name, 'Name is required');
+  PERFORM validate_email(p_email);
+  PERFORM validate_phone(p_phone);
+
+  -- Rejected attempts are logged in submission_rejections and return NULL
+  IF NOT screen_submission('waitlist', p_email, p_honeypot, p_elapsed_ms, p_challenge_token) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO waitlist_entries (name, email, phone, device_interest, insurance_type)
+  VALUES (trim(p_name), p_email, p_phone, p_device_interest, p_insurance_type)
+  ON CONFLICT (email) DO NOTHING
+  RETURNING id INTO entry_id;
+
+  -- A repeat signup returns the existing entry. Anyone can call this with
+  -- someone else's email, so it never changes the details already on file.
+  IF entry_id IS NULL THEN
+    SELECT id INTO entry_id FROM waitlist_entries WHERE email = p_email;
+  END IF;
+
+  RETURN entry_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_waitlist_entry TO anon, authenticated;
+
+-- ============================================
+-- advance_waitlist_status RPC
+-- ============================================
+-- Staff-only. active → contacted | enrolled, contacted → active | enrolled;
+-- enrolled is final.
+CREATE OR REPLACE FUNCTION advance_waitlist_status(
+  p_entry_id UUID,
+  p_status waitlist_status
+)
+RETURNS waitlist_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_status waitlist_status;
+  entry waitlist_entries;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can update the waitlist' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT status INTO current_status FROM waitlist_entries WHERE id = p_entry_id FOR UPDATE;
+
+  IF current_status IS NULL THEN
+    RAISE EXCEPTION 'Waitlist entry % not found', p_entry_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (
+    (current_status = 'active' AND p_status IN ('contacted', 'enrolled')) OR
+    (current_status = 'contacted' AND p_status IN ('active', 'enrolled'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot move a waitlist entry from % to %', current_status, p_status USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE waitlist_entries SET status = p_status, updated_at = CURRENT_TIMESTAMP
+  WHERE id = p_entry_id
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION advance_waitlist_status TO authenticated;
+
+-- ============================================
+-- log_waitlist_contact_attempt RPC
+-- ============================================
+CREATE OR REPLACE FUNCTION log_waitlist_contact_attempt(
+  p_entry_id UUID,
+  p_method contact_method,
+  p_outcome contact_outcome,
+  p_note TEXT
+)
+RETURNS waitlist_contact_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt waitlist_contact_attempts;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can update the waitlist' USING ERRCODE = '42501';
+  END IF;
+  IF p_method IS NULL OR p_outcome IS NULL THEN
+    RAISE EXCEPTION 'Contact method and outcome are required' USING ERRCODE = '22023';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM waitlist_entries WHERE id = p_entry_id) THEN
+    RAISE EXCEPTION 'Waitlist entry % not found', p_entry_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO waitlist_contact_attempts (waitlist_entry_id, method, outcome, note, attempted_by)
+  VALUES (p_entry_id, p_method, p_outcome, NULLIF(trim(p_note), ''), auth.uid())
+  RETURNING * INTO attempt;
+
+  RETURN attempt;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION log_waitlist_contact_attempt TO authenticated;
+
+-- ============================================
+-- convert_waitlist_entry RPC
+-- ============================================
+-- Staff-only. Creates the RPM patient record for an enrolled entry, with the
+-- name split into parts (parse_patient_name) and the date of birth staff
+-- collected while enrolling the patient. Returns the new patient's id.
+CREATE OR REPLACE FUNCTION convert_waitlist_entry(
+  p_entry_id UUID,
+  p_dob DATE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry waitlist_entries;
+  name_parts RECORD;
+  patient_id UUID;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can enroll RPM patients' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO entry FROM waitlist_entries WHERE id = p_entry_id FOR UPDATE;
+
+  IF entry.id IS NULL THEN
+    RAISE EXCEPTION 'Waitlist entry % not found', p_entry_id USING ERRCODE = 'P0002';
+  END IF;
+  IF entry.status <> 'enrolled' THEN
+    RAISE EXCEPTION 'Only enrolled waitlist entries can be converted' USING ERRCODE = '22023';
+  END IF;
+  IF entry.rpm_patient_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This waitlist entry is already an RPM patient' USING ERRCODE = '22023';
+  END IF;
+  IF p_dob IS NULL OR p_dob > CURRENT_DATE THEN
+    RAISE EXCEPTION 'A valid date of birth is required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO name_parts FROM parse_patient_name(entry.name);
+
+  INSERT INTO rpm_patients (
+    first_name, middle_name, last_name, suffix, dob, phone, email,
+    device_interest, insurance_type, enrolled_by
+  ) VALUES (
+    name_parts.first_name, name_parts.middle_name, coalesce(name_parts.last_name, trim(entry.name)), name_parts.suffix,
+    p_dob, entry.phone, entry.email, entry.device_interest, entry.insurance_type, auth.uid()
+  )
+  RETURNING id INTO patient_id;
+
+  UPDATE waitlist_entries SET rpm_patient_id = patient_id, updated_at = CURRENT_TIMESTAMP
+  WHERE id = p_entry_id;
+
+  RETURN patient_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION convert_waitlist_entry TO authenticated;
@@ -0,0 +1,63 @@
+-- ============================================
+-- Roll back 017_rpm_readings.sql
+-- ============================================
+DROP VIEW IF EXISTS rpm_monthly_minutes;
+DROP VIEW IF EXISTS rpm_review_queue;
+
+DROP FUNCTION IF EXISTS log_rpm_minutes(UUID, rpm_activity, INTEGER, DATE, TEXT);
+DROP FUNCTION IF EXISTS review_rpm_reading(UUID, TEXT, INTEGER);
+DROP FUNCTION IF EXISTS ingest_rpm_readings(TEXT, JSONB);
+DROP FUNCTION IF EXISTS set_rpm_device_active(UUID, BOOLEAN);
+DROP FUNCTION IF EXISTS register_rpm_device(UUID, rpm_reading_type, TEXT, TEXT);
+DROP FUNCTION IF EXISTS set_rpm_alert_thresholds(
+  UUID, SMALLINT, SMALLINT, SMALLINT, SMALLINT, SMALLINT, SMALLINT, SMALLINT, SMALLINT
+);
+
+DROP TABLE IF EXISTS rpm_time_entries;
+DROP TABLE IF EXISTS rpm_readings;
+DROP TABLE IF EXISTS rpm_alert_thresholds;
+DROP TABLE IF EXISTS rpm_devices;
+
+DROP FUNCTION IF EXISTS set_rpm_reading_alerts();
+DROP FUNCTION IF EXISTS rpm_effective_thresholds(UUID);
+
+DROP TYPE IF EXISTS rpm_activity;
+DROP TYPE IF EXISTS glucose_context;
+DROP TYPE IF EXISTS rpm_reading_type;
+
+-- ============================================
+-- get_audited_record
+-- ============================================
+-- Restores the version from 016_rpm_waitlist.sql.
+CREATE OR REPLACE FUNCTION get_audited_record(
+  p_table_name TEXT,
+  p_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  record JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view records' USING ERRCODE = '42501';
+  END IF;
+  -- The tables listed on the staff dashboard (ADMIN_TABLES in src/lib/adminTables.ts)
+  IF p_table_name NOT IN (
+    'contact_messages', 'waitlist_entries', 'refill_requests', 'transfer_requests',
+    'inbound_transfer_requests', 'splash_modal_submissions', 'submission_rejections', 'audit_events',
+    'rpm_patients'
+  ) THEN
+    RAISE EXCEPTION 'Unknown table %', p_table_name USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = %L', p_table_name, p_id) INTO record;
+
+  IF record IS NOT NULL AND p_table_name <> 'audit_events' THEN
+    PERFORM record_audit_event('view', p_table_name, p_id, 'admin_dashboard');
+  END IF;
+  RETURN record;
+END;
+$$;
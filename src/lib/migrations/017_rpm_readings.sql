@@ -0,0 +1,602 @@
+-- ============================================
+-- RPM device readings and pharmacist review
+-- ============================================
+-- Enrolled RPM patients (016_rpm_waitlist.sql) send blood pressure and glucose
+-- readings from their devices:
+--   * staff register each device's serial number to a patient
+--   * the rpm-ingest function (src/lib/rpmIngest.ts) stores readings through
+--     ingest_rpm_readings, which only the service role can call
+--   * each reading is checked against the alert thresholds (a clinic default,
+--     optionally overridden per patient) when it is stored
+--   * out-of-range readings wait in rpm_review_queue until a pharmacist reviews them
+--   * staff log the minutes they spend monitoring; rpm_monthly_minutes totals
+--     them with the days that had readings, for billing
+CREATE TYPE rpm_reading_type AS ENUM ('blood_pressure', 'glucose');
+CREATE TYPE glucose_context AS ENUM ('fasting', 'before_meal', 'after_meal', 'bedtime', 'random');
+CREATE TYPE rpm_activity AS ENUM ('reading_review', 'patient_call', 'care_coordination');
+
+-- ============================================
+-- RPM Devices Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS rpm_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rpm_patient_id UUID NOT NULL REFERENCES rpm_patients(id) ON DELETE CASCADE,
+  device_type rpm_reading_type NOT NULL,
+  vendor TEXT,
+  serial_number TEXT NOT NULL UNIQUE,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_rpm_devices_patient ON rpm_devices(rpm_patient_id);
+
+-- ============================================
+-- RPM Alert Thresholds Table
+-- ============================================
+-- The row without a patient is the clinic default. A patient's row overrides
+-- the default column by column; NULL inherits it. A NULL default means no limit.
+-- Readings at or beyond a limit are flagged.
+CREATE TABLE IF NOT EXISTS rpm_alert_thresholds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rpm_patient_id UUID UNIQUE REFERENCES rpm_patients(id) ON DELETE CASCADE,
+  systolic_high SMALLINT,
+  systolic_low SMALLINT,
+  diastolic_high SMALLINT,
+  diastolic_low SMALLINT,
+  pulse_high SMALLINT,
+  pulse_low SMALLINT,
+  glucose_high SMALLINT,
+  glucose_low SMALLINT,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (systolic_low < systolic_high),
+  CHECK (diastolic_low < diastolic_high),
+  CHECK (pulse_low < pulse_high),
+  CHECK (glucose_low < glucose_high)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rpm_alert_thresholds_default
+  ON rpm_alert_thresholds ((rpm_patient_id IS NULL)) WHERE rpm_patient_id IS NULL;
+
+INSERT INTO rpm_alert_thresholds (
+  systolic_high, systolic_low, diastolic_high, diastolic_low,
+  pulse_high, pulse_low, glucose_high, glucose_low
+) VALUES (180, 90, 110, 60, 120, 50, 300, 70);
+
+-- ============================================
+-- RPM Readings Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS rpm_readings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rpm_patient_id UUID NOT NULL REFERENCES rpm_patients(id) ON DELETE CASCADE,
+  device_id UUID REFERENCES rpm_devices(id) ON DELETE SET NULL,
+  reading_type rpm_reading_type NOT NULL,
+  measured_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  systolic SMALLINT CHECK (systolic BETWEEN 40 AND 300),
+  diastolic SMALLINT CHECK (diastolic BETWEEN 20 AND 200),
+  pulse SMALLINT CHECK (pulse BETWEEN 20 AND 250),
+  glucose_mg_dl SMALLINT CHECK (glucose_mg_dl BETWEEN 10 AND 800),
+  glucose_context glucose_context,
+  -- Set on insert by set_rpm_reading_alerts, e.g. {systolic_high}
+  alert_flags TEXT[] NOT NULL DEFAULT '{}',
+  flagged BOOLEAN GENERATED ALWAYS AS (cardinality(alert_flags) > 0) STORED,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (
+    (reading_type = 'blood_pressure' AND systolic IS NOT NULL AND diastolic IS NOT NULL AND glucose_mg_dl IS NULL) OR
+    (reading_type = 'glucose' AND glucose_mg_dl IS NOT NULL AND systolic IS NULL AND diastolic IS NULL)
+  ),
+  -- A device resending a reading does not store it twice
+  UNIQUE (rpm_patient_id, reading_type, measured_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rpm_readings_patient_measured ON rpm_readings(rpm_patient_id, measured_at);
+CREATE INDEX IF NOT EXISTS idx_rpm_readings_created_at ON rpm_readings(created_at);
+CREATE INDEX IF NOT EXISTS idx_rpm_readings_unreviewed ON rpm_readings(measured_at)
+  WHERE flagged AND reviewed_at IS NULL;
+
+-- ============================================
+-- RPM Time Entries Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS rpm_time_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rpm_patient_id UUID NOT NULL REFERENCES rpm_patients(id) ON DELETE CASCADE,
+  reading_id UUID REFERENCES rpm_readings(id) ON DELETE SET NULL,
+  activity rpm_activity NOT NULL,
+  minutes SMALLINT NOT NULL CHECK (minutes BETWEEN 1 AND 120),
+  service_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  staff_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_rpm_time_entries_patient_date ON rpm_time_entries(rpm_patient_id, service_date);
+
+-- ============================================
+-- Row Level Security
+-- ============================================
+ALTER TABLE rpm_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rpm_alert_thresholds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rpm_readings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rpm_time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read" ON rpm_devices FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON rpm_alert_thresholds FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON rpm_readings FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON rpm_time_entries FOR SELECT TO authenticated USING (is_staff());
+
+REVOKE ALL ON TABLE rpm_devices, rpm_alert_thresholds, rpm_readings, rpm_time_entries FROM anon;
+REVOKE ALL ON TABLE rpm_devices, rpm_alert_thresholds, rpm_readings, rpm_time_entries FROM authenticated;
+GRANT SELECT ON TABLE rpm_devices, rpm_alert_thresholds, rpm_readings, rpm_time_entries TO authenticated;
+
+-- ============================================
+-- Audit
+-- ============================================
+CREATE TRIGGER rpm_devices_audit
+  AFTER INSERT OR UPDATE OR DELETE ON rpm_devices
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER rpm_alert_thresholds_audit
+  AFTER INSERT OR UPDATE OR DELETE ON rpm_alert_thresholds
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER rpm_readings_audit
+  AFTER INSERT OR UPDATE OR DELETE ON rpm_readings
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER rpm_time_entries_audit
+  AFTER INSERT OR UPDATE OR DELETE ON rpm_time_entries
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- Replaces the version from 016_rpm_waitlist.sql, adding rpm_readings
+CREATE OR REPLACE FUNCTION get_audited_record(
+  p_table_name TEXT,
+  p_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  record JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view records' USING ERRCODE = '42501';
+  END IF;
+  -- The tables listed on the staff dashboard (ADMIN_TABLES in src/lib/adminTables.ts)
+  IF p_table_name NOT IN (
+    'contact_messages', 'waitlist_entries', 'refill_requests', 'transfer_requests',
+    'inbound_transfer_requests', 'splash_modal_submissions', 'submission_rejections', 'audit_events',
+    'rpm_patients', 'rpm_readings'
+  ) THEN
+    RAISE EXCEPTION 'Unknown table %', p_table_name USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = %L', p_table_name, p_id) INTO record;
+
+  IF record IS NOT NULL AND p_table_name <> 'audit_events' THEN
+    PERFORM record_audit_event('view', p_table_name, p_id, 'admin_dashboard');
+  END IF;
+  RETURN record;
+END;
+$$;
+
+-- ============================================
+-- Alert thresholds
+-- ============================================
+-- The limits that apply to a patient: their overrides, falling back to the clinic default
+CREATE OR REPLACE FUNCTION rpm_effective_thresholds(p_patient_id UUID)
+RETURNS TABLE (
+  systolic_high SMALLINT,
+  systolic_low SMALLINT,
+  diastolic_high SMALLINT,
+  diastolic_low SMALLINT,
+  pulse_high SMALLINT,
+  pulse_low SMALLINT,
+  glucose_high SMALLINT,
+  glucose_low SMALLINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    coalesce(o.systolic_high, d.systolic_high),
+    coalesce(o.systolic_low, d.systolic_low),
+    coalesce(o.diastolic_high, d.diastolic_high),
+    coalesce(o.diastolic_low, d.diastolic_low),
+    coalesce(o.pulse_high, d.pulse_high),
+    coalesce(o.pulse_low, d.pulse_low),
+    coalesce(o.glucose_high, d.glucose_high),
+    coalesce(o.glucose_low, d.glucose_low)
+  FROM rpm_alert_thresholds d
+  LEFT JOIN rpm_alert_thresholds o ON o.rpm_patient_id = p_patient_id
+  WHERE d.rpm_patient_id IS NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION rpm_effective_thresholds TO authenticated;
+
+CREATE OR REPLACE FUNCTION set_rpm_reading_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  limits RECORD;
+  flags TEXT[] := '{}';
+BEGIN
+  SELECT * INTO limits FROM rpm_effective_thresholds(NEW.rpm_patient_id);
+
+  IF NEW.reading_type = 'blood_pressure' THEN
+    IF NEW.systolic >= limits.systolic_high THEN flags := array_append(flags, 'systolic_high'); END IF;
+    IF NEW.systolic <= limits.systolic_low THEN flags := array_append(flags, 'systolic_low'); END IF;
+    IF NEW.diastolic >= limits.diastolic_high THEN flags := array_append(flags, 'diastolic_high'); END IF;
+    IF NEW.diastolic <= limits.diastolic_low THEN flags := array_append(flags, 'diastolic_low'); END IF;
+    IF NEW.pulse >= limits.pulse_high THEN flags := array_append(flags, 'pulse_high'); END IF;
+    IF NEW.pulse <= limits.pulse_low THEN flags := array_append(flags, 'pulse_low'); END IF;
+  ELSE
+    IF NEW.glucose_mg_dl >= limits.glucose_high THEN flags := array_append(flags, 'glucose_high'); END IF;
+    IF NEW.glucose_mg_dl <= limits.glucose_low THEN flags := array_append(flags, 'glucose_low'); END IF;
+  END IF;
+
+  NEW.alert_flags := flags;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rpm_readings_alerts
+  BEFORE INSERT ON rpm_readings
+  FOR EACH ROW EXECUTE FUNCTION set_rpm_reading_alerts();
+
+-- ============================================
+-- set_rpm_alert_thresholds RPC
+-- ============================================
+-- Staff-only. p_patient_id NULL updates the clinic default; otherwise it saves
+-- the patient's overrides, and all-NULL limits remove them. An omitted limit is
+-- NULL. Applies to readings stored from now on.
+CREATE OR REPLACE FUNCTION set_rpm_alert_thresholds(
+  p_patient_id UUID DEFAULT NULL,
+  p_systolic_high SMALLINT DEFAULT NULL,
+  p_systolic_low SMALLINT DEFAULT NULL,
+  p_diastolic_high SMALLINT DEFAULT NULL,
+  p_diastolic_low SMALLINT DEFAULT NULL,
+  p_pulse_high SMALLINT DEFAULT NULL,
+  p_pulse_low SMALLINT DEFAULT NULL,
+  p_glucose_high SMALLINT DEFAULT NULL,
+  p_glucose_low SMALLINT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can change alert thresholds' USING ERRCODE = '42501';
+  END IF;
+  IF p_systolic_low >= p_systolic_high OR p_diastolic_low >= p_diastolic_high OR
+     p_pulse_low >= p_pulse_high OR p_glucose_low >= p_glucose_high THEN
+    RAISE EXCEPTION 'Each low limit must be below its high limit' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_patient_id IS NULL THEN
+    UPDATE rpm_alert_thresholds
+    SET systolic_high = p_systolic_high, systolic_low = p_systolic_low,
+        diastolic_high = p_diastolic_high, diastolic_low = p_diastolic_low,
+        pulse_high = p_pulse_high, pulse_low = p_pulse_low,
+        glucose_high = p_glucose_high, glucose_low = p_glucose_low,
+        updated_by = auth.uid(), updated_at = CURRENT_TIMESTAMP
+    WHERE rpm_patient_id IS NULL;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM rpm_patients WHERE id = p_patient_id) THEN
+    RAISE EXCEPTION 'RPM patient % not found', p_patient_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF num_nonnulls(p_systolic_high, p_systolic_low, p_diastolic_high, p_diastolic_low,
+                  p_pulse_high, p_pulse_low, p_glucose_high, p_glucose_low) = 0 THEN
+    DELETE FROM rpm_alert_thresholds WHERE rpm_patient_id = p_patient_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO rpm_alert_thresholds (
+    rpm_patient_id, systolic_high, systolic_low, diastolic_high, diastolic_low,
+    pulse_high, pulse_low, glucose_high, glucose_low, updated_by
+  ) VALUES (
+    p_patient_id, p_systolic_high, p_systolic_low, p_diastolic_high, p_diastolic_low,
+    p_pulse_high, p_pulse_low, p_glucose_high, p_glucose_low, auth.uid()
+  )
+  ON CONFLICT (rpm_patient_id) DO UPDATE
+    SET systolic_high = EXCLUDED.systolic_high, systolic_low = EXCLUDED.systolic_low,
+        diastolic_high = EXCLUDED.diastolic_high, diastolic_low = EXCLUDED.diastolic_low,
+        pulse_high = EXCLUDED.pulse_high, pulse_low = EXCLUDED.pulse_low,
+        glucose_high = EXCLUDED.glucose_high, glucose_low = EXCLUDED.glucose_low,
+        updated_by = EXCLUDED.updated_by, updated_at = CURRENT_TIMESTAMP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_rpm_alert_thresholds TO authenticated;
+
+-- ============================================
+-- Devices
+-- ============================================
+-- Staff-only. Registers a device serial number to a patient; readings from it
+-- are then stored for that patient.
+CREATE OR REPLACE FUNCTION register_rpm_device(
+  p_patient_id UUID,
+  p_device_type rpm_reading_type,
+  p_vendor TEXT,
+  p_serial_number TEXT
+)
+RETURNS rpm_devices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  device rpm_devices;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can register RPM devices' USING ERRCODE = '42501';
+  END IF;
+  PERFORM validate_required(p_serial_number, 'Serial number is required');
+  IF NOT EXISTS (SELECT 1 FROM rpm_patients WHERE id = p_patient_id) THEN
+    RAISE EXCEPTION 'RPM patient % not found', p_patient_id USING ERRCODE = 'P0002';
+  END IF;
+  IF EXISTS (SELECT 1 FROM rpm_devices WHERE serial_number = trim(p_serial_number)) THEN
+    RAISE EXCEPTION 'Device % is already registered', trim(p_serial_number) USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO rpm_devices (rpm_patient_id, device_type, vendor, serial_number)
+  VALUES (p_patient_id, p_device_type, NULLIF(trim(p_vendor), ''), trim(p_serial_number))
+  RETURNING * INTO device;
+
+  RETURN device;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION register_rpm_device TO authenticated;
+
+-- Staff-only. Readings from an inactive device are rejected.
+CREATE OR REPLACE FUNCTION set_rpm_device_active(
+  p_device_id UUID,
+  p_active BOOLEAN
+)
+RETURNS rpm_devices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  device rpm_devices;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can change RPM devices' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE rpm_devices SET active = p_active, updated_at = CURRENT_TIMESTAMP
+  WHERE id = p_device_id
+  RETURNING * INTO device;
+
+  IF device.id IS NULL THEN
+    RAISE EXCEPTION 'Device % not found', p_device_id USING ERRCODE = 'P0002';
+  END IF;
+  RETURN device;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_rpm_device_active TO authenticated;
+
+-- ============================================
+-- ingest_rpm_readings RPC
+-- ============================================
+-- Service role only (the rpm-ingest function). Stores a batch of readings from
+-- one registered, active device. Each reading is a JSON object with type,
+-- measured_at and either systolic / diastolic (and optionally pulse) or
+-- glucose_mg_dl (and optionally glucose_context). Resent readings are skipped.
+-- Returns {"accepted", "duplicates", "flagged"} counts.
+CREATE OR REPLACE FUNCTION ingest_rpm_readings(
+  p_serial_number TEXT,
+  p_readings JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  device rpm_devices;
+  reading JSONB;
+  stored rpm_readings;
+  accepted_count INTEGER := 0;
+  duplicate_count INTEGER := 0;
+  flagged_count INTEGER := 0;
+BEGIN
+  SELECT * INTO device FROM rpm_devices WHERE serial_number = p_serial_number;
+
+  IF device.id IS NULL THEN
+    RAISE EXCEPTION 'Unknown device %', p_serial_number USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT device.active THEN
+    RAISE EXCEPTION 'Device % is inactive', p_serial_number USING ERRCODE = '22023';
+  END IF;
+  IF jsonb_typeof(p_readings) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Readings must be an array' USING ERRCODE = '22023';
+  END IF;
+
+  FOR reading IN SELECT * FROM jsonb_array_elements(p_readings) LOOP
+    IF reading->>'type' IS DISTINCT FROM device.device_type::TEXT THEN
+      RAISE EXCEPTION 'Device % only sends % readings', p_serial_number, device.device_type USING ERRCODE = '22023';
+    END IF;
+
+    stored := NULL;
+    INSERT INTO rpm_readings (
+      rpm_patient_id, device_id, reading_type, measured_at,
+      systolic, diastolic, pulse, glucose_mg_dl, glucose_context
+    ) VALUES (
+      device.rpm_patient_id, device.id, device.device_type, (reading->>'measured_at')::TIMESTAMPTZ,
+      (reading->>'systolic')::SMALLINT, (reading->>'diastolic')::SMALLINT, (reading->>'pulse')::SMALLINT,
+      (reading->>'glucose_mg_dl')::SMALLINT, (reading->>'glucose_context')::glucose_context
+    )
+    ON CONFLICT (rpm_patient_id, reading_type, measured_at) DO NOTHING
+    RETURNING * INTO stored;
+
+    IF stored.id IS NULL THEN
+      duplicate_count := duplicate_count + 1;
+    ELSE
+      accepted_count := accepted_count + 1;
+      IF stored.flagged THEN
+        flagged_count := flagged_count + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('accepted', accepted_count, 'duplicates', duplicate_count, 'flagged', flagged_count);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION ingest_rpm_readings FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION ingest_rpm_readings TO service_role;
+
+-- ============================================
+-- Pharmacist review
+-- ============================================
+-- Flagged readings not yet reviewed, oldest first
+CREATE OR REPLACE VIEW rpm_review_queue
+WITH (security_invoker = true) AS
+SELECT
+  r.*,
+  p.first_name,
+  p.last_name,
+  p.dob,
+  p.phone
+FROM rpm_readings r
+JOIN rpm_patients p ON p.id = r.rpm_patient_id
+WHERE r.flagged AND r.reviewed_at IS NULL
+ORDER BY r.measured_at;
+
+-- Staff-only. Marks a reading reviewed; p_minutes > 0 also logs the review time.
+CREATE OR REPLACE FUNCTION review_rpm_reading(
+  p_reading_id UUID,
+  p_note TEXT,
+  p_minutes INTEGER DEFAULT 0
+)
+RETURNS rpm_readings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reading rpm_readings;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can review RPM readings' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO reading FROM rpm_readings WHERE id = p_reading_id FOR UPDATE;
+
+  IF reading.id IS NULL THEN
+    RAISE EXCEPTION 'Reading % not found', p_reading_id USING ERRCODE = 'P0002';
+  END IF;
+  IF reading.reviewed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This reading has already been reviewed' USING ERRCODE = '22023';
+  END IF;
+  IF p_minutes IS NOT NULL AND (p_minutes < 0 OR p_minutes > 120) THEN
+    RAISE EXCEPTION 'Review minutes must be between 0 and 120' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE rpm_readings
+  SET reviewed_at = CURRENT_TIMESTAMP, reviewed_by = auth.uid(), review_note = NULLIF(trim(p_note), '')
+  WHERE id = p_reading_id
+  RETURNING * INTO reading;
+
+  IF p_minutes > 0 THEN
+    INSERT INTO rpm_time_entries (rpm_patient_id, reading_id, activity, minutes, note, staff_id)
+    VALUES (reading.rpm_patient_id, reading.id, 'reading_review', p_minutes, reading.review_note, auth.uid());
+  END IF;
+
+  RETURN reading;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION review_rpm_reading TO authenticated;
+
+-- ============================================
+-- Monitoring minutes
+-- ============================================
+CREATE OR REPLACE FUNCTION log_rpm_minutes(
+  p_patient_id UUID,
+  p_activity rpm_activity,
+  p_minutes INTEGER,
+  p_service_date DATE,
+  p_note TEXT
+)
+RETURNS rpm_time_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry rpm_time_entries;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can log RPM minutes' USING ERRCODE = '42501';
+  END IF;
+  IF p_minutes IS NULL OR p_minutes < 1 OR p_minutes > 120 THEN
+    RAISE EXCEPTION 'Minutes must be between 1 and 120' USING ERRCODE = '22023';
+  END IF;
+  IF p_service_date IS NULL OR p_service_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'A service date on or before today is required' USING ERRCODE = '22023';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM rpm_patients WHERE id = p_patient_id) THEN
+    RAISE EXCEPTION 'RPM patient % not found', p_patient_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO rpm_time_entries (rpm_patient_id, activity, minutes, service_date, note, staff_id)
+  VALUES (p_patient_id, p_activity, p_minutes, p_service_date, NULLIF(trim(p_note), ''), auth.uid())
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION log_rpm_minutes TO authenticated;
+
+-- Monitoring minutes and days with readings per patient and calendar month,
+-- for billing (see RPM_BILLING in src/lib/rpm.ts). Reading days are counted in
+-- the pharmacy's time zone.
+CREATE OR REPLACE VIEW rpm_monthly_minutes
+WITH (security_invoker = true) AS
+WITH minutes AS (
+  SELECT rpm_patient_id, date_trunc('month', service_date)::DATE AS month, sum(minutes)::INTEGER AS minutes
+  FROM rpm_time_entries
+  GROUP BY 1, 2
+),
+reading_days AS (
+  SELECT
+    rpm_patient_id,
+    date_trunc('month', measured_at AT TIME ZONE 'America/New_York')::DATE AS month,
+    count(DISTINCT (measured_at AT TIME ZONE 'America/New_York')::DATE)::INTEGER AS reading_days,
+    count(*)::INTEGER AS readings
+  FROM rpm_readings
+  GROUP BY 1, 2
+)
+SELECT
+  coalesce(m.rpm_patient_id, d.rpm_patient_id) AS rpm_patient_id,
+  coalesce(m.month, d.month) AS month,
+  coalesce(m.minutes, 0) AS minutes,
+  coalesce(d.reading_days, 0) AS reading_days,
+  coalesce(d.readings, 0) AS readings
+FROM minutes m
+FULL JOIN reading_days d ON d.rpm_patient_id = m.rpm_patient_id AND d.month = m.month;
+
+REVOKE ALL ON TABLE rpm_review_queue, rpm_monthly_minutes FROM anon;
+REVOKE ALL ON TABLE rpm_review_queue, rpm_monthly_minutes FROM authenticated;
+GRANT SELECT ON TABLE rpm_review_queue, rpm_monthly_minutes TO authenticated;
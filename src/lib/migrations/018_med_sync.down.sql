@@ -0,0 +1,54 @@
+-- ============================================
+-- Roll back 018_med_sync.sql
+-- ============================================
+DROP FUNCTION IF EXISTS record_med_sync_fill(UUID, DATE, UUID, JSONB, TEXT, BOOLEAN, TEXT);
+DROP FUNCTION IF EXISTS med_sync_batch_enrollments(DATE);
+DROP FUNCTION IF EXISTS set_med_sync_status(UUID, med_sync_status);
+DROP FUNCTION IF EXISTS submit_med_sync_enrollment(
+  TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, INTEGER, service_preference, TEXT, BOOLEAN, TEXT, INTEGER, TEXT
+);
+DROP FUNCTION IF EXISTS validate_med_sync_medications(JSONB);
+DROP FUNCTION IF EXISTS json_count_between(JSONB, INTEGER, INTEGER);
+
+DROP TABLE IF EXISTS med_sync_fills;
+DROP TABLE IF EXISTS med_sync_enrollments;
+
+DROP TYPE IF EXISTS med_sync_fill_status;
+DROP TYPE IF EXISTS med_sync_status;
+
+-- ============================================
+-- get_audited_record
+-- ============================================
+-- Restores the version from 017_rpm_readings.sql.
+CREATE OR REPLACE FUNCTION get_audited_record(
+  p_table_name TEXT,
+  p_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  record JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view records' USING ERRCODE = '42501';
+  END IF;
+  -- The tables listed on the staff dashboard (ADMIN_TABLES in src/lib/adminTables.ts)
+  IF p_table_name NOT IN (
+    'contact_messages', 'waitlist_entries', 'refill_requests', 'transfer_requests',
+    'inbound_transfer_requests', 'splash_modal_submissions', 'submission_rejections', 'audit_events',
+    'rpm_patients', 'rpm_readings'
+  ) THEN
+    RAISE EXCEPTION 'Unknown table %', p_table_name USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = %L', p_table_name, p_id) INTO record;
+
+  IF record IS NOT NULL AND p_table_name <> 'audit_events' THEN
+    PERFORM record_audit_event('view', p_table_name, p_id, 'admin_dashboard');
+  END IF;
+  RETURN record;
+END;
+$$;
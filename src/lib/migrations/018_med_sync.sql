@@ -0,0 +1,426 @@
+-- ============================================
+-- Med Sync enrollment and monthly refill batches
+-- ============================================
+-- Patients enroll in Med Sync to have all their prescriptions refilled on the
+-- same day each month:
+--   * the enrollment form lists each medication with its quantity, days'
+--     supply and the days the patient has left, and a preferred sync day
+--   * staff activate the enrollment once a pharmacist has reviewed it
+--   * the scheduling engine (src/lib/medSync.ts) works out the short fills
+--     that bring every medication onto the sync day
+--   * on each sync day the med-sync-batch function (src/lib/medSyncBatch.ts)
+--     sends every due enrollment's fills to BestRX as one refill request and
+--     records it through record_med_sync_fill
+CREATE TYPE med_sync_status AS ENUM ('pending', 'active', 'cancelled');
+CREATE TYPE med_sync_fill_status AS ENUM ('sent', 'failed');
+
+-- ============================================
+-- Med Sync Enrollments Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS med_sync_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  first_name TEXT NOT NULL,
+  middle_name TEXT,
+  last_name TEXT NOT NULL,
+  suffix TEXT,
+  dob DATE NOT NULL,
+  phone TEXT NOT NULL,
+  email TEXT,
+  -- [{rxNumber, medicationName?, quantity, daysSupply, daysOnHand}]; days on
+  -- hand are as of supply_as_of
+  medications JSONB NOT NULL,
+  supply_as_of DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- Day of the month; at most 28 so every month has it
+  sync_day SMALLINT NOT NULL CHECK (sync_day BETWEEN 1 AND 28),
+  preferred_service service_preference NOT NULL,
+  notes TEXT,
+  consent BOOLEAN NOT NULL,
+  status med_sync_status NOT NULL DEFAULT 'pending',
+  activated_at TIMESTAMP WITH TIME ZONE,
+  -- The signed-in patient who enrolled, set by link_request_to_patient
+  patient_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_med_sync_enrollments_created_at ON med_sync_enrollments(created_at);
+CREATE INDEX IF NOT EXISTS idx_med_sync_enrollments_due ON med_sync_enrollments(sync_day) WHERE status = 'active';
+
+CREATE TRIGGER med_sync_enrollments_link_patient
+  BEFORE INSERT ON med_sync_enrollments
+  FOR EACH ROW EXECUTE FUNCTION link_request_to_patient();
+
+-- ============================================
+-- Med Sync Fills Table
+-- ============================================
+-- One row per enrollment and sync date: the batch sent to BestRX (and the
+-- refill request recording it), or why sending it failed
+CREATE TABLE IF NOT EXISTS med_sync_fills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  enrollment_id UUID NOT NULL REFERENCES med_sync_enrollments(id) ON DELETE CASCADE,
+  sync_date DATE NOT NULL,
+  status med_sync_fill_status NOT NULL,
+  message TEXT,
+  -- [{rxNumber, medicationName?, kind, days, quantity}]
+  prescriptions JSONB NOT NULL,
+  refill_request_id UUID REFERENCES refill_requests(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (enrollment_id, sync_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_med_sync_fills_sync_date ON med_sync_fills(sync_date);
+
+-- ============================================
+-- Row Level Security
+-- ============================================
+ALTER TABLE med_sync_enrollments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE med_sync_fills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read" ON med_sync_enrollments FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON med_sync_fills FOR SELECT TO authenticated USING (is_staff());
+
+REVOKE ALL ON TABLE med_sync_enrollments, med_sync_fills FROM anon;
+REVOKE ALL ON TABLE med_sync_enrollments, med_sync_fills FROM authenticated;
+GRANT SELECT ON TABLE med_sync_enrollments, med_sync_fills TO authenticated;
+
+-- ============================================
+-- Audit
+-- ============================================
+CREATE TRIGGER med_sync_enrollments_audit
+  AFTER INSERT OR UPDATE OR DELETE ON med_sync_enrollments
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE TRIGGER med_sync_fills_audit
+  AFTER INSERT OR UPDATE OR DELETE ON med_sync_fills
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- Replaces the version from 017_rpm_readings.sql, adding med_sync_enrollments
+CREATE OR REPLACE FUNCTION get_audited_record(
+  p_table_name TEXT,
+  p_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  record JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view records' USING ERRCODE = '42501';
+  END IF;
+  -- The tables listed on the staff dashboard (ADMIN_TABLES in src/lib/adminTables.ts)
+  IF p_table_name NOT IN (
+    'contact_messages', 'waitlist_entries', 'refill_requests', 'transfer_requests',
+    'inbound_transfer_requests', 'splash_modal_submissions', 'submission_rejections', 'audit_events',
+    'rpm_patients', 'rpm_readings', 'med_sync_enrollments'
+  ) THEN
+    RAISE EXCEPTION 'Unknown table %', p_table_name USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = %L', p_table_name, p_id) INTO record;
+
+  IF record IS NOT NULL AND p_table_name <> 'audit_events' THEN
+    PERFORM record_audit_event('view', p_table_name, p_id, 'admin_dashboard');
+  END IF;
+  RETURN record;
+END;
+$$;
+
+-- ============================================
+-- Validation
+-- ============================================
+-- True when p_value is a JSON whole number from p_low to p_high
+CREATE OR REPLACE FUNCTION json_count_between(p_value JSONB, p_low INTEGER, p_high INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_value::TEXT ~ '^[0-9]{1,4}$' THEN (p_value::TEXT)::INTEGER BETWEEN p_low AND p_high
+    ELSE false
+  END;
+$$;
+
+-- Same limits as MedSyncMedicationSchema in src/lib/schemas.ts
+CREATE OR REPLACE FUNCTION validate_med_sync_medications(p_medications JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  PERFORM validate_prescriptions(p_medications);
+  IF jsonb_array_length(p_medications) > 15 THEN
+    RAISE EXCEPTION 'Enroll at most 15 medications' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_medications) AS med
+    WHERE NOT json_count_between(med -> 'quantity', 1, 1000)
+  ) THEN
+    RAISE EXCEPTION 'Quantity must be a whole number from 1 to 1000' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_medications) AS med
+    WHERE NOT json_count_between(med -> 'daysSupply', 1, 90)
+  ) THEN
+    RAISE EXCEPTION 'Days supply must be a whole number from 1 to 90' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_medications) AS med
+    WHERE NOT json_count_between(med -> 'daysOnHand', 0, 90)
+  ) THEN
+    RAISE EXCEPTION 'Days on hand must be a whole number from 0 to 90' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION json_count_between, validate_med_sync_medications FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- submit_med_sync_enrollment RPC
+-- ============================================
+-- Public, screened like the other signup forms (012_submission_abuse_protection.sql):
+-- a rejected attempt is logged and returns NULL.
+CREATE OR REPLACE FUNCTION submit_med_sync_enrollment(
+  p_first_name TEXT,
+  p_middle_name TEXT,
+  p_last_name TEXT,
+  p_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_medications JSONB,
+  p_sync_day INTEGER,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_honeypot TEXT,
+  p_elapsed_ms INTEGER,
+  p_challenge_token TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  enrollment_id UUID;
+BEGIN
+  PERFORM validate_patient_name(p_first_name, p_last_name, p_suffix);
+  IF p_dob IS NULL THEN
+    RAISE EXCEPTION 'Date must be in YYYY-MM-DD format' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_phone(p_phone);
+  PERFORM validate_email(p_email, false);
+  PERFORM validate_med_sync_medications(p_medications);
+  IF p_sync_day IS NULL OR p_sync_day NOT BETWEEN 1 AND 28 THEN
+    RAISE EXCEPTION 'Sync day must be from 1 to 28' USING ERRCODE = '22023';
+  END IF;
+  IF p_preferred_service IS NULL THEN
+    RAISE EXCEPTION 'Preferred service is required' USING ERRCODE = '22023';
+  END IF;
+  IF p_consent IS NOT TRUE THEN
+    RAISE EXCEPTION 'Consent is required' USING ERRCODE = '22023';
+  END IF;
+
+  -- Rejected attempts are logged in submission_rejections and return NULL
+  IF NOT screen_submission('med_sync', p_email, p_honeypot, p_elapsed_ms, p_challenge_token) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO med_sync_enrollments (
+    first_name, middle_name, last_name, suffix, dob, phone, email,
+    medications, sync_day, preferred_service, notes, consent
+  ) VALUES (
+    trim(p_first_name), NULLIF(trim(p_middle_name), ''), trim(p_last_name), NULLIF(p_suffix, ''),
+    p_dob, p_phone, NULLIF(p_email, ''),
+    p_medications, p_sync_day, p_preferred_service, NULLIF(trim(p_notes), ''), p_consent
+  )
+  RETURNING id INTO enrollment_id;
+
+  RETURN enrollment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_med_sync_enrollment TO anon, authenticated;
+
+-- ============================================
+-- set_med_sync_status RPC
+-- ============================================
+-- Staff-only. pending → active | cancelled, active → cancelled. Only active
+-- enrollments are included in the monthly batch; a patient who cancelled
+-- enrolls again with the form.
+CREATE OR REPLACE FUNCTION set_med_sync_status(
+  p_enrollment_id UUID,
+  p_status med_sync_status
+)
+RETURNS med_sync_enrollments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  enrollment med_sync_enrollments;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can change Med Sync enrollments' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO enrollment FROM med_sync_enrollments WHERE id = p_enrollment_id FOR UPDATE;
+
+  IF enrollment.id IS NULL THEN
+    RAISE EXCEPTION 'Enrollment % not found', p_enrollment_id USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT (
+    (enrollment.status = 'pending' AND p_status IN ('active', 'cancelled')) OR
+    (enrollment.status = 'active' AND p_status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change an enrollment from % to %', enrollment.status, p_status USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE med_sync_enrollments
+  SET status = p_status,
+      activated_at = CASE WHEN p_status = 'active' THEN CURRENT_TIMESTAMP ELSE activated_at END,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE id = p_enrollment_id
+  RETURNING * INTO enrollment;
+
+  RETURN enrollment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_med_sync_status TO authenticated;
+
+-- ============================================
+-- Monthly batch
+-- ============================================
+-- Staff-only. Active enrollments whose sync day falls on p_sync_date and
+-- whose batch for that date hasn't been sent. Reading them is recorded in the
+-- audit log, as the batch sends their details to BestRX.
+CREATE OR REPLACE FUNCTION med_sync_batch_enrollments(p_sync_date DATE)
+RETURNS SETOF med_sync_enrollments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  enrollment med_sync_enrollments;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can run Med Sync batches' USING ERRCODE = '42501';
+  END IF;
+  IF p_sync_date IS NULL THEN
+    RAISE EXCEPTION 'Sync date is required' USING ERRCODE = '22023';
+  END IF;
+
+  FOR enrollment IN
+    SELECT e.* FROM med_sync_enrollments e
+    WHERE e.status = 'active'
+      AND e.sync_day = extract(DAY FROM p_sync_date)
+      AND NOT EXISTS (
+        SELECT 1 FROM med_sync_fills f
+        WHERE f.enrollment_id = e.id AND f.sync_date = p_sync_date AND f.status = 'sent'
+      )
+    ORDER BY e.last_name, e.first_name
+  LOOP
+    PERFORM record_audit_event(
+      'view', 'med_sync_enrollments', enrollment.id::TEXT, 'med_sync_batch',
+      jsonb_build_object('sync_date', p_sync_date)
+    );
+    RETURN NEXT enrollment;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION med_sync_batch_enrollments TO authenticated;
+
+-- Staff-only. Records the outcome of sending an enrollment's batch for a sync
+-- date. When it was sent, the refill request is saved too, linked to the
+-- patient's account like one they submitted; p_request_id is the batch's
+-- idempotency key, so recording the same batch twice saves one request.
+-- A sent batch is not overwritten by a later failure.
+CREATE OR REPLACE FUNCTION record_med_sync_fill(
+  p_enrollment_id UUID,
+  p_sync_date DATE,
+  p_request_id UUID,
+  p_prescriptions JSONB,
+  p_notes TEXT,
+  p_sent BOOLEAN,
+  p_message TEXT
+)
+RETURNS med_sync_fills
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  enrollment med_sync_enrollments;
+  fill med_sync_fills;
+  request_id UUID;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can record Med Sync fills' USING ERRCODE = '42501';
+  END IF;
+  PERFORM validate_prescriptions(p_prescriptions);
+  IF p_sync_date IS NULL OR p_sent IS NULL THEN
+    RAISE EXCEPTION 'Sync date and outcome are required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO enrollment FROM med_sync_enrollments WHERE id = p_enrollment_id;
+
+  IF enrollment.id IS NULL THEN
+    RAISE EXCEPTION 'Enrollment % not found', p_enrollment_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_sent THEN
+    IF p_request_id IS NULL THEN
+      RAISE EXCEPTION 'A sent batch needs its request ID' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO refill_requests (
+      patient_name, first_name, middle_name, last_name, suffix,
+      dob, phone, email, prescriptions, preferred_service, notes, consent, idempotency_key
+    ) VALUES (
+      enrollment.first_name || ' ' || enrollment.last_name,
+      enrollment.first_name, enrollment.middle_name, enrollment.last_name, enrollment.suffix,
+      enrollment.dob, enrollment.phone, enrollment.email, p_prescriptions, enrollment.preferred_service,
+      NULLIF(trim(p_notes), ''), enrollment.consent, p_request_id
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id INTO request_id;
+
+    IF request_id IS NULL THEN
+      SELECT id INTO request_id FROM refill_requests WHERE idempotency_key = p_request_id;
+    ELSE
+      -- link_request_to_patient leaves requests saved by staff unlinked
+      UPDATE refill_requests SET patient_id = enrollment.patient_id WHERE id = request_id;
+    END IF;
+  END IF;
+
+  INSERT INTO med_sync_fills (
+    enrollment_id, sync_date, status, message, prescriptions, refill_request_id, created_by
+  ) VALUES (
+    p_enrollment_id, p_sync_date, CASE WHEN p_sent THEN 'sent' ELSE 'failed' END::med_sync_fill_status,
+    NULLIF(trim(p_message), ''), p_prescriptions, request_id, auth.uid()
+  )
+  ON CONFLICT (enrollment_id, sync_date) DO UPDATE
+    SET status = EXCLUDED.status,
+        message = EXCLUDED.message,
+        prescriptions = EXCLUDED.prescriptions,
+        refill_request_id = EXCLUDED.refill_request_id,
+        created_by = EXCLUDED.created_by,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE med_sync_fills.status <> 'sent'
+  RETURNING * INTO fill;
+
+  IF fill.id IS NULL THEN
+    SELECT * INTO fill FROM med_sync_fills WHERE enrollment_id = p_enrollment_id AND sync_date = p_sync_date;
+  END IF;
+  RETURN fill;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_med_sync_fill TO authenticated;
@@ -0,0 +1,6 @@
+-- ============================================
+-- Roll back 019_undelivered_refill_requests.sql
+-- ============================================
+DROP FUNCTION IF EXISTS record_undelivered_refill_request(
+  TEXT, TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, JSONB, service_preference, TEXT, BOOLEAN, UUID, TEXT
+);
@@ -0,0 +1,66 @@
+-- ============================================
+-- Undelivered outbox refill requests
+-- ============================================
+-- A refill request queued in the browser's offline outbox (see
+-- src/lib/outboxDelivery.ts) can fail for good: BestRX rejects it, or it waits
+-- longer than the outbox keeps requests. Instead of disappearing, it is saved
+-- as a rejected request with the reason, so staff see it on the dashboard and
+-- the patient's confirmation code (shown when the request was queued) reports
+-- it through lookup_refill_status.
+
+-- ============================================
+-- record_undelivered_refill_request RPC
+-- ============================================
+-- Takes the same arguments as submit_refill_request, which validates and saves
+-- the request, plus the reason it was not sent. The idempotency key is
+-- required: it is the request ID only the submitting browser knows, and a
+-- repeat returns the request it already saved. Only a request still in
+-- 'received' is rejected, so a request staff already picked up is left alone.
+CREATE OR REPLACE FUNCTION record_undelivered_refill_request(
+  p_patient_name TEXT,
+  p_first_name TEXT,
+  p_middle_name TEXT,
+  p_last_name TEXT,
+  p_suffix TEXT,
+  p_dob DATE,
+  p_phone TEXT,
+  p_email TEXT,
+  p_prescriptions JSONB,
+  p_preferred_service service_preference,
+  p_notes TEXT,
+  p_consent BOOLEAN,
+  p_idempotency_key UUID,
+  p_reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_id UUID;
+BEGIN
+  IF p_idempotency_key IS NULL THEN
+    RAISE EXCEPTION 'Idempotency key is required' USING ERRCODE = '22023';
+  END IF;
+  PERFORM validate_required(p_reason, 'A reason is required to reject a request');
+
+  request_id := submit_refill_request(
+    p_patient_name, p_first_name, p_middle_name, p_last_name, p_suffix, p_dob, p_phone, p_email,
+    p_prescriptions, p_preferred_service, p_notes, p_consent, p_idempotency_key
+  );
+
+  UPDATE refill_requests
+  SET status = 'rejected', updated_at = CURRENT_TIMESTAMP
+  WHERE id = request_id AND status = 'received';
+
+  IF FOUND THEN
+    INSERT INTO request_status_history (request_type, request_id, from_status, to_status, reason)
+    VALUES ('refill', request_id, 'received', 'rejected', trim(p_reason));
+  END IF;
+
+  RETURN request_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_undelivered_refill_request TO anon, authenticated;
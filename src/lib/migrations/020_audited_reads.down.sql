@@ -0,0 +1,110 @@
+-- ============================================
+-- Roll back 020_audited_reads.sql
+-- ============================================
+DROP FUNCTION IF EXISTS get_patient_requests();
+DROP FUNCTION IF EXISTS get_patient_profile();
+DROP FUNCTION IF EXISTS get_status_notification(request_type, UUID);
+DROP FUNCTION IF EXISTS list_med_sync_fills(UUID);
+DROP FUNCTION IF EXISTS list_rpm_alert_thresholds(UUID);
+DROP FUNCTION IF EXISTS get_rpm_patient_monitoring(UUID);
+DROP FUNCTION IF EXISTS get_rpm_review_queue();
+DROP FUNCTION IF EXISTS save_waitlist_notes(UUID, TEXT);
+DROP FUNCTION IF EXISTS list_waitlist_contact_attempts(UUID);
+DROP FUNCTION IF EXISTS get_waitlist_board();
+DROP FUNCTION IF EXISTS list_request_status_history(request_type, UUID);
+DROP FUNCTION IF EXISTS list_audited_records(
+  TEXT, INTEGER, INTEGER, TEXT, TEXT[], JSONB, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE
+);
+
+-- ============================================
+-- get_audited_record
+-- ============================================
+-- Restores the version from 018_med_sync.sql.
+CREATE OR REPLACE FUNCTION get_audited_record(
+  p_table_name TEXT,
+  p_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  record JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view records' USING ERRCODE = '42501';
+  END IF;
+  -- The tables listed on the staff dashboard (ADMIN_TABLES in src/lib/adminTables.ts)
+  IF p_table_name NOT IN (
+    'contact_messages', 'waitlist_entries', 'refill_requests', 'transfer_requests',
+    'inbound_transfer_requests', 'splash_modal_submissions', 'submission_rejections', 'audit_events',
+    'rpm_patients', 'rpm_readings', 'med_sync_enrollments'
+  ) THEN
+    RAISE EXCEPTION 'Unknown table %', p_table_name USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = %L', p_table_name, p_id) INTO record;
+
+  IF record IS NOT NULL AND p_table_name <> 'audit_events' THEN
+    PERFORM record_audit_event('view', p_table_name, p_id, 'admin_dashboard');
+  END IF;
+  RETURN record;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS record_rows_viewed(TEXT, TEXT[], TEXT, JSONB);
+DROP FUNCTION IF EXISTS validate_admin_table(TEXT);
+
+-- ============================================
+-- Table privileges
+-- ============================================
+GRANT SELECT ON TABLE
+  contact_messages,
+  waitlist_entries,
+  refill_requests,
+  transfer_requests,
+  splash_modal_submissions,
+  inbound_transfer_requests,
+  inbound_transfer_queue,
+  request_status_history,
+  submission_rejections,
+  audit_events,
+  patient_profiles,
+  rpm_patients,
+  waitlist_contact_attempts,
+  rpm_devices,
+  rpm_alert_thresholds,
+  rpm_readings,
+  rpm_time_entries,
+  rpm_review_queue,
+  rpm_monthly_minutes,
+  med_sync_enrollments,
+  med_sync_fills
+TO authenticated;
+GRANT UPDATE (notes, updated_at) ON TABLE waitlist_entries TO authenticated;
+
+CREATE POLICY "Staff read" ON contact_messages FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON waitlist_entries FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff update" ON waitlist_entries FOR UPDATE TO authenticated USING (is_staff()) WITH CHECK (is_staff());
+CREATE POLICY "Staff read" ON refill_requests FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON transfer_requests FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON splash_modal_submissions FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON inbound_transfer_requests FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON request_status_history FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON submission_rejections FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON audit_events FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Patients read own profile" ON patient_profiles
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Patients read own requests" ON refill_requests
+  FOR SELECT TO authenticated USING (patient_id = auth.uid());
+CREATE POLICY "Patients read own requests" ON transfer_requests
+  FOR SELECT TO authenticated USING (patient_id = auth.uid());
+CREATE POLICY "Staff read" ON rpm_patients FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON waitlist_contact_attempts FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON rpm_devices FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON rpm_alert_thresholds FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON rpm_readings FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON rpm_time_entries FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON med_sync_enrollments FOR SELECT TO authenticated USING (is_staff());
+CREATE POLICY "Staff read" ON med_sync_fills FOR SELECT TO authenticated USING (is_staff());
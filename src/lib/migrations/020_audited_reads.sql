@@ -0,0 +1,618 @@
+-- ============================================
+-- Audited reads
+-- ============================================
+-- Staff and patients no longer SELECT the tables that hold patient data.
+-- Every read goes through a SECURITY DEFINER RPC that checks who is asking
+-- and records the view in the audit log (013_audit_events.sql) itself, the
+-- way get_audited_record already does for the dashboard's detail view. A
+-- client can no longer read a record without the read being logged.
+--
+-- staff_users keeps its own-membership policy; it holds no patient data.
+
+-- ============================================
+-- Table privileges
+-- ============================================
+DROP POLICY IF EXISTS "Staff read" ON contact_messages;
+DROP POLICY IF EXISTS "Staff read" ON waitlist_entries;
+DROP POLICY IF EXISTS "Staff update" ON waitlist_entries;
+DROP POLICY IF EXISTS "Staff read" ON refill_requests;
+DROP POLICY IF EXISTS "Staff read" ON transfer_requests;
+DROP POLICY IF EXISTS "Staff read" ON splash_modal_submissions;
+DROP POLICY IF EXISTS "Staff read" ON inbound_transfer_requests;
+DROP POLICY IF EXISTS "Staff read" ON request_status_history;
+DROP POLICY IF EXISTS "Staff read" ON submission_rejections;
+DROP POLICY IF EXISTS "Staff read" ON audit_events;
+DROP POLICY IF EXISTS "Patients read own profile" ON patient_profiles;
+DROP POLICY IF EXISTS "Patients read own requests" ON refill_requests;
+DROP POLICY IF EXISTS "Patients read own requests" ON transfer_requests;
+DROP POLICY IF EXISTS "Staff read" ON rpm_patients;
+DROP POLICY IF EXISTS "Staff read" ON waitlist_contact_attempts;
+DROP POLICY IF EXISTS "Staff read" ON rpm_devices;
+DROP POLICY IF EXISTS "Staff read" ON rpm_alert_thresholds;
+DROP POLICY IF EXISTS "Staff read" ON rpm_readings;
+DROP POLICY IF EXISTS "Staff read" ON rpm_time_entries;
+DROP POLICY IF EXISTS "Staff read" ON med_sync_enrollments;
+DROP POLICY IF EXISTS "Staff read" ON med_sync_fills;
+
+REVOKE ALL ON TABLE
+  contact_messages,
+  waitlist_entries,
+  refill_requests,
+  transfer_requests,
+  splash_modal_submissions,
+  inbound_transfer_requests,
+  inbound_transfer_queue,
+  request_status_history,
+  submission_rejections,
+  audit_events,
+  patient_profiles,
+  rpm_patients,
+  waitlist_contact_attempts,
+  rpm_devices,
+  rpm_alert_thresholds,
+  rpm_readings,
+  rpm_time_entries,
+  rpm_review_queue,
+  rpm_monthly_minutes,
+  med_sync_enrollments,
+  med_sync_fills
+FROM authenticated;
+
+-- ============================================
+-- Helpers
+-- ============================================
+-- The tables listed on the staff dashboard (ADMIN_TABLES in src/lib/adminTables.ts)
+CREATE OR REPLACE FUNCTION validate_admin_table(p_table_name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_table_name IS NULL OR p_table_name NOT IN (
+    'contact_messages', 'waitlist_entries', 'refill_requests', 'transfer_requests',
+    'inbound_transfer_requests', 'splash_modal_submissions', 'submission_rejections', 'audit_events',
+    'rpm_patients', 'rpm_readings', 'med_sync_enrollments'
+  ) THEN
+    RAISE EXCEPTION 'Unknown table %', p_table_name USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+-- Records a view of the listed rows as one audit event; nothing is recorded
+-- when no rows were read
+CREATE OR REPLACE FUNCTION record_rows_viewed(
+  p_table_name TEXT,
+  p_row_ids TEXT[],
+  p_source TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(cardinality(p_row_ids), 0) > 0 THEN
+    PERFORM record_audit_event('view', p_table_name, NULL, p_source,
+      p_details || jsonb_build_object('row_ids', to_jsonb(p_row_ids)));
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION validate_admin_table, record_rows_viewed FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Staff dashboard tables
+-- ============================================
+-- Same as 018_med_sync.sql, with the table list moved to validate_admin_table.
+CREATE OR REPLACE FUNCTION get_audited_record(
+  p_table_name TEXT,
+  p_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  record JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view records' USING ERRCODE = '42501';
+  END IF;
+  PERFORM validate_admin_table(p_table_name);
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = %L', p_table_name, p_id) INTO record;
+
+  IF record IS NOT NULL AND p_table_name <> 'audit_events' THEN
+    PERFORM record_audit_event('view', p_table_name, p_id, 'admin_dashboard');
+  END IF;
+  RETURN record;
+END;
+$$;
+
+-- One page of a dashboard table, newest first, as { rows, count } where count
+-- is every matching row. p_search matches any of p_search_columns as a
+-- case-insensitive substring; p_filters maps columns to exact values (empty
+-- values are ignored); p_created_to is exclusive. Like get_audited_record,
+-- listing the audit log itself isn't recorded.
+CREATE OR REPLACE FUNCTION list_audited_records(
+  p_table_name TEXT,
+  p_offset INTEGER,
+  p_limit INTEGER,
+  p_search TEXT DEFAULT NULL,
+  p_search_columns TEXT[] DEFAULT '{}',
+  p_filters JSONB DEFAULT '{}'::jsonb,
+  p_created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_created_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conditions TEXT[] := ARRAY['true'];
+  term TEXT := trim(coalesce(p_search, ''));
+  pattern TEXT;
+  search_condition TEXT;
+  filter_entry RECORD;
+  where_clause TEXT;
+  total INTEGER;
+  page_rows JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view records' USING ERRCODE = '42501';
+  END IF;
+  PERFORM validate_admin_table(p_table_name);
+  IF p_offset IS NULL OR p_offset < 0 OR p_limit IS NULL OR p_limit < 1 OR p_limit > 100 THEN
+    RAISE EXCEPTION 'Pages hold 1 to 100 rows' USING ERRCODE = '22023';
+  END IF;
+
+  IF term <> '' THEN
+    pattern := '%' || regexp_replace(term, '([%_\\])', '\\\1', 'g') || '%';
+    SELECT string_agg(format('%I::TEXT ILIKE %L', search_column, pattern), ' OR ')
+    INTO search_condition
+    FROM unnest(p_search_columns) AS search_column;
+    IF search_condition IS NOT NULL THEN
+      conditions := conditions || ('(' || search_condition || ')');
+    END IF;
+  END IF;
+  FOR filter_entry IN SELECT key, value FROM jsonb_each_text(coalesce(p_filters, '{}'::jsonb)) LOOP
+    IF coalesce(filter_entry.value, '') <> '' THEN
+      conditions := conditions || format('%I::TEXT = %L', filter_entry.key, filter_entry.value);
+    END IF;
+  END LOOP;
+  IF p_created_from IS NOT NULL THEN
+    conditions := conditions || format('created_at >= %L', p_created_from);
+  END IF;
+  IF p_created_to IS NOT NULL THEN
+    conditions := conditions || format('created_at < %L', p_created_to);
+  END IF;
+  where_clause := array_to_string(conditions, ' AND ');
+
+  EXECUTE format('SELECT count(*) FROM %I WHERE %s', p_table_name, where_clause) INTO total;
+  EXECUTE format(
+    'SELECT coalesce(jsonb_agg(to_jsonb(t) ORDER BY t.created_at DESC), ''[]''::jsonb)
+     FROM (SELECT * FROM %I WHERE %s ORDER BY created_at DESC OFFSET %s LIMIT %s) t',
+    p_table_name, where_clause, p_offset, p_limit
+  ) INTO page_rows;
+
+  IF p_table_name <> 'audit_events' THEN
+    PERFORM record_rows_viewed(
+      p_table_name,
+      ARRAY(SELECT row_data ->> 'id' FROM jsonb_array_elements(page_rows) AS row_data),
+      'admin_dashboard'
+    );
+  END IF;
+  RETURN jsonb_build_object('rows', page_rows, 'count', total);
+END;
+$$;
+
+-- Status history of a refill/transfer request, oldest first
+CREATE OR REPLACE FUNCTION list_request_status_history(
+  p_request_type request_type,
+  p_request_id UUID
+)
+RETURNS SETOF request_status_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry request_status_history;
+  row_ids TEXT[] := '{}';
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view request status history' USING ERRCODE = '42501';
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM request_status_history h
+    WHERE h.request_type = p_request_type AND h.request_id = p_request_id
+    ORDER BY h.created_at
+  LOOP
+    row_ids := row_ids || entry.id::TEXT;
+    RETURN NEXT entry;
+  END LOOP;
+
+  PERFORM record_rows_viewed('request_status_history', row_ids, 'admin_dashboard',
+    jsonb_build_object('request_type', p_request_type, 'request_id', p_request_id));
+END;
+$$;
+
+-- ============================================
+-- Waitlist board
+-- ============================================
+-- Every waitlist entry, oldest first; the waitlist is small enough to load at once
+CREATE OR REPLACE FUNCTION get_waitlist_board()
+RETURNS SETOF waitlist_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry waitlist_entries;
+  row_ids TEXT[] := '{}';
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view the waitlist' USING ERRCODE = '42501';
+  END IF;
+
+  FOR entry IN SELECT * FROM waitlist_entries ORDER BY created_at LIMIT 1000 LOOP
+    row_ids := row_ids || entry.id::TEXT;
+    RETURN NEXT entry;
+  END LOOP;
+
+  PERFORM record_rows_viewed('waitlist_entries', row_ids, 'admin_dashboard', '{"view": "board"}'::jsonb);
+END;
+$$;
+
+-- Contact attempts logged for a waitlist entry, newest first
+CREATE OR REPLACE FUNCTION list_waitlist_contact_attempts(p_entry_id UUID)
+RETURNS SETOF waitlist_contact_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt waitlist_contact_attempts;
+  row_ids TEXT[] := '{}';
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view contact attempts' USING ERRCODE = '42501';
+  END IF;
+
+  FOR attempt IN
+    SELECT * FROM waitlist_contact_attempts a
+    WHERE a.waitlist_entry_id = p_entry_id
+    ORDER BY a.created_at DESC
+  LOOP
+    row_ids := row_ids || attempt.id::TEXT;
+    RETURN NEXT attempt;
+  END LOOP;
+
+  PERFORM record_rows_viewed('waitlist_contact_attempts', row_ids, 'admin_dashboard',
+    jsonb_build_object('waitlist_entry_id', p_entry_id));
+END;
+$$;
+
+-- Replaces the direct column UPDATE staff had on notes; the UPDATE's WHERE
+-- clause needed SELECT on the table
+CREATE OR REPLACE FUNCTION save_waitlist_notes(
+  p_entry_id UUID,
+  p_notes TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can edit waitlist notes' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE waitlist_entries
+  SET notes = NULLIF(trim(p_notes), ''), updated_at = CURRENT_TIMESTAMP
+  WHERE id = p_entry_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waitlist entry % not found', p_entry_id USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- RPM
+-- ============================================
+-- Flagged readings awaiting pharmacist review, oldest first
+CREATE OR REPLACE FUNCTION get_rpm_review_queue()
+RETURNS SETOF rpm_review_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reading rpm_review_queue;
+  row_ids TEXT[] := '{}';
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view RPM readings' USING ERRCODE = '42501';
+  END IF;
+
+  FOR reading IN SELECT * FROM rpm_review_queue LOOP
+    row_ids := row_ids || reading.id::TEXT;
+    RETURN NEXT reading;
+  END LOOP;
+
+  PERFORM record_rows_viewed('rpm_readings', row_ids, 'admin_dashboard', '{"view": "review_queue"}'::jsonb);
+END;
+$$;
+
+-- An RPM patient's devices, their 50 latest readings and logged minutes, and
+-- the 12 latest monthly totals, as { devices, readings, time_entries, months }
+CREATE OR REPLACE FUNCTION get_rpm_patient_monitoring(p_patient_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  readings JSONB;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view RPM readings' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(to_jsonb(r) ORDER BY r.measured_at DESC), '[]'::jsonb) INTO readings
+  FROM (
+    SELECT * FROM rpm_readings
+    WHERE rpm_patient_id = p_patient_id
+    ORDER BY measured_at DESC
+    LIMIT 50
+  ) r;
+
+  PERFORM record_rows_viewed(
+    'rpm_readings',
+    ARRAY(SELECT reading ->> 'id' FROM jsonb_array_elements(readings) AS reading),
+    'admin_dashboard',
+    jsonb_build_object('rpm_patient_id', p_patient_id)
+  );
+
+  RETURN jsonb_build_object(
+    'devices', (
+      SELECT coalesce(jsonb_agg(to_jsonb(d) ORDER BY d.created_at), '[]'::jsonb)
+      FROM rpm_devices d
+      WHERE d.rpm_patient_id = p_patient_id
+    ),
+    'readings', readings,
+    'time_entries', (
+      SELECT coalesce(jsonb_agg(to_jsonb(t) ORDER BY t.service_date DESC, t.created_at DESC), '[]'::jsonb)
+      FROM (
+        SELECT * FROM rpm_time_entries
+        WHERE rpm_patient_id = p_patient_id
+        ORDER BY service_date DESC, created_at DESC
+        LIMIT 50
+      ) t
+    ),
+    'months', (
+      SELECT coalesce(jsonb_agg(to_jsonb(m) ORDER BY m.month DESC), '[]'::jsonb)
+      FROM (
+        SELECT * FROM rpm_monthly_minutes
+        WHERE rpm_patient_id = p_patient_id
+        ORDER BY month DESC
+        LIMIT 12
+      ) m
+    )
+  );
+END;
+$$;
+
+-- The clinic default limits, plus p_patient_id's override row when there is one
+CREATE OR REPLACE FUNCTION list_rpm_alert_thresholds(p_patient_id UUID DEFAULT NULL)
+RETURNS SETOF rpm_alert_thresholds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  thresholds rpm_alert_thresholds;
+  row_ids TEXT[] := '{}';
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view alert thresholds' USING ERRCODE = '42501';
+  END IF;
+
+  FOR thresholds IN
+    SELECT * FROM rpm_alert_thresholds t
+    WHERE t.rpm_patient_id IS NULL OR t.rpm_patient_id = p_patient_id
+  LOOP
+    IF thresholds.rpm_patient_id IS NOT NULL THEN
+      row_ids := row_ids || thresholds.id::TEXT;
+    END IF;
+    RETURN NEXT thresholds;
+  END LOOP;
+
+  -- The clinic default isn't a patient's data
+  PERFORM record_rows_viewed('rpm_alert_thresholds', row_ids, 'admin_dashboard',
+    jsonb_build_object('rpm_patient_id', p_patient_id));
+END;
+$$;
+
+-- ============================================
+-- Med Sync
+-- ============================================
+-- The batches sent (or that failed) for an enrollment, newest first
+CREATE OR REPLACE FUNCTION list_med_sync_fills(p_enrollment_id UUID)
+RETURNS SETOF med_sync_fills
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fill med_sync_fills;
+  row_ids TEXT[] := '{}';
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can view Med Sync fills' USING ERRCODE = '42501';
+  END IF;
+
+  FOR fill IN
+    SELECT * FROM med_sync_fills f
+    WHERE f.enrollment_id = p_enrollment_id
+    ORDER BY f.sync_date DESC
+  LOOP
+    row_ids := row_ids || fill.id::TEXT;
+    RETURN NEXT fill;
+  END LOOP;
+
+  PERFORM record_rows_viewed('med_sync_fills', row_ids, 'admin_dashboard',
+    jsonb_build_object('enrollment_id', p_enrollment_id));
+END;
+$$;
+
+-- ============================================
+-- Status notifications
+-- ============================================
+-- Used by the notify-patient function (src/lib/notificationDispatcher.ts):
+-- the patient's contact details and the request's latest status change. No
+-- row when the request or its history doesn't exist.
+CREATE OR REPLACE FUNCTION get_status_notification(
+  p_request_type request_type,
+  p_request_id UUID
+)
+RETURNS TABLE (
+  first_name TEXT,
+  phone TEXT,
+  email TEXT,
+  request_status request_status,
+  reason TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  latest request_status_history;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Only staff can notify patients' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO latest FROM request_status_history h
+  WHERE h.request_type = p_request_type AND h.request_id = p_request_id
+  ORDER BY h.created_at DESC
+  LIMIT 1;
+  IF latest.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_request_type = 'refill' THEN
+    RETURN QUERY SELECT r.first_name::TEXT, r.phone::TEXT, r.email::TEXT, latest.to_status, latest.reason
+    FROM refill_requests r WHERE r.id = p_request_id;
+  ELSE
+    RETURN QUERY SELECT
+      t.patient_first_name::TEXT, t.patient_phone::TEXT, t.patient_email::TEXT, latest.to_status, latest.reason
+    FROM transfer_requests t WHERE t.id = p_request_id;
+  END IF;
+
+  IF FOUND THEN
+    PERFORM record_audit_event('view', p_request_type || '_requests', p_request_id::TEXT, 'notify_patient',
+      '{"purpose": "status_notification"}'::jsonb);
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- Patient accounts
+-- ============================================
+-- The caller's saved details; no row until they save them
+CREATE OR REPLACE FUNCTION get_patient_profile()
+RETURNS SETOF patient_profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile patient_profiles;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to view your details' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO profile FROM patient_profiles WHERE user_id = auth.uid();
+  IF profile.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM record_audit_event('view', 'patient_profiles', profile.id::TEXT, 'patient_account');
+  RETURN NEXT profile;
+END;
+$$;
+
+-- The caller's own refill and transfer requests, newest first, as
+-- { refills, transfers } with the columns of PatientRefillRequest and
+-- PatientTransferRequest in src/lib/patientAccount.ts
+CREATE OR REPLACE FUNCTION get_patient_requests()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  refills JSONB;
+  transfers JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to view your requests' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', r.id,
+    'created_at', r.created_at,
+    'status', r.status,
+    'prescriptions', r.prescriptions,
+    'preferred_service', r.preferred_service,
+    'first_name', r.first_name,
+    'middle_name', r.middle_name,
+    'last_name', r.last_name,
+    'suffix', r.suffix,
+    'dob', r.dob,
+    'phone', r.phone,
+    'email', r.email
+  ) ORDER BY r.created_at DESC), '[]'::jsonb) INTO refills
+  FROM refill_requests r
+  WHERE r.patient_id = auth.uid();
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', t.id,
+    'created_at', t.created_at,
+    'status', t.status,
+    'rx_number', t.rx_number,
+    'transfer_to_pharmacy_name', t.transfer_to_pharmacy_name
+  ) ORDER BY t.created_at DESC), '[]'::jsonb) INTO transfers
+  FROM transfer_requests t
+  WHERE t.patient_id = auth.uid();
+
+  PERFORM record_rows_viewed(
+    'refill_requests', ARRAY(SELECT request ->> 'id' FROM jsonb_array_elements(refills) AS request), 'patient_account'
+  );
+  PERFORM record_rows_viewed(
+    'transfer_requests', ARRAY(SELECT request ->> 'id' FROM jsonb_array_elements(transfers) AS request), 'patient_account'
+  );
+
+  RETURN jsonb_build_object('refills', refills, 'transfers', transfers);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION list_audited_records, list_request_status_history, get_waitlist_board,
+  list_waitlist_contact_attempts, save_waitlist_notes, get_rpm_review_queue, get_rpm_patient_monitoring,
+  list_rpm_alert_thresholds, list_med_sync_fills, get_status_notification, get_patient_profile,
+  get_patient_requests
+FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION list_audited_records, list_request_status_history, get_waitlist_board,
+  list_waitlist_contact_attempts, save_waitlist_notes, get_rpm_review_queue, get_rpm_patient_monitoring,
+  list_rpm_alert_thresholds, list_med_sync_fills, get_status_notification, get_patient_profile,
+  get_patient_requests
+TO authenticated;
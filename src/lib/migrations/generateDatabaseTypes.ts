@@ -0,0 +1,396 @@
+/**
+ * Database type generator
+ * Introspects the public schema of a migrated database and writes
+ * src/lib/database.types.ts in the shape supabase-js expects for
+ * `createClient<Database>`, so table rows and RPC arguments are checked at
+ * compile time. Re-run after adding a migration:
+ *
+ *   DATABASE_URL=postgres://... npx tsx src/lib/migrations/generateDatabaseTypes.ts
+ */
+
+import pg from "pg";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import type { ClientBase } from "pg";
+
+interface PgType {
+  oid: number;
+  name: string;
+  kind: string;
+  elementOid: number;
+  relationName: string | null;
+}
+
+interface ColumnInfo {
+  relation: string;
+  relkind: string;
+  name: string;
+  typeOid: number;
+  nullable: boolean;
+  hasDefault: boolean;
+}
+
+interface RelationshipInfo {
+  name: string;
+  relation: string;
+  columns: string[];
+  referencedRelation: string;
+  referencedColumns: string[];
+  isOneToOne: boolean;
+}
+
+interface FunctionInfo {
+  name: string;
+  argNames: string[] | null;
+  argModes: string[] | null;
+  argTypes: number[];
+  allArgTypes: number[] | null;
+  defaultCount: number;
+  returnType: number;
+  returnsSet: boolean;
+}
+
+interface SchemaInfo {
+  types: Map<number, PgType>;
+  columns: ColumnInfo[];
+  relationships: RelationshipInfo[];
+  functions: FunctionInfo[];
+  enums: Map<string, string[]>;
+}
+
+// Tooling tables that are not part of the app's API
+const EXCLUDED_RELATIONS = new Set(["schema_migrations"]);
+
+const STRING_TYPES = new Set([
+  "text", "varchar", "bpchar", "char", "name", "citext", "uuid",
+  "date", "time", "timetz", "timestamp", "timestamptz", "interval",
+  "inet", "cidr", "macaddr", "bytea", "tsvector",
+]);
+const NUMBER_TYPES = new Set(["int2", "int4", "int8", "float4", "float8", "numeric", "oid"]);
+
+export async function introspectSchema(client: ClientBase): Promise<SchemaInfo> {
+  const { rows: typeRows } = await client.query<{
+    oid: number;
+    typname: string;
+    typtype: string;
+    typelem: number;
+    relname: string | null;
+  }>(`
+    SELECT t.oid::int AS oid, t.typname, t.typtype, t.typelem::int AS typelem,
+      CASE WHEN c.relkind IN ('r', 'p', 'v', 'm') AND cn.nspname = 'public' THEN c.relname END AS relname
+    FROM pg_type t
+    LEFT JOIN pg_class c ON c.oid = t.typrelid
+    LEFT JOIN pg_namespace cn ON cn.oid = c.relnamespace
+  `);
+  const types = new Map<number, PgType>(
+    typeRows.map((row) => [
+      row.oid,
+      { oid: row.oid, name: row.typname, kind: row.typtype, elementOid: row.typelem, relationName: row.relname },
+    ])
+  );
+
+  const { rows: enumRows } = await client.query<{ name: string; label: string }>(`
+    SELECT t.typname AS name, e.enumlabel AS label
+    FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    WHERE n.nspname = 'public'
+    ORDER BY t.typname, e.enumsortorder
+  `);
+  const enums = new Map<string, string[]>();
+  for (const row of enumRows) {
+    enums.set(row.name, [...(enums.get(row.name) ?? []), row.label]);
+  }
+
+  const { rows: columnRows } = await client.query<{
+    relation: string;
+    relkind: string;
+    name: string;
+    type_oid: number;
+    nullable: boolean;
+    has_default: boolean;
+  }>(`
+    SELECT c.relname AS relation, c.relkind::text AS relkind, a.attname AS name,
+      a.atttypid::int AS type_oid, NOT a.attnotnull AS nullable,
+      a.atthasdef OR a.attidentity <> '' OR a.attgenerated <> '' AS has_default
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+    WHERE n.nspname = 'public' AND c.relkind IN ('r', 'p', 'v', 'm')
+    ORDER BY c.relname, a.attnum
+  `);
+  const columns = columnRows
+    .filter((row) => !EXCLUDED_RELATIONS.has(row.relation))
+    .map((row) => ({
+      relation: row.relation,
+      relkind: row.relkind,
+      name: row.name,
+      typeOid: row.type_oid,
+      nullable: row.nullable,
+      hasDefault: row.has_default,
+    }));
+
+  const { rows: relationshipRows } = await client.query<{
+    name: string;
+    relation: string;
+    columns: string[];
+    referenced_relation: string;
+    referenced_columns: string[];
+    is_one_to_one: boolean;
+  }>(`
+    SELECT con.conname AS name, c.relname AS relation, rc.relname AS referenced_relation,
+      ARRAY(
+        SELECT a.attname FROM unnest(con.conkey) WITH ORDINALITY k(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+        ORDER BY k.ord
+      )::text[] AS columns,
+      ARRAY(
+        SELECT a.attname FROM unnest(con.confkey) WITH ORDINALITY k(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+        ORDER BY k.ord
+      )::text[] AS referenced_columns,
+      EXISTS (
+        SELECT 1 FROM pg_index i
+        WHERE i.indrelid = con.conrelid AND i.indisunique
+          AND (SELECT array_agg(x ORDER BY x) FROM unnest(i.indkey::int2[]) x)
+            = (SELECT array_agg(x ORDER BY x) FROM unnest(con.conkey) x)
+      ) AS is_one_to_one
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_class rc ON rc.oid = con.confrelid
+    JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+    WHERE con.contype = 'f' AND n.nspname = 'public' AND rn.nspname = 'public'
+    ORDER BY c.relname, con.conname
+  `);
+  const relationships = relationshipRows.map((row) => ({
+    name: row.name,
+    relation: row.relation,
+    columns: row.columns,
+    referencedRelation: row.referenced_relation,
+    referencedColumns: row.referenced_columns,
+    isOneToOne: row.is_one_to_one,
+  }));
+
+  // Skips trigger functions and functions that belong to extensions
+  const { rows: functionRows } = await client.query<{
+    name: string;
+    arg_names: string[] | null;
+    arg_modes: string[] | null;
+    arg_types: number[];
+    all_arg_types: number[] | null;
+    default_count: number;
+    return_type: number;
+    returns_set: boolean;
+  }>(`
+    SELECT p.proname AS name, p.proargnames AS arg_names, p.proargmodes::text[] AS arg_modes,
+      p.proargtypes::oid[]::int[] AS arg_types, p.proallargtypes::int[] AS all_arg_types,
+      p.pronargdefaults::int AS default_count, p.prorettype::int AS return_type,
+      p.proretset AS returns_set
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public' AND p.prokind = 'f' AND p.prorettype <> 'trigger'::regtype
+      AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = p.oid AND d.deptype = 'e')
+    ORDER BY p.proname, p.oid
+  `);
+  const functions = functionRows.map((row) => ({
+    name: row.name,
+    argNames: row.arg_names,
+    argModes: row.arg_modes,
+    argTypes: row.arg_types,
+    allArgTypes: row.all_arg_types,
+    defaultCount: row.default_count,
+    returnType: row.return_type,
+    returnsSet: row.returns_set,
+  }));
+
+  return { types, columns, relationships, functions, enums };
+}
+
+function tsType(schema: SchemaInfo, oid: number): string {
+  const type = schema.types.get(oid);
+  if (!type) return "unknown";
+  if (type.kind === "e") return `Database["public"]["Enums"]["${type.name}"]`;
+  if (type.kind === "c" && type.relationName) {
+    const section = schema.columns.find((column) => column.relation === type.relationName)?.relkind === "v"
+      ? "Views"
+      : "Tables";
+    return `Database["public"]["${section}"]["${type.relationName}"]["Row"]`;
+  }
+  if (type.name.startsWith("_") && type.elementOid) return `${tsType(schema, type.elementOid)}[]`;
+  if (STRING_TYPES.has(type.name)) return "string";
+  if (NUMBER_TYPES.has(type.name)) return "number";
+  if (type.name === "bool") return "boolean";
+  if (type.name === "json" || type.name === "jsonb") return "Json";
+  if (type.name === "void") return "undefined";
+  return "unknown";
+}
+
+function renderFields(fields: { name: string; type: string; optional?: boolean }[], indent: string): string {
+  if (fields.length === 0) return "{\n" + `${indent}  [_ in never]: never\n` + `${indent}}`;
+  const lines = fields.map((field) => `${indent}  ${field.name}${field.optional ? "?" : ""}: ${field.type}`);
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function renderRelationships(schema: SchemaInfo, relation: string, indent: string): string {
+  const relationships = schema.relationships.filter((relationship) => relationship.relation === relation);
+  if (relationships.length === 0) return "[]";
+  const items = relationships.map((relationship) =>
+    [
+      `${indent}  {`,
+      `${indent}    foreignKeyName: ${JSON.stringify(relationship.name)}`,
+      `${indent}    columns: ${JSON.stringify(relationship.columns)}`,
+      `${indent}    isOneToOne: ${relationship.isOneToOne}`,
+      `${indent}    referencedRelation: ${JSON.stringify(relationship.referencedRelation)}`,
+      `${indent}    referencedColumns: ${JSON.stringify(relationship.referencedColumns)}`,
+      `${indent}  },`,
+    ].join("\n")
+  );
+  return `[\n${items.join("\n")}\n${indent}]`;
+}
+
+function renderRelations(schema: SchemaInfo, views: boolean): string {
+  const indent = "      ";
+  const names = [...new Set(
+    schema.columns
+      .filter((column) => (column.relkind === "v" || column.relkind === "m") === views)
+      .map((column) => column.relation)
+  )].sort();
+  if (names.length === 0) return "{\n      [_ in never]: never\n    }";
+
+  const entries = names.map((name) => {
+    const columns = schema.columns.filter((column) => column.relation === name);
+    // View columns are always reported as nullable
+    const row = columns.map((column) => ({
+      name: column.name,
+      type: column.nullable || views ? `${tsType(schema, column.typeOid)} | null` : tsType(schema, column.typeOid),
+    }));
+    const insert = columns.map((column) => ({
+      ...row.find((field) => field.name === column.name)!,
+      optional: column.nullable || column.hasDefault,
+    }));
+    const update = row.map((field) => ({ ...field, optional: true }));
+
+    const parts = [`${indent}  Row: ${renderFields(row, `${indent}  `)}`];
+    if (!views) {
+      parts.push(`${indent}  Insert: ${renderFields(insert, `${indent}  `)}`);
+      parts.push(`${indent}  Update: ${renderFields(update, `${indent}  `)}`);
+    }
+    parts.push(`${indent}  Relationships: ${renderRelationships(schema, name, `${indent}  `)}`);
+    return `${indent}${name}: {\n${parts.join("\n")}\n${indent}}`;
+  });
+
+  return `{\n${entries.join("\n")}\n    }`;
+}
+
+function renderFunction(schema: SchemaInfo, fn: FunctionInfo, indent: string): string {
+  const allTypes = fn.allArgTypes ?? fn.argTypes;
+  const modes = fn.argModes ?? allTypes.map(() => "i");
+  const names = fn.argNames ?? [];
+  const inputs: { name: string; type: string; optional?: boolean }[] = [];
+  const tableColumns: { name: string; type: string }[] = [];
+
+  allTypes.forEach((oid, index) => {
+    const mode = modes[index];
+    const name = names[index] || `arg${index}`;
+    if (mode === "i" || mode === "b" || mode === "v") inputs.push({ name, type: tsType(schema, oid) });
+    if (mode === "t") tableColumns.push({ name, type: tsType(schema, oid) });
+  });
+  inputs.forEach((input, index) => {
+    input.optional = index >= inputs.length - fn.defaultCount;
+  });
+
+  const args = inputs.length === 0 ? "never" : renderFields(inputs, `${indent}  `);
+  let returns = tableColumns.length > 0 ? renderFields(tableColumns, `${indent}  `) : tsType(schema, fn.returnType);
+  if (fn.returnsSet) returns = `${returns}[]`;
+
+  return `{\n${indent}  Args: ${args}\n${indent}  Returns: ${returns}\n${indent}}`;
+}
+
+function renderFunctions(schema: SchemaInfo): string {
+  const indent = "      ";
+  const names = [...new Set(schema.functions.map((fn) => fn.name))];
+  if (names.length === 0) return "{\n      [_ in never]: never\n    }";
+
+  const entries = names.map((name) => {
+    // Overloads become a union
+    const overloads = schema.functions
+      .filter((fn) => fn.name === name)
+      .map((fn) => renderFunction(schema, fn, indent));
+    return `${indent}${name}: ${overloads.join(" | ")}`;
+  });
+  return `{\n${entries.join("\n")}\n    }`;
+}
+
+function renderEnums(schema: SchemaInfo): string {
+  if (schema.enums.size === 0) return "{\n      [_ in never]: never\n    }";
+  const entries = [...schema.enums].map(
+    ([name, labels]) => `      ${name}:\n${labels.map((label) => `        | ${JSON.stringify(label)}`).join("\n")}`
+  );
+  return `{\n${entries.join("\n")}\n    }`;
+}
+
+export function renderDatabaseTypes(schema: SchemaInfo): string {
+  return `// Generated by src/lib/migrations/generateDatabaseTypes.ts from the migrated
+// database schema. Do not edit by hand; re-run the generator after adding a migration.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: ${renderRelations(schema, false)}
+    Views: ${renderRelations(schema, true)}
+    Functions: ${renderFunctions(schema)}
+    Enums: ${renderEnums(schema)}
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
+export type Views<T extends keyof PublicSchema["Views"]> = PublicSchema["Views"][T]["Row"]
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T]
+`;
+}
+
+async function main() {
+  const connectionString = process.env.DATABASE_URL || process.env.SUPABASE_DB_URL;
+  if (!connectionString) {
+    throw new Error(
+      "Missing database connection. Please set DATABASE_URL (or SUPABASE_DB_URL)."
+    );
+  }
+
+  const outputPath = path.resolve(
+    path.dirname(fileURLToPath(import.meta.url)),
+    "..",
+    "database.types.ts"
+  );
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+
+  try {
+    const schema = await introspectSchema(client);
+    fs.writeFileSync(outputPath, renderDatabaseTypes(schema));
+    console.log(`✅ Wrote ${path.relative(process.cwd(), outputPath)}`);
+  } finally {
+    await client.end();
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Type generation failed:", error);
+  process.exit(1);
+});
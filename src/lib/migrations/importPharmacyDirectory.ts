@@ -0,0 +1,60 @@
+import { createClient } from "@supabase/supabase-js";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  parsePharmacyDirectoryCsv,
+  parsePharmacyDirectoryJson,
+  toPharmacyDirectoryRow,
+} from "../pharmacyDirectory";
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error(
+    "Missing Supabase credentials. Please set VITE_SUPABASE_URL and SUPABASE_SERVICE_KEY."
+  );
+}
+
+// Use the service key (admin) so the import can write to pharmacy_directory
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const BATCH_SIZE = 500;
+
+async function importPharmacyDirectory(filePath: string) {
+  try {
+    console.log(`Importing pharmacy directory from ${filePath}...`);
+
+    const text = fs.readFileSync(filePath, "utf-8");
+    const { entries, errors } =
+      path.extname(filePath).toLowerCase() === ".json"
+        ? parsePharmacyDirectoryJson(text)
+        : parsePharmacyDirectoryCsv(text);
+
+    errors.forEach((message) => console.warn(`⚠️  Skipped ${message}`));
+
+    const rows = entries.map(toPharmacyDirectoryRow);
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const { error } = await supabase
+        .from("pharmacy_directory")
+        .upsert(rows.slice(i, i + BATCH_SIZE), { onConflict: "ncpdp_id" });
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    console.log(`✅ Imported ${rows.length} pharmacies (${errors.length} skipped).`);
+  } catch (error) {
+    console.error("❌ Pharmacy directory import failed:", error);
+    process.exit(1);
+  }
+}
+
+const filePath = process.argv[2];
+if (!filePath) {
+  console.error("Usage: importPharmacyDirectory <pharmacies.csv|pharmacies.json>");
+  process.exit(1);
+}
+
+importPharmacyDirectory(filePath);
@@ -1,40 +1,166 @@
-import { createClient } from "@supabase/supabase-js";
-import * as fs from "fs";
+import pg from "pg";
 import * as path from "path";
+import { fileURLToPath } from "url";
+import {
+  discoverMigrations,
+  ensureMigrationsTable,
+  getMigrationStatus,
+  loadAppliedMigrations,
+  planDown,
+  planUp,
+  recordMigrations,
+  runMigration,
+  withMigrationLock,
+} from "./runner";
+import type { MigrationFile } from "./runner";
 
-const supabaseUrl = process.env.VITE_SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+const USAGE = `Usage: npm run migrate -- <command> [options]
+       (or npx tsx src/lib/migrations/migrate.ts <command> [options])
 
-if (!supabaseUrl || !supabaseServiceKey) {
-  throw new Error(
-    "Missing Supabase credentials. Please set VITE_SUPABASE_URL and SUPABASE_SERVICE_KEY."
-  );
-}
+Commands:
+  up                 Apply pending migrations
+  down | rollback    Roll back the latest migration
+  status             List applied and pending migrations
+  baseline --to NNN  Record migrations up to NNN as applied without running them
 
-// Use the service key (admin) instead of anon key for migrations
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
+Options:
+  --to NNN     up: stop after NNN; down: roll back every migration after NNN
+  --steps N    down: roll back the latest N migrations (default 1)
+  --dry-run    Show what would run without changing the database
 
-async function runMigration() {
-  try {
-    console.log("Starting database migration...");
+Connects with DATABASE_URL, or SUPABASE_DB_URL (the Supabase project's
+Postgres connection string).`;
+
+const COMMANDS = ["up", "down", "rollback", "status", "baseline"] as const;
+type Command = (typeof COMMANDS)[number];
 
-    // Read the migration file
-    const migrationPath = path.join(__dirname, "migrations", "001_init_schema.sql");
-    const sql = fs.readFileSync(migrationPath, "utf-8");
+interface CliOptions {
+  command: Command;
+  toVersion?: string;
+  steps?: number;
+  dryRun: boolean;
+}
 
-    // Execute the SQL
-    const { error } = await supabase.rpc("execute_sql", { sql });
+function parseArgs(args: string[]): CliOptions {
+  const [command, ...rest] = args;
+  if (!COMMANDS.includes(command as Command)) {
+    throw new Error(command ? `Unknown command "${command}"` : "Missing command");
+  }
 
-    if (error) {
-      throw error;
+  const options: CliOptions = { command: command as Command, dryRun: false };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === "--dry-run") {
+      options.dryRun = true;
+    } else if (arg === "--to") {
+      const version = rest[++i];
+      if (!version || !/^\d{1,3}$/.test(version)) {
+        throw new Error("--to expects a migration number, e.g. --to 007");
+      }
+      options.toVersion = version.padStart(3, "0");
+    } else if (arg === "--steps") {
+      const steps = Number(rest[++i]);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error("--steps expects a positive whole number");
+      }
+      options.steps = steps;
+    } else {
+      throw new Error(`Unknown option "${arg}"`);
     }
+  }
+
+  if (options.command === "baseline" && !options.toVersion) {
+    throw new Error("baseline requires --to NNN");
+  }
+
+  return options;
+}
+
+function describe(migration: MigrationFile, direction: "up" | "down"): string {
+  const filePath = direction === "up" ? migration.upPath : migration.downPath;
+  return `${migration.version}_${migration.name} (${path.basename(filePath ?? "")})`;
+}
 
-    console.log("✅ Migration completed successfully!");
-    console.log("Your database schema has been created.");
+async function main() {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
   } catch (error) {
-    console.error("❌ Migration failed:", error);
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
     process.exit(1);
   }
+
+  const connectionString = process.env.DATABASE_URL || process.env.SUPABASE_DB_URL;
+  if (!connectionString) {
+    throw new Error(
+      "Missing database connection. Please set DATABASE_URL (or SUPABASE_DB_URL)."
+    );
+  }
+
+  const migrationsDir = path.dirname(fileURLToPath(import.meta.url));
+  const migrations = discoverMigrations(migrationsDir);
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+
+  try {
+    await withMigrationLock(client, async () => {
+      const applied = await loadAppliedMigrations(client);
+      const prefix = options.dryRun ? "[dry run] " : "";
+
+      if (options.command === "status") {
+        const statuses = getMigrationStatus(migrations, applied);
+        statuses.forEach((status) => {
+          const appliedAt = status.appliedAt ? `  ${status.appliedAt.toISOString()}` : "";
+          console.log(`${status.state.padEnd(8)} ${status.version}_${status.name}${appliedAt}`);
+        });
+        const pending = statuses.filter((status) => status.state === "pending").length;
+        console.log(`\n${statuses.length - pending} applied, ${pending} pending.`);
+        statuses
+          .filter((status) => status.state === "changed" || status.state === "missing")
+          .forEach((status) =>
+            console.warn(`⚠️  ${status.version}_${status.name} is ${status.state} since it was applied`)
+          );
+        return;
+      }
+
+      if (options.command === "baseline") {
+        const toRecord = planUp(migrations, applied, options.toVersion);
+        toRecord.forEach((migration) => console.log(`${prefix}Recording ${describe(migration, "up")} as applied`));
+        if (!options.dryRun) {
+          await ensureMigrationsTable(client);
+          await recordMigrations(client, toRecord);
+        }
+        console.log(`✅ ${prefix}Baselined ${toRecord.length} migration(s).`);
+        return;
+      }
+
+      const direction = options.command === "up" ? "up" : "down";
+      const plan = direction === "up"
+        ? planUp(migrations, applied, options.toVersion)
+        : planDown(migrations, applied, { steps: options.steps, toVersion: options.toVersion });
+
+      if (plan.length === 0) {
+        console.log(direction === "up" ? "Database is up to date." : "Nothing to roll back.");
+        return;
+      }
+
+      if (!options.dryRun) {
+        await ensureMigrationsTable(client);
+      }
+      for (const migration of plan) {
+        console.log(`${prefix}${direction === "up" ? "Applying" : "Rolling back"} ${describe(migration, direction)}`);
+        if (!options.dryRun) {
+          await runMigration(client, migration, direction);
+        }
+      }
+      console.log(`✅ ${prefix}${direction === "up" ? "Applied" : "Rolled back"} ${plan.length} migration(s).`);
+    });
+  } finally {
+    await client.end();
+  }
 }
 
-runMigration();
+main().catch((error) => {
+  console.error("❌ Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,248 @@
+/**
+ * Migration runner
+ * Discovers the numbered `NNN_name.sql` migrations in a directory, applies the
+ * pending ones in order and records each applied version in schema_migrations.
+ * A migration can be rolled back when it has a paired `NNN_name.down.sql` file.
+ *
+ * Each migration runs in its own transaction together with its
+ * schema_migrations bookkeeping, so a failing file leaves no partial changes.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { ClientBase } from "pg";
+
+export interface MigrationFile {
+  version: string;
+  name: string;
+  upPath: string;
+  downPath: string | null;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+/**
+ * - applied: recorded and unchanged on disk
+ * - pending: on disk, not yet applied
+ * - changed: applied, but the file was edited afterwards
+ * - missing: applied, but the file is no longer on disk
+ */
+export type MigrationState = "applied" | "pending" | "changed" | "missing";
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt: Date | null;
+}
+
+export type MigrationDirection = "up" | "down";
+
+const UP_FILE_PATTERN = /^(\d{3})_([\w-]+)\.sql$/;
+const DOWN_FILE_PATTERN = /^(\d{3})_([\w-]+)\.down\.sql$/;
+
+// Arbitrary key for pg_advisory_lock so two runners never interleave
+const MIGRATION_LOCK_KEY = 720_412_001;
+
+function checksum(sql: string): string {
+  return createHash("sha256").update(sql).digest("hex");
+}
+
+/**
+ * Lists the migrations in `dir`, ordered by version. Throws when two files
+ * share a version or a down-file has no matching migration.
+ */
+export function discoverMigrations(dir: string): MigrationFile[] {
+  const fileNames = fs.readdirSync(dir).sort();
+  const migrations = new Map<string, MigrationFile>();
+
+  for (const fileName of fileNames) {
+    const match = UP_FILE_PATTERN.exec(fileName);
+    if (!match) continue;
+
+    const [, version, name] = match;
+    const existing = migrations.get(version);
+    if (existing) {
+      throw new Error(`Migrations ${existing.version}_${existing.name}.sql and ${fileName} share version ${version}`);
+    }
+
+    const upPath = path.join(dir, fileName);
+    migrations.set(version, {
+      version,
+      name,
+      upPath,
+      downPath: null,
+      checksum: checksum(fs.readFileSync(upPath, "utf-8")),
+    });
+  }
+
+  for (const fileName of fileNames) {
+    const match = DOWN_FILE_PATTERN.exec(fileName);
+    if (!match) continue;
+
+    const [, version, name] = match;
+    const migration = migrations.get(version);
+    if (!migration || migration.name !== name) {
+      throw new Error(`${fileName} has no matching ${version}_${name}.sql migration`);
+    }
+    migration.downPath = path.join(dir, fileName);
+  }
+
+  return [...migrations.values()].sort((a, b) => a.version.localeCompare(b.version));
+}
+
+export async function ensureMigrationsTable(client: ClientBase): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(3) PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+/**
+ * Reads schema_migrations; an empty list when the table does not exist yet
+ */
+export async function loadAppliedMigrations(client: ClientBase): Promise<AppliedMigration[]> {
+  const { rows: tables } = await client.query<{ exists: boolean }>(
+    "SELECT to_regclass('public.schema_migrations') IS NOT NULL AS exists"
+  );
+  if (!tables[0]?.exists) return [];
+
+  const { rows } = await client.query<{ version: string; name: string; checksum: string; applied_at: Date }>(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version"
+  );
+  return rows.map((row) => ({
+    version: row.version,
+    name: row.name,
+    checksum: row.checksum,
+    appliedAt: row.applied_at,
+  }));
+}
+
+export function getMigrationStatus(migrations: MigrationFile[], applied: AppliedMigration[]): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map((entry) => [entry.version, entry]));
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const entry = appliedByVersion.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !entry ? "pending" : entry.checksum === migration.checksum ? "applied" : "changed",
+      appliedAt: entry?.appliedAt ?? null,
+    };
+  });
+
+  const onDisk = new Set(migrations.map((migration) => migration.version));
+  for (const entry of applied) {
+    if (!onDisk.has(entry.version)) {
+      statuses.push({ version: entry.version, name: entry.name, state: "missing", appliedAt: entry.appliedAt });
+    }
+  }
+
+  return statuses.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+/**
+ * Pending migrations to apply, oldest first, optionally stopping at `toVersion`
+ */
+export function planUp(migrations: MigrationFile[], applied: AppliedMigration[], toVersion?: string): MigrationFile[] {
+  const appliedVersions = new Set(applied.map((entry) => entry.version));
+  return migrations.filter(
+    (migration) => !appliedVersions.has(migration.version) && (!toVersion || migration.version <= toVersion)
+  );
+}
+
+/**
+ * Applied migrations to roll back, newest first: every migration after
+ * `toVersion` when given, otherwise the latest `steps`. Throws when one of them
+ * has no down-file or is no longer on disk.
+ */
+export function planDown(
+  migrations: MigrationFile[],
+  applied: AppliedMigration[],
+  options: { steps?: number; toVersion?: string }
+): MigrationFile[] {
+  const byVersion = new Map(migrations.map((migration) => [migration.version, migration]));
+  const newestFirst = [...applied].sort((a, b) => b.version.localeCompare(a.version));
+  const selected = options.toVersion !== undefined
+    ? newestFirst.filter((entry) => entry.version > options.toVersion!)
+    : newestFirst.slice(0, options.steps ?? 1);
+
+  return selected.map((entry) => {
+    const migration = byVersion.get(entry.version);
+    if (!migration) {
+      throw new Error(`Cannot roll back ${entry.version}_${entry.name}: the migration file is missing`);
+    }
+    if (!migration.downPath) {
+      throw new Error(`Cannot roll back ${entry.version}_${entry.name}: no ${entry.version}_${entry.name}.down.sql file`);
+    }
+    return migration;
+  });
+}
+
+/**
+ * Runs one migration (or its down-file) and updates schema_migrations in the
+ * same transaction
+ */
+export async function runMigration(
+  client: ClientBase,
+  migration: MigrationFile,
+  direction: MigrationDirection
+): Promise<void> {
+  const filePath = direction === "up" ? migration.upPath : migration.downPath;
+  if (!filePath) {
+    throw new Error(`${migration.version}_${migration.name} has no down-file`);
+  }
+  const sql = fs.readFileSync(filePath, "utf-8");
+
+  await client.query("BEGIN");
+  try {
+    await client.query(sql);
+    if (direction === "up") {
+      await client.query(
+        "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+        [migration.version, migration.name, migration.checksum]
+      );
+    } else {
+      await client.query("DELETE FROM schema_migrations WHERE version = $1", [migration.version]);
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  }
+}
+
+/**
+ * Records migrations as applied without running them, for databases whose
+ * schema was created by hand (e.g. in the Supabase SQL editor)
+ */
+export async function recordMigrations(client: ClientBase, migrations: MigrationFile[]): Promise<void> {
+  for (const migration of migrations) {
+    await client.query(
+      "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3) ON CONFLICT (version) DO NOTHING",
+      [migration.version, migration.name, migration.checksum]
+    );
+  }
+}
+
+/**
+ * Holds a session-level advisory lock while `fn` runs
+ */
+export async function withMigrationLock<T>(client: ClientBase, fn: () => Promise<T>): Promise<T> {
+  await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+  try {
+    return await fn();
+  } finally {
+    await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+  }
+}
@@ -0,0 +1,432 @@
+/**
+ * Table access policies
+ * Seeds a row in every table that holds patient or submission data, then
+ * checks that no API role can read, change or delete it directly: not anon,
+ * not a signed-in patient (even the one the rows belong to), and not staff,
+ * who read through the audited RPCs of 020_audited_reads.sql instead. A query
+ * may fail on privileges or succeed while RLS hides every row; both count as
+ * denied, but rows leaking through do not.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Transaction } from "@electric-sql/pglite";
+import { ANON, createTestDatabase } from "./testDatabase.ts";
+import type { Session, TestDatabase } from "./testDatabase.ts";
+
+const PHI_TABLES = [
+  "contact_messages",
+  "waitlist_entries",
+  "waitlist_contact_attempts",
+  "refill_requests",
+  "refill_status_lookups",
+  "transfer_requests",
+  "inbound_transfer_requests",
+  "request_status_history",
+  "splash_modal_submissions",
+  "submission_attempts",
+  "submission_rejections",
+  "bestrx_idempotency_keys",
+  "audit_events",
+  "patient_profiles",
+  "rpm_patients",
+  "rpm_devices",
+  "rpm_alert_thresholds",
+  "rpm_readings",
+  "rpm_time_entries",
+  "med_sync_enrollments",
+  "med_sync_fills",
+  "staff_users",
+];
+
+// Read-only views over the tables above
+const PHI_VIEWS = ["inbound_transfer_queue", "rpm_review_queue", "rpm_monthly_minutes"];
+
+const INSUFFICIENT_PRIVILEGE = "42501";
+
+let database: TestDatabase;
+let sessions: { label: string; session: Session }[];
+let staff: Session;
+let patient: Session;
+let otherPatient: Session;
+let ids: Record<"refill" | "waitlistEntry" | "rpmPatient" | "enrollment", string>;
+
+// Owner-side inserts for the tables the public RPCs don't write; the audit
+// triggers fill audit_events along the way
+const SEED_SQL = `
+  INSERT INTO rpm_patients (first_name, last_name, dob, phone)
+  VALUES ('Jane', 'Doe', '1950-02-03', '555-123-4567');
+
+  INSERT INTO rpm_devices (rpm_patient_id, device_type, serial_number)
+  SELECT id, 'blood_pressure', 'BP-0001' FROM rpm_patients;
+
+  INSERT INTO rpm_alert_thresholds (rpm_patient_id, systolic_high)
+  SELECT id, 150 FROM rpm_patients;
+
+  -- Over the threshold, so it waits in rpm_review_queue
+  INSERT INTO rpm_readings (rpm_patient_id, reading_type, measured_at, systolic, diastolic, pulse)
+  SELECT id, 'blood_pressure', CURRENT_TIMESTAMP, 162, 95, 80 FROM rpm_patients;
+
+  INSERT INTO rpm_time_entries (rpm_patient_id, activity, minutes)
+  SELECT id, 'patient_call', 10 FROM rpm_patients;
+
+  INSERT INTO waitlist_contact_attempts (waitlist_entry_id, method, outcome)
+  SELECT id, 'phone', 'no_answer' FROM waitlist_entries LIMIT 1;
+
+  INSERT INTO request_status_history (request_id, request_type, to_status)
+  SELECT id, 'refill', 'in_progress' FROM refill_requests LIMIT 1;
+
+  INSERT INTO med_sync_fills (enrollment_id, sync_date, status, prescriptions)
+  SELECT id, CURRENT_DATE, 'sent', '[]' FROM med_sync_enrollments LIMIT 1;
+
+  INSERT INTO bestrx_idempotency_keys (idempotency_key, request_hash, route)
+  VALUES (gen_random_uuid(), 'hash', 'refill');
+
+  INSERT INTO refill_status_lookups (confirmation_code, matched)
+  VALUES ('ABCD2345', false);
+`;
+
+const SCREENING = { p_honeypot: "", p_elapsed_ms: 5000 };
+
+const PATIENT = {
+  p_first_name: "Jane",
+  p_middle_name: "",
+  p_last_name: "Doe",
+  p_suffix: "",
+  p_dob: "1950-02-03",
+  p_phone: "555-123-4567",
+  p_email: "jane@example.com",
+};
+
+async function seed(patientSession: Session): Promise<void> {
+  const { rpc, db } = database;
+  await rpc("submit_contact_form", {
+    p_name: "Jane Doe",
+    p_phone: "555-123-4567",
+    p_email: "jane@example.com",
+    p_reason: "refill",
+    p_message: "My refill is late",
+    p_consent: true,
+    ...SCREENING,
+  });
+  await rpc("submit_waitlist_entry", { p_name: "Jane Doe", p_email: "jane@example.com", p_phone: "555-123-4567", ...SCREENING });
+  await rpc("submit_splash_modal_signup", { p_email: "jane@example.com", ...SCREENING });
+  // Rejected, so it lands in submission_rejections
+  await rpc("submit_splash_modal_signup", { p_email: "bot@example.com", p_honeypot: "spam", p_elapsed_ms: 0 });
+
+  // Signed in, so the requests are linked to the patient's account
+  await rpc("save_patient_profile", PATIENT, patientSession);
+  await rpc(
+    "submit_refill_request",
+    {
+      ...PATIENT,
+      p_patient_name: "Jane Doe",
+      p_prescriptions: [{ rxNumber: "1234567" }],
+      p_preferred_service: "pickup",
+      p_notes: "",
+      p_consent: true,
+    },
+    patientSession
+  );
+  await rpc(
+    "submit_transfer_request",
+    {
+      p_patient_first_name: "Jane",
+      p_patient_middle_name: "",
+      p_patient_last_name: "Doe",
+      p_patient_suffix: "",
+      p_patient_dob: "1950-02-03",
+      p_patient_phone: "555-123-4567",
+      p_patient_email: "jane@example.com",
+      p_rx_number: "7654321",
+      p_rx_fill_date: "2026-09-30",
+      p_transfer_to_pharmacy_name: "Main Street Pharmacy",
+      p_transfer_to_pharmacy_address1: "12 Main St",
+      p_transfer_to_pharmacy_address2: "",
+      p_transfer_to_pharmacy_city: "Springfield",
+      p_transfer_to_pharmacy_state: "IL",
+      p_transfer_to_pharmacy_zip: "62701",
+      p_transfer_to_pharmacy_phone: "555-987-6543",
+      p_transfer_to_pharmacy_ncpdp: "",
+      p_transfer_rx_remark: "",
+      p_consent: true,
+    },
+    patientSession
+  );
+  await rpc(
+    "submit_inbound_transfer_request",
+    {
+      ...PATIENT,
+      p_current_pharmacy_name: "Corner Drug",
+      p_current_pharmacy_phone: "555-222-3333",
+      p_current_pharmacy_city: "",
+      p_current_pharmacy_state: "",
+      p_current_pharmacy_ncpdp: "",
+      p_prescriptions: [{ medicationName: "Metformin" }],
+      p_prescriber_name: "Dr. Smith",
+      p_prescriber_phone: "",
+      p_preferred_service: "pickup",
+      p_notes: "",
+      p_consent: true,
+    },
+    patientSession
+  );
+  await rpc(
+    "submit_med_sync_enrollment",
+    {
+      ...PATIENT,
+      p_medications: [{ rxNumber: "1234567", quantity: 30, daysSupply: 30, daysOnHand: 10 }],
+      p_sync_day: 15,
+      p_preferred_service: "pickup",
+      p_notes: "",
+      p_consent: true,
+      ...SCREENING,
+    },
+    patientSession
+  );
+
+  await db.exec(SEED_SQL);
+}
+
+async function firstId(table: string): Promise<string> {
+  const { rows } = await database.db.query<{ id: string }>(`SELECT id FROM ${table} ORDER BY created_at LIMIT 1`);
+  return rows[0].id;
+}
+
+before(async () => {
+  database = await createTestDatabase();
+  staff = { role: "authenticated", userId: await database.createUser("pharmacist@example.com", { staff: true }) };
+  await database.createUser("technician@example.com", { staff: true });
+  patient = { role: "authenticated", userId: await database.createUser("jane@example.com") };
+  otherPatient = { role: "authenticated", userId: await database.createUser("john@example.com") };
+  await seed(patient);
+
+  sessions = [
+    { label: "anon", session: ANON },
+    { label: "another patient", session: otherPatient },
+    { label: "the patient", session: patient },
+    { label: "staff", session: staff },
+  ];
+  ids = {
+    refill: await firstId("refill_requests"),
+    waitlistEntry: await firstId("waitlist_entries"),
+    rpmPatient: await firstId("rpm_patients"),
+    enrollment: await firstId("med_sync_enrollments"),
+  };
+});
+
+after(async () => {
+  await database.db.close();
+});
+
+/** The number of rows the statement returned or changed, or null when it was refused */
+async function attempt(session: Session, run: (tx: Transaction) => Promise<{ rows: unknown[]; affectedRows?: number }>) {
+  try {
+    const result = await database.asRole(session, run);
+    return result.affectedRows || result.rows.length;
+  } catch (error) {
+    assert.equal((error as { code?: string }).code, INSUFFICIENT_PRIVILEGE, String(error));
+    return null;
+  }
+}
+
+async function firstColumn(table: string): Promise<string> {
+  const { rows } = await database.db.query<{ column_name: string }>(
+    "SELECT column_name FROM information_schema.columns WHERE table_schema = 'public' AND table_name = $1 ORDER BY ordinal_position LIMIT 1",
+    [table]
+  );
+  return rows[0].column_name;
+}
+
+async function rowCount(table: string): Promise<number> {
+  const { rows } = await database.db.query<{ count: number }>(`SELECT count(*)::int AS count FROM ${table}`);
+  return rows[0].count;
+}
+
+describe("PHI tables", () => {
+  for (const table of PHI_TABLES) {
+    it(`${table} can't be queried directly`, async () => {
+      const rowsBefore = await rowCount(table);
+      assert.ok(rowsBefore > 0, `${table} was not seeded`);
+      const column = await firstColumn(table);
+
+      for (const { label, session } of sessions) {
+        // Staff see their own membership row (007_staff_access.sql)
+        const visible = table === "staff_users" && label === "staff" ? 1 : 0;
+        const selected = await attempt(session, (tx) => tx.query(`SELECT * FROM ${table}`));
+        assert.equal(selected ?? 0, visible, `${label} read ${selected} ${table} rows`);
+
+        const updated = await attempt(session, (tx) => tx.query(`UPDATE ${table} SET ${column} = ${column}`));
+        assert.ok(!updated, `${label} updated ${updated} ${table} rows`);
+
+        const deleted = await attempt(session, (tx) => tx.query(`DELETE FROM ${table}`));
+        assert.ok(!deleted, `${label} deleted ${deleted} ${table} rows`);
+      }
+
+      assert.equal(await rowCount(table), rowsBefore);
+    });
+  }
+
+  for (const view of PHI_VIEWS) {
+    it(`${view} can't be queried directly`, async () => {
+      assert.ok((await rowCount(view)) > 0, `${view} has no rows`);
+      for (const { label, session } of sessions) {
+        const selected = await attempt(session, (tx) => tx.query(`SELECT * FROM ${view}`));
+        assert.ok(!selected, `${label} read ${selected} ${view} rows`);
+      }
+    });
+  }
+});
+
+/** The number of view events recorded for a table so far */
+async function viewEvents(table: string): Promise<number> {
+  const { rows } = await database.db.query<{ count: number }>(
+    "SELECT count(*)::int AS count FROM audit_events WHERE action = 'view' AND table_name = $1",
+    [table]
+  );
+  return rows[0].count;
+}
+
+/** Runs a read that selects one `count` column; null when it was refused */
+async function read(session: Session, sql: string, params: unknown[] = []): Promise<number | null> {
+  try {
+    const { rows } = await database.asRole(session, (tx) => tx.query<{ count: number }>(sql, params));
+    return rows[0].count;
+  } catch (error) {
+    assert.equal((error as { code?: string }).code, INSUFFICIENT_PRIVILEGE, String(error));
+    return null;
+  }
+}
+
+// Each staff read RPC, the table whose view it records, and a query counting what it returned
+const STAFF_READS: { name: string; table: string; sql: string; id?: keyof typeof ids }[] = [
+  {
+    name: "list_audited_records",
+    table: "contact_messages",
+    sql: "SELECT jsonb_array_length(list_audited_records('contact_messages', 0, 25) -> 'rows') AS count",
+  },
+  {
+    name: "list_request_status_history",
+    table: "request_status_history",
+    sql: "SELECT count(*)::int AS count FROM list_request_status_history('refill', $1)",
+    id: "refill",
+  },
+  {
+    name: "get_waitlist_board",
+    table: "waitlist_entries",
+    sql: "SELECT count(*)::int AS count FROM get_waitlist_board()",
+  },
+  {
+    name: "list_waitlist_contact_attempts",
+    table: "waitlist_contact_attempts",
+    sql: "SELECT count(*)::int AS count FROM list_waitlist_contact_attempts($1)",
+    id: "waitlistEntry",
+  },
+  {
+    name: "get_rpm_review_queue",
+    table: "rpm_readings",
+    sql: "SELECT count(*)::int AS count FROM get_rpm_review_queue()",
+  },
+  {
+    name: "get_rpm_patient_monitoring",
+    table: "rpm_readings",
+    sql: "SELECT jsonb_array_length(get_rpm_patient_monitoring($1) -> 'readings') AS count",
+    id: "rpmPatient",
+  },
+  {
+    name: "list_rpm_alert_thresholds",
+    table: "rpm_alert_thresholds",
+    sql: "SELECT count(*)::int AS count FROM list_rpm_alert_thresholds($1)",
+    id: "rpmPatient",
+  },
+  {
+    name: "list_med_sync_fills",
+    table: "med_sync_fills",
+    sql: "SELECT count(*)::int AS count FROM list_med_sync_fills($1)",
+    id: "enrollment",
+  },
+  {
+    name: "get_status_notification",
+    table: "refill_requests",
+    sql: "SELECT count(*)::int AS count FROM get_status_notification('refill', $1)",
+    id: "refill",
+  },
+];
+
+describe("staff read RPCs", () => {
+  for (const { name, table, sql, id } of STAFF_READS) {
+    it(`${name} serves staff only and records the view`, async () => {
+      const params = id ? [ids[id]] : [];
+      for (const { label, session } of sessions.filter((entry) => entry.session !== staff)) {
+        assert.equal(await read(session, sql, params), null, `${label} called ${name}`);
+      }
+
+      const viewsBefore = await viewEvents(table);
+      const returned = await read(staff, sql, params);
+      assert.ok(returned && returned > 0, `${name} returned no rows`);
+      assert.equal(await viewEvents(table), viewsBefore + 1);
+    });
+  }
+
+  it("list_audited_records searches, filters and counts", async () => {
+    const list = (args: string) =>
+      database.asRole(staff, (tx) =>
+        tx.query<{ result: { rows: { id: string }[]; count: number } }>(
+          `SELECT list_audited_records(${args}) AS result`
+        )
+      );
+
+    const { rows: found } = await list("'refill_requests', 0, 25, p_search => 'JANE@', p_search_columns => '{email}'");
+    assert.equal(found[0].result.count, 1);
+    const { rows: missed } = await list("'refill_requests', 0, 25, p_search => '%', p_search_columns => '{email}'");
+    assert.equal(missed[0].result.count, 0);
+    const { rows: filtered } = await list("'refill_requests', 0, 25, p_filters => '{\"status\": \"completed\"}'");
+    assert.equal(filtered[0].result.count, 0);
+    const { rows: paged } = await list("'refill_requests', 1, 25");
+    assert.deepEqual([paged[0].result.count, paged[0].result.rows.length], [1, 0]);
+
+    await assert.rejects(list("'staff_users', 0, 25"), /Unknown table staff_users/);
+  });
+
+  it("list_audited_records doesn't record listing the audit log", async () => {
+    const eventsBefore = await rowCount("audit_events");
+    const listed = await read(
+      staff,
+      "SELECT jsonb_array_length(list_audited_records('audit_events', 0, 25) -> 'rows') AS count"
+    );
+    assert.equal(listed, Math.min(eventsBefore, 25));
+    assert.equal(await rowCount("audit_events"), eventsBefore);
+  });
+
+  it("save_waitlist_notes lets only staff edit notes", async () => {
+    const save = (session: Session) =>
+      read(session, "SELECT 1 AS count FROM save_waitlist_notes($1, '  Call after 5pm  ')", [ids.waitlistEntry]);
+    for (const { label, session } of sessions.filter((entry) => entry.session !== staff)) {
+      assert.equal(await save(session), null, `${label} saved waitlist notes`);
+    }
+    assert.equal(await save(staff), 1);
+    const { rows } = await database.db.query<{ notes: string }>("SELECT notes FROM waitlist_entries WHERE id = $1", [
+      ids.waitlistEntry,
+    ]);
+    assert.equal(rows[0].notes, "Call after 5pm");
+  });
+});
+
+describe("patient read RPCs", () => {
+  const PATIENT_READS = [
+    { table: "patient_profiles", sql: "SELECT count(*)::int AS count FROM get_patient_profile()" },
+    { table: "refill_requests", sql: "SELECT jsonb_array_length(get_patient_requests() -> 'refills') AS count" },
+    { table: "transfer_requests", sql: "SELECT jsonb_array_length(get_patient_requests() -> 'transfers') AS count" },
+  ];
+
+  for (const { table, sql } of PATIENT_READS) {
+    it(`return the patient's own ${table} rows and record the view`, async () => {
+      assert.equal(await read(ANON, sql), null);
+      assert.equal(await read(otherPatient, sql), 0);
+
+      const viewsBefore = await viewEvents(table);
+      assert.equal(await read(patient, sql), 1);
+      assert.equal(await viewEvents(table), viewsBefore + 1);
+    });
+  }
+});
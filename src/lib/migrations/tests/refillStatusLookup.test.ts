@@ -0,0 +1,145 @@
+/**
+ * Refill status lookup
+ * Checks that the confirmation code stored with a refill request is the one
+ * confirmationCodeFor shows the patient, and that lookup_refill_status answers
+ * a wrong date of birth exactly like an unknown code and enforces its rate
+ * limits.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { RefillFormDataSchema } from "../../schemas.ts";
+import { toRefillRequestArgs } from "../../rpcArgs.ts";
+import { confirmationCodeFor, formatConfirmationCode } from "../../confirmationCode.ts";
+import { ANON, createTestDatabase } from "./testDatabase.ts";
+import type { TestDatabase } from "./testDatabase.ts";
+
+const DOB = "1980-04-12";
+const TOO_MANY_LOOKUPS = "Too many status checks. Please try again later.";
+
+let database: TestDatabase;
+
+before(async () => {
+  database = await createTestDatabase();
+});
+
+after(async () => {
+  await database.db.close();
+});
+
+// Submits a refill request as the app does and returns its request ID
+async function submitRefill(): Promise<string> {
+  const requestId = randomUUID();
+  const data = RefillFormDataSchema.parse({
+    firstName: "Jane",
+    lastName: "Doe",
+    dob: DOB,
+    phone: "555-123-4567",
+    email: `patient-${randomUUID()}@example.com`,
+    prescriptions: [{ rxNumber: "1234567" }],
+    preferredService: "pickup",
+    notes: "",
+    consent: true,
+  });
+  await database.rpc("submit_refill_request", toRefillRequestArgs(data, requestId));
+  return requestId;
+}
+
+// Each test looks up from its own addresses so the per-IP limit only trips where intended
+let nextAddress = 1;
+const uniqueIp = () => `198.51.100.${nextAddress++}`;
+
+async function lookup(code: string, dob: string, ip = uniqueIp()) {
+  const { rows } = await database.asRole(
+    ANON,
+    (tx) =>
+      tx.query<{ request_status: string; rejection_reason: string | null }>(
+        "SELECT request_status, rejection_reason FROM lookup_refill_status($1, $2)",
+        [code, dob]
+      ),
+    { "cf-connecting-ip": ip }
+  );
+  return rows;
+}
+
+describe("refill_confirmation_code", () => {
+  it("matches confirmationCodeFor", async () => {
+    for (let i = 0; i < 25; i++) {
+      const requestId = randomUUID();
+      const { rows } = await database.db.query<{ code: string }>("SELECT refill_confirmation_code($1) AS code", [
+        requestId,
+      ]);
+      assert.equal(rows[0].code, await confirmationCodeFor(requestId), requestId);
+    }
+  });
+
+  it("is stored with a request submitted under an idempotency key", async () => {
+    const requestId = await submitRefill();
+    const { rows } = await database.db.query<{ confirmation_code: string }>(
+      "SELECT confirmation_code FROM refill_requests WHERE idempotency_key = $1",
+      [requestId]
+    );
+    assert.deepEqual(rows, [{ confirmation_code: await confirmationCodeFor(requestId) }]);
+  });
+});
+
+describe("lookup_refill_status", () => {
+  it("returns the status for a matching code and date of birth, however the code is typed", async () => {
+    const code = await confirmationCodeFor(await submitRefill());
+    const expected = [{ request_status: "received", rejection_reason: null }];
+    assert.deepEqual(await lookup(code, DOB), expected);
+    assert.deepEqual(await lookup(` ${formatConfirmationCode(code).toLowerCase()} `, DOB), expected);
+  });
+
+  it("answers a wrong date of birth the same as an unknown code", async () => {
+    const code = await confirmationCodeFor(await submitRefill());
+    const unknownCode = await confirmationCodeFor(randomUUID());
+    const wrongDob = await lookup(code, "1980-04-13");
+    assert.deepEqual(wrongDob, []);
+    assert.deepEqual(await lookup(unknownCode, DOB), wrongDob);
+
+    const { rows } = await database.db.query<{ matched: boolean }>(
+      "SELECT matched FROM refill_status_lookups WHERE confirmation_code IN ($1, $2)",
+      [code, unknownCode]
+    );
+    assert.deepEqual(rows, [{ matched: false }, { matched: false }]);
+  });
+
+  it("allows 10 lookups per IP address in 10 minutes", async () => {
+    const ip = uniqueIp();
+    for (let i = 0; i < 10; i++) {
+      await lookup(await confirmationCodeFor(randomUUID()), DOB, ip);
+    }
+    await assert.rejects(lookup(await confirmationCodeFor(randomUUID()), DOB, ip), { message: TOO_MANY_LOOKUPS });
+    assert.deepEqual(await lookup(await confirmationCodeFor(randomUUID()), DOB), []);
+
+    await database.db.query(
+      "UPDATE refill_status_lookups SET created_at = created_at - INTERVAL '10 minutes' WHERE ip_address = $1",
+      [ip]
+    );
+    assert.deepEqual(await lookup(await confirmationCodeFor(randomUUID()), DOB, ip), []);
+  });
+
+  it("allows 5 mismatched lookups per code in an hour, from any IP address", async () => {
+    const code = await confirmationCodeFor(await submitRefill());
+    for (let i = 0; i < 5; i++) {
+      assert.deepEqual(await lookup(code, `1980-05-0${i + 1}`), []);
+    }
+    // Even the right date of birth is refused once the code is locked
+    await assert.rejects(lookup(code, DOB), { message: TOO_MANY_LOOKUPS });
+
+    await database.db.query(
+      "UPDATE refill_status_lookups SET created_at = created_at - INTERVAL '1 hour' WHERE confirmation_code = $1",
+      [code]
+    );
+    assert.equal((await lookup(code, DOB)).length, 1);
+  });
+
+  it("doesn't count matching lookups toward a code's limit", async () => {
+    const code = await confirmationCodeFor(await submitRefill());
+    for (let i = 0; i < 6; i++) {
+      assert.equal((await lookup(code, DOB)).length, 1);
+    }
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * RPM reading ingestion
+ * Calls ingest_rpm_readings as the service role the way the rpm-ingest
+ * function does, checking which devices and readings it accepts, that resent
+ * readings are counted as duplicates, and that readings at an alert limit are
+ * flagged.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { ANON, SERVICE_ROLE, createTestDatabase } from "./testDatabase.ts";
+import type { Session, TestDatabase } from "./testDatabase.ts";
+
+let database: TestDatabase;
+let staff: Session;
+
+before(async () => {
+  database = await createTestDatabase();
+  staff = { role: "authenticated", userId: await database.createUser("pharmacist@example.com", { staff: true }) };
+});
+
+after(async () => {
+  await database.db.close();
+});
+
+// Enrolls a patient with one device and returns the device's serial number and the patient's ID
+async function registerDevice(deviceType: "blood_pressure" | "glucose", active = true) {
+  const serialNumber = `SN-${randomUUID()}`;
+  const { rows } = await database.db.query<{ id: string }>(
+    `INSERT INTO rpm_patients (first_name, last_name, dob, phone)
+     VALUES ('Jane', 'Doe', '1950-02-03', '555-123-4567') RETURNING id`
+  );
+  await database.db.query(
+    "INSERT INTO rpm_devices (rpm_patient_id, device_type, serial_number, active) VALUES ($1, $2, $3, $4)",
+    [rows[0].id, deviceType, serialNumber, active]
+  );
+  return { serialNumber, patientId: rows[0].id };
+}
+
+const bloodPressure = (measuredAt: string, systolic: number, diastolic = 80, pulse = 70) => ({
+  type: "blood_pressure",
+  measured_at: measuredAt,
+  systolic,
+  diastolic,
+  pulse,
+});
+
+const ingest = (serialNumber: string, readings: unknown[], session = SERVICE_ROLE) =>
+  database.rpc<{ accepted: number; duplicates: number; flagged: number }>(
+    "ingest_rpm_readings",
+    { p_serial_number: serialNumber, p_readings: readings },
+    session
+  );
+
+async function alertFlags(serialNumber: string): Promise<string[][]> {
+  const { rows } = await database.db.query<{ alert_flags: string[] }>(
+    `SELECT r.alert_flags FROM rpm_readings r JOIN rpm_devices d ON d.id = r.device_id
+     WHERE d.serial_number = $1 ORDER BY r.measured_at`,
+    [serialNumber]
+  );
+  return rows.map((row) => row.alert_flags);
+}
+
+describe("ingest_rpm_readings", () => {
+  it("can only be called with the service role", async () => {
+    const { serialNumber } = await registerDevice("blood_pressure");
+    const readings = [bloodPressure("2026-03-01T08:00:00Z", 120)];
+    await assert.rejects(ingest(serialNumber, readings, ANON), /permission denied/);
+    await assert.rejects(ingest(serialNumber, readings, staff), /permission denied/);
+    assert.deepEqual(await ingest(serialNumber, readings), { accepted: 1, duplicates: 0, flagged: 0 });
+  });
+
+  it("refuses an unknown or inactive device", async () => {
+    const { serialNumber } = await registerDevice("blood_pressure", false);
+    await assert.rejects(ingest("SN-unknown", [bloodPressure("2026-03-01T08:00:00Z", 120)]), {
+      message: "Unknown device SN-unknown",
+    });
+    await assert.rejects(ingest(serialNumber, [bloodPressure("2026-03-01T08:00:00Z", 120)]), {
+      message: `Device ${serialNumber} is inactive`,
+    });
+  });
+
+  it("refuses a batch with a reading of the wrong type and stores none of it", async () => {
+    const { serialNumber } = await registerDevice("glucose");
+    await assert.rejects(
+      ingest(serialNumber, [
+        { type: "glucose", measured_at: "2026-03-01T07:00:00Z", glucose_mg_dl: 110 },
+        bloodPressure("2026-03-01T08:00:00Z", 120),
+      ]),
+      { message: `Device ${serialNumber} only sends glucose readings` }
+    );
+    assert.deepEqual(await alertFlags(serialNumber), []);
+  });
+
+  it("counts resent readings as duplicates without storing them again", async () => {
+    const { serialNumber } = await registerDevice("blood_pressure");
+    const first = bloodPressure("2026-03-01T08:00:00Z", 120);
+    const second = bloodPressure("2026-03-01T20:00:00Z", 190);
+    assert.deepEqual(await ingest(serialNumber, [first, second]), { accepted: 2, duplicates: 0, flagged: 1 });
+    assert.deepEqual(await ingest(serialNumber, [first, second, bloodPressure("2026-03-02T08:00:00Z", 118)]), {
+      accepted: 1,
+      duplicates: 2,
+      flagged: 0,
+    });
+    assert.equal((await alertFlags(serialNumber)).length, 3);
+  });
+
+  it("flags readings at or beyond the clinic's alert limits", async () => {
+    const { serialNumber } = await registerDevice("blood_pressure");
+    // The clinic default: systolic 90 to 180, diastolic 60 to 110, pulse 50 to 120
+    const counts = await ingest(serialNumber, [
+      bloodPressure("2026-03-01T08:00:00Z", 179, 109, 119),
+      bloodPressure("2026-03-02T08:00:00Z", 180),
+      bloodPressure("2026-03-03T08:00:00Z", 120, 110, 50),
+      bloodPressure("2026-03-04T08:00:00Z", 90, 60, 120),
+    ]);
+    assert.deepEqual(counts, { accepted: 4, duplicates: 0, flagged: 3 });
+    assert.deepEqual(await alertFlags(serialNumber), [
+      [],
+      ["systolic_high"],
+      ["diastolic_high", "pulse_low"],
+      ["systolic_low", "diastolic_low", "pulse_high"],
+    ]);
+
+    const glucose = await registerDevice("glucose");
+    await ingest(glucose.serialNumber, [
+      { type: "glucose", measured_at: "2026-03-01T08:00:00Z", glucose_mg_dl: 70, glucose_context: "fasting" },
+      { type: "glucose", measured_at: "2026-03-01T12:00:00Z", glucose_mg_dl: 71 },
+      { type: "glucose", measured_at: "2026-03-01T18:00:00Z", glucose_mg_dl: 300 },
+    ]);
+    assert.deepEqual(await alertFlags(glucose.serialNumber), [["glucose_low"], [], ["glucose_high"]]);
+  });
+
+  it("flags readings at a patient's own limit", async () => {
+    const { serialNumber, patientId } = await registerDevice("blood_pressure");
+    await database.rpc("set_rpm_alert_thresholds", { p_patient_id: patientId, p_systolic_high: 150 }, staff);
+    await ingest(serialNumber, [
+      bloodPressure("2026-03-01T08:00:00Z", 149),
+      bloodPressure("2026-03-02T08:00:00Z", 150),
+      // Limits the patient doesn't override are the clinic's
+      bloodPressure("2026-03-03T08:00:00Z", 120, 110),
+    ]);
+    assert.deepEqual(await alertFlags(serialNumber), [[], ["systolic_high"], ["diastolic_high"]]);
+  });
+});
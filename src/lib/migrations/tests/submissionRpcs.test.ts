@@ -0,0 +1,533 @@
+/**
+ * Submission RPCs
+ * Calls each public form's submit_* RPC as the anon role with the arguments
+ * the app builds (see rpcArgs.ts), checking that valid input is stored and
+ * invalid input is refused with the same message the form schema shows.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import {
+  ContactFormDataSchema,
+  InboundTransferFormDataSchema,
+  MedSyncEnrollmentFormDataSchema,
+  RefillFormDataSchema,
+  SplashModalFormDataSchema,
+  TransferFormDataSchema,
+  WaitlistFormDataSchema,
+} from "../../schemas.ts";
+import {
+  toContactFormArgs,
+  toInboundTransferRequestArgs,
+  toMedSyncEnrollmentArgs,
+  toRefillRequestArgs,
+  toSplashModalSignupArgs,
+  toTransferRequestArgs,
+  toUndeliveredRefillRequestArgs,
+  toWaitlistEntryArgs,
+} from "../../rpcArgs.ts";
+import { confirmationCodeFor } from "../../confirmationCode.ts";
+import type { AbuseSignals } from "../../antiAbuse.ts";
+import { ANON, createTestDatabase } from "./testDatabase.ts";
+import type { TestDatabase } from "./testDatabase.ts";
+
+// A person who took a few seconds to fill in the form
+const SIGNALS: AbuseSignals = { honeypot: "", elapsedMs: 5000, challengeToken: null };
+
+// Each test uses its own address so the per-email rate limit never trips
+const uniqueEmail = () => `patient-${randomUUID()}@example.com`;
+
+const patient = () => ({
+  firstName: "Jane",
+  middleName: "",
+  lastName: "Doe",
+  suffix: "",
+  dob: "1980-04-12",
+  phone: "555-123-4567",
+  email: uniqueEmail(),
+});
+
+let database: TestDatabase;
+
+before(async () => {
+  database = await createTestDatabase();
+});
+
+after(async () => {
+  await database.db.close();
+});
+
+async function count(table: string, where: string, params: unknown[]): Promise<number> {
+  const { rows } = await database.db.query<{ count: number }>(
+    `SELECT count(*)::int AS count FROM ${table} WHERE ${where}`,
+    params
+  );
+  return rows[0].count;
+}
+
+async function assertRejected(promise: Promise<unknown>, message: string): Promise<void> {
+  await assert.rejects(promise, { message });
+}
+
+describe("submit_contact_form", () => {
+  const validArgs = () =>
+    toContactFormArgs(
+      ContactFormDataSchema.parse({
+        name: "Jane Doe",
+        phone: "555-123-4567",
+        email: uniqueEmail(),
+        reason: "general",
+        message: "Do you carry compression socks?",
+        consent: true,
+      }),
+      SIGNALS
+    );
+
+  it("stores a valid message", async () => {
+    const args = validArgs();
+    const id = await database.rpc<string>("submit_contact_form", args);
+    assert.ok(id);
+    assert.equal(await count("contact_messages", "id = $1 AND email = $2", [id, args.p_email]), 1);
+  });
+
+  it("refuses invalid input", async () => {
+    await assertRejected(database.rpc("submit_contact_form", { ...validArgs(), p_name: "  " }), "Name is required");
+    await assertRejected(database.rpc("submit_contact_form", { ...validArgs(), p_phone: "555" }), "Phone number is too short");
+    await assertRejected(database.rpc("submit_contact_form", { ...validArgs(), p_email: "jane" }), "Invalid email address");
+    await assertRejected(database.rpc("submit_contact_form", { ...validArgs(), p_reason: null }), "Reason is required");
+    await assertRejected(database.rpc("submit_contact_form", { ...validArgs(), p_message: "" }), "Message is required");
+    await assertRejected(database.rpc("submit_contact_form", { ...validArgs(), p_consent: null }), "Consent is required");
+  });
+
+  it("drops and logs a filled-in honeypot", async () => {
+    const args = { ...validArgs(), p_honeypot: "https://spam.example.com" };
+    assert.equal(await database.rpc("submit_contact_form", args), null);
+    assert.equal(await count("contact_messages", "email = $1", [args.p_email]), 0);
+    assert.equal(await count("submission_rejections", "email = $1 AND reason = 'honeypot'", [args.p_email]), 1);
+  });
+
+  it("drops a form sent too quickly", async () => {
+    const args = { ...validArgs(), p_elapsed_ms: 800 };
+    assert.equal(await database.rpc("submit_contact_form", args), null);
+    assert.equal(await count("submission_rejections", "email = $1 AND reason = 'too_fast'", [args.p_email]), 1);
+  });
+
+  it("rate limits repeated messages from one email address", async () => {
+    const args = validArgs();
+    for (let attempt = 0; attempt < 3; attempt++) {
+      assert.ok(await database.rpc("submit_contact_form", args));
+    }
+    assert.equal(await database.rpc("submit_contact_form", args), null);
+    assert.equal(await count("submission_rejections", "email = $1 AND reason = 'rate_limited'", [args.p_email]), 1);
+  });
+
+  it("logs at most 20 rejections per IP address in 10 minutes", async () => {
+    const headers = { "cf-connecting-ip": "203.0.113.9" };
+    for (let attempt = 0; attempt < 25; attempt++) {
+      const args = { ...validArgs(), p_honeypot: "https://spam.example.com" };
+      assert.equal(await database.rpc("submit_contact_form", args, ANON, headers), null);
+    }
+    assert.equal(await count("submission_rejections", "ip_address = $1", [headers["cf-connecting-ip"]]), 20);
+  });
+});
+
+describe("submit_waitlist_entry", () => {
+  const validArgs = () =>
+    toWaitlistEntryArgs(
+      WaitlistFormDataSchema.parse({
+        name: "Jane Doe",
+        email: uniqueEmail(),
+        phone: "555-123-4567",
+        deviceInterest: "blood_pressure",
+        insuranceType: "medicare",
+      }),
+      SIGNALS
+    );
+
+  it("stores a valid entry and leaves it unchanged on a repeat signup", async () => {
+    const args = validArgs();
+    const id = await database.rpc<string>("submit_waitlist_entry", args);
+    assert.ok(id);
+    const repeat = { ...args, p_name: "Mallory", p_phone: "555-000-0000", p_insurance_type: "commercial" };
+    assert.equal(await database.rpc("submit_waitlist_entry", repeat), id);
+    assert.equal(
+      await count(
+        "waitlist_entries",
+        "id = $1 AND name = 'Jane Doe' AND phone = '555-123-4567' AND insurance_type = 'medicare'",
+        [id]
+      ),
+      1
+    );
+  });
+
+  it("refuses invalid input", async () => {
+    await assertRejected(database.rpc("submit_waitlist_entry", { ...validArgs(), p_name: "" }), "Name is required");
+    await assertRejected(database.rpc("submit_waitlist_entry", { ...validArgs(), p_email: "jane@" }), "Invalid email address");
+    await assertRejected(
+      database.rpc("submit_waitlist_entry", { ...validArgs(), p_phone: "5".repeat(31) }),
+      "Phone number is too long"
+    );
+  });
+
+  it("drops a filled-in honeypot", async () => {
+    const args = { ...validArgs(), p_honeypot: "bot" };
+    assert.equal(await database.rpc("submit_waitlist_entry", args), null);
+    assert.equal(await count("waitlist_entries", "email = $1", [args.p_email]), 0);
+  });
+});
+
+describe("submit_refill_request", () => {
+  const validArgs = (idempotencyKey?: string) =>
+    toRefillRequestArgs(
+      RefillFormDataSchema.parse({
+        ...patient(),
+        prescriptions: [{ rxNumber: "1234567", medicationName: "Lisinopril" }],
+        preferredService: "pickup",
+        notes: "",
+        consent: true,
+      }),
+      idempotencyKey
+    );
+
+  it("stores a valid request", async () => {
+    const args = validArgs();
+    const id = await database.rpc<string>("submit_refill_request", args);
+    assert.ok(id);
+    assert.equal(await count("refill_requests", "id = $1 AND patient_name = 'Jane Doe'", [id]), 1);
+  });
+
+  it("returns the same request for a repeated idempotency key", async () => {
+    const args = validArgs(randomUUID());
+    const id = await database.rpc<string>("submit_refill_request", args);
+    assert.equal(await database.rpc("submit_refill_request", args), id);
+    assert.equal(await count("refill_requests", "idempotency_key = $1", [args.p_idempotency_key]), 1);
+  });
+
+  it("refuses invalid input", async () => {
+    await assertRejected(database.rpc("submit_refill_request", { ...validArgs(), p_first_name: "" }), "First name is required");
+    await assertRejected(database.rpc("submit_refill_request", { ...validArgs(), p_last_name: " " }), "Last name is required");
+    await assertRejected(database.rpc("submit_refill_request", { ...validArgs(), p_suffix: "Esq." }), "Invalid name suffix");
+    await assertRejected(
+      database.rpc("submit_refill_request", { ...validArgs(), p_dob: null }),
+      "Date must be in YYYY-MM-DD format"
+    );
+    await assertRejected(database.rpc("submit_refill_request", { ...validArgs(), p_phone: "" }), "Phone number is too short");
+    await assertRejected(database.rpc("submit_refill_request", { ...validArgs(), p_email: "jane" }), "Invalid email address");
+    await assertRejected(
+      database.rpc("submit_refill_request", { ...validArgs(), p_prescriptions: [] }),
+      "At least one prescription is required"
+    );
+    await assertRejected(
+      database.rpc("submit_refill_request", { ...validArgs(), p_prescriptions: [{ rxNumber: " " }] }),
+      "Rx number is required"
+    );
+    await assertRejected(
+      database.rpc("submit_refill_request", { ...validArgs(), p_preferred_service: null }),
+      "Preferred service is required"
+    );
+    await assertRejected(database.rpc("submit_refill_request", { ...validArgs(), p_consent: null }), "Consent is required");
+  });
+});
+
+describe("record_undelivered_refill_request", () => {
+  const data = () =>
+    RefillFormDataSchema.parse({
+      ...patient(),
+      prescriptions: [{ rxNumber: "1234567" }],
+      preferredService: "delivery",
+      notes: "",
+      consent: true,
+    });
+
+  it("saves the request as rejected, and the status lookup reports the reason", async () => {
+    const requestId = randomUUID();
+    const args = toUndeliveredRefillRequestArgs(data(), requestId, "Waited too long in the outbox");
+    const id = await database.rpc<string>("record_undelivered_refill_request", args);
+    assert.equal(await database.rpc("record_undelivered_refill_request", args), id);
+    assert.equal(await count("request_status_history", "request_id = $1 AND to_status = 'rejected'", [id]), 1);
+
+    const code = await confirmationCodeFor(requestId);
+    const lookup = await database.asRole(ANON, (tx) =>
+      tx.query<{ request_status: string; rejection_reason: string }>("SELECT * FROM lookup_refill_status($1, $2)", [
+        code,
+        args.p_dob,
+      ])
+    );
+    assert.deepEqual(
+      lookup.rows.map(({ request_status, rejection_reason }) => ({ request_status, rejection_reason })),
+      [{ request_status: "rejected", rejection_reason: "Waited too long in the outbox" }]
+    );
+  });
+
+  it("leaves a request staff already picked up", async () => {
+    const requestId = randomUUID();
+    const id = await database.rpc<string>("submit_refill_request", toRefillRequestArgs(data(), requestId));
+    await database.db.query("UPDATE refill_requests SET status = 'in_progress' WHERE id = $1", [id]);
+    await database.rpc("record_undelivered_refill_request", toUndeliveredRefillRequestArgs(data(), requestId, "Rejected"));
+    assert.equal(await count("refill_requests", "id = $1 AND status = 'in_progress'", [id]), 1);
+  });
+
+  it("refuses invalid input", async () => {
+    const args = () => toUndeliveredRefillRequestArgs(data(), randomUUID(), "Rejected");
+    await assertRejected(
+      database.rpc("record_undelivered_refill_request", { ...args(), p_idempotency_key: null }),
+      "Idempotency key is required"
+    );
+    await assertRejected(
+      database.rpc("record_undelivered_refill_request", { ...args(), p_reason: " " }),
+      "A reason is required to reject a request"
+    );
+    await assertRejected(
+      database.rpc("record_undelivered_refill_request", { ...args(), p_prescriptions: [] }),
+      "At least one prescription is required"
+    );
+  });
+});
+
+describe("submit_transfer_request", () => {
+  const validArgs = () =>
+    toTransferRequestArgs(
+      TransferFormDataSchema.parse({
+        ...patient(),
+        rxNumber: "7654321",
+        rxFillDate: "2026-09-30",
+        transferToPharmacyName: "Main Street Pharmacy",
+        transferToPharmacyAddress1: "12 Main St",
+        transferToPharmacyAddress2: "",
+        transferToPharmacyCity: "Springfield",
+        transferToPharmacyState: "il",
+        transferToPharmacyZip: "62701",
+        transferToPharmacyPhone: "555-987-6543",
+        transferToPharmacyNCPDP: "1234567",
+        transferRxRemark: "",
+        consent: true,
+      })
+    );
+
+  it("stores a valid request", async () => {
+    const id = await database.rpc<string>("submit_transfer_request", validArgs());
+    assert.ok(id);
+    assert.equal(await count("transfer_requests", "id = $1 AND transfer_to_pharmacy_state = 'IL'", [id]), 1);
+  });
+
+  it("refuses invalid input", async () => {
+    await assertRejected(
+      database.rpc("submit_transfer_request", { ...validArgs(), p_patient_first_name: "" }),
+      "First name is required"
+    );
+    await assertRejected(
+      database.rpc("submit_transfer_request", { ...validArgs(), p_rx_fill_date: null }),
+      "Date must be in YYYY-MM-DD format"
+    );
+    await assertRejected(
+      database.rpc("submit_transfer_request", { ...validArgs(), p_patient_email: "jane@" }),
+      "Invalid email address"
+    );
+    await assertRejected(database.rpc("submit_transfer_request", { ...validArgs(), p_rx_number: "" }), "Rx number is required");
+    await assertRejected(
+      database.rpc("submit_transfer_request", { ...validArgs(), p_transfer_to_pharmacy_name: "" }),
+      "Pharmacy name is required"
+    );
+    await assertRejected(
+      database.rpc("submit_transfer_request", { ...validArgs(), p_transfer_to_pharmacy_address1: "" }),
+      "Address is required"
+    );
+    await assertRejected(
+      database.rpc("submit_transfer_request", { ...validArgs(), p_transfer_to_pharmacy_city: "" }),
+      "City is required"
+    );
+    await assertRejected(
+      database.rpc("submit_transfer_request", { ...validArgs(), p_transfer_to_pharmacy_state: "Illinois" }),
+      "State must be a 2-letter code"
+    );
+    await assertRejected(
+      database.rpc("submit_transfer_request", { ...validArgs(), p_transfer_to_pharmacy_zip: "62" }),
+      "Invalid ZIP code"
+    );
+    await assertRejected(
+      database.rpc("submit_transfer_request", { ...validArgs(), p_transfer_to_pharmacy_phone: "555" }),
+      "Phone number is too short"
+    );
+    await assertRejected(
+      database.rpc("submit_transfer_request", { ...validArgs(), p_transfer_to_pharmacy_ncpdp: "12345" }),
+      "NCPDP ID must be 7 digits"
+    );
+    await assertRejected(database.rpc("submit_transfer_request", { ...validArgs(), p_consent: null }), "Consent is required");
+  });
+});
+
+describe("submit_inbound_transfer_request", () => {
+  const validArgs = () =>
+    toInboundTransferRequestArgs(
+      InboundTransferFormDataSchema.parse({
+        ...patient(),
+        currentPharmacyName: "Corner Drug",
+        currentPharmacyPhone: "555-222-3333",
+        currentPharmacyCity: "Springfield",
+        currentPharmacyState: "IL",
+        currentPharmacyNCPDP: "",
+        prescriptions: [{ medicationName: "Metformin 500 mg" }, { medicationName: "Lisinopril", rxNumber: "998877" }],
+        prescriberName: "Dr. Smith",
+        prescriberPhone: "",
+        preferredService: "delivery",
+        notes: "",
+        consent: true,
+      })
+    );
+
+  it("stores a valid request", async () => {
+    const id = await database.rpc<string>("submit_inbound_transfer_request", validArgs());
+    assert.ok(id);
+    assert.equal(
+      await count("inbound_transfer_requests", "id = $1 AND jsonb_array_length(prescriptions) = 2", [id]),
+      1
+    );
+  });
+
+  it("refuses invalid input", async () => {
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_first_name: "" }),
+      "First name is required"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_suffix: "Esq." }),
+      "Invalid name suffix"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_dob: null }),
+      "Date must be in YYYY-MM-DD format"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_phone: "555" }),
+      "Phone number is too short"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_email: "jane" }),
+      "Invalid email address"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_current_pharmacy_name: " " }),
+      "Current pharmacy is required"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_current_pharmacy_phone: "" }),
+      "Phone number is too short"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_current_pharmacy_ncpdp: "12ab567" }),
+      "NCPDP ID must be 7 digits"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_prescriptions: [] }),
+      "At least one prescription is required"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_prescriptions: [{ rxNumber: "998877" }] }),
+      "Medication name is required"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_prescriber_name: "" }),
+      "Prescriber name is required"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_prescriber_phone: "555" }),
+      "Phone number is too short"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_preferred_service: null }),
+      "Preferred service is required"
+    );
+    await assertRejected(
+      database.rpc("submit_inbound_transfer_request", { ...validArgs(), p_consent: false }),
+      "Consent is required"
+    );
+  });
+});
+
+describe("submit_med_sync_enrollment", () => {
+  const validArgs = () =>
+    toMedSyncEnrollmentArgs(
+      MedSyncEnrollmentFormDataSchema.parse({
+        ...patient(),
+        medications: [
+          { rxNumber: "1234567", medicationName: "Lisinopril", quantity: "30", daysSupply: "30", daysOnHand: "12" },
+          { rxNumber: "2345678", medicationName: "", quantity: "90", daysSupply: "90", daysOnHand: "40" },
+        ],
+        syncDay: "15",
+        preferredService: "pickup",
+        notes: "",
+        consent: true,
+      }),
+      SIGNALS
+    );
+
+  it("stores a valid enrollment", async () => {
+    const id = await database.rpc<string>("submit_med_sync_enrollment", validArgs());
+    assert.ok(id);
+    assert.equal(await count("med_sync_enrollments", "id = $1 AND sync_day = 15", [id]), 1);
+  });
+
+  it("refuses invalid input", async () => {
+    const medication = { rxNumber: "1234567", quantity: 30, daysSupply: 30, daysOnHand: 10 };
+    await assertRejected(
+      database.rpc("submit_med_sync_enrollment", { ...validArgs(), p_last_name: "" }),
+      "Last name is required"
+    );
+    await assertRejected(
+      database.rpc("submit_med_sync_enrollment", { ...validArgs(), p_dob: null }),
+      "Date must be in YYYY-MM-DD format"
+    );
+    await assertRejected(
+      database.rpc("submit_med_sync_enrollment", { ...validArgs(), p_medications: Array(16).fill(medication) }),
+      "Enroll at most 15 medications"
+    );
+    await assertRejected(
+      database.rpc("submit_med_sync_enrollment", { ...validArgs(), p_medications: [{ ...medication, quantity: 0 }] }),
+      "Quantity must be a whole number from 1 to 1000"
+    );
+    await assertRejected(
+      database.rpc("submit_med_sync_enrollment", { ...validArgs(), p_medications: [{ ...medication, daysSupply: 120 }] }),
+      "Days supply must be a whole number from 1 to 90"
+    );
+    await assertRejected(
+      database.rpc("submit_med_sync_enrollment", { ...validArgs(), p_medications: [{ ...medication, daysOnHand: -1 }] }),
+      "Days on hand must be a whole number from 0 to 90"
+    );
+    await assertRejected(
+      database.rpc("submit_med_sync_enrollment", { ...validArgs(), p_sync_day: 31 }),
+      "Sync day must be from 1 to 28"
+    );
+    await assertRejected(
+      database.rpc("submit_med_sync_enrollment", { ...validArgs(), p_consent: false }),
+      "Consent is required"
+    );
+  });
+
+  it("drops a form sent too quickly", async () => {
+    const args = { ...validArgs(), p_elapsed_ms: 0 };
+    assert.equal(await database.rpc("submit_med_sync_enrollment", args), null);
+    assert.equal(await count("med_sync_enrollments", "email = $1", [args.p_email]), 0);
+  });
+});
+
+describe("submit_splash_modal_signup", () => {
+  const validArgs = () => toSplashModalSignupArgs(SplashModalFormDataSchema.parse({ email: uniqueEmail() }), SIGNALS);
+
+  it("stores a valid signup under the normalized address", async () => {
+    const args = validArgs();
+    const id = await database.rpc<string>("submit_splash_modal_signup", { ...args, p_email: args.p_email.toUpperCase() });
+    assert.ok(id);
+    assert.equal(await count("splash_modal_submissions", "id = $1 AND email = $2", [id, args.p_email]), 1);
+  });
+
+  it("refuses an invalid email address", async () => {
+    await assertRejected(database.rpc("submit_splash_modal_signup", { ...validArgs(), p_email: "" }), "Invalid email address");
+  });
+
+  it("drops a filled-in honeypot", async () => {
+    const args = { ...validArgs(), p_honeypot: "x" };
+    assert.equal(await database.rpc("submit_splash_modal_signup", args), null);
+    assert.equal(await count("splash_modal_submissions", "email = $1", [args.p_email]), 0);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Test database
+ * Runs the migrations against an in-memory PGlite database, so the RPCs and
+ * policies can be tested without a Postgres server. The parts of Supabase the
+ * migrations rely on are stubbed first: the anon/authenticated/service_role
+ * roles with Supabase's default grants, auth.uid()/auth.jwt() and auth.users.
+ *
+ * Queries run as the database owner unless they go through `asRole`, which
+ * sets the role and JWT claims for one transaction the way PostgREST does.
+ */
+
+import { PGlite } from "@electric-sql/pglite";
+import type { Transaction } from "@electric-sql/pglite";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { discoverMigrations } from "../runner.ts";
+
+const MIGRATIONS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+const SUPABASE_STUBS = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+  CREATE SCHEMA auth;
+  GRANT USAGE ON SCHEMA public, auth TO anon, authenticated, service_role;
+
+  -- Supabase grants everything in public to the API roles; RLS and the
+  -- migrations' REVOKEs are what actually restrict access
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO anon, authenticated, service_role;
+
+  CREATE TABLE auth.users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email TEXT,
+    phone TEXT
+  );
+
+  CREATE FUNCTION auth.jwt() RETURNS JSONB LANGUAGE sql STABLE AS $$
+    SELECT COALESCE(NULLIF(current_setting('request.jwt.claims', true), ''), '{}')::JSONB
+  $$;
+
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS $$
+    SELECT NULLIF(auth.jwt() ->> 'sub', '')::UUID
+  $$;
+
+  GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA auth TO anon, authenticated, service_role;
+`;
+
+export type Session = { role: "anon" } | { role: "authenticated"; userId: string } | { role: "service_role" };
+
+export const ANON: Session = { role: "anon" };
+
+// The Edge Functions' key, e.g. for the RPCs only they may call
+export const SERVICE_ROLE: Session = { role: "service_role" };
+
+export interface TestDatabase {
+  db: PGlite;
+  /** Runs `fn` in a transaction as the session's role, with its JWT claims and request headers */
+  asRole: <T>(session: Session, fn: (tx: Transaction) => Promise<T>, headers?: Record<string, string>) => Promise<T>;
+  /** Calls a function with named arguments as the session's role and returns its result */
+  rpc: <T = unknown>(
+    name: string,
+    args: Record<string, unknown>,
+    session?: Session,
+    headers?: Record<string, string>
+  ) => Promise<T>;
+  /** Adds an auth user, listed in staff_users when `staff` is set */
+  createUser: (email: string, options?: { staff?: boolean }) => Promise<string>;
+}
+
+// RPC arguments as PostgREST would send them: omitted when undefined, JSON when structured
+function toParam(value: unknown): unknown {
+  return value !== null && typeof value === "object" ? JSON.stringify(value) : value;
+}
+
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const db = new PGlite();
+  await db.exec(SUPABASE_STUBS);
+  for (const migration of discoverMigrations(MIGRATIONS_DIR)) {
+    try {
+      await db.exec(fs.readFileSync(migration.upPath, "utf-8"));
+    } catch (error) {
+      throw new Error(`Migration ${migration.version}_${migration.name} failed`, { cause: error });
+    }
+  }
+
+  const asRole: TestDatabase["asRole"] = (session, fn, headers = {}) =>
+    db.transaction(async (tx) => {
+      const claims = session.role === "authenticated" ? { role: session.role, sub: session.userId } : { role: session.role };
+      await tx.query(
+        "SELECT set_config('request.jwt.claims', $1, true), set_config('request.headers', $2, true), set_config('role', $3, true)",
+        [JSON.stringify(claims), JSON.stringify(headers), session.role]
+      );
+      return fn(tx);
+    });
+
+  const rpc: TestDatabase["rpc"] = (name, args, session = ANON, headers = {}) => {
+    const entries = Object.entries(args).filter(([, value]) => value !== undefined);
+    const namedArgs = entries.map(([key], index) => `${key} => $${index + 1}`).join(", ");
+    return asRole(session, async (tx) => {
+      const { rows } = await tx.query<{ result: never }>(
+        `SELECT ${name}(${namedArgs}) AS result`,
+        entries.map(([, value]) => toParam(value))
+      );
+      return rows[0].result;
+    }, headers);
+  };
+
+  const createUser: TestDatabase["createUser"] = async (email, { staff = false } = {}) => {
+    const { rows } = await db.query<{ id: string }>("INSERT INTO auth.users (email) VALUES ($1) RETURNING id", [email]);
+    const userId = rows[0].id;
+    if (staff) {
+      await db.query("INSERT INTO staff_users (user_id, email) VALUES ($1, $2)", [userId, email]);
+    }
+    return userId;
+  };
+
+  return { db, asRole, rpc, createUser };
+}
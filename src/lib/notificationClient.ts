@@ -0,0 +1,36 @@
+/**
+ * Notification client
+ * Calls the notify-patient function from the browser (page or outbox service
+ * worker).
+ */
+
+// Patient notifications are sent by the notify-patient Edge Function (/api/notify in development)
+export const notifyPatientUrl =
+  import.meta.env.VITE_NOTIFY_PATIENT_URL ||
+  (import.meta.env.DEV
+    ? "/api/notify"
+    : `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/notify-patient`);
+
+/**
+ * Emails the patient the confirmation code of the refill request they just
+ * saved. The function sends it at most once per request, to the email on the
+ * request. Failures are only logged: the code is also shown on screen.
+ */
+export async function sendRefillConfirmation(requestId: string): Promise<void> {
+  try {
+    const response = await fetch(notifyPatientUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      },
+      body: JSON.stringify({ kind: "refill_confirmation", requestId }),
+    });
+    if (!response.ok) {
+      console.warn(`Refill confirmation email failed with status ${response.status}`);
+    }
+  } catch (error) {
+    console.warn("Unable to send the refill confirmation email:", error);
+  }
+}
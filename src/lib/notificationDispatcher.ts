@@ -0,0 +1,288 @@
+/**
+ * Notification dispatcher
+ * Runtime-agnostic request handler that notifies a patient of their request's
+ * latest status, or emails them a new refill request's confirmation code.
+ * Served as the notify-patient Supabase Edge Function (Deno) and by the Vite
+ * dev server (Node).
+ *
+ * The request and its status history are read with the caller's JWT through
+ * a staff-only RPC, which decides who may trigger a notification. Confirmation
+ * codes are claimed through claim_refill_confirmation, which only the patient
+ * who submitted the request can do, once.
+ */
+
+import { RefillConfirmationRequestSchema, StatusNotificationRequestSchema } from './schemas.ts';
+import type { RequestStatus, RequestType } from './schemas.ts';
+import {
+  buildRefillConfirmationNotifications,
+  buildStatusNotifications,
+  createLocalNotificationTransport,
+  createWebhookNotificationTransport,
+  dispatchNotifications,
+} from './notifications.ts';
+import type {
+  NotificationDelivery,
+  NotificationTransport,
+  PatientContact,
+  PatientNotification,
+} from './notifications.ts';
+
+export interface StatusNotificationContext {
+  contact: PatientContact;
+  status: RequestStatus;
+  reason: string | null;
+}
+
+/**
+ * Loads the patient contact and latest status for a request, or null when the
+ * caller cannot see it
+ */
+export type StatusNotificationLookup = (
+  requestType: RequestType,
+  requestId: string,
+  authorization: string
+) => Promise<StatusNotificationContext | null>;
+
+export interface RefillConfirmationContext {
+  contact: PatientContact;
+  confirmationCode: string;
+}
+
+/**
+ * Claims the confirmation email of the refill request with this request ID,
+ * or returns null when there is none to send (already sent, or no email)
+ */
+export type RefillConfirmationLookup = (
+  requestId: string,
+  authorization: string
+) => Promise<RefillConfirmationContext | null>;
+
+export interface NotificationDispatcherConfig {
+  lookup: StatusNotificationLookup;
+  confirmationLookup: RefillConfirmationLookup;
+  transport: NotificationTransport;
+}
+
+export interface NotificationDispatchResult {
+  success: boolean;
+  message: string;
+  deliveries?: NotificationDelivery[];
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+/**
+ * Looks requests up through the get_status_notification RPC
+ * (020_audited_reads.sql) with the caller's JWT. The RPC records reading the
+ * patient's contact details in the audit log, in the same transaction.
+ */
+export function createPostgrestLookup(supabaseUrl: string, anonKey: string): StatusNotificationLookup {
+  return async (requestType, requestId, authorization) => {
+    const response = await fetch(`${supabaseUrl}/rest/v1/rpc/get_status_notification`, {
+      method: 'POST',
+      headers: { apikey: anonKey, Authorization: authorization, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ p_request_type: requestType, p_request_id: requestId }),
+    });
+    // Callers who aren't staff
+    if (response.status === 401 || response.status === 403) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Supabase responded with HTTP ${response.status}`);
+    }
+
+    const found = ((await response.json()) as Record<string, unknown>[])[0];
+    if (!found) return null;
+
+    return {
+      contact: {
+        firstName: (found.first_name as string | null) ?? null,
+        phone: (found.phone as string | null) ?? null,
+        email: (found.email as string | null) ?? null,
+      },
+      status: found.request_status as RequestStatus,
+      reason: (found.reason as string | null) ?? null,
+    };
+  };
+}
+
+/**
+ * Claims confirmation emails through the claim_refill_confirmation RPC
+ * (015_refill_status_lookup.sql) with the caller's JWT
+ */
+export function createPostgrestConfirmationLookup(supabaseUrl: string, anonKey: string): RefillConfirmationLookup {
+  return async (requestId, authorization) => {
+    const response = await fetch(`${supabaseUrl}/rest/v1/rpc/claim_refill_confirmation`, {
+      method: 'POST',
+      headers: { apikey: anonKey, Authorization: authorization, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ p_request_id: requestId }),
+    });
+    if (!response.ok) {
+      throw new Error(`Supabase responded with HTTP ${response.status}`);
+    }
+
+    const claimed = ((await response.json()) as Record<string, unknown>[])[0];
+    if (!claimed) return null;
+
+    return {
+      contact: {
+        firstName: (claimed.first_name as string | null) ?? null,
+        phone: null,
+        email: (claimed.email as string | null) ?? null,
+      },
+      confirmationCode: claimed.confirmation_code as string,
+    };
+  };
+}
+
+/**
+ * Reads dispatcher configuration through the given environment accessor.
+ * Notifications go to `NOTIFICATIONS_WEBHOOK_URL`. The local stand-in
+ * transport, which only logs them, is used when that is unset and
+ * `NOTIFICATIONS_TRANSPORT=local` asks for it (the Vite dev server does);
+ * otherwise the dispatcher is not configured, so nothing is reported as sent.
+ */
+export function loadNotificationDispatcherConfig(
+  getEnv: (name: string) => string | undefined
+): NotificationDispatcherConfig | null {
+  const supabaseUrl = getEnv('SUPABASE_URL') || getEnv('VITE_SUPABASE_URL');
+  const anonKey = getEnv('SUPABASE_ANON_KEY') || getEnv('VITE_SUPABASE_ANON_KEY');
+
+  if (!supabaseUrl || !anonKey) {
+    return null;
+  }
+
+  const webhookUrl = getEnv('NOTIFICATIONS_WEBHOOK_URL');
+  let transport: NotificationTransport;
+  if (webhookUrl) {
+    transport = createWebhookNotificationTransport(webhookUrl, getEnv('NOTIFICATIONS_WEBHOOK_TOKEN'));
+  } else if (getEnv('NOTIFICATIONS_TRANSPORT') === 'local') {
+    transport = createLocalNotificationTransport();
+  } else {
+    return null;
+  }
+
+  return {
+    lookup: createPostgrestLookup(supabaseUrl, anonKey),
+    confirmationLookup: createPostgrestConfirmationLookup(supabaseUrl, anonKey),
+    transport,
+  };
+}
+
+function jsonResponse(body: NotificationDispatchResult, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+}
+
+async function deliveryResponse(
+  notifications: PatientNotification[],
+  transport: NotificationTransport
+): Promise<Response> {
+  const deliveries = await dispatchNotifications(notifications, transport);
+  const sentChannels = deliveries
+    .filter((delivery) => delivery.success)
+    .map((delivery) => (delivery.channel === 'sms' ? 'SMS' : 'email'));
+
+  return jsonResponse(
+    {
+      success: sentChannels.length > 0,
+      message: sentChannels.length > 0
+        ? `Patient notified by ${sentChannels.join(' and ')}.`
+        : 'Patient notification failed.',
+      deliveries,
+    },
+    sentChannels.length > 0 ? 200 : 502
+  );
+}
+
+/**
+ * Creates the dispatcher handler:
+ * - `POST { requestType, requestId }` with the staff member's
+ *   `Authorization: Bearer <jwt>` header notifies the patient of the status
+ * - `POST { kind: 'refill_confirmation', requestId }`, where requestId is the
+ *   submission's request ID, emails the patient their confirmation code
+ */
+export function createNotificationDispatchHandler(
+  config: NotificationDispatcherConfig | null
+): (request: Request) => Promise<Response> {
+  return async (request: Request) => {
+    if (request.method === 'OPTIONS') {
+      return new Response('ok', { headers: CORS_HEADERS });
+    }
+
+    if (request.method !== 'POST') {
+      return jsonResponse({ success: false, message: 'Method not allowed.' }, 405);
+    }
+
+    if (!config) {
+      console.error('Notification dispatcher is missing its Supabase or notification transport configuration');
+      return jsonResponse({ success: false, message: 'Notifications are not configured.' }, 500);
+    }
+
+    const authorization = request.headers.get('Authorization');
+    if (!authorization) {
+      return jsonResponse({ success: false, message: 'Sign in required.' }, 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ success: false, message: 'Request body must be JSON.' }, 400);
+    }
+
+    const confirmation = RefillConfirmationRequestSchema.safeParse(body);
+    if (confirmation.success) {
+      let confirmationContext: RefillConfirmationContext | null;
+      try {
+        confirmationContext = await config.confirmationLookup(confirmation.data.requestId, authorization);
+      } catch (error) {
+        console.error('Confirmation lookup failed:', error);
+        return jsonResponse({ success: false, message: 'Unable to load the request.' }, 502);
+      }
+
+      const notifications = confirmationContext
+        ? buildRefillConfirmationNotifications(confirmationContext.contact, confirmationContext.confirmationCode)
+        : [];
+      if (notifications.length === 0) {
+        return jsonResponse({ success: true, message: 'No confirmation to send.', deliveries: [] }, 200);
+      }
+      return deliveryResponse(notifications, config.transport);
+    }
+
+    const parsed = StatusNotificationRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return jsonResponse({ success: false, message: 'Invalid notification request.' }, 400);
+    }
+
+    let context: StatusNotificationContext | null;
+    try {
+      context = await config.lookup(parsed.data.requestType, parsed.data.requestId, authorization);
+    } catch (error) {
+      console.error('Notification lookup failed:', error);
+      return jsonResponse({ success: false, message: 'Unable to load the request.' }, 502);
+    }
+
+    if (!context) {
+      return jsonResponse({ success: false, message: 'Request not found.' }, 404);
+    }
+
+    const notifications = buildStatusNotifications(
+      context.contact,
+      parsed.data.requestType,
+      context.status,
+      context.reason
+    );
+    if (notifications.length === 0) {
+      return jsonResponse({ success: true, message: 'No notification needed.', deliveries: [] }, 200);
+    }
+
+    return deliveryResponse(notifications, config.transport);
+  };
+}
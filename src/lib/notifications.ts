@@ -0,0 +1,162 @@
+/**
+ * Patient notifications
+ * Emails / texts patients when staff change the status of their refill or
+ * transfer request, and emails the confirmation code of a new refill request.
+ * Delivery goes through an injectable transport so the dispatcher runs
+ * against a local stand-in during development.
+ */
+
+import { describeRequestStatusForPatient, REQUEST_STATUS_LABELS } from './requestStatus.ts';
+import { formatConfirmationCode } from './confirmationCode.ts';
+import type { RequestStatus, RequestType } from './schemas.ts';
+
+export type NotificationChannel = 'email' | 'sms';
+
+export interface PatientNotification {
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface NotificationDelivery {
+  channel: NotificationChannel;
+  to: string;
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Sends one notification; throws when the provider rejects it
+ */
+export interface NotificationTransport {
+  send(notification: PatientNotification): Promise<void>;
+}
+
+/**
+ * Contact details captured with the request (RefillFormData / TransferFormData)
+ */
+export interface PatientContact {
+  firstName: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface LocalNotificationTransport extends NotificationTransport {
+  sent: PatientNotification[];
+}
+
+/**
+ * Development stand-in: logs each notification and keeps it in `sent`
+ */
+export function createLocalNotificationTransport(
+  log: (message: string) => void = console.info
+): LocalNotificationTransport {
+  const sent: PatientNotification[] = [];
+  return {
+    sent,
+    async send(notification) {
+      sent.push(notification);
+      log(`[notifications] ${notification.channel} to ${notification.to}: ${notification.subject} — ${notification.body}`);
+    },
+  };
+}
+
+/**
+ * Posts each notification as JSON to a delivery webhook (e.g. an email/SMS
+ * provider relay), authenticated with a bearer token
+ */
+export function createWebhookNotificationTransport(url: string, token?: string): NotificationTransport {
+  return {
+    async send(notification) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(notification),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Notification webhook responded with HTTP ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Builds the email and/or SMS for a status change. Returns an empty list when the
+ * status is not patient-facing or no contact details were captured.
+ */
+export function buildStatusNotifications(
+  contact: PatientContact,
+  requestType: RequestType,
+  status: RequestStatus,
+  reason?: string | null
+): PatientNotification[] {
+  const description = describeRequestStatusForPatient(requestType, status, reason);
+  if (!description) return [];
+
+  const greeting = contact.firstName ? `Hi ${contact.firstName}! ` : '';
+  const body = `${greeting}${description}`;
+  const subject = `Elevated WellnessRX: ${requestType === 'refill' ? 'Refill' : 'Transfer'} ${REQUEST_STATUS_LABELS[status]}`;
+  const notifications: PatientNotification[] = [];
+
+  if (contact.email) {
+    notifications.push({ channel: 'email', to: contact.email, subject, body });
+  }
+  if (contact.phone) {
+    notifications.push({ channel: 'sms', to: contact.phone, subject, body: `Elevated WellnessRX: ${body}` });
+  }
+
+  return notifications;
+}
+
+/**
+ * Builds the email with a new refill request's confirmation code. Returns an
+ * empty list when no email address was captured.
+ */
+export function buildRefillConfirmationNotifications(
+  contact: PatientContact,
+  confirmationCode: string
+): PatientNotification[] {
+  if (!contact.email) return [];
+
+  const greeting = contact.firstName ? `Hi ${contact.firstName}! ` : '';
+  return [
+    {
+      channel: 'email',
+      to: contact.email,
+      subject: 'Elevated WellnessRX: Refill Request Received',
+      body:
+        `${greeting}We received your refill request. Your confirmation code is ${formatConfirmationCode(confirmationCode)}. ` +
+        'To see whether your refill is ready, choose Check Refill Status on our website and enter this code with your date of birth.',
+    },
+  ];
+}
+
+/**
+ * Sends each notification, reporting per-channel results instead of throwing
+ */
+export async function dispatchNotifications(
+  notifications: PatientNotification[],
+  transport: NotificationTransport
+): Promise<NotificationDelivery[]> {
+  return Promise.all(
+    notifications.map(async (notification) => {
+      try {
+        await transport.send(notification);
+        return { channel: notification.channel, to: notification.to, success: true, message: 'Sent' };
+      } catch (error) {
+        console.error(`Notification ${notification.channel} failed:`, error);
+        return {
+          channel: notification.channel,
+          to: notification.to,
+          success: false,
+          message: error instanceof Error ? error.message : 'Delivery failed',
+        };
+      }
+    })
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Submission outbox
+ * Refill requests that could not be sent (offline, or the pharmacy service
+ * was unreachable) wait here until connectivity returns. Entries live in
+ * IndexedDB, so the page and the outbox service worker share them, and their
+ * payloads are encrypted with AES-GCM under a non-extractable key that never
+ * leaves the browser's key store.
+ *
+ * Entries are keyed by the client-generated request ID, so queueing the same
+ * submission twice keeps a single entry.
+ */
+
+import type { RefillFormData } from "./schemas";
+
+const DB_NAME = "ewrx-outbox";
+const DB_VERSION = 1;
+const ENTRY_STORE = "entries";
+const KEY_STORE = "keys";
+const ENCRYPTION_KEY_ID = "outbox";
+
+// Queued requests older than this are recorded as undelivered rather than sent late
+export const OUTBOX_MAX_AGE_MS = 72 * 60 * 60 * 1000;
+
+/**
+ * - external: nothing has been sent yet
+ * - persist: BestRX accepted the request; only the Supabase audit copy is pending
+ * - undelivered: BestRX rejected the request or it expired; saving it as a
+ *   rejected request is pending
+ */
+export type OutboxStage = "external" | "persist" | "undelivered";
+
+export interface OutboxEntry {
+  requestId: string;
+  kind: "refill";
+  stage: OutboxStage;
+  data: RefillFormData;
+  queuedAt: number;
+  attempts: number;
+  /** Why an undelivered entry was not sent; BestRX's or the outbox's own message, so it is stored unencrypted */
+  reason?: string;
+}
+
+interface StoredOutboxEntry {
+  requestId: string;
+  kind: "refill";
+  stage: OutboxStage;
+  queuedAt: number;
+  attempts: number;
+  reason?: string;
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openOutboxDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(ENTRY_STORE, { keyPath: "requestId" });
+      db.createObjectStore(KEY_STORE);
+    };
+    dbPromise = requestResult(request).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * The outbox's AES-GCM key, created on first use. Stored as a non-extractable
+ * CryptoKey, so script can use it but never read the key material.
+ */
+async function getEncryptionKey(db: IDBDatabase): Promise<CryptoKey> {
+  const existing = await requestResult<CryptoKey | undefined>(
+    db.transaction(KEY_STORE).objectStore(KEY_STORE).get(ENCRYPTION_KEY_ID)
+  );
+  if (existing) return existing;
+
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+  const transaction = db.transaction(KEY_STORE, "readwrite");
+  // `add` fails if another tab or the worker created a key first; use theirs
+  transaction.objectStore(KEY_STORE).add(key, ENCRYPTION_KEY_ID);
+  try {
+    await transactionDone(transaction);
+    return key;
+  } catch {
+    return (await requestResult<CryptoKey | undefined>(
+      db.transaction(KEY_STORE).objectStore(KEY_STORE).get(ENCRYPTION_KEY_ID)
+    ))!;
+  }
+}
+
+async function encryptEntry(db: IDBDatabase, entry: OutboxEntry): Promise<StoredOutboxEntry> {
+  const key = await getEncryptionKey(db);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(entry.data));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+  const { data: _data, ...metadata } = entry;
+  return { ...metadata, iv, ciphertext };
+}
+
+async function decryptEntry(db: IDBDatabase, stored: StoredOutboxEntry): Promise<OutboxEntry> {
+  const key = await getEncryptionKey(db);
+  const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: stored.iv }, key, stored.ciphertext);
+  const { iv: _iv, ciphertext: _ciphertext, ...metadata } = stored;
+  return { ...metadata, data: JSON.parse(new TextDecoder().decode(plaintext)) as RefillFormData };
+}
+
+/**
+ * Queues a refill request; returns false when one with the same request ID is
+ * already waiting
+ */
+export async function queueOutboxEntry(
+  requestId: string,
+  data: RefillFormData,
+  stage: OutboxStage = "external"
+): Promise<boolean> {
+  const db = await openOutboxDb();
+  const stored = await encryptEntry(db, { requestId, kind: "refill", stage, data, queuedAt: Date.now(), attempts: 0 });
+
+  const transaction = db.transaction(ENTRY_STORE, "readwrite");
+  const store = transaction.objectStore(ENTRY_STORE);
+  const existing = await requestResult(store.getKey(requestId));
+  if (existing === undefined) {
+    store.add(stored);
+  }
+  await transactionDone(transaction);
+  return existing === undefined;
+}
+
+export async function listOutboxEntries(): Promise<OutboxEntry[]> {
+  const db = await openOutboxDb();
+  const stored = await requestResult<StoredOutboxEntry[]>(
+    db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll()
+  );
+  const entries: OutboxEntry[] = [];
+  for (const entry of stored) {
+    try {
+      entries.push(await decryptEntry(db, entry));
+    } catch (error) {
+      // Unreadable without its key (e.g. site data was partially cleared)
+      console.error(`Dropping outbox entry ${entry.requestId} that could not be decrypted:`, error);
+      await removeOutboxEntry(entry.requestId);
+    }
+  }
+  return entries;
+}
+
+export async function updateOutboxEntry(entry: OutboxEntry): Promise<void> {
+  const db = await openOutboxDb();
+  const stored = await encryptEntry(db, entry);
+  const transaction = db.transaction(ENTRY_STORE, "readwrite");
+  transaction.objectStore(ENTRY_STORE).put(stored);
+  await transactionDone(transaction);
+}
+
+export async function removeOutboxEntry(requestId: string): Promise<void> {
+  const db = await openOutboxDb();
+  const transaction = db.transaction(ENTRY_STORE, "readwrite");
+  transaction.objectStore(ENTRY_STORE).delete(requestId);
+  await transactionDone(transaction);
+}
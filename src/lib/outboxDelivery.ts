@@ -0,0 +1,216 @@
+/**
+ * Outbox delivery
+ * Sends the refill requests waiting in the outbox (see outbox.ts). Runs in the
+ * page and in the outbox service worker: the worker is woken by Background
+ * Sync where the browser supports it, and the page flushes on load and
+ * whenever it comes back online. A Web Lock keeps the two from sending the
+ * same entry at once.
+ */
+
+import { callBestRXProxy } from "./bestrxClient";
+import { listOutboxEntries, OUTBOX_MAX_AGE_MS, removeOutboxEntry, updateOutboxEntry } from "./outbox";
+import type { OutboxEntry } from "./outbox";
+import { toRefillRequestArgs, toUndeliveredRefillRequestArgs } from "./rpcArgs";
+import type { RpcArgs } from "./rpcArgs";
+import { SubmissionError } from "./submission";
+import { sendRefillConfirmation } from "./notificationClient";
+
+export const OUTBOX_SYNC_TAG = "ewrx-outbox";
+
+const OUTBOX_LOCK_NAME = "ewrx-outbox-flush";
+
+// Emitted unhashed next to index.html (see vite.config.ts), so its scope covers the whole app
+const OUTBOX_WORKER_URL = `${import.meta.env.BASE_URL}outbox-sw.js`;
+
+export interface OutboxFlushResult {
+  sent: number;
+  remaining: number;
+}
+
+// Reasons saved with a request the outbox could not deliver; the patient sees them through the refill status lookup
+const EXPIRED_REASON =
+  "This request could not be sent within 72 hours of being submitted. Please submit it again or call the pharmacy.";
+const REJECTED_REASON = "The pharmacy system could not accept this request. Please call the pharmacy.";
+
+// Timeouts, rate limiting and server errors are temporary; any other 4xx means PostgREST refused the arguments
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Calls a refill RPC through PostgREST directly, since the service worker has
+ * no supabase-js session storage
+ */
+async function callRefillRpc<F extends "submit_refill_request" | "record_undelivered_refill_request">(
+  name: F,
+  args: RpcArgs<F>
+): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/rest/v1/rpc/${name}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      },
+      body: JSON.stringify(args),
+    });
+  } catch (error) {
+    throw new SubmissionError("Unable to reach the server.", "persist", "network", { cause: error });
+  }
+  if (!response.ok) {
+    const kind = isRetryableStatus(response.status) ? "network" : "rejected";
+    throw new SubmissionError(`${name} failed with status ${response.status}`, "persist", kind);
+  }
+}
+
+/**
+ * - sent: delivered, including the audit copy
+ * - dropped: not delivered and not worth resending; saved as a rejected
+ *   request when the server accepts it
+ * - pending: the server is still unreachable
+ */
+type DeliveryOutcome = "sent" | "dropped" | "pending";
+
+/**
+ * Saves an entry BestRX rejected, or that expired, as a rejected request so
+ * staff and the patient's status lookup see it
+ */
+async function recordUndelivered(entry: OutboxEntry): Promise<DeliveryOutcome> {
+  try {
+    await callRefillRpc(
+      "record_undelivered_refill_request",
+      toUndeliveredRefillRequestArgs(entry.data, entry.requestId, entry.reason ?? REJECTED_REASON)
+    );
+  } catch (error) {
+    if (error instanceof SubmissionError && error.retryable) {
+      await updateOutboxEntry({ ...entry, attempts: entry.attempts + 1 });
+      return "pending";
+    }
+    console.error(`Dropping refill request ${entry.requestId} that could not be recorded as undelivered:`, error);
+  }
+  return "dropped";
+}
+
+async function deliverEntry(entry: OutboxEntry): Promise<DeliveryOutcome> {
+  if (entry.stage === "undelivered") {
+    return recordUndelivered(entry);
+  }
+
+  if (entry.stage === "external") {
+    try {
+      await callBestRXProxy("refill", entry.data, new AbortController().signal, entry.requestId);
+    } catch (error) {
+      if (error instanceof SubmissionError && error.retryable) {
+        await updateOutboxEntry({ ...entry, attempts: entry.attempts + 1 });
+        return "pending";
+      }
+      console.warn(`BestRX rejected queued refill request ${entry.requestId}:`, error);
+      const reason = error instanceof SubmissionError ? error.message : REJECTED_REASON;
+      return recordUndelivered({ ...entry, stage: "undelivered", reason, attempts: 0 });
+    }
+    entry = { ...entry, stage: "persist", attempts: 0 };
+  }
+
+  try {
+    await callRefillRpc("submit_refill_request", toRefillRequestArgs(entry.data, entry.requestId));
+  } catch (error) {
+    if (error instanceof SubmissionError && error.retryable) {
+      await updateOutboxEntry({ ...entry, attempts: entry.attempts + 1 });
+      return "pending";
+    }
+    // BestRX already has the request; only the audit copy is lost
+    console.error(`Dropping the audit copy of refill request ${entry.requestId}:`, error);
+    return "sent";
+  }
+
+  if (entry.data.email) {
+    await sendRefillConfirmation(entry.requestId);
+  }
+  return "sent";
+}
+
+async function flushEntries(): Promise<OutboxFlushResult> {
+  const entries = await listOutboxEntries();
+  let sent = 0;
+  let remaining = 0;
+
+  for (let entry of entries) {
+    // Too late to send; an audit copy still pending is written regardless
+    if (entry.stage === "external" && Date.now() - entry.queuedAt > OUTBOX_MAX_AGE_MS) {
+      console.error(`Refill request ${entry.requestId} waited too long in the outbox; recording it as undelivered`);
+      entry = { ...entry, stage: "undelivered", reason: EXPIRED_REASON, attempts: 0 };
+    }
+    const outcome = await deliverEntry(entry);
+    if (outcome === "pending") {
+      remaining++;
+      continue;
+    }
+    await removeOutboxEntry(entry.requestId);
+    if (outcome === "sent") sent++;
+  }
+
+  return { sent, remaining };
+}
+
+/**
+ * Sends every queued entry that can be sent now. Entries that still can't
+ * reach the server stay queued for the next flush.
+ */
+export async function flushOutbox(): Promise<OutboxFlushResult> {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request(OUTBOX_LOCK_NAME, flushEntries);
+  }
+  return flushEntries();
+}
+
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+/**
+ * Asks the service worker to flush the outbox once the browser has
+ * connectivity, even if the page is closed by then. Browsers without
+ * Background Sync fall back to the page's own online listener.
+ */
+export async function requestOutboxSync(): Promise<void> {
+  if (!("serviceWorker" in navigator)) return;
+  try {
+    const registration = (await navigator.serviceWorker.getRegistration()) as SyncRegistration | undefined;
+    await registration?.sync?.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    console.warn("Background sync unavailable for the outbox:", error);
+  }
+}
+
+async function flushFromPage(): Promise<void> {
+  try {
+    const { sent } = await flushOutbox();
+    if (sent > 0) {
+      console.info(`Sent ${sent} queued refill request${sent === 1 ? "" : "s"} from the outbox`);
+    }
+  } catch (error) {
+    console.warn("Unable to flush the outbox:", error);
+  }
+}
+
+/**
+ * Page-side setup: registers the outbox service worker (production builds
+ * only, since the dev server doesn't emit it) and flushes the outbox now and
+ * whenever the browser reconnects
+ */
+export function startOutbox(): void {
+  if (typeof indexedDB === "undefined") return;
+
+  if (import.meta.env.PROD && "serviceWorker" in navigator) {
+    navigator.serviceWorker.register(OUTBOX_WORKER_URL, { type: "module" }).catch((error) => {
+      console.warn("Outbox service worker registration failed:", error);
+    });
+  }
+
+  window.addEventListener("online", () => void flushFromPage());
+  if (navigator.onLine) {
+    void flushFromPage();
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Patient accounts
+ * Maps a signed-in patient's profile and past requests (014_patient_accounts.sql)
+ * to the values the request forms are pre-filled with, and formats phone
+ * numbers for SMS sign-in codes.
+ */
+
+import type { z } from "zod";
+import type { Tables } from "./database.types";
+import { PrescriptionListSchema } from "./schemas";
+import type { PatientProfile, PatientProfileSchema, RefillFormDataSchema } from "./schemas";
+
+export type PatientProfileRow = Tables<"patient_profiles">;
+
+/** Form values shared by the refill, transfer and inbound transfer forms */
+export type PatientFormValues = z.input<typeof PatientProfileSchema>;
+
+export type RefillFormValues = z.input<typeof RefillFormDataSchema>;
+
+/** The columns get_patient_requests returns (020_audited_reads.sql) */
+export type PatientRefillRequest = Pick<
+  Tables<"refill_requests">,
+  | "id"
+  | "created_at"
+  | "status"
+  | "prescriptions"
+  | "preferred_service"
+  | "first_name"
+  | "middle_name"
+  | "last_name"
+  | "suffix"
+  | "dob"
+  | "phone"
+  | "email"
+>;
+
+export type PatientTransferRequest = Pick<
+  Tables<"transfer_requests">,
+  "id" | "created_at" | "status" | "rx_number" | "transfer_to_pharmacy_name"
+>;
+
+export function fromPatientProfileRow(row: PatientProfileRow): PatientProfile {
+  return {
+    firstName: row.first_name,
+    middleName: row.middle_name ?? undefined,
+    lastName: row.last_name,
+    suffix: (row.suffix ?? undefined) as PatientProfile["suffix"],
+    dob: row.dob,
+    phone: row.phone,
+    email: row.email ?? undefined,
+  };
+}
+
+export function toPatientFormValues(profile: PatientProfile): PatientFormValues {
+  return {
+    firstName: profile.firstName,
+    middleName: profile.middleName ?? "",
+    lastName: profile.lastName,
+    suffix: profile.suffix ?? "",
+    dob: profile.dob,
+    phone: profile.phone,
+    email: profile.email ?? "",
+  };
+}
+
+/**
+ * Refill form values repeating an earlier request: its prescriptions and
+ * preferred service, and the patient details it was sent with
+ */
+export function toRefillAgainValues(request: PatientRefillRequest): Partial<RefillFormValues> {
+  const prescriptions = PrescriptionListSchema.safeParse(request.prescriptions);
+  return {
+    firstName: request.first_name ?? "",
+    middleName: request.middle_name ?? "",
+    lastName: request.last_name ?? "",
+    suffix: (request.suffix ?? "") as RefillFormValues["suffix"],
+    dob: request.dob,
+    phone: request.phone,
+    email: request.email ?? "",
+    prescriptions: prescriptions.success
+      ? prescriptions.data.map((rx) => ({ rxNumber: rx.rxNumber, medicationName: rx.medicationName ?? "" }))
+      : undefined,
+    preferredService: request.preferred_service,
+  };
+}
+
+/**
+ * E.164 form of a phone number for Supabase SMS sign-in. Ten-digit numbers
+ * are taken as US numbers.
+ */
+export function toSmsPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length === 10 && !phone.trim().startsWith("+") ? `+1${digits}` : `+${digits}`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Patient name utilities
+ * Normalizes structured names for BestRX patient matching and formats them for
+ * display. Legacy single-field names (refill_requests.patient_name) are split
+ * into their parts in the database, by parse_patient_name in
+ * 003_patient_name_parts.sql.
+ */
+
+import { NameSuffixSchema } from './schemas.ts';
+import type { PatientName } from './schemas.ts';
+
+type NameSuffix = NonNullable<PatientName['suffix']>;
+
+// Suffix spellings patients type, keyed without punctuation
+const SUFFIX_ALIASES: Record<string, NameSuffix> = {
+  jr: 'Jr.',
+  junior: 'Jr.',
+  sr: 'Sr.',
+  senior: 'Sr.',
+  ii: 'II',
+  '2nd': 'II',
+  iii: 'III',
+  '3rd': 'III',
+  iv: 'IV',
+  '4th': 'IV',
+  v: 'V',
+  '5th': 'V',
+};
+
+function collapseWhitespace(value: string): string {
+  return value.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Returns the canonical suffix for a token such as "jr", "Jr." or "III", or null
+ */
+export function matchNameSuffix(token: string): NameSuffix | null {
+  const key = token.toLowerCase().replace(/[.,]/g, '');
+  const suffix = SUFFIX_ALIASES[key];
+  return suffix && NameSuffixSchema.safeParse(suffix).success ? suffix : null;
+}
+
+/**
+ * Normalizes a structured name: trims and collapses whitespace, tidies spacing
+ * around hyphens, and moves a suffix typed into the last-name field into `suffix`.
+ */
+export function normalizePatientName(name: PatientName): PatientName {
+  const firstName = collapseWhitespace(name.firstName);
+  const middleName = name.middleName ? collapseWhitespace(name.middleName) : '';
+  let lastName = collapseWhitespace(name.lastName).replace(/\s*-\s*/g, '-').replace(/,$/, '');
+  let suffix = name.suffix;
+
+  const lastTokens = lastName.split(' ');
+  const trailingSuffix = lastTokens.length > 1 ? matchNameSuffix(lastTokens[lastTokens.length - 1]) : null;
+  if (trailingSuffix) {
+    lastName = lastTokens.slice(0, -1).join(' ').replace(/,$/, '');
+    suffix = suffix ?? trailingSuffix;
+  }
+
+  return {
+    firstName,
+    middleName: middleName || undefined,
+    lastName,
+    suffix,
+  };
+}
+
+/**
+ * Formats a structured name as a single display string, e.g. "Mary A. Smith-Jones Jr."
+ */
+export function formatPatientName(name: PatientName): string {
+  const normalized = normalizePatientName(name);
+  return [normalized.firstName, normalized.middleName, normalized.lastName, normalized.suffix]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Last name as sent to BestRX for patient matching (suffix removed)
+ */
+export function getBestRXLastName(name: PatientName): string {
+  return normalizePatientName(name).lastName;
+}
@@ -0,0 +1,181 @@
+/**
+ * Pharmacy directory utilities
+ * Parses CSV/JSON pharmacy datasets for import into the pharmacy_directory table
+ * and maps directory rows to and from their database shape.
+ */
+
+import { PharmacyDirectoryEntrySchema } from './schemas.ts';
+import type { PharmacyDirectoryEntry } from './schemas.ts';
+
+/**
+ * Row shape of the pharmacy_directory table
+ */
+export interface PharmacyDirectoryRow {
+  ncpdp_id: string;
+  name: string;
+  address1: string;
+  address2: string | null;
+  city: string;
+  state: string;
+  zip: string;
+  phone: string;
+}
+
+export interface PharmacyDirectoryParseResult {
+  entries: PharmacyDirectoryEntry[];
+  errors: string[];
+}
+
+// Accepted column/property names for each field, compared case-insensitively without separators
+const FIELD_ALIASES: Record<keyof PharmacyDirectoryEntry, string[]> = {
+  ncpdpId: ['ncpdpid', 'ncpdp', 'nabp', 'ncpdpprovidernumber'],
+  name: ['name', 'pharmacyname', 'dbaname'],
+  address1: ['address1', 'address', 'addressline1', 'street'],
+  address2: ['address2', 'addressline2'],
+  city: ['city'],
+  state: ['state'],
+  zip: ['zip', 'zipcode', 'postalcode'],
+  phone: ['phone', 'phonenumber', 'telephone'],
+};
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function toEntryCandidate(record: Record<string, unknown>): Record<string, string | undefined> {
+  const byKey = new Map(
+    Object.entries(record).map(([key, value]) => [normalizeKey(key), value == null ? '' : String(value)])
+  );
+  const candidate: Record<string, string | undefined> = {};
+
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES)) {
+    const alias = aliases.find((name) => byKey.has(name));
+    candidate[field] = alias ? byKey.get(alias) : undefined;
+  }
+
+  // NCPDP IDs are often exported as numbers, dropping leading zeros
+  if (candidate.ncpdpId && /^\d{1,7}$/.test(candidate.ncpdpId.trim())) {
+    candidate.ncpdpId = candidate.ncpdpId.trim().padStart(7, '0');
+  }
+  if (candidate.address2 === '') {
+    candidate.address2 = undefined;
+  }
+  if (candidate.state) {
+    candidate.state = candidate.state.trim().toUpperCase();
+  }
+
+  return candidate;
+}
+
+function validateRecords(records: Record<string, unknown>[]): PharmacyDirectoryParseResult {
+  const entries: PharmacyDirectoryEntry[] = [];
+  const errors: string[] = [];
+
+  records.forEach((record, index) => {
+    const parsed = PharmacyDirectoryEntrySchema.safeParse(toEntryCandidate(record));
+    if (parsed.success) {
+      entries.push(parsed.data);
+    } else {
+      const issues = parsed.error.errors.map((err) => `${err.path.join('.')}: ${err.message}`);
+      errors.push(`Record ${index + 1}: ${issues.join('; ')}`);
+    }
+  });
+
+  return { entries, errors };
+}
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180 quoting)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim().length > 0));
+}
+
+/**
+ * Parses a CSV pharmacy dataset with a header row
+ */
+export function parsePharmacyDirectoryCsv(text: string): PharmacyDirectoryParseResult {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { entries: [], errors: ['CSV file is empty'] };
+
+  const records = rows.map((values) =>
+    Object.fromEntries(header.map((column, index) => [column, values[index] ?? '']))
+  );
+  return validateRecords(records);
+}
+
+/**
+ * Parses a JSON pharmacy dataset (an array of objects)
+ */
+export function parsePharmacyDirectoryJson(text: string): PharmacyDirectoryParseResult {
+  const data = JSON.parse(text) as unknown;
+  if (!Array.isArray(data)) return { entries: [], errors: ['JSON dataset must be an array'] };
+
+  return validateRecords(
+    data.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+  );
+}
+
+export function toPharmacyDirectoryRow(entry: PharmacyDirectoryEntry): PharmacyDirectoryRow {
+  return {
+    ncpdp_id: entry.ncpdpId,
+    name: entry.name,
+    address1: entry.address1,
+    address2: entry.address2 || null,
+    city: entry.city,
+    state: entry.state,
+    zip: entry.zip,
+    phone: entry.phone,
+  };
+}
+
+export function fromPharmacyDirectoryRow(row: PharmacyDirectoryRow): PharmacyDirectoryEntry {
+  return {
+    ncpdpId: row.ncpdp_id,
+    name: row.name,
+    address1: row.address1,
+    address2: row.address2 ?? undefined,
+    city: row.city,
+    state: row.state,
+    zip: row.zip,
+    phone: row.phone,
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Refill / transfer request status workflow
+ * received → in_progress → ready_for_pickup | out_for_delivery → completed,
+ * or rejected (with a reason) from any open status.
+ * advance_request_status() in 008_request_status_workflow.sql enforces the same transitions.
+ */
+
+import type { RequestStatus, RequestType } from './schemas.ts';
+
+export const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
+  received: 'Received',
+  in_progress: 'In Progress',
+  ready_for_pickup: 'Ready for Pickup',
+  out_for_delivery: 'Out for Delivery',
+  completed: 'Completed',
+  rejected: 'Rejected',
+};
+
+export const REQUEST_STATUS_TRANSITIONS: Record<RequestStatus, RequestStatus[]> = {
+  received: ['in_progress', 'rejected'],
+  in_progress: ['ready_for_pickup', 'out_for_delivery', 'rejected'],
+  ready_for_pickup: ['completed', 'rejected'],
+  out_for_delivery: ['completed', 'rejected'],
+  completed: [],
+  rejected: [],
+};
+
+export function canTransitionRequestStatus(from: RequestStatus, to: RequestStatus): boolean {
+  return REQUEST_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function isTerminalRequestStatus(status: RequestStatus): boolean {
+  return REQUEST_STATUS_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Patient-facing message for a status change, or null when the change is not worth notifying
+ */
+export function describeRequestStatusForPatient(
+  requestType: RequestType,
+  status: RequestStatus,
+  reason?: string | null
+): string | null {
+  const subject = requestType === 'refill' ? 'refill request' : 'prescription transfer request';
+
+  switch (status) {
+    case 'in_progress':
+      return `Your ${subject} is being processed by our pharmacy team.`;
+    case 'ready_for_pickup':
+      return `Your ${subject} is ready for pickup at Elevated WellnessRX.`;
+    case 'out_for_delivery':
+      return `Your ${subject} is out for delivery.`;
+    case 'completed':
+      return `Your ${subject} is complete. Thank you for choosing Elevated WellnessRX.`;
+    case 'rejected':
+      return [
+        `We could not complete your ${subject}.`,
+        reason ? `Reason: ${reason.trim().replace(/\.$/, '')}.` : '',
+        'Please call us if you have questions.',
+      ]
+        .filter(Boolean)
+        .join(' ');
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Form → RPC argument mapping
+ * Maps each validated form (the z.infer types in schemas.ts) to the `p_*`
+ * arguments of its submit_* RPC. The return types come from the generated
+ * database types, so a renamed column, a new required parameter or a
+ * mismatched value type fails to compile.
+ */
+
+import type { Database } from "./database.types";
+import type {
+  ContactFormData,
+  InboundTransferFormData,
+  MedSyncEnrollmentFormData,
+  MedSyncStatusUpdate,
+  PatientProfile,
+  RefillFormData,
+  RefillStatusLookup,
+  RequestStatusUpdate,
+  RpmAlertThresholds,
+  RpmDeviceRegistration,
+  RpmReadingReview,
+  RpmTimeEntry,
+  SplashModalFormData,
+  TransferFormData,
+  WaitlistContactAttempt,
+  WaitlistConversion,
+  WaitlistFormData,
+  WaitlistStatusUpdate,
+} from "./schemas";
+import { formatPatientName } from "./patientName";
+import { normalizeConfirmationCode } from "./confirmationCode";
+import type { AbuseSignals } from "./antiAbuse";
+
+export type RpcName = keyof Database["public"]["Functions"];
+export type RpcArgs<F extends RpcName> = Database["public"]["Functions"][F]["Args"];
+export type RpcReturns<F extends RpcName> = Database["public"]["Functions"][F]["Returns"];
+
+/**
+ * Screening arguments of the public forms' RPCs. Without signals the
+ * submission reads as instant and is rejected.
+ */
+function toScreeningArgs(signals: AbuseSignals | undefined) {
+  return {
+    p_honeypot: signals?.honeypot ?? "",
+    p_elapsed_ms: Math.round(signals?.elapsedMs ?? 0),
+    p_challenge_token: signals?.challengeToken ?? undefined,
+  };
+}
+
+export function toContactFormArgs(data: ContactFormData, signals?: AbuseSignals): RpcArgs<"submit_contact_form"> {
+  return {
+    p_name: data.name,
+    p_phone: data.phone,
+    p_email: data.email,
+    p_reason: data.reason,
+    p_message: data.message,
+    p_consent: data.consent,
+    ...toScreeningArgs(signals),
+  };
+}
+
+export function toWaitlistEntryArgs(data: WaitlistFormData, signals?: AbuseSignals): RpcArgs<"submit_waitlist_entry"> {
+  return {
+    p_name: data.name,
+    p_email: data.email,
+    p_phone: data.phone,
+    p_device_interest: data.deviceInterest,
+    p_insurance_type: data.insuranceType,
+    ...toScreeningArgs(signals),
+  };
+}
+
+/**
+ * `idempotencyKey` is the submission's request ID; a repeat with the same key
+ * returns the row it already created
+ */
+export function toRefillRequestArgs(data: RefillFormData, idempotencyKey?: string): RpcArgs<"submit_refill_request"> {
+  return {
+    p_patient_name: formatPatientName(data),
+    p_first_name: data.firstName,
+    p_middle_name: data.middleName || "",
+    p_last_name: data.lastName,
+    p_suffix: data.suffix || "",
+    p_dob: data.dob,
+    p_phone: data.phone,
+    p_email: data.email || "",
+    p_prescriptions: data.prescriptions,
+    p_preferred_service: data.preferredService,
+    p_notes: data.notes || "",
+    p_consent: data.consent,
+    p_idempotency_key: idempotencyKey,
+  };
+}
+
+/**
+ * A queued refill the outbox could not deliver, saved as a rejected request
+ * with `reason`; `idempotencyKey` works as in toRefillRequestArgs
+ */
+export function toUndeliveredRefillRequestArgs(
+  data: RefillFormData,
+  idempotencyKey: string,
+  reason: string
+): RpcArgs<"record_undelivered_refill_request"> {
+  return {
+    ...toRefillRequestArgs(data),
+    p_idempotency_key: idempotencyKey,
+    p_reason: reason,
+  };
+}
+
+export function toRefillStatusLookupArgs(query: RefillStatusLookup): RpcArgs<"lookup_refill_status"> {
+  return {
+    p_confirmation_code: normalizeConfirmationCode(query.confirmationCode),
+    p_dob: query.dob,
+  };
+}
+
+/** `idempotencyKey` works as in toRefillRequestArgs */
+export function toTransferRequestArgs(data: TransferFormData, idempotencyKey?: string): RpcArgs<"submit_transfer_request"> {
+  return {
+    p_patient_first_name: data.firstName,
+    p_patient_middle_name: data.middleName || "",
+    p_patient_last_name: data.lastName,
+    p_patient_suffix: data.suffix || "",
+    p_patient_dob: data.dob,
+    p_patient_phone: data.phone,
+    p_patient_email: data.email || "",
+    p_rx_number: data.rxNumber,
+    p_rx_fill_date: data.rxFillDate,
+    p_transfer_to_pharmacy_name: data.transferToPharmacyName,
+    p_transfer_to_pharmacy_address1: data.transferToPharmacyAddress1,
+    p_transfer_to_pharmacy_address2: data.transferToPharmacyAddress2 || "",
+    p_transfer_to_pharmacy_city: data.transferToPharmacyCity,
+    p_transfer_to_pharmacy_state: data.transferToPharmacyState,
+    p_transfer_to_pharmacy_zip: data.transferToPharmacyZip,
+    p_transfer_to_pharmacy_phone: data.transferToPharmacyPhone,
+    p_transfer_to_pharmacy_ncpdp: data.transferToPharmacyNCPDP || "",
+    p_transfer_rx_remark: data.transferRxRemark || "",
+    p_consent: data.consent,
+    p_idempotency_key: idempotencyKey,
+  };
+}
+
+export function toInboundTransferRequestArgs(
+  data: InboundTransferFormData
+): RpcArgs<"submit_inbound_transfer_request"> {
+  return {
+    p_first_name: data.firstName,
+    p_middle_name: data.middleName || "",
+    p_last_name: data.lastName,
+    p_suffix: data.suffix || "",
+    p_dob: data.dob,
+    p_phone: data.phone,
+    p_email: data.email || "",
+    p_current_pharmacy_name: data.currentPharmacyName,
+    p_current_pharmacy_phone: data.currentPharmacyPhone,
+    p_current_pharmacy_city: data.currentPharmacyCity || "",
+    p_current_pharmacy_state: data.currentPharmacyState || "",
+    p_current_pharmacy_ncpdp: data.currentPharmacyNCPDP || "",
+    p_prescriptions: data.prescriptions,
+    p_prescriber_name: data.prescriberName,
+    p_prescriber_phone: data.prescriberPhone || "",
+    p_preferred_service: data.preferredService,
+    p_notes: data.notes || "",
+    p_consent: data.consent,
+  };
+}
+
+export function toMedSyncEnrollmentArgs(
+  data: MedSyncEnrollmentFormData,
+  signals?: AbuseSignals
+): RpcArgs<"submit_med_sync_enrollment"> {
+  return {
+    p_first_name: data.firstName,
+    p_middle_name: data.middleName || "",
+    p_last_name: data.lastName,
+    p_suffix: data.suffix || "",
+    p_dob: data.dob,
+    p_phone: data.phone,
+    p_email: data.email || "",
+    p_medications: data.medications,
+    p_sync_day: data.syncDay,
+    p_preferred_service: data.preferredService,
+    p_notes: data.notes || "",
+    p_consent: data.consent,
+    ...toScreeningArgs(signals),
+  };
+}
+
+export function toSplashModalSignupArgs(
+  data: SplashModalFormData,
+  signals?: AbuseSignals
+): RpcArgs<"submit_splash_modal_signup"> {
+  return {
+    p_email: data.email,
+    ...toScreeningArgs(signals),
+  };
+}
+
+export function toPatientProfileArgs(data: PatientProfile): RpcArgs<"save_patient_profile"> {
+  return {
+    p_first_name: data.firstName,
+    p_middle_name: data.middleName || "",
+    p_last_name: data.lastName,
+    p_suffix: data.suffix || "",
+    p_dob: data.dob,
+    p_phone: data.phone,
+    p_email: data.email || "",
+  };
+}
+
+export function toRequestStatusUpdateArgs(update: RequestStatusUpdate): RpcArgs<"advance_request_status"> {
+  return {
+    p_request_type: update.requestType,
+    p_request_id: update.requestId,
+    p_status: update.status,
+    p_reason: update.reason || "",
+  };
+}
+
+export function toWaitlistStatusUpdateArgs(update: WaitlistStatusUpdate): RpcArgs<"advance_waitlist_status"> {
+  return {
+    p_entry_id: update.entryId,
+    p_status: update.status,
+  };
+}
+
+export function toWaitlistContactAttemptArgs(
+  attempt: WaitlistContactAttempt
+): RpcArgs<"log_waitlist_contact_attempt"> {
+  return {
+    p_entry_id: attempt.entryId,
+    p_method: attempt.method,
+    p_outcome: attempt.outcome,
+    p_note: attempt.note || "",
+  };
+}
+
+export function toWaitlistConversionArgs(conversion: WaitlistConversion): RpcArgs<"convert_waitlist_entry"> {
+  return {
+    p_entry_id: conversion.entryId,
+    p_dob: conversion.dob,
+  };
+}
+
+export function toRpmDeviceRegistrationArgs(device: RpmDeviceRegistration): RpcArgs<"register_rpm_device"> {
+  return {
+    p_patient_id: device.patientId,
+    p_device_type: device.deviceType,
+    p_vendor: device.vendor || "",
+    p_serial_number: device.serialNumber,
+  };
+}
+
+// A null limit is left out so the RPC stores NULL (inherit the clinic default)
+export function toRpmAlertThresholdsArgs(limits: RpmAlertThresholds): RpcArgs<"set_rpm_alert_thresholds"> {
+  return {
+    p_patient_id: limits.patientId ?? undefined,
+    p_systolic_high: limits.systolicHigh ?? undefined,
+    p_systolic_low: limits.systolicLow ?? undefined,
+    p_diastolic_high: limits.diastolicHigh ?? undefined,
+    p_diastolic_low: limits.diastolicLow ?? undefined,
+    p_pulse_high: limits.pulseHigh ?? undefined,
+    p_pulse_low: limits.pulseLow ?? undefined,
+    p_glucose_high: limits.glucoseHigh ?? undefined,
+    p_glucose_low: limits.glucoseLow ?? undefined,
+  };
+}
+
+export function toRpmReadingReviewArgs(review: RpmReadingReview): RpcArgs<"review_rpm_reading"> {
+  return {
+    p_reading_id: review.readingId,
+    p_note: review.note || "",
+    p_minutes: review.minutes,
+  };
+}
+
+export function toRpmTimeEntryArgs(entry: RpmTimeEntry): RpcArgs<"log_rpm_minutes"> {
+  return {
+    p_patient_id: entry.patientId,
+    p_activity: entry.activity,
+    p_minutes: entry.minutes,
+    p_service_date: entry.serviceDate,
+    p_note: entry.note || "",
+  };
+}
+
+export function toMedSyncStatusUpdateArgs(update: MedSyncStatusUpdate): RpcArgs<"set_med_sync_status"> {
+  return {
+    p_enrollment_id: update.enrollmentId,
+    p_status: update.status,
+  };
+}
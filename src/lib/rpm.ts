@@ -0,0 +1,135 @@
+/**
+ * Remote Patient Monitoring readings
+ * Display labels for readings and alerts, and the monthly billing summary.
+ * Readings are flagged against rpm_alert_thresholds by the set_rpm_reading_alerts
+ * trigger in 017_rpm_readings.sql; the flag names below are the ones it writes.
+ */
+
+import type { GlucoseContext, RpmActivity, RpmReadingType } from './schemas.ts';
+
+export const RPM_READING_TYPE_LABELS: Record<RpmReadingType, string> = {
+  blood_pressure: 'Blood Pressure',
+  glucose: 'Glucose',
+};
+
+export const GLUCOSE_CONTEXT_LABELS: Record<GlucoseContext, string> = {
+  fasting: 'Fasting',
+  before_meal: 'Before Meal',
+  after_meal: 'After Meal',
+  bedtime: 'Bedtime',
+  random: 'Random',
+};
+
+export const RPM_ACTIVITY_LABELS: Record<RpmActivity, string> = {
+  reading_review: 'Reading Review',
+  patient_call: 'Patient Call',
+  care_coordination: 'Care Coordination',
+};
+
+export const RPM_ALERT_FLAG_LABELS: Record<string, string> = {
+  systolic_high: 'High systolic',
+  systolic_low: 'Low systolic',
+  diastolic_high: 'High diastolic',
+  diastolic_low: 'Low diastolic',
+  pulse_high: 'High pulse',
+  pulse_low: 'Low pulse',
+  glucose_high: 'High glucose',
+  glucose_low: 'Low glucose',
+};
+
+/**
+ * The measures with alert limits, in display order. `key` is the column prefix
+ * in rpm_alert_thresholds (`<key>_high`, `<key>_low`).
+ */
+export const RPM_THRESHOLD_MEASURES = [
+  { key: 'systolic', label: 'Systolic', unit: 'mmHg' },
+  { key: 'diastolic', label: 'Diastolic', unit: 'mmHg' },
+  { key: 'pulse', label: 'Pulse', unit: 'bpm' },
+  { key: 'glucose', label: 'Glucose', unit: 'mg/dL' },
+] as const;
+
+export type RpmThresholdMeasure = (typeof RPM_THRESHOLD_MEASURES)[number]['key'];
+
+/**
+ * An rpm_readings row (or rpm_review_queue row); extra columns are ignored
+ */
+export interface RpmReadingValues {
+  reading_type: RpmReadingType;
+  systolic: number | null;
+  diastolic: number | null;
+  pulse: number | null;
+  glucose_mg_dl: number | null;
+  glucose_context: GlucoseContext | null;
+}
+
+/**
+ * e.g. "142/91 mmHg · pulse 78" or "212 mg/dL (after meal)"
+ */
+export function formatRpmReading(reading: RpmReadingValues): string {
+  if (reading.reading_type === 'blood_pressure') {
+    const pressure = `${reading.systolic ?? '?'}/${reading.diastolic ?? '?'} mmHg`;
+    return reading.pulse === null ? pressure : `${pressure} · pulse ${reading.pulse}`;
+  }
+  const glucose = `${reading.glucose_mg_dl ?? '?'} mg/dL`;
+  return reading.glucose_context
+    ? `${glucose} (${GLUCOSE_CONTEXT_LABELS[reading.glucose_context].toLowerCase()})`
+    : glucose;
+}
+
+export function formatRpmAlertFlags(flags: string[] | null): string {
+  return (flags ?? []).map((flag) => RPM_ALERT_FLAG_LABELS[flag] ?? flag).join(', ');
+}
+
+/**
+ * Monthly billing thresholds for the RPM CPT codes:
+ * - 99454: device supply with at least `deviceReadingDays` days of readings
+ * - 99457: the first `managementMinutes` of monitoring time in the calendar month
+ * - 99458: each further `additionalMinutes`
+ */
+export const RPM_BILLING = {
+  deviceReadingDays: 16,
+  managementMinutes: 20,
+  additionalMinutes: 20,
+} as const;
+
+export interface RpmBillingSummary {
+  deviceSupply: boolean;
+  management: boolean;
+  additionalUnits: number;
+  // Minutes still needed for the next billable unit
+  minutesToNextUnit: number;
+}
+
+/**
+ * Summarises one rpm_monthly_minutes row against RPM_BILLING
+ */
+export function summarizeRpmBillingMonth(minutes: number, readingDays: number): RpmBillingSummary {
+  const management = minutes >= RPM_BILLING.managementMinutes;
+  const additionalUnits = management
+    ? Math.floor((minutes - RPM_BILLING.managementMinutes) / RPM_BILLING.additionalMinutes)
+    : 0;
+  const nextUnitAt = management
+    ? RPM_BILLING.managementMinutes + (additionalUnits + 1) * RPM_BILLING.additionalMinutes
+    : RPM_BILLING.managementMinutes;
+
+  return {
+    deviceSupply: readingDays >= RPM_BILLING.deviceReadingDays,
+    management,
+    additionalUnits,
+    minutesToNextUnit: nextUnitAt - minutes,
+  };
+}
+
+/**
+ * e.g. "99454 · 99457 · 99458 ×2", or "Not yet billable"
+ */
+export function formatRpmBillingCodes(summary: RpmBillingSummary): string {
+  const codes = [
+    ...(summary.deviceSupply ? ['99454'] : []),
+    ...(summary.management ? ['99457'] : []),
+    ...(summary.additionalUnits > 0
+      ? [summary.additionalUnits === 1 ? '99458' : `99458 ×${summary.additionalUnits}`]
+      : []),
+  ];
+  return codes.length > 0 ? codes.join(' · ') : 'Not yet billable';
+}
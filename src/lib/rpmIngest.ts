@@ -0,0 +1,206 @@
+/**
+ * RPM reading ingestion
+ * Runtime-agnostic request handler that accepts batches of blood pressure and
+ * glucose readings from any device integration (vendor webhook relay, hub,
+ * or the simulator in rpmSimulator.ts). Served as the rpm-ingest Supabase Edge
+ * Function (Deno) and by the Vite dev server (Node).
+ *
+ * Callers authenticate with the shared `RPM_INGEST_TOKEN`; readings are stored
+ * through ingest_rpm_readings (017_rpm_readings.sql), which only the service
+ * role may call. Resending a reading is harmless: duplicates are counted, not stored.
+ */
+
+import { RpmReadingBatchSchema } from './schemas.ts';
+import type { RpmReading } from './schemas.ts';
+
+export interface RpmIngestCounts {
+  accepted: number;
+  duplicates: number;
+  flagged: number;
+}
+
+/**
+ * - unknown_device: no device has this serial number
+ * - invalid: the device is inactive, or sent the wrong type of reading
+ */
+export type RpmIngestErrorKind = 'unknown_device' | 'invalid';
+
+export class RpmIngestError extends Error {
+  readonly kind: RpmIngestErrorKind;
+
+  constructor(message: string, kind: RpmIngestErrorKind) {
+    super(message);
+    this.name = 'RpmIngestError';
+    this.kind = kind;
+  }
+}
+
+/**
+ * Stores one device's readings. Throws RpmIngestError for readings that
+ * should not be retried as sent.
+ */
+export type RpmReadingStore = (serialNumber: string, readings: RpmReading[]) => Promise<RpmIngestCounts>;
+
+export interface RpmIngestConfig {
+  token: string;
+  store: RpmReadingStore;
+}
+
+export interface RpmIngestResult {
+  success: boolean;
+  message: string;
+  counts?: RpmIngestCounts;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Postgres error codes raised by ingest_rpm_readings
+const STORE_ERROR_KINDS: Record<string, RpmIngestErrorKind> = {
+  P0002: 'unknown_device',
+  '22023': 'invalid',
+};
+
+/**
+ * Stores readings through the ingest_rpm_readings RPC with the service role key
+ */
+export function createSupabaseRpmReadingStore(supabaseUrl: string, serviceRoleKey: string): RpmReadingStore {
+  return async (serialNumber, readings) => {
+    const response = await fetch(`${supabaseUrl}/rest/v1/rpc/ingest_rpm_readings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey,
+      },
+      body: JSON.stringify({
+        p_serial_number: serialNumber,
+        p_readings: readings.map((reading) =>
+          reading.type === 'blood_pressure'
+            ? {
+                type: reading.type,
+                measured_at: reading.measuredAt,
+                systolic: reading.systolic,
+                diastolic: reading.diastolic,
+                pulse: reading.pulse ?? null,
+              }
+            : {
+                type: reading.type,
+                measured_at: reading.measuredAt,
+                glucose_mg_dl: reading.glucoseMgDl,
+                glucose_context: reading.context ?? null,
+              }
+        ),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as { code?: string; message?: string };
+      const kind = error.code ? STORE_ERROR_KINDS[error.code] : undefined;
+      if (kind) {
+        throw new RpmIngestError(error.message ?? 'Readings rejected.', kind);
+      }
+      throw new Error(`ingest_rpm_readings failed with status ${response.status}: ${error.message ?? ''}`);
+    }
+    return (await response.json()) as RpmIngestCounts;
+  };
+}
+
+/**
+ * Reads ingestion configuration through the given environment accessor.
+ * Requires `RPM_INGEST_TOKEN`, `SUPABASE_URL` and `SUPABASE_SERVICE_ROLE_KEY`.
+ */
+export function loadRpmIngestConfig(getEnv: (name: string) => string | undefined): RpmIngestConfig | null {
+  const token = getEnv('RPM_INGEST_TOKEN');
+  const supabaseUrl = getEnv('SUPABASE_URL') || getEnv('VITE_SUPABASE_URL');
+  const serviceRoleKey = getEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!token || !supabaseUrl || !serviceRoleKey) {
+    return null;
+  }
+
+  return { token, store: createSupabaseRpmReadingStore(supabaseUrl, serviceRoleKey) };
+}
+
+// Compares every character so the response time doesn't reveal how much of the token matched
+function tokensMatch(given: string, expected: string): boolean {
+  let difference = given.length ^ expected.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= (given.charCodeAt(i) || 0) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+function jsonResponse(body: RpmIngestResult, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Creates the ingestion handler: `POST { serialNumber, readings }` with
+ * `Authorization: Bearer <RPM_INGEST_TOKEN>`, where each reading is
+ * `{ type: 'blood_pressure', measuredAt, systolic, diastolic, pulse? }` or
+ * `{ type: 'glucose', measuredAt, glucoseMgDl, context? }`
+ */
+export function createRpmIngestHandler(config: RpmIngestConfig | null): (request: Request) => Promise<Response> {
+  return async (request: Request) => {
+    if (request.method === 'OPTIONS') {
+      return new Response('ok', { headers: CORS_HEADERS });
+    }
+
+    if (request.method !== 'POST') {
+      return jsonResponse({ success: false, message: 'Method not allowed.' }, 405);
+    }
+
+    if (!config) {
+      console.error('RPM ingestion is missing RPM_INGEST_TOKEN or its Supabase configuration');
+      return jsonResponse({ success: false, message: 'RPM ingestion is not configured.' }, 500);
+    }
+
+    const authorization = request.headers.get('Authorization') ?? '';
+    if (!tokensMatch(authorization.replace(/^Bearer\s+/i, ''), config.token)) {
+      return jsonResponse({ success: false, message: 'Invalid ingestion token.' }, 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ success: false, message: 'Request body must be JSON.' }, 400);
+    }
+
+    const parsed = RpmReadingBatchSchema.safeParse(body);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return jsonResponse(
+        { success: false, message: `Invalid readings: ${issue.path.join('.') || 'body'}: ${issue.message}` },
+        422
+      );
+    }
+
+    let counts: RpmIngestCounts;
+    try {
+      counts = await config.store(parsed.data.serialNumber, parsed.data.readings);
+    } catch (error) {
+      if (error instanceof RpmIngestError) {
+        return jsonResponse({ success: false, message: error.message }, error.kind === 'unknown_device' ? 404 : 422);
+      }
+      console.error('RPM ingestion failed:', error);
+      return jsonResponse({ success: false, message: 'Unable to store readings.' }, 502);
+    }
+
+    return jsonResponse(
+      {
+        success: true,
+        message: `Stored ${counts.accepted} reading${counts.accepted === 1 ? '' : 's'}.`,
+        counts,
+      },
+      200
+    );
+  };
+}
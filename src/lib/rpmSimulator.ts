@@ -0,0 +1,139 @@
+/**
+ * RPM device simulator
+ * Generates plausible blood pressure or glucose readings for local testing and
+ * sends them through the ingestion handler (rpmIngest.ts) the way a device
+ * integration would. Served only by the Vite dev server, at /api/rpm-simulator.
+ * The same seed always produces the same readings.
+ */
+
+import { z } from 'zod';
+import { RpmReadingTypeSchema } from './schemas.ts';
+import type { GlucoseContext, RpmReading, RpmReadingType } from './schemas.ts';
+
+export interface RpmSimulationOptions {
+  type: RpmReadingType;
+  days: number;
+  readingsPerDay: number;
+  // Share of readings (0–1) pushed outside the default alert thresholds
+  outOfRangeRate: number;
+  seed: number;
+  // The last day simulated; defaults to now
+  end?: Date;
+}
+
+export const RpmSimulationRequestSchema = z.object({
+  serialNumber: z.string().trim().min(1),
+  type: RpmReadingTypeSchema,
+  days: z.number().int().min(1).max(31).default(7),
+  readingsPerDay: z.number().int().min(1).max(4).default(2),
+  outOfRangeRate: z.number().min(0).max(1).default(0.1),
+  seed: z.number().int().default(1),
+});
+
+// Hours of the day readings are taken at, by readings per day
+const READING_HOURS: Record<number, number[]> = {
+  1: [8],
+  2: [8, 20],
+  3: [8, 13, 20],
+  4: [7, 12, 17, 22],
+};
+
+const GLUCOSE_CONTEXTS_BY_HOUR: Record<number, GlucoseContext> = {
+  7: 'fasting',
+  8: 'fasting',
+  12: 'before_meal',
+  13: 'after_meal',
+  17: 'before_meal',
+  20: 'after_meal',
+  22: 'bedtime',
+};
+
+// mulberry32: a small seeded PRNG returning floats in [0, 1)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function simulateRpmReadings(options: RpmSimulationOptions): RpmReading[] {
+  const random = createRandom(options.seed);
+  const between = (min: number, max: number) => Math.round(min + random() * (max - min));
+  const hours = READING_HOURS[options.readingsPerDay] ?? READING_HOURS[2];
+  const end = options.end ?? new Date();
+  const readings: RpmReading[] = [];
+
+  for (let day = options.days - 1; day >= 0; day--) {
+    for (const hour of hours) {
+      const measuredAt = new Date(end);
+      measuredAt.setDate(end.getDate() - day);
+      measuredAt.setHours(hour, between(0, 45), 0, 0);
+      if (measuredAt > end) continue;
+
+      const outOfRange = random() < options.outOfRangeRate;
+      if (options.type === 'blood_pressure') {
+        readings.push({
+          type: 'blood_pressure',
+          measuredAt: measuredAt.toISOString(),
+          systolic: outOfRange ? between(182, 205) : between(112, 148),
+          diastolic: outOfRange ? between(88, 110) : between(70, 88),
+          pulse: between(58, 92),
+        });
+      } else {
+        const context = GLUCOSE_CONTEXTS_BY_HOUR[hour] ?? 'random';
+        const [low, high] = context === 'fasting' ? [85, 135] : [100, 190];
+        readings.push({
+          type: 'glucose',
+          measuredAt: measuredAt.toISOString(),
+          glucoseMgDl: outOfRange ? (random() < 0.5 ? between(45, 65) : between(305, 380)) : between(low, high),
+          context,
+        });
+      }
+    }
+  }
+  return readings;
+}
+
+/**
+ * Creates the simulator handler: `POST { serialNumber, type, days?, readingsPerDay?,
+ * outOfRangeRate?, seed? }` generates readings for the registered device with
+ * that serial number and returns the ingestion handler's response.
+ */
+export function createRpmSimulatorHandler(
+  ingest: (request: Request) => Promise<Response>,
+  ingestToken: string | undefined
+): (request: Request) => Promise<Response> {
+  return async (request: Request) => {
+    const json = (body: { success: boolean; message: string }, status: number) =>
+      new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+    if (request.method !== 'POST') {
+      return json({ success: false, message: 'Method not allowed.' }, 405);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return json({ success: false, message: 'Request body must be JSON.' }, 400);
+    }
+
+    const parsed = RpmSimulationRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return json({ success: false, message: 'Invalid simulation request.' }, 400);
+    }
+
+    const { serialNumber, ...options } = parsed.data;
+    return ingest(
+      new Request(new URL('/api/rpm-ingest', request.url), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ingestToken ?? ''}` },
+        body: JSON.stringify({ serialNumber, readings: simulateRpmReadings(options) }),
+      })
+    );
+  };
+}
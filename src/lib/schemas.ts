@@ -18,11 +18,88 @@ export const WaitlistStatusSchema = z.enum([
   "enrolled",
 ]);
 
+export const RpmDeviceInterestSchema = z.enum([
+  "blood_pressure",
+  "glucose",
+  "both",
+]);
+
+export const InsuranceTypeSchema = z.enum([
+  "medicare",
+  "medicare_advantage",
+  "medicaid",
+  "commercial",
+  "uninsured",
+  "other",
+]);
+
+export const ContactMethodSchema = z.enum([
+  "phone",
+  "sms",
+  "email",
+]);
+
+export const ContactOutcomeSchema = z.enum([
+  "reached",
+  "left_message",
+  "no_answer",
+  "wrong_number",
+  "declined",
+]);
+
+export const RpmReadingTypeSchema = z.enum([
+  "blood_pressure",
+  "glucose",
+]);
+
+export const GlucoseContextSchema = z.enum([
+  "fasting",
+  "before_meal",
+  "after_meal",
+  "bedtime",
+  "random",
+]);
+
+export const RpmActivitySchema = z.enum([
+  "reading_review",
+  "patient_call",
+  "care_coordination",
+]);
+
+export const MedSyncStatusSchema = z.enum([
+  "pending",
+  "active",
+  "cancelled",
+]);
+
 export const ServicePreferenceSchema = z.enum([
   "pickup",
   "delivery",
 ]);
 
+export const RequestStatusSchema = z.enum([
+  "received",
+  "in_progress",
+  "ready_for_pickup",
+  "out_for_delivery",
+  "completed",
+  "rejected",
+]);
+
+export const RequestTypeSchema = z.enum([
+  "refill",
+  "transfer",
+]);
+
+export const NameSuffixSchema = z.enum([
+  "Jr.",
+  "Sr.",
+  "II",
+  "III",
+  "IV",
+  "V",
+]);
+
 /* Simple helpers */
 
 const phoneSchema = z
@@ -34,6 +111,10 @@ const emailSchema = z
   .string()
   .email("Invalid email address");
 
+const ncpdpSchema = z
+  .string()
+  .regex(/^\d{7}$/, "NCPDP ID must be 7 digits");
+
 /* ============================================
    ContactFormData
    ============================================ */
@@ -57,6 +138,12 @@ export const WaitlistFormDataSchema = z.object({
   name: z.string().min(1, "Name is required"),
   email: emailSchema,
   phone: phoneSchema,
+  deviceInterest: z.enum(RpmDeviceInterestSchema.options, {
+    errorMap: () => ({ message: "Select the device you're interested in" }),
+  }),
+  insuranceType: z.enum(InsuranceTypeSchema.options, {
+    errorMap: () => ({ message: "Select your insurance type" }),
+  }),
 });
 
 export type WaitlistFormData = z.infer<typeof WaitlistFormDataSchema>;
@@ -77,13 +164,32 @@ const dateStringSchema = z
   .string()
   .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
 
+export const PatientNameSchema = z.object({
+  firstName: z.string().trim().min(1, "First name is required"),
+  middleName: z.string().trim().optional(),
+  lastName: z.string().trim().min(1, "Last name is required"),
+  suffix: NameSuffixSchema.optional().or(z.literal("").transform(() => undefined)),
+});
+
+export type PatientName = z.infer<typeof PatientNameSchema>;
+
+export const PrescriptionItemSchema = z.object({
+  rxNumber: z.string().trim().min(1, "Rx number is required"),
+  medicationName: z.string().trim().optional(),
+});
+
+export type PrescriptionItem = z.infer<typeof PrescriptionItemSchema>;
+
+export const PrescriptionListSchema = z
+  .array(PrescriptionItemSchema)
+  .min(1, "At least one prescription is required");
+
 export const RefillFormDataSchema = z.object({
-  patientName: z.string().min(1, "Patient name is required"),
+  ...PatientNameSchema.shape,
   dob: dateStringSchema,
   phone: phoneSchema,
   email: emailSchema.optional().or(z.literal("").transform(() => undefined)),
-  prescriptionNumbers: z.string().min(1, "Prescription numbers are required"),
-  medicationNames: z.string().min(1, "Medication names are required"),
+  prescriptions: PrescriptionListSchema,
   preferredService: ServicePreferenceSchema,
   notes: z.string().optional(),
   consent: z.boolean(),
@@ -91,11 +197,93 @@ export const RefillFormDataSchema = z.object({
 
 export type RefillFormData = z.infer<typeof RefillFormDataSchema>;
 
+/* ============================================
+   RefillStatusLookup
+   ============================================ */
+
+// A patient checking a refill's status with the confirmation code they were
+// given, without signing in. Spaces and the dash in the code are optional.
+export const RefillStatusLookupSchema = z.object({
+  confirmationCode: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9]{4}[\s-]?[A-Za-z0-9]{4}$/, "Enter the 8-character code from your confirmation"),
+  dob: dateStringSchema,
+});
+
+export type RefillStatusLookup = z.infer<typeof RefillStatusLookupSchema>;
+
+/* ============================================
+   PatientProfile
+   ============================================ */
+
+// A signed-in patient's details, used to pre-fill the request forms
+export const PatientProfileSchema = z.object({
+  ...PatientNameSchema.shape,
+  dob: dateStringSchema,
+  phone: phoneSchema,
+  email: emailSchema.optional().or(z.literal("").transform(() => undefined)),
+});
+
+export type PatientProfile = z.infer<typeof PatientProfileSchema>;
+
+/* ============================================
+   MedSyncEnrollmentFormData
+   ============================================ */
+
+// A whole number typed into a form field (a string) or read back from the
+// stored enrollment (a number)
+const countSchema = (label: string, min: number, max: number) =>
+  z
+    .union([z.number(), z.string().trim().min(1, `${label} is required`).transform(Number)])
+    .pipe(
+      z
+        .number({ invalid_type_error: `${label} must be a number` })
+        .int(`${label} must be a whole number`)
+        .min(min, `${label} must be at least ${min}`)
+        .max(max, `${label} must be at most ${max}`)
+    );
+
+// One medication to synchronize. Days on hand is how long the patient's
+// current supply will last.
+export const MedSyncMedicationSchema = PrescriptionItemSchema.extend({
+  quantity: countSchema("Quantity", 1, 1000),
+  daysSupply: countSchema("Days supply", 1, 90),
+  daysOnHand: countSchema("Days on hand", 0, 90),
+});
+
+export type MedSyncMedication = z.infer<typeof MedSyncMedicationSchema>;
+
+export const MedSyncMedicationListSchema = z
+  .array(MedSyncMedicationSchema)
+  .min(1, "At least one medication is required")
+  .max(15, "Enroll at most 15 medications");
+
+export const MedSyncEnrollmentFormDataSchema = z.object({
+  ...PatientNameSchema.shape,
+  dob: dateStringSchema,
+  phone: phoneSchema,
+  email: emailSchema.optional().or(z.literal("").transform(() => undefined)),
+  medications: MedSyncMedicationListSchema,
+  // Capped at 28 so every month has the sync day
+  syncDay: countSchema("Sync day", 1, 28),
+  preferredService: ServicePreferenceSchema,
+  notes: z.string().optional(),
+  consent: z.boolean().refine((value) => value, "Authorize monthly refills to enroll"),
+});
+
+export type MedSyncEnrollmentFormData = z.infer<typeof MedSyncEnrollmentFormDataSchema>;
+
 /* ============================================
    TransferFormData
    ============================================ */
 
 export const TransferFormDataSchema = z.object({
+  ...PatientNameSchema.shape,
+  dob: dateStringSchema,
+  phone: phoneSchema,
+  email: emailSchema.optional().or(z.literal("").transform(() => undefined)),
+
   rxNumber: z.string().min(1, "Rx number is required"),
   rxFillDate: dateStringSchema,
 
@@ -106,7 +294,7 @@ export const TransferFormDataSchema = z.object({
   transferToPharmacyState: z.string().min(2),
   transferToPharmacyZip: z.string().min(3),
   transferToPharmacyPhone: phoneSchema,
-  transferToPharmacyNCPDP: z.string().optional(),
+  transferToPharmacyNCPDP: ncpdpSchema.optional().or(z.literal("").transform(() => undefined)),
 
   transferRxRemark: z.string().optional(),
   consent: z.boolean(),
@@ -114,6 +302,68 @@ export const TransferFormDataSchema = z.object({
 
 export type TransferFormData = z.infer<typeof TransferFormDataSchema>;
 
+/* ============================================
+   InboundTransferFormData
+   ============================================ */
+
+// Transfers a patient's prescriptions from another pharmacy to Elevated WellnessRX
+export const InboundPrescriptionItemSchema = z.object({
+  medicationName: z.string().trim().min(1, "Medication name is required"),
+  rxNumber: z.string().trim().optional(),
+});
+
+export type InboundPrescriptionItem = z.infer<typeof InboundPrescriptionItemSchema>;
+
+export const InboundTransferFormDataSchema = z.object({
+  ...PatientNameSchema.shape,
+  dob: dateStringSchema,
+  phone: phoneSchema,
+  email: emailSchema.optional().or(z.literal("").transform(() => undefined)),
+
+  currentPharmacyName: z.string().trim().min(1, "Current pharmacy is required"),
+  currentPharmacyPhone: phoneSchema,
+  currentPharmacyCity: z.string().trim().optional(),
+  currentPharmacyState: z.string().trim().optional(),
+  currentPharmacyNCPDP: ncpdpSchema.optional().or(z.literal("").transform(() => undefined)),
+
+  prescriptions: z
+    .array(InboundPrescriptionItemSchema)
+    .min(1, "At least one prescription is required"),
+
+  prescriberName: z.string().trim().min(1, "Prescriber name is required"),
+  prescriberPhone: phoneSchema.optional().or(z.literal("").transform(() => undefined)),
+
+  preferredService: ServicePreferenceSchema,
+  notes: z.string().optional(),
+  consent: z.boolean().refine((value) => value, "Consent is required"),
+});
+
+export type InboundTransferFormData = z.infer<typeof InboundTransferFormDataSchema>;
+
+export const TransferDirectionSchema = z.enum([
+  "inbound",
+  "outbound",
+]);
+
+export type TransferDirection = z.infer<typeof TransferDirectionSchema>;
+
+/* ============================================
+   PharmacyDirectoryEntry
+   ============================================ */
+
+export const PharmacyDirectoryEntrySchema = z.object({
+  ncpdpId: ncpdpSchema,
+  name: z.string().trim().min(1, "Pharmacy name is required"),
+  address1: z.string().trim().min(1, "Address is required"),
+  address2: z.string().trim().optional(),
+  city: z.string().trim().min(1, "City is required"),
+  state: z.string().trim().length(2, "State must be a 2-letter code"),
+  zip: z.string().trim().regex(/^\d{5}(-\d{4})?$/, "Invalid ZIP code"),
+  phone: phoneSchema,
+});
+
+export type PharmacyDirectoryEntry = z.infer<typeof PharmacyDirectoryEntrySchema>;
+
 /* ============================================
    SplashModalFormData
    ============================================ */
@@ -123,3 +373,180 @@ export const SplashModalFormDataSchema = z.object({
 });
 
 export type SplashModalFormData = z.infer<typeof SplashModalFormDataSchema>;
+
+/* ============================================
+   RequestStatusUpdate
+   ============================================ */
+
+// Staff action moving a refill/transfer request through its lifecycle
+export const RequestStatusUpdateSchema = z
+  .object({
+    requestType: RequestTypeSchema,
+    requestId: z.string().uuid(),
+    status: RequestStatusSchema,
+    reason: z.string().trim().optional(),
+  })
+  .refine((update) => update.status !== "rejected" || !!update.reason, {
+    message: "A reason is required to reject a request",
+    path: ["reason"],
+  });
+
+/* ============================================
+   Waitlist staff actions
+   ============================================ */
+
+// Staff action moving a waitlist entry between active, contacted and enrolled
+export const WaitlistStatusUpdateSchema = z.object({
+  entryId: z.string().uuid(),
+  status: WaitlistStatusSchema,
+});
+
+// One call, text or email to someone on the waitlist
+export const WaitlistContactAttemptSchema = z.object({
+  entryId: z.string().uuid(),
+  method: ContactMethodSchema,
+  outcome: ContactOutcomeSchema,
+  note: z.string().trim().optional(),
+});
+
+// Turns an enrolled waitlist entry into an RPM patient record
+export const WaitlistConversionSchema = z.object({
+  entryId: z.string().uuid(),
+  dob: dateStringSchema,
+});
+
+/* ============================================
+   RPM readings
+   ============================================ */
+
+// Devices may batch readings, but not from the future (allowing for clock drift)
+const measuredAtSchema = z
+  .string()
+  .datetime({ offset: true, message: "measuredAt must be an ISO 8601 timestamp" })
+  .refine((value) => Date.parse(value) <= Date.now() + 5 * 60 * 1000, "measuredAt is in the future");
+
+export const BloodPressureReadingSchema = z.object({
+  type: z.literal("blood_pressure"),
+  measuredAt: measuredAtSchema,
+  systolic: z.number().int().min(40).max(300),
+  diastolic: z.number().int().min(20).max(200),
+  pulse: z.number().int().min(20).max(250).optional(),
+});
+
+export const GlucoseReadingSchema = z.object({
+  type: z.literal("glucose"),
+  measuredAt: measuredAtSchema,
+  glucoseMgDl: z.number().int().min(10).max(800),
+  context: GlucoseContextSchema.optional(),
+});
+
+export const RpmReadingSchema = z.discriminatedUnion("type", [
+  BloodPressureReadingSchema,
+  GlucoseReadingSchema,
+]);
+
+// Body of a POST to the rpm-ingest function: readings from one registered device
+export const RpmReadingBatchSchema = z.object({
+  serialNumber: z.string().trim().min(1, "serialNumber is required").max(100),
+  readings: z.array(RpmReadingSchema).min(1, "At least one reading is required").max(500),
+});
+
+const thresholdLimitSchema = z.number().int().min(1).max(800).nullable();
+
+// Clinic default alert limits (patientId null) or one patient's overrides; null inherits / means no limit
+export const RpmAlertThresholdsSchema = z
+  .object({
+    patientId: z.string().uuid().nullable(),
+    systolicHigh: thresholdLimitSchema,
+    systolicLow: thresholdLimitSchema,
+    diastolicHigh: thresholdLimitSchema,
+    diastolicLow: thresholdLimitSchema,
+    pulseHigh: thresholdLimitSchema,
+    pulseLow: thresholdLimitSchema,
+    glucoseHigh: thresholdLimitSchema,
+    glucoseLow: thresholdLimitSchema,
+  })
+  .refine(
+    (limits) =>
+      ([
+        [limits.systolicLow, limits.systolicHigh],
+        [limits.diastolicLow, limits.diastolicHigh],
+        [limits.pulseLow, limits.pulseHigh],
+        [limits.glucoseLow, limits.glucoseHigh],
+      ] as const).every(([low, high]) => low === null || high === null || low < high),
+    { message: "Each low limit must be below its high limit" }
+  );
+
+export const RpmDeviceRegistrationSchema = z.object({
+  patientId: z.string().uuid(),
+  deviceType: RpmReadingTypeSchema,
+  vendor: z.string().trim().optional(),
+  serialNumber: z.string().trim().min(1, "Serial number is required"),
+});
+
+// Pharmacist sign-off on a flagged reading, optionally logging the review time
+export const RpmReadingReviewSchema = z.object({
+  readingId: z.string().uuid(),
+  note: z.string().trim().optional(),
+  minutes: z.number().int().min(0).max(120),
+});
+
+export const RpmTimeEntrySchema = z.object({
+  patientId: z.string().uuid(),
+  activity: RpmActivitySchema,
+  minutes: z.number().int().min(1, "Log at least 1 minute").max(120, "Log at most 120 minutes per entry"),
+  serviceDate: dateStringSchema,
+  note: z.string().trim().optional(),
+});
+
+/* ============================================
+   Med Sync staff actions
+   ============================================ */
+
+export const MedSyncStatusUpdateSchema = z.object({
+  enrollmentId: z.string().uuid(),
+  status: MedSyncStatusSchema,
+});
+
+// Body of a POST to the med-sync-batch function: send the batch due on this date
+export const MedSyncBatchRequestSchema = z.object({
+  syncDate: dateStringSchema,
+});
+
+// Asks the notification dispatcher to tell the patient about the request's latest status
+export const StatusNotificationRequestSchema = z.object({
+  requestType: RequestTypeSchema,
+  requestId: z.string().uuid(),
+});
+
+// Asks the notification dispatcher to email a new refill request's confirmation code
+export const RefillConfirmationRequestSchema = z.object({
+  kind: z.literal("refill_confirmation"),
+  requestId: z.string().uuid(),
+});
+
+export type RequestStatus = z.infer<typeof RequestStatusSchema>;
+export type RequestType = z.infer<typeof RequestTypeSchema>;
+export type RequestStatusUpdate = z.infer<typeof RequestStatusUpdateSchema>;
+export type StatusNotificationRequest = z.infer<typeof StatusNotificationRequestSchema>;
+export type RefillConfirmationRequest = z.infer<typeof RefillConfirmationRequestSchema>;
+export type WaitlistStatus = z.infer<typeof WaitlistStatusSchema>;
+export type RpmDeviceInterest = z.infer<typeof RpmDeviceInterestSchema>;
+export type InsuranceType = z.infer<typeof InsuranceTypeSchema>;
+export type ContactMethod = z.infer<typeof ContactMethodSchema>;
+export type ContactOutcome = z.infer<typeof ContactOutcomeSchema>;
+export type WaitlistStatusUpdate = z.infer<typeof WaitlistStatusUpdateSchema>;
+export type WaitlistContactAttempt = z.infer<typeof WaitlistContactAttemptSchema>;
+export type WaitlistConversion = z.infer<typeof WaitlistConversionSchema>;
+export type RpmReadingType = z.infer<typeof RpmReadingTypeSchema>;
+export type GlucoseContext = z.infer<typeof GlucoseContextSchema>;
+export type RpmActivity = z.infer<typeof RpmActivitySchema>;
+export type RpmReading = z.infer<typeof RpmReadingSchema>;
+export type RpmReadingBatch = z.infer<typeof RpmReadingBatchSchema>;
+export type RpmAlertThresholds = z.infer<typeof RpmAlertThresholdsSchema>;
+export type RpmDeviceRegistration = z.infer<typeof RpmDeviceRegistrationSchema>;
+export type RpmReadingReview = z.infer<typeof RpmReadingReviewSchema>;
+export type RpmTimeEntry = z.infer<typeof RpmTimeEntrySchema>;
+export type MedSyncStatus = z.infer<typeof MedSyncStatusSchema>;
+export type MedSyncStatusUpdate = z.infer<typeof MedSyncStatusUpdateSchema>;
+export type MedSyncBatchRequest = z.infer<typeof MedSyncBatchRequestSchema>;
@@ -0,0 +1,308 @@
+/**
+ * Form submissions
+ * `createSubmission` turns a pipeline of steps into a reusable submission:
+ *
+ *   1. validate - parse the input with the form's Zod schema
+ *   2. external - optional call to the system of record (e.g. BestRX)
+ *   3. persist  - write the submission to Supabase
+ *
+ * Steps that fail on the network are retried with exponential backoff, and
+ * every step receives an AbortSignal so a pending submission can be cancelled.
+ * When a pipeline has an external step, persist is the audit copy of a call
+ * that already went through, so a failed write is queued for retry instead of
+ * failing (or losing) the submission.
+ *
+ * Each run carries a client-generated request ID. Pipelines that can finish
+ * later (see outbox.ts) provide `deferExternal`/`deferPersist`, which take over
+ * when the network is unreachable.
+ */
+
+import type { z } from "zod";
+import type { AbuseSignals } from "./antiAbuse";
+
+export type SubmissionStatus = "idle" | "submitting" | "success" | "error";
+
+export type SubmissionStep = "validate" | "external" | "persist";
+
+/**
+ * - invalid: the input failed validation
+ * - network: the request never got an answer; retried automatically
+ * - rejected: the server answered with an error
+ * - cancelled: the submission was aborted
+ */
+export type SubmissionErrorKind = "invalid" | "network" | "rejected" | "cancelled";
+
+export class SubmissionError extends Error {
+  readonly step: SubmissionStep;
+  readonly kind: SubmissionErrorKind;
+
+  constructor(message: string, step: SubmissionStep, kind: SubmissionErrorKind, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "SubmissionError";
+    this.step = step;
+    this.kind = kind;
+  }
+
+  get retryable(): boolean {
+    return this.kind === "network";
+  }
+}
+
+export interface RetryOptions {
+  /** Total tries, including the first */
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY: RetryOptions = { attempts: 3, baseDelayMs: 500, maxDelayMs: 4000 };
+
+// Audit writes are retried for a while longer, in the background
+const AUDIT_RETRY: RetryOptions = { attempts: 8, baseDelayMs: 5000, maxDelayMs: 5 * 60_000 };
+
+interface PipelineBase<TInput> {
+  /** Names the submission in logs and in the audit retry queue */
+  name: string;
+  schema: z.ZodType<TInput, z.ZodTypeDef, unknown>;
+  retry?: Partial<RetryOptions>;
+}
+
+export interface StepContext {
+  signal: AbortSignal;
+  /** Identifies the submission across retries and deferred delivery */
+  requestId: string;
+  /** Screened server-side by the public forms' RPCs */
+  abuseSignals?: AbuseSignals;
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  /** Defaults to a new random UUID */
+  requestId?: string;
+  abuseSignals?: AbuseSignals;
+}
+
+interface PersistOnlyPipeline<TInput, TResult> extends PipelineBase<TInput> {
+  external?: undefined;
+  /** The submission's result is what persist returns */
+  persist: (input: TInput, context: StepContext) => Promise<TResult>;
+}
+
+interface ExternalPipeline<TInput, TResult> extends PipelineBase<TInput> {
+  /** The submission's result is what the external call returns */
+  external: (input: TInput, context: StepContext) => Promise<TResult>;
+  /** Audit copy of the external call */
+  persist: (input: TInput, context: StepContext) => Promise<void>;
+  /** Stores the submission to be sent later when the browser is offline or the external call can't connect */
+  deferExternal?: (input: TInput, context: StepContext) => Promise<TResult>;
+  /** Stores a failed audit write to be retried later; without it the write goes to the in-memory auditRetryQueue */
+  deferPersist?: (input: TInput, context: StepContext) => Promise<void>;
+}
+
+export type SubmissionPipeline<TInput, TResult> =
+  | PersistOnlyPipeline<TInput, TResult>
+  | ExternalPipeline<TInput, TResult>;
+
+export interface Submission<TInput, TResult> {
+  name: string;
+  run: (input: TInput, options?: RunOptions) => Promise<TResult>;
+}
+
+function backoffDelay(attempt: number, options: RetryOptions): number {
+  const exponential = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+  // Jitter keeps clients that failed at the same moment from retrying in lockstep
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function cancelledError(step: SubmissionStep, cause?: unknown): SubmissionError {
+  return new SubmissionError("Submission cancelled", step, "cancelled", { cause });
+}
+
+/**
+ * Runs `fn`, retrying with backoff while it fails with a retryable SubmissionError
+ */
+export async function withRetry<T>(
+  step: SubmissionStep,
+  fn: (signal: AbortSignal) => Promise<T>,
+  signal: AbortSignal,
+  options: RetryOptions = DEFAULT_RETRY
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    if (signal.aborted) throw cancelledError(step, signal.reason);
+    try {
+      return await fn(signal);
+    } catch (error) {
+      // An aborted request surfaces as a network failure; report it as cancelled
+      if (signal.aborted) throw cancelledError(step, error);
+      if (!(error instanceof SubmissionError) || !error.retryable || attempt >= options.attempts) {
+        throw error;
+      }
+      try {
+        await sleep(backoffDelay(attempt, options), signal);
+      } catch (abortReason) {
+        throw cancelledError(step, abortReason);
+      }
+    }
+  }
+}
+
+/**
+ * Failed audit writes, retried in the background for the rest of the page
+ * session. They are kept in memory only, since they contain patient details.
+ */
+class AuditRetryQueue {
+  private pending = new Map<number, { name: string; write: (signal: AbortSignal) => Promise<void> }>();
+  private nextId = 1;
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  enqueue(name: string, write: (signal: AbortSignal) => Promise<void>): void {
+    const id = this.nextId++;
+    this.pending.set(id, { name, write });
+    void this.drain(id);
+  }
+
+  private async drain(id: number): Promise<void> {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    for (let attempt = 1; attempt <= AUDIT_RETRY.attempts; attempt++) {
+      await this.waitForRetry(attempt);
+      try {
+        await entry.write(new AbortController().signal);
+        this.pending.delete(id);
+        console.info(`Queued ${entry.name} audit write succeeded after ${attempt} retr${attempt === 1 ? "y" : "ies"}`);
+        return;
+      } catch (error) {
+        console.warn(`Queued ${entry.name} audit write failed (retry ${attempt}/${AUDIT_RETRY.attempts}):`, error);
+      }
+    }
+
+    this.pending.delete(id);
+    console.error(`Gave up on the ${entry.name} audit write after ${AUDIT_RETRY.attempts} retries`);
+  }
+
+  // Waits out the backoff delay, or less if the browser comes back online
+  private waitForRetry(attempt: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        window.removeEventListener("online", done);
+        resolve();
+      };
+      const timer = setTimeout(done, backoffDelay(attempt, AUDIT_RETRY));
+      window.addEventListener("online", done);
+    });
+  }
+}
+
+export const auditRetryQueue = new AuditRetryQueue();
+
+const NETWORK_ERROR_MESSAGE = "Unable to reach the server. Please check your connection and try again.";
+
+/**
+ * Returns a Supabase RPC's data, or throws its error as a SubmissionError.
+ * supabase-js reports a request that got no response with status 0.
+ */
+export function unwrapRpcResponse<T>(
+  response: { data: T | null; error: { message: string } | null; status: number },
+  step: SubmissionStep
+): T | null {
+  if (!response.error) {
+    return response.data;
+  }
+  if (response.status === 0) {
+    throw new SubmissionError(NETWORK_ERROR_MESSAGE, step, "network", { cause: response.error });
+  }
+  throw new SubmissionError(response.error.message, step, "rejected", { cause: response.error });
+}
+
+function validate<TInput>(schema: z.ZodType<TInput, z.ZodTypeDef, unknown>, input: TInput): TInput {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new SubmissionError(parsed.error.errors[0]?.message ?? "Invalid submission", "validate", "invalid", {
+      cause: parsed.error,
+    });
+  }
+  return parsed.data;
+}
+
+export function createSubmission<TInput, TResult>(pipeline: ExternalPipeline<TInput, TResult>): Submission<TInput, TResult>;
+export function createSubmission<TInput, TResult>(pipeline: PersistOnlyPipeline<TInput, TResult>): Submission<TInput, TResult>;
+export function createSubmission<TInput, TResult>(
+  pipeline: SubmissionPipeline<TInput, TResult>
+): Submission<TInput, TResult> {
+  const retry: RetryOptions = { ...DEFAULT_RETRY, ...pipeline.retry };
+
+  const run = async (input: TInput, options: RunOptions = {}): Promise<TResult> => {
+    const signal = options.signal ?? new AbortController().signal;
+    const requestId = options.requestId ?? crypto.randomUUID();
+    const { abuseSignals } = options;
+    const context = (stepSignal: AbortSignal): StepContext => ({ signal: stepSignal, requestId, abuseSignals });
+    const data = validate(pipeline.schema, input);
+
+    if (!pipeline.external) {
+      return withRetry("persist", (stepSignal) => pipeline.persist(data, context(stepSignal)), signal, retry);
+    }
+
+    const { external, persist, deferExternal, deferPersist } = pipeline;
+    if (deferExternal && !navigator.onLine) {
+      return deferExternal(data, context(signal));
+    }
+
+    let result: TResult;
+    try {
+      result = await withRetry("external", (stepSignal) => external(data, context(stepSignal)), signal, retry);
+    } catch (error) {
+      if (deferExternal && error instanceof SubmissionError && error.retryable) {
+        console.warn(`Unable to send ${pipeline.name}; deferring delivery:`, error);
+        return deferExternal(data, context(signal));
+      }
+      throw error;
+    }
+
+    // The external call went through, so cancelling no longer stops the audit write
+    const auditSignal = new AbortController().signal;
+    try {
+      await withRetry("persist", (stepSignal) => persist(data, context(stepSignal)), auditSignal, retry);
+    } catch (error) {
+      console.warn(`Failed to save ${pipeline.name} to the database; queued for retry:`, error);
+      const deferred =
+        deferPersist &&
+        (await deferPersist(data, context(auditSignal)).then(
+          () => true,
+          (deferError) => {
+            console.warn(`Unable to defer the ${pipeline.name} audit write:`, deferError);
+            return false;
+          }
+        ));
+      if (!deferred) {
+        auditRetryQueue.enqueue(pipeline.name, (retrySignal) => persist(data, context(retrySignal)));
+      }
+    }
+
+    return result;
+  };
+
+  return { name: pipeline.name, run };
+}
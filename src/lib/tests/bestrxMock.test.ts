@@ -0,0 +1,256 @@
+/**
+ * BestRX submissions against the mock service
+ * Drives every canned response in MOCK_BESTRX_RESPONSES, and the Rx numbers
+ * the rule-based responders react to, through submitRefillToBestRX and
+ * submitTransferToBestRX, checking the message the patient sees and the
+ * outcome reported for each prescription.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BESTRX_ERROR_CODES,
+  buildBasicAuthHeader,
+  buildRefillRequestPayload,
+  buildTransferRequestPayload,
+  extractRefillErrorMessage,
+  extractTransferErrorMessage,
+  submitRefillToBestRX,
+  submitTransferToBestRX,
+} from "../bestrx.ts";
+import type { RefillRxResult } from "../bestrx.ts";
+import { MOCK_BESTRX_RESPONSES, createMockBestRXTransport } from "../bestrxMock.ts";
+import type { MockBestRXResponse } from "../bestrxMock.ts";
+import { RefillFormDataSchema, TransferFormDataSchema } from "../schemas.ts";
+
+type MockResponseName = keyof typeof MOCK_BESTRX_RESPONSES;
+
+const AUTH = buildBasicAuthHeader("pharmacy", "secret");
+
+const refillPayload = (...rxNumbers: string[]) =>
+  buildRefillRequestPayload(
+    RefillFormDataSchema.parse({
+      firstName: "Jane",
+      lastName: "Doe",
+      dob: "1980-04-12",
+      phone: "555-123-4567",
+      prescriptions: rxNumbers.map((rxNumber) => ({ rxNumber })),
+      preferredService: "pickup",
+      notes: "",
+      consent: true,
+    }),
+    "1234567",
+    "api-key",
+    "pharmacy"
+  );
+
+const transferPayload = (rxNumber: string) =>
+  buildTransferRequestPayload(
+    TransferFormDataSchema.parse({
+      firstName: "Jane",
+      lastName: "Doe",
+      dob: "1980-04-12",
+      phone: "555-123-4567",
+      rxNumber,
+      rxFillDate: "2026-03-01",
+      transferToPharmacyName: "Main Street Pharmacy",
+      transferToPharmacyAddress1: "1 Main Street",
+      transferToPharmacyCity: "Springfield",
+      transferToPharmacyState: "IL",
+      transferToPharmacyZip: "62701",
+      transferToPharmacyPhone: "555-987-6543",
+      consent: true,
+    }),
+    "1234567"
+  );
+
+const accepted = (rxNumber: string): RefillRxResult => ({
+  rxNumber,
+  medicationName: "",
+  status: "accepted",
+  message: "Refill request received.",
+});
+
+const rejected = (rxNumber: string, message: string, errorCode?: string): RefillRxResult => ({
+  rxNumber,
+  medicationName: "",
+  status: "rejected",
+  errorCode,
+  message,
+});
+
+const submitRefill = (payload: Record<string, unknown>, queued?: MockBestRXResponse) =>
+  submitRefillToBestRX(payload, createMockBestRXTransport({ refill: queued ? [queued] : [] }));
+
+const submitTransfer = (payload: Record<string, unknown>, queued?: MockBestRXResponse) =>
+  submitTransferToBestRX(payload, AUTH, createMockBestRXTransport({ transfer: queued ? [queued] : [] }));
+
+// The canned responses each path is driven with; together they cover MOCK_BESTRX_RESPONSES
+const REFILL_RESPONSES: MockResponseName[] = [
+  "refillOk",
+  "refillPartial",
+  "refillErrorCode",
+  "refillErrorMessage",
+  "refillMalformed",
+  "forbidden",
+  "serverError",
+];
+const TRANSFER_RESPONSES: MockResponseName[] = [
+  "transferOk",
+  "transferNotTransferred",
+  "transferErrorCode",
+  "transferErrorMessage",
+  "forbidden",
+  "serverError",
+];
+
+it("covers every canned mock response", () => {
+  assert.deepEqual(
+    new Set([...REFILL_RESPONSES, ...TRANSFER_RESPONSES]),
+    new Set(Object.keys(MOCK_BESTRX_RESPONSES))
+  );
+});
+
+describe("submitRefillToBestRX", () => {
+  it("reports every prescription accepted (refillOk)", async () => {
+    const result = await submitRefill(refillPayload("1000001"), MOCK_BESTRX_RESPONSES.refillOk);
+    assert.equal(result.success, true);
+    assert.equal(result.message, "Refill request submitted successfully");
+    assert.deepEqual(result.results, [accepted("1000001")]);
+    assert.equal(extractRefillErrorMessage(MOCK_BESTRX_RESPONSES.refillOk.body), null);
+  });
+
+  it("succeeds with the rejected prescriptions flagged for follow-up (refillPartial)", async () => {
+    const result = await submitRefill(refillPayload("1000001", "1000002"), MOCK_BESTRX_RESPONSES.refillPartial);
+    assert.equal(result.success, true);
+    assert.equal(result.message, "Refill request submitted; 1 prescription(s) need follow-up");
+    assert.deepEqual(result.results, [
+      accepted("1000001"),
+      rejected("1000002", BESTRX_ERROR_CODES.ERROR_RX_REFILLED, "ERROR_RX_REFILLED"),
+    ]);
+    assert.equal(
+      extractRefillErrorMessage(MOCK_BESTRX_RESPONSES.refillPartial.body),
+      BESTRX_ERROR_CODES.ERROR_RX_REFILLED
+    );
+  });
+
+  it("fails with the mapped error code (refillErrorCode)", async () => {
+    const result = await submitRefill(refillPayload("1000001"), MOCK_BESTRX_RESPONSES.refillErrorCode);
+    assert.equal(result.success, false);
+    assert.equal(result.message, BESTRX_ERROR_CODES.ERROR_RX_NOT_FOUND);
+    assert.deepEqual(result.results, [
+      rejected("1000001", BESTRX_ERROR_CODES.ERROR_RX_NOT_FOUND, "ERROR_RX_NOT_FOUND"),
+    ]);
+  });
+
+  it("fails with BestRX's own message when there is no code (refillErrorMessage)", async () => {
+    const result = await submitRefill(refillPayload("1000001"), MOCK_BESTRX_RESPONSES.refillErrorMessage);
+    assert.equal(result.success, false);
+    assert.equal(result.message, "Prescription on hold");
+    assert.deepEqual(result.results, [rejected("1000001", "Prescription on hold")]);
+  });
+
+  it("fails and leaves every prescription for follow-up on an unexpected response (refillMalformed)", async () => {
+    const result = await submitRefill(refillPayload("1000001"), MOCK_BESTRX_RESPONSES.refillMalformed);
+    assert.equal(result.success, false);
+    assert.equal(result.message, "Unable to process refill request. Please try again.");
+    assert.deepEqual(result.results, [
+      {
+        rxNumber: "1000001",
+        medicationName: "",
+        status: "rejected",
+        message: "We could not confirm this prescription. Our team will follow up with you.",
+      },
+    ]);
+    assert.equal(extractRefillErrorMessage(MOCK_BESTRX_RESPONSES.refillMalformed.body), null);
+  });
+
+  it("fails with a message for the HTTP status (forbidden, serverError)", async () => {
+    assert.deepEqual(await submitRefill(refillPayload("1000001"), MOCK_BESTRX_RESPONSES.forbidden), {
+      success: false,
+      message: "Authentication failed. Please contact support.",
+    });
+    assert.deepEqual(await submitRefill(refillPayload("1000001"), MOCK_BESTRX_RESPONSES.serverError), {
+      success: false,
+      message: "Service temporarily unavailable. Please try again later.",
+    });
+  });
+
+  it("responds to the Rx numbers submitted when nothing is queued", async () => {
+    const result = await submitRefill(refillPayload("1000001", "ERROR_RX_INACTIVE", "MSG-Call your doctor"));
+    assert.equal(result.success, true);
+    assert.deepEqual(result.results, [
+      accepted("1000001"),
+      rejected("ERROR_RX_INACTIVE", BESTRX_ERROR_CODES.ERROR_RX_INACTIVE, "ERROR_RX_INACTIVE"),
+      rejected("MSG-Call your doctor", "Call your doctor"),
+    ]);
+
+    assert.equal(
+      (await submitRefill(refillPayload("1000001", "HTTP-403"))).message,
+      "Authentication failed. Please contact support."
+    );
+  });
+});
+
+describe("submitTransferToBestRX", () => {
+  it("succeeds when the prescription was transferred (transferOk)", async () => {
+    assert.deepEqual(await submitTransfer(transferPayload("1000001"), MOCK_BESTRX_RESPONSES.transferOk), {
+      success: true,
+      message: "Transfer request submitted successfully",
+      data: MOCK_BESTRX_RESPONSES.transferOk.body,
+    });
+    assert.equal(extractTransferErrorMessage(MOCK_BESTRX_RESPONSES.transferOk.body), null);
+  });
+
+  it("fails when BestRX accepted the request but did not transfer (transferNotTransferred)", async () => {
+    assert.deepEqual(
+      await submitTransfer(transferPayload("1000001"), MOCK_BESTRX_RESPONSES.transferNotTransferred),
+      { success: false, message: "Unable to process transfer request. Please try again." }
+    );
+  });
+
+  it("fails with the mapped error code (transferErrorCode)", async () => {
+    const result = await submitTransfer(transferPayload("1000001"), MOCK_BESTRX_RESPONSES.transferErrorCode);
+    assert.deepEqual(result, { success: false, message: BESTRX_ERROR_CODES.ERROR0027 });
+    assert.equal(
+      extractTransferErrorMessage(MOCK_BESTRX_RESPONSES.transferErrorCode.body),
+      BESTRX_ERROR_CODES.ERROR0027
+    );
+  });
+
+  it("fails with BestRX's own message when there is no code (transferErrorMessage)", async () => {
+    const result = await submitTransfer(transferPayload("1000001"), MOCK_BESTRX_RESPONSES.transferErrorMessage);
+    assert.deepEqual(result, { success: false, message: "Transfer window closed" });
+  });
+
+  it("fails with a message for the HTTP status (forbidden, serverError)", async () => {
+    assert.deepEqual(await submitTransfer(transferPayload("1000001"), MOCK_BESTRX_RESPONSES.forbidden), {
+      success: false,
+      message: "Authentication failed. Please contact support.",
+    });
+    assert.deepEqual(await submitTransfer(transferPayload("1000001"), MOCK_BESTRX_RESPONSES.serverError), {
+      success: false,
+      message: "Service temporarily unavailable. Please try again later.",
+    });
+  });
+
+  it("responds to the Rx number submitted when nothing is queued", async () => {
+    assert.equal((await submitTransfer(transferPayload("1000001"))).success, true);
+    assert.equal((await submitTransfer(transferPayload("ERROR0080"))).message, BESTRX_ERROR_CODES.ERROR0080);
+    assert.equal((await submitTransfer(transferPayload("MSG-Pharmacy closed"))).message, "Pharmacy closed");
+    assert.equal(
+      (await submitTransfer(transferPayload("NOT-TRANSFERRED"))).message,
+      "Unable to process transfer request. Please try again."
+    );
+    assert.equal(
+      (await submitTransfer(transferPayload("HTTP-500"))).message,
+      "Service temporarily unavailable. Please try again later."
+    );
+  });
+
+  it("replays queued responses before responding by Rx number", async () => {
+    const transport = createMockBestRXTransport({ transfer: [MOCK_BESTRX_RESPONSES.transferErrorMessage] });
+    assert.equal((await submitTransferToBestRX(transferPayload("1000001"), AUTH, transport)).success, false);
+    assert.equal((await submitTransferToBestRX(transferPayload("1000001"), AUTH, transport)).success, true);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Med Sync scheduling
+ * Checks how medications are aligned onto the sync day, which fills make up
+ * each sync date's batch, and that a batch's request ID stays the same across
+ * runs so the med-sync-batch function never sends a refill twice.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { medSyncFillsFor, medSyncRequestId, nextSyncDate, planMedSync } from "../medSync.ts";
+import type { MedSyncMedication } from "../schemas.ts";
+
+const medication = (rxNumber: string, daysOnHand: number, daysSupply = 30, quantity = 30): MedSyncMedication => ({
+  rxNumber,
+  medicationName: `Medication ${rxNumber}`,
+  quantity,
+  daysSupply,
+  daysOnHand,
+});
+
+// Every sync date on the 15th from March 2026 through February 2027
+const SYNC_DATES = Array.from({ length: 12 }, (_, index) =>
+  new Date(Date.UTC(2026, 2 + index, 15)).toISOString().slice(0, 10)
+);
+
+describe("nextSyncDate", () => {
+  it("returns the sync day of the same month when it hasn't passed", () => {
+    assert.equal(nextSyncDate(15, "2026-03-10"), "2026-03-15");
+    assert.equal(nextSyncDate(15, "2026-03-15"), "2026-03-15");
+  });
+
+  it("moves to the next month once the sync day has passed", () => {
+    assert.equal(nextSyncDate(15, "2026-03-16"), "2026-04-15");
+    assert.equal(nextSyncDate(28, "2027-01-31"), "2027-02-28");
+  });
+
+  it("rolls over from December into January of the next year", () => {
+    assert.equal(nextSyncDate(15, "2026-12-20"), "2027-01-15");
+    assert.equal(nextSyncDate(1, "2026-12-02"), "2027-01-01");
+  });
+});
+
+describe("planMedSync", () => {
+  const plan = planMedSync(
+    [medication("1001", 18), medication("1002", 10), medication("1003", 30, 30, 60)],
+    15,
+    "2026-03-01"
+  );
+
+  it("refills a medication that runs out within the early refill window on the sync date", () => {
+    // Runs out on March 19, four days after the sync date
+    assert.equal(plan.items[0].alignedDate, "2026-03-15");
+    assert.equal(plan.items[0].shortFill, null);
+  });
+
+  it("short-fills a medication that would run out before the sync date", () => {
+    assert.equal(plan.items[2].alignedDate, "2026-04-15");
+    assert.deepEqual(plan.items[2].shortFill, { runsOut: "2026-03-31", days: 15, quantity: 30, sendOn: "2026-03-15" });
+  });
+
+  it("leaves sendOn null for a short fill due before the first batch", () => {
+    assert.equal(plan.items[1].alignedDate, "2026-03-15");
+    assert.deepEqual(plan.items[1].shortFill, { runsOut: "2026-03-11", days: 4, quantity: 4, sendOn: null });
+  });
+
+  it("is synced from the latest aligned date", () => {
+    assert.equal(plan.syncedFrom, "2026-04-15");
+  });
+
+  it("rounds a prorated short fill quantity up", () => {
+    const [item] = planMedSync([medication("1004", 20, 30, 45)], 1, "2026-03-01").items;
+    // Runs out March 21; 11 days until April 1 of 45 per 30 days is 16.5
+    assert.deepEqual(item.shortFill, { runsOut: "2026-03-21", days: 11, quantity: 17, sendOn: "2026-03-01" });
+  });
+});
+
+describe("medSyncFillsFor", () => {
+  const plan = planMedSync(
+    [medication("1001", 18), medication("1002", 10), medication("1003", 30, 30, 60)],
+    15,
+    "2026-03-01"
+  );
+
+  it("sends the regular fills due on the sync date and the short fills sent with them", () => {
+    assert.deepEqual(medSyncFillsFor(plan, "2026-03-15"), [
+      { rxNumber: "1001", medicationName: "Medication 1001", kind: "sync", days: 30, quantity: 30 },
+      { rxNumber: "1002", medicationName: "Medication 1002", kind: "sync", days: 30, quantity: 30 },
+      { rxNumber: "1003", medicationName: "Medication 1003", kind: "short", days: 15, quantity: 30 },
+    ]);
+  });
+
+  it("fills every medication together once they are synced", () => {
+    for (const syncDate of ["2026-04-15", "2026-12-15", "2027-01-15"]) {
+      assert.deepEqual(
+        medSyncFillsFor(plan, syncDate).map(({ rxNumber, kind }) => `${rxNumber}:${kind}`),
+        ["1001:sync", "1002:sync", "1003:sync"],
+        syncDate
+      );
+    }
+  });
+
+  it("never sends a short fill that is due before the first batch", () => {
+    const shortFills = SYNC_DATES.flatMap((syncDate) => medSyncFillsFor(plan, syncDate)).filter(
+      (fill) => fill.kind === "short"
+    );
+    assert.deepEqual(shortFills.map((fill) => fill.rxNumber), ["1003"]);
+  });
+
+  it("sends nothing on a date that isn't a sync date or comes before the supply date", () => {
+    assert.deepEqual(medSyncFillsFor(plan, "2026-03-16"), []);
+    assert.deepEqual(medSyncFillsFor(plan, "2026-02-15"), []);
+  });
+
+  it("repeats a 90-day supply every third month", () => {
+    const quarterly = planMedSync([medication("2001", 14, 90, 90)], 15, "2026-03-01");
+    assert.deepEqual(
+      SYNC_DATES.filter((syncDate) => medSyncFillsFor(quarterly, syncDate).length > 0),
+      ["2026-03-15", "2026-06-15", "2026-09-15", "2026-12-15"]
+    );
+  });
+
+  it("keeps a monthly fill on schedule across the new year", () => {
+    const monthly = planMedSync([medication("2002", 14)], 15, "2026-03-01");
+    assert.deepEqual(SYNC_DATES.filter((syncDate) => medSyncFillsFor(monthly, syncDate).length > 0), SYNC_DATES);
+  });
+});
+
+describe("medSyncRequestId", () => {
+  const enrollmentId = "6f1c2b7e-3d4a-4c5b-9e8f-0a1b2c3d4e5f";
+
+  it("is the same for every run of an enrollment's batch", async () => {
+    const requestId = await medSyncRequestId(enrollmentId, "2026-03-15");
+    assert.equal(await medSyncRequestId(enrollmentId, "2026-03-15"), requestId);
+    assert.equal(await medSyncRequestId(enrollmentId.toUpperCase(), "2026-03-15"), requestId);
+  });
+
+  it("differs between sync dates and enrollments", async () => {
+    const requestId = await medSyncRequestId(enrollmentId, "2026-03-15");
+    assert.notEqual(await medSyncRequestId(enrollmentId, "2026-04-15"), requestId);
+    assert.notEqual(await medSyncRequestId(crypto.randomUUID(), "2026-03-15"), requestId);
+  });
+
+  it("is formatted as a version 8 UUID", async () => {
+    assert.match(
+      await medSyncRequestId(enrollmentId, "2026-03-15"),
+      /^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+  });
+});
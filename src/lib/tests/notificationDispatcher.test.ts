@@ -0,0 +1,54 @@
+/**
+ * Notification dispatcher configuration
+ * Checks that the log-only stand-in transport is used only when asked for,
+ * so a deployment without a webhook refuses to notify instead of reporting
+ * notifications as sent.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createNotificationDispatchHandler, loadNotificationDispatcherConfig } from "../notificationDispatcher.ts";
+
+const SUPABASE_ENV: Record<string, string> = {
+  SUPABASE_URL: "https://project.supabase.co",
+  SUPABASE_ANON_KEY: "anon-key",
+};
+
+const envFrom = (env: Record<string, string>) => (name: string) => env[name];
+
+describe("loadNotificationDispatcherConfig", () => {
+  it("is not configured without a webhook", () => {
+    assert.equal(loadNotificationDispatcherConfig(envFrom(SUPABASE_ENV)), null);
+  });
+
+  it("uses the local transport only when asked for", () => {
+    const config = loadNotificationDispatcherConfig(envFrom({ ...SUPABASE_ENV, NOTIFICATIONS_TRANSPORT: "local" }));
+    assert.ok(config && "sent" in config.transport);
+  });
+
+  it("prefers the webhook when both are set", () => {
+    const config = loadNotificationDispatcherConfig(
+      envFrom({
+        ...SUPABASE_ENV,
+        NOTIFICATIONS_TRANSPORT: "local",
+        NOTIFICATIONS_WEBHOOK_URL: "https://relay.example.com",
+      })
+    );
+    assert.ok(config && !("sent" in config.transport));
+  });
+});
+
+describe("createNotificationDispatchHandler", () => {
+  it("answers 500 when notifications are not configured", async () => {
+    const handler = createNotificationDispatchHandler(loadNotificationDispatcherConfig(envFrom(SUPABASE_ENV)));
+    const response = await handler(
+      new Request("http://localhost/api/notify", {
+        method: "POST",
+        headers: { Authorization: "Bearer staff-jwt", "Content-Type": "application/json" },
+        body: JSON.stringify({ requestType: "refill", requestId: crypto.randomUUID() }),
+      })
+    );
+    assert.equal(response.status, 500);
+    assert.deepEqual(await response.json(), { success: false, message: "Notifications are not configured." });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * RPM reading ingestion handler
+ * Drives the rpm-ingest handler with a stand-in reading store, checking the
+ * ingestion token, request validation, and how the store's errors (including
+ * ingest_rpm_readings' Postgres errors) become responses.
+ */
+
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { RpmIngestError, createRpmIngestHandler, createSupabaseRpmReadingStore } from "../rpmIngest.ts";
+import type { RpmIngestCounts, RpmReadingStore } from "../rpmIngest.ts";
+import type { RpmReading } from "../schemas.ts";
+
+const TOKEN = "ingest-token-0123456789";
+
+const BATCH = {
+  serialNumber: "BP-0001",
+  readings: [
+    { type: "blood_pressure", measuredAt: "2026-03-01T08:00:00Z", systolic: 182, diastolic: 95, pulse: 70 },
+    { type: "blood_pressure", measuredAt: "2026-03-01T20:00:00Z", systolic: 128, diastolic: 82 },
+  ],
+};
+
+const ingestRequest = (body: unknown, authorization = `Bearer ${TOKEN}`) =>
+  new Request("http://localhost/api/rpm-ingest", {
+    method: "POST",
+    headers: { Authorization: authorization, "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+// Records what it was asked to store and answers with `result`
+function fakeStore(result: RpmIngestCounts | Error = { accepted: 2, duplicates: 0, flagged: 1 }) {
+  const calls: { serialNumber: string; readings: RpmReading[] }[] = [];
+  const store: RpmReadingStore = async (serialNumber, readings) => {
+    calls.push({ serialNumber, readings });
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  };
+  return { store, calls };
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("createRpmIngestHandler", () => {
+  it("stores a valid batch and reports the counts", async () => {
+    const { store, calls } = fakeStore();
+    const response = await createRpmIngestHandler({ token: TOKEN, store })(ingestRequest(BATCH));
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), {
+      success: true,
+      message: "Stored 2 readings.",
+      counts: { accepted: 2, duplicates: 0, flagged: 1 },
+    });
+    assert.deepEqual(calls, [{ serialNumber: "BP-0001", readings: BATCH.readings }]);
+  });
+
+  it("refuses a missing or wrong token without storing anything", async () => {
+    const { store, calls } = fakeStore();
+    const handler = createRpmIngestHandler({ token: TOKEN, store });
+    for (const authorization of ["", `Bearer ${TOKEN.slice(0, -1)}`, `Bearer ${TOKEN}0`, "Bearer other-token"]) {
+      const response = await handler(ingestRequest(BATCH, authorization));
+      assert.equal(response.status, 401, authorization);
+      assert.deepEqual(await response.json(), { success: false, message: "Invalid ingestion token." });
+    }
+    assert.equal(calls.length, 0);
+  });
+
+  it("answers 500 when ingestion is not configured", async () => {
+    mock.method(console, "error", () => {});
+    const response = await createRpmIngestHandler(null)(ingestRequest(BATCH));
+    assert.equal(response.status, 500);
+    assert.deepEqual(await response.json(), { success: false, message: "RPM ingestion is not configured." });
+  });
+
+  it("refuses a body that isn't a valid batch", async () => {
+    const { store, calls } = fakeStore();
+    const handler = createRpmIngestHandler({ token: TOKEN, store });
+
+    assert.equal((await handler(ingestRequest("not json"))).status, 400);
+
+    const response = await handler(ingestRequest({ ...BATCH, readings: [{ ...BATCH.readings[0], systolic: 20 }] }));
+    assert.equal(response.status, 422);
+    assert.match((await response.json()).message, /^Invalid readings: readings\.0\.systolic: /);
+    assert.equal(calls.length, 0);
+  });
+
+  it("answers 404 for an unknown device and 422 for readings the store rejects", async () => {
+    const unknown = fakeStore(new RpmIngestError("Unknown device BP-0001", "unknown_device"));
+    const unknownResponse = await createRpmIngestHandler({ token: TOKEN, store: unknown.store })(ingestRequest(BATCH));
+    assert.equal(unknownResponse.status, 404);
+    assert.deepEqual(await unknownResponse.json(), { success: false, message: "Unknown device BP-0001" });
+
+    const invalid = fakeStore(new RpmIngestError("Device BP-0001 is inactive", "invalid"));
+    const invalidResponse = await createRpmIngestHandler({ token: TOKEN, store: invalid.store })(ingestRequest(BATCH));
+    assert.equal(invalidResponse.status, 422);
+    assert.deepEqual(await invalidResponse.json(), { success: false, message: "Device BP-0001 is inactive" });
+  });
+
+  it("answers 502 when the store fails otherwise", async () => {
+    mock.method(console, "error", () => {});
+    const { store } = fakeStore(new Error("connection reset"));
+    const response = await createRpmIngestHandler({ token: TOKEN, store })(ingestRequest(BATCH));
+    assert.equal(response.status, 502);
+    assert.deepEqual(await response.json(), { success: false, message: "Unable to store readings." });
+  });
+});
+
+describe("createSupabaseRpmReadingStore", () => {
+  const store = createSupabaseRpmReadingStore("https://project.supabase.co", "service-role-key");
+
+  // Answers the RPC call the way PostgREST does when ingest_rpm_readings raises
+  const rejectWith = (code: string, message: string) =>
+    mock.method(globalThis, "fetch", async () => new Response(JSON.stringify({ code, message }), { status: 400 }));
+
+  it("sends the readings in the RPC's shape and returns its counts", async () => {
+    const fetchMock = mock.method(
+      globalThis,
+      "fetch",
+      async () => new Response(JSON.stringify({ accepted: 1, duplicates: 1, flagged: 0 }))
+    );
+    const counts = await store("GL-0001", [
+      { type: "glucose", measuredAt: "2026-03-01T08:00:00Z", glucoseMgDl: 110, context: "fasting" },
+      { type: "glucose", measuredAt: "2026-03-01T12:00:00Z", glucoseMgDl: 140 },
+    ]);
+    assert.deepEqual(counts, { accepted: 1, duplicates: 1, flagged: 0 });
+
+    const [url, init] = fetchMock.mock.calls[0].arguments as [string, RequestInit];
+    assert.equal(url, "https://project.supabase.co/rest/v1/rpc/ingest_rpm_readings");
+    assert.deepEqual(JSON.parse(init.body as string), {
+      p_serial_number: "GL-0001",
+      p_readings: [
+        { type: "glucose", measured_at: "2026-03-01T08:00:00Z", glucose_mg_dl: 110, glucose_context: "fasting" },
+        { type: "glucose", measured_at: "2026-03-01T12:00:00Z", glucose_mg_dl: 140, glucose_context: null },
+      ],
+    });
+  });
+
+  it("turns an unknown device into an RpmIngestError", async () => {
+    rejectWith("P0002", "Unknown device BP-0001");
+    await assert.rejects(store("BP-0001", []), { name: "RpmIngestError", kind: "unknown_device" });
+  });
+
+  it("turns an inactive device or a reading of the wrong type into an RpmIngestError", async () => {
+    rejectWith("22023", "Device BP-0001 only sends blood_pressure readings");
+    await assert.rejects(store("BP-0001", []), {
+      name: "RpmIngestError",
+      kind: "invalid",
+      message: "Device BP-0001 only sends blood_pressure readings",
+    });
+  });
+
+  it("passes other failures on as plain errors", async () => {
+    rejectWith("42501", "permission denied for function ingest_rpm_readings");
+    await assert.rejects(store("BP-0001", []), (error: Error) => !(error instanceof RpmIngestError));
+  });
+});
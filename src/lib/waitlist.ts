@@ -0,0 +1,105 @@
+/**
+ * RPM waitlist workflow
+ * active → contacted | enrolled, contacted → active | enrolled; enrolled is
+ * final and can then be converted into an RPM patient record.
+ * advance_waitlist_status() in 016_rpm_waitlist.sql enforces the same transitions.
+ */
+
+import type {
+  ContactMethod,
+  ContactOutcome,
+  InsuranceType,
+  RpmDeviceInterest,
+  WaitlistStatus,
+} from './schemas.ts';
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  active: 'Active',
+  contacted: 'Contacted',
+  enrolled: 'Enrolled',
+};
+
+export const WAITLIST_STATUS_TRANSITIONS: Record<WaitlistStatus, WaitlistStatus[]> = {
+  active: ['contacted', 'enrolled'],
+  contacted: ['active', 'enrolled'],
+  enrolled: [],
+};
+
+export const RPM_DEVICE_INTEREST_LABELS: Record<RpmDeviceInterest, string> = {
+  blood_pressure: 'Blood Pressure',
+  glucose: 'Glucose',
+  both: 'Blood Pressure & Glucose',
+};
+
+export const INSURANCE_TYPE_LABELS: Record<InsuranceType, string> = {
+  medicare: 'Medicare',
+  medicare_advantage: 'Medicare Advantage',
+  medicaid: 'Medicaid',
+  commercial: 'Commercial / Employer',
+  uninsured: 'Uninsured',
+  other: 'Other',
+};
+
+export const CONTACT_METHOD_LABELS: Record<ContactMethod, string> = {
+  phone: 'Phone',
+  sms: 'Text',
+  email: 'Email',
+};
+
+export const CONTACT_OUTCOME_LABELS: Record<ContactOutcome, string> = {
+  reached: 'Reached',
+  left_message: 'Left Message',
+  no_answer: 'No Answer',
+  wrong_number: 'Wrong Number',
+  declined: 'Declined',
+};
+
+export function canTransitionWaitlistStatus(from: WaitlistStatus, to: WaitlistStatus): boolean {
+  return WAITLIST_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * A waitlist_entries row as exported; extra columns are ignored
+ */
+export interface WaitlistCsvRow {
+  name: string;
+  email: string;
+  phone: string | null;
+  status: WaitlistStatus | null;
+  device_interest: RpmDeviceInterest | null;
+  insurance_type: InsuranceType | null;
+  notes: string | null;
+  created_at: string | null;
+}
+
+const WAITLIST_CSV_COLUMNS: { key: keyof WaitlistCsvRow; header: string }[] = [
+  { key: 'name', header: 'Name' },
+  { key: 'email', header: 'Email' },
+  { key: 'phone', header: 'Phone' },
+  { key: 'status', header: 'Status' },
+  { key: 'device_interest', header: 'Device Interest' },
+  { key: 'insurance_type', header: 'Insurance' },
+  { key: 'notes', header: 'Notes' },
+  { key: 'created_at', header: 'Joined' },
+];
+
+/**
+ * Quotes a CSV field when needed. Values starting with a formula character are
+ * prefixed with an apostrophe so spreadsheets show them as text.
+ */
+function toCsvField(value: string | null): string {
+  if (value === null) return '';
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds the waitlist CSV export: a header row, then one row per entry (RFC 4180, CRLF line endings)
+ */
+export function toWaitlistCsv(rows: WaitlistCsvRow[]): string {
+  const lines = [
+    WAITLIST_CSV_COLUMNS.map((column) => column.header).join(','),
+    ...rows.map((row) => WAITLIST_CSV_COLUMNS.map((column) => toCsvField(row[column.key])).join(',')),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,43 @@
+/**
+ * Outbox service worker
+ * Flushes queued refill requests (see lib/outboxDelivery.ts) when Background
+ * Sync reports connectivity, even if no page is open. It handles no fetches,
+ * so the site works the same with or without it.
+ */
+
+import { flushOutbox, OUTBOX_SYNC_TAG } from './lib/outboxDelivery';
+
+// tsconfig only includes the DOM lib, so declare the worker events used here
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+
+declare const self: {
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'sync', listener: (event: SyncEvent) => void): void;
+  skipWaiting(): Promise<void>;
+  clients: { claim(): Promise<void> };
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(self.skipWaiting());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    // A rejected promise tells the browser to retry the sync later
+    event.waitUntil(
+      flushOutbox().then(({ remaining }) => {
+        if (remaining > 0) throw new Error(`${remaining} outbox entries are still waiting`);
+      })
+    );
+  }
+});
@@ -0,0 +1,17 @@
+/**
+ * bestrx-proxy Edge Function
+ * Deploy: supabase functions deploy bestrx-proxy
+ * Secrets: supabase secrets set BESTRX_USERNAME=… BESTRX_API_KEY=… BESTRX_PASSWORD=… BESTRX_PHARMACY_NUMBER=…
+ * Local:   supabase functions serve bestrx-proxy --env-file .env
+ */
+
+import {
+  createBestRXProxyHandler,
+  loadBestRXProxyConfig,
+} from '../../../src/lib/bestrxProxy.ts';
+
+const handler = createBestRXProxyHandler(
+  loadBestRXProxyConfig((name) => Deno.env.get(name))
+);
+
+Deno.serve(handler);
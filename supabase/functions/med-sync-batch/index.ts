@@ -0,0 +1,12 @@
+/**
+ * med-sync-batch Edge Function
+ * Deploy: supabase functions deploy med-sync-batch
+ * Secrets: the bestrx-proxy function's BESTRX_* secrets
+ * Local:   supabase functions serve med-sync-batch --env-file .env
+ */
+
+import { createMedSyncBatchHandler, loadMedSyncBatchConfig } from '../../../src/lib/medSyncBatch.ts';
+
+const handler = createMedSyncBatchHandler(loadMedSyncBatchConfig((name) => Deno.env.get(name)));
+
+Deno.serve(handler);
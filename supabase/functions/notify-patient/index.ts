@@ -0,0 +1,18 @@
+/**
+ * notify-patient Edge Function
+ * Deploy: supabase functions deploy notify-patient
+ * Secrets: supabase secrets set NOTIFICATIONS_WEBHOOK_URL=… NOTIFICATIONS_WEBHOOK_TOKEN=…
+ *          (without the webhook URL the function answers 500 "Notifications are not configured.")
+ * Local:   supabase functions serve notify-patient --env-file .env
+ */
+
+import {
+  createNotificationDispatchHandler,
+  loadNotificationDispatcherConfig,
+} from '../../../src/lib/notificationDispatcher.ts';
+
+const handler = createNotificationDispatchHandler(
+  loadNotificationDispatcherConfig((name) => Deno.env.get(name))
+);
+
+Deno.serve(handler);
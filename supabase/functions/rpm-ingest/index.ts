@@ -0,0 +1,13 @@
+/**
+ * rpm-ingest Edge Function
+ * Deploy: supabase functions deploy rpm-ingest --no-verify-jwt
+ *         (devices authenticate with RPM_INGEST_TOKEN, not a Supabase JWT)
+ * Secrets: supabase secrets set RPM_INGEST_TOKEN=…
+ * Local:   supabase functions serve rpm-ingest --no-verify-jwt --env-file .env
+ */
+
+import { createRpmIngestHandler, loadRpmIngestConfig } from '../../../src/lib/rpmIngest.ts';
+
+const handler = createRpmIngestHandler(loadRpmIngestConfig((name) => Deno.env.get(name)));
+
+Deno.serve(handler);
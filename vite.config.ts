@@ -1,8 +1,117 @@
 
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin, type ViteDevServer } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
+import { createBestRXProxyHandler, loadBestRXProxyConfig } from './src/lib/bestrxProxy';
+import { createMockBestRXHandler } from './src/lib/bestrxMock';
+import { createNotificationDispatchHandler, loadNotificationDispatcherConfig } from './src/lib/notificationDispatcher';
+import { createRpmIngestHandler, loadRpmIngestConfig } from './src/lib/rpmIngest';
+import { createRpmSimulatorHandler } from './src/lib/rpmSimulator';
+import { createMedSyncBatchHandler, loadMedSyncBatchConfig } from './src/lib/medSyncBatch';
+
+// Mounts a fetch-style handler on the Vite dev server
+function mountFetchHandler(
+  server: ViteDevServer,
+  mountPath: string,
+  handler: (request: Request) => Promise<Response>
+) {
+  server.middlewares.use(mountPath, async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const request = new Request(`http://localhost${req.url ?? '/'}`, {
+      method: req.method,
+      headers: req.headers as Record<string, string>,
+      body: req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks),
+    });
+    const response = await handler(request);
+
+    res.statusCode = response.status;
+    response.headers.forEach((value, key) => res.setHeader(key, value));
+    res.end(await response.text());
+  });
+}
+
+// Serves the BestRX proxy at /api/bestrx during `vite dev`, reading BESTRX_* from .env.
+// Production uses the bestrx-proxy Supabase Edge Function instead.
+// The mock BestRX service is served at /api/bestrx-mock; point BESTRX_REFILL_URL and
+// BESTRX_TRANSFER_URL at it to develop without the live pharmacy system.
+function bestrxDevServer(env: Record<string, string>): Plugin {
+  return {
+    name: 'bestrx-dev-server',
+    apply: 'serve',
+    configureServer(server) {
+      mountFetchHandler(
+        server,
+        '/api/bestrx-mock',
+        createMockBestRXHandler()
+      );
+      mountFetchHandler(
+        server,
+        '/api/bestrx',
+        createBestRXProxyHandler(loadBestRXProxyConfig((name) => env[name]))
+      );
+    },
+  };
+}
+
+// Serves the patient notification dispatcher at /api/notify during `vite dev`.
+// Without NOTIFICATIONS_WEBHOOK_URL, notifications are logged to this terminal
+// (NOTIFICATIONS_TRANSPORT defaults to local here, and only here).
+// Production uses the notify-patient Supabase Edge Function instead.
+function notificationsDevServer(env: Record<string, string>): Plugin {
+  return {
+    name: 'notifications-dev-server',
+    apply: 'serve',
+    configureServer(server) {
+      mountFetchHandler(
+        server,
+        '/api/notify',
+        createNotificationDispatchHandler(
+          loadNotificationDispatcherConfig((name) =>
+            name === 'NOTIFICATIONS_TRANSPORT' ? env[name] ?? 'local' : env[name]
+          )
+        )
+      );
+    },
+  };
+}
+
+// Serves RPM reading ingestion at /api/rpm-ingest during `vite dev`, and the device
+// simulator at /api/rpm-simulator, which sends generated readings through it.
+// Needs RPM_INGEST_TOKEN and SUPABASE_SERVICE_ROLE_KEY in .env.
+// Production uses the rpm-ingest Supabase Edge Function instead.
+function rpmDevServer(env: Record<string, string>): Plugin {
+  return {
+    name: 'rpm-dev-server',
+    apply: 'serve',
+    configureServer(server) {
+      const ingest = createRpmIngestHandler(loadRpmIngestConfig((name) => env[name]));
+      mountFetchHandler(server, '/api/rpm-ingest', ingest);
+      mountFetchHandler(server, '/api/rpm-simulator', createRpmSimulatorHandler(ingest, env.RPM_INGEST_TOKEN));
+    },
+  };
+}
+
+// Serves the Med Sync batch at /api/med-sync-batch during `vite dev`, sending refills
+// with the BESTRX_* settings the BestRX proxy uses.
+// Production uses the med-sync-batch Supabase Edge Function instead.
+function medSyncDevServer(env: Record<string, string>): Plugin {
+  return {
+    name: 'med-sync-dev-server',
+    apply: 'serve',
+    configureServer(server) {
+      mountFetchHandler(
+        server,
+        '/api/med-sync-batch',
+        createMedSyncBatchHandler(loadMedSyncBatchConfig((name) => env[name]))
+      );
+    },
+  };
+}
 
 export default defineConfig(({ mode }) => {
   console.log('Vite mode:', mode);
@@ -16,16 +125,16 @@ export default defineConfig(({ mode }) => {
     plugins: [
       react(),
       tailwindcss(),
+      bestrxDevServer(env),
+      notificationsDevServer(env),
+      rpmDevServer(env),
+      medSyncDevServer(env),
     ],
     define: {
       'process.env.VITE_SUPABASE_URL': JSON.stringify(env.VITE_SUPABASE_URL),
       'process.env.DATABASE_URL': JSON.stringify(env.DATABASE_URL),
       'process.env.VITE_SUPABASE_PUBLISHABLE_DEFAULT_KEY': JSON.stringify(env.VITE_SUPABASE_PUBLISHABLE_DEFAULT_KEY),
       'process.env.VITE_SUPABASE_ANON_KEY': JSON.stringify(env.VITE_SUPABASE_ANON_KEY),
-      'process.env.BESTRX_API_KEY': JSON.stringify(env.BESTRX_API_KEY),
-      'process.env.BESTRX_USERNAME': JSON.stringify(env.BESTRX_USERNAME),
-      'process.env.BESTRX_PASSWORD': JSON.stringify(env.BESTRX_PASSWORD),
-      'process.env.BESTRX_PHARMACY_NUMBER': JSON.stringify(env.BESTRX_PHARMACY_NUMBER)
     },
     resolve: {
       alias: {
@@ -35,10 +144,16 @@ export default defineConfig(({ mode }) => {
     build: {
       chunkSizeWarningLimit: 1000,
       rollupOptions: {
+        input: {
+          main: path.resolve(__dirname, 'index.html'),
+          'outbox-sw': path.resolve(__dirname, 'src/outbox-sw.ts'),
+        },
         output: {
+          // The outbox service worker is registered by a fixed URL, so it keeps an unhashed name
+          entryFileNames: (chunk) => (chunk.name === 'outbox-sw' ? 'outbox-sw.js' : 'assets/[name]-[hash].js'),
           manualChunks: {
             'react-vendor': ['react', 'react-dom'],
-            'form-vendor': ['react-hook-form', 'zod'],
+            'form-vendor': ['react-hook-form', '@hookform/resolvers', 'zod'],
             'supabase-vendor': ['@supabase/supabase-js'],
           }
         }